@@ -8,6 +8,7 @@ import { TopNavigation } from './components/TopNavigation';
 import { DashboardNew } from './pages/DashboardNew';
 import { Environment } from './pages/Environment';
 import { Terminal } from './pages/Terminal';
+import { Recording } from './pages/Recording';
 import { Agents } from './pages/Agents';
 import { GitSettings } from './pages/GitSettings';
 import { Auth } from './pages/Auth';
@@ -36,6 +37,7 @@ function AuthenticatedApp() {
                     <Route path="/agents" element={<Agents />} />
                     <Route path="/environment/:environmentId" element={<Environment />} />
                     <Route path="/terminal/:sessionId" element={<Terminal />} />
+                    <Route path="/recordings/:sessionId/:recordingId" element={<Recording />} />
                     <Route path="/settings/git" element={<GitSettings />} />
                   </Routes>
                 </main>
@@ -114,11 +114,326 @@ export interface Environment {
   branch: string;
   containerId: string;
   status: 'running' | 'stopped' | 'starting' | 'error';
+  sandboxImage?: string;
+  resourceProfile?: ResourceProfileName;
+  resourceLimits?: ResourceLimits;
+  useSshClone?: boolean;
+  deployKeyFingerprint?: string;
+  lastFetchedAt?: string;
+  lastFetchError?: string;
   createdAt: string;
   updatedAt: string;
   sessions: Session[];
 }
 
+export interface RepositoryFetchStatus {
+  lastFetchedAt: string | null;
+  lastFetchError: string | null;
+  fetchFailures: number;
+  nextFetchAt: string | null;
+}
+
+export interface DeployKey {
+  publicKey: string;
+  fingerprint: string;
+  createdAt: string;
+}
+
+export type ResourceProfileName = 'small' | 'medium' | 'large' | 'custom';
+
+export interface ResourceLimits {
+  memory?: string;
+  cpus?: number;
+  pids?: number;
+  disk?: string;
+}
+
+export interface SessionPort {
+  port: number;
+  listening: boolean;
+  addresses: string[];
+  reachable: boolean;   // false when the server only binds to localhost
+  declared: boolean;    // listed in devcontainer forwardPorts
+  url?: string;         // absent while previews are disabled (no PREVIEW_BASE_URL)
+}
+
+export type TerminalAccess = 'read-write' | 'read-only';
+
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  access: TerminalAccess;
+  createdBy: string;
+  expiresAt: string | null;
+  createdAt: string;
+  token?: string;       // only returned when the link is created
+}
+
+export interface SharedSessionInfo {
+  sessionId: string;
+  sessionName: string | null;
+  environmentId: string;
+  ownerName: string;
+  access: TerminalAccess;
+  expiresAt: string | null;
+}
+
+export interface TerminalPresenceClient {
+  id: string;
+  userId: string;
+  name: string;
+  access: TerminalAccess;
+  isOwner: boolean;
+  connectedAt: string;
+}
+
+export interface Recording {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  duration: number | null;   // seconds
+  size: number;              // bytes
+  width: number | null;
+  height: number | null;
+  active: boolean;
+  truncated: boolean;        // cut off at the server's size limit
+}
+
+export interface TmuxPane {
+  id: number;
+  index: number;
+  active: boolean;
+  width: number;
+  height: number;
+  command: string;
+  cwd: string;
+}
+
+export interface TmuxWindow {
+  id: number;
+  index: number;
+  name: string;
+  active: boolean;
+  panes: TmuxPane[];
+}
+
+export interface WorkspaceEntry {
+  name: string;
+  path: string;              // Relative to /workspace
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface WorkspaceFile {
+  path: string;
+  size: number;
+  binary: boolean;
+  content: string | null;
+}
+
+export interface GitBranch {
+  name: string;              // 'feature/x', or 'origin/feature/x' for remote branches
+  remote: string | null;
+  commit: string;
+  committedAt: string;
+  subject: string;
+  ahead: number | null;      // Compared with the default branch
+  behind: number | null;
+  sessionId?: string | null; // Live session holding a local branch
+  sessionName?: string | null;
+}
+
+export interface GitBranchList {
+  defaultBranch: string;
+  local: GitBranch[];
+  remote: GitBranch[];
+}
+
+export type GitConflictType =
+  | 'both-modified'
+  | 'both-added'
+  | 'both-deleted'
+  | 'added-by-us'
+  | 'added-by-them'
+  | 'deleted-by-us'
+  | 'deleted-by-them';
+
+export interface GitConflict {
+  path: string;
+  type: GitConflictType;
+  base: string | null;       // Blob ids per index stage
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface GitOperationState {
+  operation: 'merge' | 'rebase' | null;
+  ours: string | null;       // Merge: current branch. Rebase: commit being rebased onto
+  theirs: string | null;     // Merge: commit being merged. Rebase: commit being replayed
+  progress: { current: number; total: number } | null;
+  conflicts: GitConflict[];
+}
+
+export interface GitSyncResult {
+  status: 'completed' | 'up-to-date' | 'conflicts';
+  head: string;
+  state: GitOperationState;
+  output: string;
+}
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'del';
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+  noNewline: boolean;
+}
+
+export interface DiffHunk {
+  id: string;
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section: string;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  path: string;
+  oldPath: string | null;
+  newPath: string | null;
+  status: 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+  binary: boolean;
+  oldMode: string | null;
+  newMode: string | null;
+  similarity: number | null;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface GitStashEntry {
+  index: number;
+  ref: string;               // 'stash@{0}'
+  commit: string;
+  branch: string | null;
+  message: string;
+  createdAt: string;
+  includesUntracked: boolean;
+}
+
+export interface StashApplyResult {
+  status: 'applied' | 'conflicts';
+  dropped: boolean;
+  conflicts: GitConflict[];
+  output: string;
+}
+
+export interface PullRequestRef {
+  number: number;
+  url: string;
+  created: boolean;          // false when an open PR for the branch already existed
+}
+
+export interface PullRequestCheck {
+  name: string;
+  state: 'success' | 'failure' | 'pending';
+  url: string | null;
+}
+
+export interface PullRequestStatus {
+  number: number;
+  url: string;
+  title: string;
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  head: string;
+  base: string;
+  mergeable: boolean | null;
+  reviews: {
+    decision: 'approved' | 'changes_requested' | 'review_required' | 'none';
+    approvals: number;
+    changesRequested: number;
+    reviewers: Array<{ login: string; state: 'approved' | 'changes_requested' | 'requested' }>;
+  };
+  checks: {
+    state: 'success' | 'failure' | 'pending' | 'none';
+    total: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    checks: PullRequestCheck[];
+  };
+  updatedAt: string;
+}
+
+export type GitProviderKind = 'github' | 'gitlab' | 'gitea' | 'generic';
+export type GitAuthType = 'oauth' | 'token' | 'password' | 'ssh_key';
+
+export interface GitProviderInfo {
+  kind: GitProviderKind;
+  displayName: string;
+  authTypes: GitAuthType[];
+  deviceFlow: boolean;
+  repositories: boolean;
+  pullRequests: boolean;
+}
+
+export interface GitProviderConnection {
+  id: string;                // 'github' for the built-in github.com account
+  provider: GitProviderKind;
+  name: string;
+  host: string;
+  baseUrl: string;
+  authType: GitAuthType;
+  username: string | null;
+  clientId: string | null;
+  connected: boolean;
+}
+
+export interface CreateGitConnectionInput {
+  provider: Exclude<GitProviderKind, 'github'>;
+  name: string;
+  baseUrl: string;
+  authType: GitAuthType;
+  username?: string;
+  clientId?: string;
+  secret?: string;           // token, password or SSH private key
+}
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface ProviderRepository {
+  id: string;
+  name: string;
+  fullName: string;
+  description: string | null;
+  htmlUrl: string;
+  cloneUrl: string;
+  sshUrl: string | null;
+  private: boolean;
+  defaultBranch: string | null;
+  updatedAt: string | null;
+}
+
+export interface SandboxSettings {
+  sandboxImage?: string | null;
+  resourceProfile?: ResourceProfileName;
+  resourceLimits?: ResourceLimits | null;
+  useSshClone?: boolean;
+}
+
 export interface Session {
   id: string;
   environmentId: string;
@@ -132,23 +447,75 @@ export interface Session {
   agentId?: string;
   sessionType: 'terminal' | 'agent';
   gitBranch?: string;
+  prNumber?: number;
+  prUrl?: string;
+  agentState?: AgentState;      // agent sessions only, see services/agent-watcher.ts
+  agentStateChangedAt?: string;
+}
+
+export type AgentState = 'working' | 'idle' | 'awaiting_input';
+
+export interface AgentNotificationSettings {
+  webhookUrl: string | null;
 }
 
+// MCP servers are declared per user, agent and environment and merged in that order
+export type McpServer =
+  | { type?: 'stdio'; command: string; args?: string[]; env?: Record<string, string>; disabled?: boolean }
+  | { type: 'http' | 'sse'; url: string; headers?: Record<string, string>; disabled?: boolean }
+  | { disabled: true };
+
+export type McpServerMap = Record<string, McpServer>;
+
+export type McpConfigScope =
+  | { level: 'user' }
+  | { level: 'agent'; id: string }
+  | { level: 'environment'; id: string };
+
+// Stands in for env values and headers in responses; send it back to keep the stored value
+export const MCP_SECRET_PLACEHOLDER = '********';
+
+const mcpScopePath = (scope: McpConfigScope) => {
+  switch (scope.level) {
+    case 'user': return 'user';
+    case 'agent': return `agents/${scope.id}`;
+    case 'environment': return `environments/${scope.id}`;
+  }
+};
+
+export type AgentType = 'claude-code' | 'gemini-cli' | 'qwen-coder' | 'cursor-cli';
+
 export interface Agent {
   id: string;
   userId: string;
   name: string;
-  type: 'claude-code' | 'gemini-cli' | 'qwen-coder' | 'cursor-cli';
+  type: AgentType;
   createdAt: string;
   updatedAt: string;
   credential?: AgentCredential;
 }
 
 export interface AgentCredential {
-  type: string; // oauth, anthropic_api_key, gemini_api_key, etc.
+  type: string; // one of the agent plugin's credentialTypes, e.g. anthropic_api_key
   value: string; // the actual credential value (decrypted when retrieved)
 }
 
+export interface AgentPluginInfo {
+  type: AgentType;
+  displayName: string;
+  binary: string;
+  credentialTypes: { type: string; label: string; kind: 'env' | 'file' }[];
+  supportsTokenSetup: boolean;
+  supportsMcp: boolean;
+}
+
+export interface AgentHealth {
+  installed: boolean;
+  version: string | null;
+  credentialType: string | null;
+  credentialPresent: boolean;
+}
+
 export interface Container {
   Id: string;
   Names: string[];
@@ -158,11 +525,11 @@ export interface Container {
 
 export const api = {
   // Environment management
-  async createEnvironment(userId: string, name: string, repositoryUrl?: string, branch = 'main'): Promise<Environment> {
+  async createEnvironment(userId: string, name: string, repositoryUrl?: string, branch = 'main', sandbox: SandboxSettings = {}): Promise<Environment> {
     const makeRequest = async () => fetch(`${API_BASE}/environments`, {
       method: 'POST',
       headers: getHeaders(),
-      body: JSON.stringify({ userId, name, repositoryUrl, branch }),
+      body: JSON.stringify({ userId, name, repositoryUrl, branch, ...sandbox }),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
@@ -200,6 +567,66 @@ export const api = {
     return response.json();
   },
 
+  async updateEnvironmentSandbox(environmentId: string, sandbox: SandboxSettings): Promise<Environment> {
+    const makeRequest = async () => fetch(`${API_BASE}/environments/${environmentId}`, {
+      method: 'PATCH',
+      headers: getHeaders(),
+      body: JSON.stringify(sandbox),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update environment' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to update environment');
+    }
+    return response.json();
+  },
+
+  async getDeployKey(environmentId: string): Promise<DeployKey> {
+    const makeRequest = async () => fetch(`${API_BASE}/environments/${environmentId}/deploy-key`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to get deploy key' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to get deploy key');
+    }
+    return response.json() as Promise<DeployKey>;
+  },
+
+  async rotateDeployKey(environmentId: string): Promise<DeployKey> {
+    const makeRequest = async () => fetch(`${API_BASE}/environments/${environmentId}/deploy-key/rotate`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to rotate deploy key' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to rotate deploy key');
+    }
+    return response.json() as Promise<DeployKey>;
+  },
+
+  async fetchEnvironmentRepository(environmentId: string): Promise<RepositoryFetchStatus> {
+    const makeRequest = async () => fetch(`${API_BASE}/environments/${environmentId}/fetch`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch repository' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to fetch repository');
+    }
+    return response.json() as Promise<RepositoryFetchStatus>;
+  },
+
   async deleteEnvironment(environmentId: string): Promise<void> {
     const makeRequest = async () => fetch(`${API_BASE}/environments/${environmentId}`, {
       method: 'DELETE',
@@ -312,150 +739,561 @@ export const api = {
     return response.json();
   },
 
-  async checkSessionStatus(sessionId: string): Promise<{
-    sessionId: string;
-    status: 'active' | 'inactive' | 'dead';
-    isRealtime: boolean;
-    checkedAt: string;
-  }> {
-    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/status`, {
+  async getSessionPorts(sessionId: string): Promise<{ ports: SessionPort[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/ports`, {
       headers: getHeaders(false),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
     
-    if (!response.ok) throw new Error('Failed to check session status');
+    if (!response.ok) throw new Error('Failed to list session ports');
     return response.json();
   },
 
-  async deleteSession(sessionId: string): Promise<void> {
-    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}`, {
-      method: 'DELETE',
+  async openPreview(sessionId: string, port: SessionPort): Promise<void> {
+    // The link carries a one-time code that the preview origin swaps for a cookie
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/ports/${port.port}/preview`, {
+      method: 'POST',
       headers: getHeaders(false),
     });
-    
+
     const response = await handleApiResponse(await makeRequest(), makeRequest);
-    
-    if (!response.ok) throw new Error('Failed to delete session');
-  },
 
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to open preview');
+    }
+    const { url } = await response.json() as { url: string };
+    window.open(url, '_blank', 'noopener,noreferrer');
+  },
 
-  // GitHub authentication
-  async initiateGitHubAuth(): Promise<{
-    device_code: string;
-    user_code: string;
-    verification_uri: string;
-    expires_in: number;
-    interval: number;
-  }> {
-    const makeRequest = async () => fetch(`${API_BASE}/auth/github/initiate`, {
-      method: 'POST',
-      headers: getHeaders(false), // No Content-Type since no body
+  // Terminal sharing
+  async getShareLinks(sessionId: string): Promise<{ shareLinks: ShareLink[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/share-links`, {
+      headers: getHeaders(false),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
     
-    if (!response.ok) throw new Error('Failed to initiate GitHub auth');
-    const result = await response.json();
-    return result.data;
+    if (!response.ok) throw new Error('Failed to list share links');
+    return response.json();
   },
 
-  async pollGitHubAuth(deviceCode: string, interval?: number): Promise<void> {
-    console.log(`[API Client] Polling GitHub auth - deviceCode: ${deviceCode.substring(0, 8)}..., interval: ${interval}`);
-    
-    const response = await fetch(`${API_BASE}/auth/github/poll`, {
+  async createShareLink(sessionId: string, access: TerminalAccess, expiresInHours?: number): Promise<ShareLink> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/share-links`, {
       method: 'POST',
       headers: getHeaders(),
-      body: JSON.stringify({ deviceCode, interval }),
+      body: JSON.stringify({ access, expiresInHours }),
     });
     
-    const result = await response.json();
-    console.log('[API Client] Poll response:', {
-      status: response.status,
-      ok: response.ok,
-      result: result
-    });
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
     
     if (!response.ok) {
-      console.log('[API Client] Response not OK, throwing error');
-      throw new Error(result.error || 'Authentication failed');
-    }
-    
-    // Check if the response indicates success
-    if (result.success === false) {
-      console.log(`[API Client] Success is false - pending: ${result.pending}, error: ${result.error}`);
-      // If it's pending, throw a specific error that the polling logic can handle
-      if (result.pending) {
-        throw new Error(result.error || 'authorization_pending');
-      }
-      throw new Error(result.error || 'Authentication failed');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create share link' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to create share link');
     }
-    
-    console.log('[API Client] Poll response indicates success!');
+    return response.json();
   },
 
-  async disconnectGitHub(): Promise<void> {
-    const makeRequest = async () => fetch(`${API_BASE}/auth/github/disconnect`, {
+  async deleteShareLink(sessionId: string, linkId: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/share-links/${linkId}`, {
       method: 'DELETE',
-      headers: getHeaders(false), // No Content-Type since no body
+      headers: getHeaders(false),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
     
-    if (!response.ok) throw new Error('Failed to disconnect GitHub');
+    if (!response.ok) throw new Error('Failed to revoke share link');
   },
 
-  async getGitHubStatus(): Promise<{ connected: boolean; username?: string }> {
-    const makeRequest = async () => fetch(`${API_BASE}/auth/github/status`, {
-      headers: getHeaders(false), // No Content-Type since no body
+  async resolveShareLink(token: string): Promise<SharedSessionInfo> {
+    const makeRequest = async () => fetch(`${API_BASE}/terminal/share/${encodeURIComponent(token)}`, {
+      headers: getHeaders(false),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
     
-    if (!response.ok) throw new Error('Failed to get GitHub status');
-    const result = await response.json();
-    return result.data;
+    if (!response.ok) throw new Error('Share link not found or expired');
+    return response.json();
   },
 
-  async listGitHubRepos(params?: { page?: number; per_page?: number; sort?: string }): Promise<{
-    repositories: Array<{
-      id: number;
-      name: string;
-      full_name: string;
-      description: string;
-      html_url: string;
-      clone_url: string;
-      ssh_url: string;
-      private: boolean;
-      default_branch: string;
-      updated_at: string;
-      language: string;
-      stargazers_count: number;
-      open_issues_count: number;
-    }>;
-    page: number;
-    per_page: number;
-    total_count: number;
-  }> {
-    const queryParams = new URLSearchParams();
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.per_page) queryParams.append('per_page', params.per_page.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const makeRequest = async () => fetch(`${API_BASE}/auth/github/repos?${queryParams}`, {
-      headers: getHeaders(false), // No Content-Type since no body
+  getShareUrl(sessionId: string, token: string): string {
+    return `${window.location.origin}/terminal/${sessionId}?share=${encodeURIComponent(token)}`;
+  },
+
+  // Terminal recordings (asciicast v2)
+  async getRecordings(sessionId: string): Promise<{ enabled: boolean; recordings: Recording[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/recordings`, {
+      headers: getHeaders(false),
     });
     
     const response = await handleApiResponse(await makeRequest(), makeRequest);
     
-    if (!response.ok) throw new Error('Failed to list GitHub repositories');
-    const result = await response.json();
-    return result.data;
+    if (!response.ok) throw new Error('Failed to list recordings');
+    return response.json();
   },
 
-  // Git operations (now session-based)
-  async gitCommit(sessionId: string, message: string, files?: string[]): Promise<any> {
-    const makeRequest = async () => fetch(`${API_BASE}/git/commit/${sessionId}`, {
+  async setRecording(sessionId: string, enabled: boolean): Promise<{ enabled: boolean; activeRecordingId: string | null }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/recording`, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify({ enabled }),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to update recording setting');
+    return response.json();
+  },
+
+  async getRecordingCast(sessionId: string, recordingId: string): Promise<string> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/recordings/${recordingId}`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to load recording');
+    return response.text();
+  },
+
+  async downloadRecording(sessionId: string, recordingId: string): Promise<void> {
+    const cast = await api.getRecordingCast(sessionId, recordingId);
+    const url = URL.createObjectURL(new Blob([cast], { type: 'application/x-asciicast' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recordingId}.cast`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
+  async deleteRecording(sessionId: string, recordingId: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/recordings/${recordingId}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete recording' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to delete recording');
+    }
+  },
+
+  async getWindows(sessionId: string): Promise<{ windows: TmuxWindow[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/windows`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to list windows');
+    return response.json();
+  },
+
+  async windowAction(
+    sessionId: string,
+    path: string,
+    method: 'POST' | 'PATCH' | 'DELETE',
+    body?: Record<string, unknown>
+  ): Promise<any> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/windows${path}`, {
+      method,
+      headers: getHeaders(!!body),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Window operation failed' }));
+      throw new Error(errorData.details || errorData.error || 'Window operation failed');
+    }
+    return response.json();
+  },
+
+  async createWindow(sessionId: string, name?: string): Promise<{ window: TmuxWindow }> {
+    return api.windowAction(sessionId, '', 'POST', name ? { name } : {});
+  },
+
+  async renameWindow(sessionId: string, windowId: number, name: string): Promise<{ window: TmuxWindow }> {
+    return api.windowAction(sessionId, `/${windowId}`, 'PATCH', { name });
+  },
+
+  async deleteWindow(sessionId: string, windowId: number): Promise<void> {
+    await api.windowAction(sessionId, `/${windowId}`, 'DELETE');
+  },
+
+  async selectWindow(sessionId: string, windowId: number): Promise<void> {
+    await api.windowAction(sessionId, `/${windowId}/select`, 'POST');
+  },
+
+  async splitPane(sessionId: string, windowId: number, direction: 'horizontal' | 'vertical'): Promise<{ pane: TmuxPane }> {
+    return api.windowAction(sessionId, `/${windowId}/panes`, 'POST', { direction });
+  },
+
+  async deletePane(sessionId: string, windowId: number, paneId: number): Promise<void> {
+    await api.windowAction(sessionId, `/${windowId}/panes/${paneId}`, 'DELETE');
+  },
+
+  async selectPane(sessionId: string, windowId: number, paneId: number): Promise<void> {
+    await api.windowAction(sessionId, `/${windowId}/panes/${paneId}/select`, 'POST');
+  },
+
+  async listFiles(sessionId: string, path = ''): Promise<{ path: string; entries: WorkspaceEntry[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files?path=${encodeURIComponent(path)}`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to list files' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to list files');
+    }
+    return response.json();
+  },
+
+  async readFile(sessionId: string, path: string): Promise<WorkspaceFile> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files/content?path=${encodeURIComponent(path)}`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to read file' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to read file');
+    }
+    return response.json();
+  },
+
+  async writeFile(sessionId: string, path: string, content: string): Promise<{ path: string; size: number }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files/content`, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify({ path, content }),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to save file' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to save file');
+    }
+    return response.json();
+  },
+
+  async renameFile(sessionId: string, from: string, to: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files/rename`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ from, to }),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to rename' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to rename');
+    }
+  },
+
+  async deleteFile(sessionId: string, path: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files?path=${encodeURIComponent(path)}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to delete');
+    }
+  },
+
+  async uploadFile(sessionId: string, path: string, file: Blob): Promise<{ path: string; size: number }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files/upload?path=${encodeURIComponent(path)}`, {
+      method: 'PUT',
+      headers: getHeaders(false, { 'Content-Type': 'application/octet-stream' }),
+      body: file,
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to upload file' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to upload file');
+    }
+    return response.json();
+  },
+
+  async downloadArchive(sessionId: string, path: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/files/archive?path=${encodeURIComponent(path)}`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to download archive');
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${path.split('/').pop() || 'workspace'}.tar`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+
+  async checkSessionStatus(sessionId: string): Promise<{
+    sessionId: string;
+    status: 'active' | 'inactive' | 'dead';
+    isRealtime: boolean;
+    checkedAt: string;
+  }> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}/status`, {
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to check session status');
+    return response.json();
+  },
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to delete session');
+  },
+
+
+  // GitHub authentication
+  async initiateGitHubAuth(): Promise<{
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+  }> {
+    const makeRequest = async () => fetch(`${API_BASE}/auth/github/initiate`, {
+      method: 'POST',
+      headers: getHeaders(false), // No Content-Type since no body
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to initiate GitHub auth');
+    const result = await response.json();
+    return result.data;
+  },
+
+  async pollGitHubAuth(deviceCode: string, interval?: number): Promise<void> {
+    console.log(`[API Client] Polling GitHub auth - deviceCode: ${deviceCode.substring(0, 8)}..., interval: ${interval}`);
+    
+    const response = await fetch(`${API_BASE}/auth/github/poll`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ deviceCode, interval }),
+    });
+    
+    const result = await response.json();
+    console.log('[API Client] Poll response:', {
+      status: response.status,
+      ok: response.ok,
+      result: result
+    });
+    
+    if (!response.ok) {
+      console.log('[API Client] Response not OK, throwing error');
+      throw new Error(result.error || 'Authentication failed');
+    }
+    
+    // Check if the response indicates success
+    if (result.success === false) {
+      console.log(`[API Client] Success is false - pending: ${result.pending}, error: ${result.error}`);
+      // If it's pending, throw a specific error that the polling logic can handle
+      if (result.pending) {
+        throw new Error(result.error || 'authorization_pending');
+      }
+      throw new Error(result.error || 'Authentication failed');
+    }
+    
+    console.log('[API Client] Poll response indicates success!');
+  },
+
+  async disconnectGitHub(): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/auth/github/disconnect`, {
+      method: 'DELETE',
+      headers: getHeaders(false), // No Content-Type since no body
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to disconnect GitHub');
+  },
+
+  async getGitHubStatus(): Promise<{ connected: boolean; username?: string }> {
+    const makeRequest = async () => fetch(`${API_BASE}/auth/github/status`, {
+      headers: getHeaders(false), // No Content-Type since no body
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to get GitHub status');
+    const result = await response.json();
+    return result.data;
+  },
+
+  async listGitHubRepos(params?: { page?: number; per_page?: number; sort?: string }): Promise<{
+    repositories: Array<{
+      id: number;
+      name: string;
+      full_name: string;
+      description: string;
+      html_url: string;
+      clone_url: string;
+      ssh_url: string;
+      private: boolean;
+      default_branch: string;
+      updated_at: string;
+      language: string;
+      stargazers_count: number;
+      open_issues_count: number;
+    }>;
+    page: number;
+    per_page: number;
+    total_count: number;
+  }> {
+    const queryParams = new URLSearchParams();
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.per_page) queryParams.append('per_page', params.per_page.toString());
+    if (params?.sort) queryParams.append('sort', params.sort);
+    
+    const makeRequest = async () => fetch(`${API_BASE}/auth/github/repos?${queryParams}`, {
+      headers: getHeaders(false), // No Content-Type since no body
+    });
+    
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    
+    if (!response.ok) throw new Error('Failed to list GitHub repositories');
+    const result = await response.json();
+    return result.data;
+  },
+
+  // Git provider connections (GitHub, GitLab, Gitea, plain git servers)
+  async listGitProviders(): Promise<{ providers: GitProviderInfo[]; connections: GitProviderConnection[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to list git providers' }));
+      throw new Error(errorData.error || 'Failed to list git providers');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async createGitConnection(input: CreateGitConnectionInput): Promise<GitProviderConnection> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers/connections`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to add connection' }));
+      throw new Error(errorData.error || 'Failed to add connection');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async deleteGitConnection(connectionId: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers/connections/${connectionId}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to remove connection' }));
+      throw new Error(errorData.error || 'Failed to remove connection');
+    }
+  },
+
+  async startGitConnectionDeviceFlow(connectionId: string): Promise<DeviceAuthorization> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers/connections/${connectionId}/device`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to start authorization' }));
+      throw new Error(errorData.error || 'Failed to start authorization');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  // Resolves with the connection once authorized, null while still pending
+  async pollGitConnectionDeviceFlow(connectionId: string, deviceCode: string): Promise<GitProviderConnection | null> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers/connections/${connectionId}/device/poll`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ deviceCode }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+    const result = await response.json().catch(() => ({ error: 'Authorization failed' }));
+
+    if (result.pending) return null;
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Authorization failed');
+    }
+    return result.data;
+  },
+
+  async listProviderRepositories(
+    connectionId: string,
+    params: { page?: number; per_page?: number; search?: string } = {}
+  ): Promise<ProviderRepository[]> {
+    const queryParams = new URLSearchParams();
+    if (params.page) queryParams.append('page', params.page.toString());
+    if (params.per_page) queryParams.append('per_page', params.per_page.toString());
+    if (params.search) queryParams.append('search', params.search);
+
+    const makeRequest = async () => fetch(`${API_BASE}/git/providers/connections/${connectionId}/repos?${queryParams}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to list repositories' }));
+      throw new Error(errorData.error || 'Failed to list repositories');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  // Git operations (now session-based)
+  async gitCommit(sessionId: string, message: string, files?: string[]): Promise<any> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/commit/${sessionId}`, {
       method: 'POST',
       headers: getHeaders(),
       body: JSON.stringify({ message, files }),
@@ -515,6 +1353,7 @@ export const api = {
 
   async gitDiff(sessionId: string, file?: string, staged?: boolean): Promise<{
     diff: string;
+    files: DiffFile[];
     file: string | null;
     staged: boolean;
   }> {
@@ -575,6 +1414,302 @@ export const api = {
     return result.data;
   },
 
+  async listBranches(environmentId: string, fetchRemote = false): Promise<GitBranchList> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/branches/${environmentId}${fetchRemote ? '?fetch=true' : ''}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to list branches' }));
+      throw new Error(errorData.error || 'Failed to list branches');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async createBranch(environmentId: string, branchName: string, fromRef?: string): Promise<{ name: string; commit: string }> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/branches/${environmentId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ branchName, fromRef }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create branch' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to create branch');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async renameBranch(environmentId: string, from: string, to: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/branches/${environmentId}/rename`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ from, to }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to rename branch' }));
+      throw new Error(errorData.message || errorData.details || errorData.error || 'Failed to rename branch');
+    }
+  },
+
+  async deleteBranch(environmentId: string, name: string, force = false): Promise<void> {
+    const params = new URLSearchParams({ name });
+    if (force) params.append('force', 'true');
+
+    const makeRequest = async () => fetch(`${API_BASE}/git/branches/${environmentId}?${params}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to delete branch' }));
+      throw new Error(errorData.message || errorData.error || 'Failed to delete branch');
+    }
+  },
+
+  async switchBranch(
+    sessionId: string,
+    branch: string,
+    options: { create?: boolean; fromRef?: string } = {}
+  ): Promise<{ branch: string; previousBranch: string }> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/switch/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ branch, ...options }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to switch branch' }));
+      throw new Error(errorData.message || errorData.details || errorData.error || 'Failed to switch branch');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async gitFetch(sessionId: string): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/fetch/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch' }));
+      throw new Error(errorData.error || 'Failed to fetch');
+    }
+  },
+
+  async gitPull(sessionId: string, mode: 'merge' | 'rebase' = 'merge'): Promise<GitSyncResult> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/pull/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ mode }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to pull' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to pull');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async gitRebase(sessionId: string): Promise<GitSyncResult> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/rebase/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to rebase' }));
+      throw new Error(errorData.error || 'Failed to rebase');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getGitConflicts(sessionId: string): Promise<GitOperationState> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/conflicts/${sessionId}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to get conflicts' }));
+      throw new Error(errorData.error || 'Failed to get conflicts');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async gitSyncAction(sessionId: string, action: 'continue' | 'skip' | 'abort'): Promise<GitSyncResult> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/${action}/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: `Failed to ${action}` }));
+      throw new Error(errorData.error || `Failed to ${action}`);
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async applyHunks(
+    sessionId: string,
+    action: HunkAction,
+    file: string,
+    hunks: Array<{ id: string; lines?: number[] }>
+  ): Promise<{ file: string; unstaged: DiffFile | null; staged: DiffFile | null }> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/${action}-hunks/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ file, hunks }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: `Failed to ${action} changes` }));
+      throw new Error(errorData.error || `Failed to ${action} changes`);
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async listStashes(sessionId: string): Promise<GitStashEntry[]> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/stash/${sessionId}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to list stashes' }));
+      throw new Error(errorData.error || 'Failed to list stashes');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async pushStash(sessionId: string, options: { message?: string; includeUntracked?: boolean } = {}): Promise<GitStashEntry> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/stash/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify(options),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to stash changes' }));
+      throw new Error(errorData.error || 'Failed to stash changes');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async showStash(sessionId: string, entry: GitStashEntry): Promise<{ entry: GitStashEntry; diff: string; files: DiffFile[] }> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/stash/${sessionId}/${entry.index}?commit=${entry.commit}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to show stash' }));
+      throw new Error(errorData.error || 'Failed to show stash');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async applyStash(sessionId: string, entry: GitStashEntry, pop = false): Promise<StashApplyResult> {
+    const action = pop ? 'pop' : 'apply';
+    const makeRequest = async () => fetch(`${API_BASE}/git/stash/${sessionId}/${entry.index}/${action}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ commit: entry.commit }),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: `Failed to ${action} stash` }));
+      throw new Error(errorData.error || `Failed to ${action} stash`);
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async dropStash(sessionId: string, entry: GitStashEntry): Promise<void> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/stash/${sessionId}/${entry.index}?commit=${entry.commit}`, {
+      method: 'DELETE',
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to drop stash' }));
+      throw new Error(errorData.error || 'Failed to drop stash');
+    }
+  },
+
+  async createPullRequest(sessionId: string, input: { title: string; body?: string; draft?: boolean }): Promise<PullRequestRef> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/pull-request/${sessionId}`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify(input),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create pull request' }));
+      throw new Error(errorData.error || 'Failed to create pull request');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getPullRequest(sessionId: string): Promise<PullRequestStatus | null> {
+    const makeRequest = async () => fetch(`${API_BASE}/git/pull-request/${sessionId}`, {
+      headers: getHeaders(false),
+    });
+
+    const response = await handleApiResponse(await makeRequest(), makeRequest);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to get pull request' }));
+      throw new Error(errorData.error || 'Failed to get pull request');
+    }
+    const result = await response.json();
+    return result.data;
+  },
+
   // Deployment
   async deploy(environmentId: string, appId: string, branch = 'main'): Promise<any> {
     const response = await fetch(`${API_BASE}/deployment/deploy`, {
@@ -588,18 +1723,90 @@ export const api = {
   },
 
   // Agent management
-  async createAgent(userId: string, name: string, type: 'claude-code' | 'gemini-cli' | 'qwen-coder', credential?: AgentCredential): Promise<Agent> {
-    // Note: Keep signature backward compatible for existing callers; 'cursor-cli' will be passed through at runtime
+  async getAgentPlugins(): Promise<AgentPluginInfo[]> {
+    const response = await fetch(`${API_BASE}/agents/plugins`, {
+      headers: getHeaders(false),
+    });
+
+    if (!response.ok) throw new Error('Failed to get agent types');
+    const result = await response.json() as { plugins: AgentPluginInfo[] };
+    return result.plugins;
+  },
+
+  async createAgent(userId: string, name: string, type: AgentType, credential?: AgentCredential): Promise<Agent> {
     const response = await fetch(`${API_BASE}/agents`, {
       method: 'POST',
       headers: getHeaders(),
       body: JSON.stringify({ userId, name, type, credential }),
     });
     
-    if (!response.ok) throw new Error('Failed to create agent');
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to create agent' }));
+      throw new Error(typeof errorData.error === 'string' ? errorData.error : 'Failed to create agent');
+    }
     return response.json();
   },
 
+  async getAgentNotifications(): Promise<AgentNotificationSettings> {
+    const response = await fetch(`${API_BASE}/agents/notifications`, {
+      headers: getHeaders(false),
+    });
+
+    if (!response.ok) throw new Error('Failed to get notification settings');
+    return response.json() as Promise<AgentNotificationSettings>;
+  },
+
+  async updateAgentNotifications(settings: AgentNotificationSettings): Promise<AgentNotificationSettings> {
+    const response = await fetch(`${API_BASE}/agents/notifications`, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify(settings),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update notification settings' }));
+      throw new Error(errorData.details?.[0]?.message || errorData.error || 'Failed to update notification settings');
+    }
+    return response.json() as Promise<AgentNotificationSettings>;
+  },
+
+  async getMcpServers(scope: McpConfigScope): Promise<McpServerMap> {
+    const response = await fetch(`${API_BASE}/mcp-servers/${mcpScopePath(scope)}`, {
+      headers: getHeaders(false),
+    });
+
+    if (!response.ok) throw new Error('Failed to get MCP servers');
+    const result = await response.json() as { servers: McpServerMap };
+    return result.servers;
+  },
+
+  async updateMcpServers(scope: McpConfigScope, servers: McpServerMap): Promise<McpServerMap> {
+    const response = await fetch(`${API_BASE}/mcp-servers/${mcpScopePath(scope)}`, {
+      method: 'PUT',
+      headers: getHeaders(),
+      body: JSON.stringify({ servers }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update MCP servers' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to update MCP servers');
+    }
+    const result = await response.json() as { servers: McpServerMap };
+    return result.servers;
+  },
+
+  async getAgentHealth(agentId: string, environmentId: string): Promise<AgentHealth> {
+    const response = await fetch(`${API_BASE}/agents/${agentId}/health?environmentId=${encodeURIComponent(environmentId)}`, {
+      headers: getHeaders(false),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to check agent' }));
+      throw new Error(errorData.details || errorData.error || 'Failed to check agent');
+    }
+    return response.json() as Promise<AgentHealth>;
+  },
+
   async startAgentSetup(agentId: string, environmentId: string): Promise<{ sessionId: string; containerHome: string }> {
     const response = await fetch(`${API_BASE}/agents/${agentId}/setup/start`, {
       method: 'POST',
@@ -616,7 +1823,10 @@ export const api = {
       headers: getHeaders(),
       body: JSON.stringify(token ? { token } : {}),
     });
-    if (!response.ok) throw new Error('Failed to ingest agent credentials');
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to ingest agent credentials' }));
+      throw new Error(errorData.error || 'Failed to ingest agent credentials');
+    }
   },
 
   async getUserAgents(userId: string): Promise<{ agents: Agent[] }> {
@@ -644,7 +1854,10 @@ export const api = {
       body: JSON.stringify(updates),
     });
     
-    if (!response.ok) throw new Error('Failed to update agent');
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Failed to update agent' }));
+      throw new Error(errorData.error || 'Failed to update agent');
+    }
     return response.json();
   },
 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Plus, Settings, Trash2, Eye, EyeOff } from 'lucide-react';
+import { Plus, Settings, Trash2, Eye, EyeOff, Plug } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
@@ -10,9 +10,10 @@ import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Textarea } from './ui/textarea';
 import { Separator } from './ui/separator';
-import { api, Agent, AgentCredential } from '../api/client.ts';
+import { api, Agent, AgentCredential, AgentType } from '../api/client.ts';
 import { toast } from './ui/use-toast';
 import { InlineTerminal } from './InlineTerminal';
+import { McpServersEditor } from './McpServersEditor';
 
 interface AgentListProps {
   userId: string;
@@ -21,13 +22,23 @@ interface AgentListProps {
 export function AgentList({ userId }: AgentListProps) {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
+  const [mcpAgent, setMcpAgent] = useState<Agent | null>(null);
   const [showCredential, setShowCredential] = useState<Record<string, boolean>>({});
   const [setupAgent, setSetupAgent] = useState<Agent | null>(null);
   const [setupEnvId, setSetupEnvId] = useState<string>('');
   const [setupSessionId, setSetupSessionId] = useState<string>('');
   const [detectedToken, setDetectedToken] = useState<string>('');
+  const [createType, setCreateType] = useState<AgentType | ''>('');
   const queryClient = useQueryClient();
 
+  // Agent types and the credentials each accepts (services/agent-plugins.ts)
+  const { data: plugins } = useQuery({
+    queryKey: ['agent-plugins'],
+    queryFn: () => api.getAgentPlugins(),
+    staleTime: Infinity,
+  });
+  const credentialTypesFor = (type: string) => plugins?.find(plugin => plugin.type === type)?.credentialTypes ?? [];
+
   // Fetch user agents
   const { data: agentsData, isLoading } = useQuery({
     queryKey: ['agents', userId],
@@ -36,7 +47,7 @@ export function AgentList({ userId }: AgentListProps) {
 
   // Create agent mutation
   const createAgentMutation = useMutation({
-    mutationFn: (data: { name: string; type: 'claude-code' | 'gemini-cli' | 'qwen-coder' | 'cursor-cli'; credential?: AgentCredential }) =>
+    mutationFn: (data: { name: string; type: AgentType; credential?: AgentCredential }) =>
       api.createAgent(userId, data.name, data.type, data.credential),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['agents', userId] });
@@ -84,7 +95,7 @@ export function AgentList({ userId }: AgentListProps) {
 
   const handleCreateAgent = (formData: FormData) => {
     const name = formData.get('name') as string;
-    const type = formData.get('type') as 'claude-code' | 'gemini-cli' | 'qwen-coder' | 'cursor-cli';
+    const type = formData.get('type') as AgentType;
     const credentialType = formData.get('credentialType') as string;
     const credentialValue = formData.get('credentialValue') as string;
 
@@ -128,15 +139,11 @@ export function AgentList({ userId }: AgentListProps) {
     }
   };
 
-  const getCredentialTypeBadge = (type: string | null) => {
+  const getCredentialTypeBadge = (agentType: string, type: string | null) => {
     if (!type) return <Badge variant="outline">No Credential</Badge>;
     
-    switch (type) {
-      case 'anthropic_api_key': return <Badge>API Key</Badge>;
-      case 'oauth': return <Badge variant="secondary">OAuth</Badge>;
-      case 'gemini_api_key': return <Badge>Gemini Key</Badge>;
-      default: return <Badge variant="outline">{type}</Badge>;
-    }
+    const label = credentialTypesFor(agentType).find(candidate => candidate.type === type)?.label;
+    return <Badge variant={label ? 'default' : 'outline'}>{label ?? type}</Badge>;
   };
 
   if (isLoading) {
@@ -174,14 +181,14 @@ export function AgentList({ userId }: AgentListProps) {
                 const form = e.currentTarget as HTMLFormElement;
                 const formData = new FormData(form);
                 const name = formData.get('name') as string;
-                const type = formData.get('type') as 'claude-code' | 'gemini-cli' | 'qwen-coder' | 'cursor-cli';
+                const type = formData.get('type') as AgentType;
                 const credentialType = formData.get('credentialType') as string;
                 const credentialValue = formData.get('credentialValue') as string;
                 const envId = formData.get('setupEnv') as string | null;
                 try {
                   const created = await api.createAgent(userId, name, type, credentialType && credentialValue ? { type: credentialType, value: credentialValue } : undefined);
-                  // If type is claude-code and an environment is chosen, immediately launch inline setup
-                  if (type === 'claude-code' && envId) {
+                  // If an environment is chosen and no credential given, immediately launch inline setup
+                  if (envId && !(credentialType && credentialValue)) {
                     setCreateDialogOpen(false);
                     setSetupAgent(created as any);
                     setSetupEnvId(envId);
@@ -208,22 +215,23 @@ export function AgentList({ userId }: AgentListProps) {
               
               <div className="space-y-2">
                 <Label htmlFor="type">Agent Type</Label>
-                <Select name="type" required>
+                <Select name="type" required onValueChange={(value) => setCreateType(value as AgentType)}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select agent type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="claude-code">🤖 Claude Code</SelectItem>
-                    <SelectItem value="gemini-cli">💎 Gemini CLI</SelectItem>
-                    <SelectItem value="qwen-coder">🧠 Qwen Coder</SelectItem>
-                    <SelectItem value="cursor-cli">🖱️ Cursor CLI</SelectItem>
+                    {(plugins || []).map(plugin => (
+                      <SelectItem key={plugin.type} value={plugin.type}>
+                        {getAgentTypeIcon(plugin.type)} {plugin.displayName}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              {/* Optional immediate setup environment for Claude */}
+              {/* Optional immediate setup: the agent's own login in a terminal */}
               <div className="space-y-2">
-                <Label htmlFor="setupEnv">Setup Environment (Claude only)</Label>
+                <Label htmlFor="setupEnv">Setup Environment (Optional)</Label>
                 <Select name="setupEnv">
                   <SelectTrigger>
                     <SelectValue placeholder="Skip setup for now" />
@@ -240,14 +248,14 @@ export function AgentList({ userId }: AgentListProps) {
 
               <div className="space-y-2">
                 <Label htmlFor="credentialType">Credential Type (Optional)</Label>
-                <Select name="credentialType">
+                <Select name="credentialType" disabled={!createType}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select credential type" />
+                    <SelectValue placeholder={createType ? 'Select credential type' : 'Select an agent type first'} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="anthropic_api_key">Anthropic API Key</SelectItem>
-                    <SelectItem value="gemini_api_key">Gemini API Key</SelectItem>
-                    <SelectItem value="oauth">OAuth Token</SelectItem>
+                    {credentialTypesFor(createType).map(credentialType => (
+                      <SelectItem key={credentialType.type} value={credentialType.type}>{credentialType.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -320,6 +328,14 @@ export function AgentList({ userId }: AgentListProps) {
                         Setup
                       </Button>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="MCP servers"
+                      onClick={() => setMcpAgent(agent)}
+                    >
+                      <Plug className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -342,7 +358,7 @@ export function AgentList({ userId }: AgentListProps) {
               
               <CardContent className="pt-0">
                 <div className="flex items-center justify-between">
-                  {getCredentialTypeBadge(agent.credential_type)}
+                  {getCredentialTypeBadge(agent.type, agent.credential_type)}
                   
                   {agent.credential_type && (
                     <Button
@@ -493,9 +509,9 @@ export function AgentList({ userId }: AgentListProps) {
                     <SelectValue placeholder="Select credential type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="anthropic_api_key">Anthropic API Key</SelectItem>
-                    <SelectItem value="gemini_api_key">Gemini API Key</SelectItem>
-                    <SelectItem value="oauth">OAuth Token</SelectItem>
+                    {credentialTypesFor(editingAgent.type).map(credentialType => (
+                      <SelectItem key={credentialType.type} value={credentialType.type}>{credentialType.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -525,6 +541,19 @@ export function AgentList({ userId }: AgentListProps) {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* MCP servers for one agent */}
+      <Dialog open={!!mcpAgent} onOpenChange={(open) => !open && setMcpAgent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>MCP servers for {mcpAgent?.name}</DialogTitle>
+            <DialogDescription>
+              Added to your own servers; an environment's servers override both.
+            </DialogDescription>
+          </DialogHeader>
+          {mcpAgent && <McpServersEditor scope={{ level: 'agent', id: mcpAgent.id }} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell } from 'lucide-react';
+import { api } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from './ui/use-toast';
+
+// Where to hear about agents that wait for input or finish (services/agent-watcher.ts)
+export function AgentNotificationSettings() {
+  const queryClient = useQueryClient();
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [permission, setPermission] = useState(
+    typeof Notification !== 'undefined' ? Notification.permission : 'denied'
+  );
+
+  const { data: settings } = useQuery({
+    queryKey: ['agent-notifications'],
+    queryFn: () => api.getAgentNotifications(),
+  });
+
+  useEffect(() => {
+    setWebhookUrl(settings?.webhookUrl ?? '');
+  }, [settings]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await api.updateAgentNotifications({ webhookUrl: webhookUrl.trim() || null });
+      queryClient.invalidateQueries({ queryKey: ['agent-notifications'] });
+      toast({ title: 'Notification settings saved' });
+    } catch (err) {
+      toast({ title: 'Failed to save notification settings', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const enableBrowserNotifications = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Hear about agents that are waiting for input or have finished working
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="agent-webhook-url">Webhook URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="agent-webhook-url"
+              type="url"
+              placeholder="https://hooks.slack.com/services/..."
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+            />
+            <Button onClick={save} disabled={saving}>
+              Save
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Receives a JSON POST with a <code>text</code> field, so Slack and Mattermost incoming webhooks work as is.
+          </p>
+        </div>
+
+        {permission === 'granted' ? (
+          <p className="text-sm text-muted-foreground">Browser notifications are enabled.</p>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={permission === 'denied'}
+            onClick={enableBrowserNotifications}
+          >
+            {permission === 'denied' ? 'Browser notifications are blocked' : 'Enable browser notifications'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
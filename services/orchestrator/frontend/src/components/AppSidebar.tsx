@@ -1,9 +1,10 @@
 import { Link } from "react-router-dom"
 import { Folder, Settings, Container, Bot, GitBranch, ChevronRight, ChevronDown, Terminal } from "lucide-react"
-import { useState, createContext, useContext, useEffect } from "react"
+import { useState, createContext, useContext, useEffect, useMemo } from "react"
 import { useQuery } from '@tanstack/react-query'
-import { api } from '../api/client.ts'
+import { api, AgentState, Session } from '../api/client.ts'
 import { useAuth } from '../contexts/AuthContext'
+import { useAgentAttention } from '../hooks/use-agent-attention'
 
 import { Sidebar, SidebarContent, SidebarFooter, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar"
 
@@ -52,7 +53,7 @@ export function AppSidebar() {
   const sessionQueries = useQuery({
     queryKey: ['sidebar-sessions', expandedEnvIds],
     queryFn: async () => {
-      const sessionsByEnv: Record<string, any[]> = {};
+      const sessionsByEnv: Record<string, Session[]> = {};
       await Promise.all(
         expandedEnvIds.map(async (envId) => {
           try {
@@ -67,9 +68,13 @@ export function AppSidebar() {
       return sessionsByEnv;
     },
     enabled: expandedEnvIds.length > 0,
+    // Agent states change without the user doing anything (services/agent-watcher.ts)
+    refetchInterval: 10_000,
   });
 
   const sessionsByEnv = sessionQueries.data || {};
+  const watchedSessions = useMemo(() => Object.values(sessionQueries.data || {}).flat(), [sessionQueries.data]);
+  useAgentAttention(watchedSessions);
 
   const toggleEnvironment = (envId: string) => {
     setExpandedEnvs(prev => {
@@ -96,6 +101,19 @@ export function AppSidebar() {
     }
   };
 
+  const getAgentStateIndicator = (state?: AgentState) => {
+    switch (state) {
+      case 'working':
+        return <span className="ml-auto h-2 w-2 rounded-full bg-green-500 animate-pulse" title="Working"></span>;
+      case 'awaiting_input':
+        return <span className="ml-auto h-2 w-2 rounded-full bg-amber-500" title="Waiting for input"></span>;
+      case 'idle':
+        return <span className="ml-auto h-2 w-2 rounded-full bg-gray-400" title="Idle"></span>;
+      default:
+        return null;
+    }
+  };
+
   const getAgentIcon = (type: string) => {
     switch (type) {
       case 'claude-code':
@@ -104,6 +122,8 @@ export function AppSidebar() {
         return '💎';
       case 'qwen-coder':
         return '🧠';
+      case 'cursor-cli':
+        return '🖱️';
       default:
         return <Bot className="mr-2 h-4 w-4" />;
     }
@@ -117,6 +137,7 @@ export function AppSidebar() {
           case 'claude-code': return '🤖';
           case 'gemini-cli': return '💎';
           case 'qwen-coder': return '🧠';
+          case 'cursor-cli': return '🖱️';
           default: return <Bot className="h-3 w-3" />;
         }
       }
@@ -173,7 +194,7 @@ export function AppSidebar() {
                     
                     {isExpanded && sessions.length > 0 && (
                       <div className="ml-6 border-l border-border pl-2 mb-2">
-                        {sessions.map((session: any) => (
+                        {sessions.map((session) => (
                           <SidebarMenuItem key={session.id}>
                             <SidebarMenuButton asChild>
                               <Link 
@@ -186,6 +207,7 @@ export function AppSidebar() {
                                 <span className="truncate">
                                   {session.name || `Session ${session.id.substring(0, 8)}`}
                                 </span>
+                                {session.sessionType === 'agent' && getAgentStateIndicator(session.agentState)}
                               </Link>
                             </SidebarMenuButton>
                           </SidebarMenuItem>
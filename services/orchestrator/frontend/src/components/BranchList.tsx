@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, CloudDownload, GitBranch as GitBranchIcon, Plus, RefreshCw } from 'lucide-react';
+import { api, GitBranch } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { toast } from './ui/use-toast';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from './ui/context-menu';
+
+interface BranchListProps {
+  sessionId: string;
+  environmentId: string;
+  currentBranch?: string;
+}
+
+export function BranchList({ sessionId, environmentId, currentBranch }: BranchListProps) {
+  const queryClient = useQueryClient();
+  const [fetching, setFetching] = useState(false);
+
+  const { data, error, isLoading } = useQuery({
+    queryKey: ['branches', environmentId],
+    queryFn: () => api.listBranches(environmentId),
+    retry: false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['branches', environmentId] });
+
+  // The worktree changed underneath everything that reads /workspace
+  const refreshWorkspace = () =>
+    Promise.all([
+      refresh(),
+      queryClient.invalidateQueries({ queryKey: ['git-status', sessionId] }),
+      queryClient.invalidateQueries({ queryKey: ['git-log', sessionId] }),
+      queryClient.invalidateQueries({ queryKey: ['files', sessionId] }),
+    ]);
+
+  const run = async (title: string, action: () => Promise<unknown>, after: () => Promise<unknown> = refresh) => {
+    try {
+      await action();
+      await after();
+    } catch (actionError) {
+      toast({ title, description: (actionError as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const fetchRemote = async () => {
+    setFetching(true);
+    try {
+      queryClient.setQueryData(['branches', environmentId], await api.listBranches(environmentId, true));
+    } catch (fetchError) {
+      toast({ title: 'Fetch failed', description: (fetchError as Error).message, variant: 'destructive' });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const createFrom = (fromRef?: string) => {
+    const name = window.prompt(`New branch from ${fromRef || data?.defaultBranch}:`);
+    if (!name) return;
+    run('Could not create branch', () => api.createBranch(environmentId, name, fromRef));
+  };
+
+  const switchTo = (branch: string) =>
+    run('Could not switch branch', () => api.switchBranch(sessionId, branch), refreshWorkspace);
+
+  // Remote branches are checked out as a new local branch of the same name
+  const checkoutRemote = (branch: GitBranch) => {
+    const localName = branch.name.slice((branch.remote?.length ?? 0) + 1);
+    run(
+      'Could not check out branch',
+      () => api.switchBranch(sessionId, localName, { create: true, fromRef: branch.name }),
+      refreshWorkspace
+    );
+  };
+
+  const rename = (branch: GitBranch) => {
+    const to = window.prompt('Rename branch to:', branch.name);
+    if (!to || to === branch.name) return;
+    run('Rename failed', () => api.renameBranch(environmentId, branch.name, to), refreshWorkspace);
+  };
+
+  const remove = (branch: GitBranch, force: boolean) => {
+    const warning = force ? ' Unmerged commits will be lost.' : '';
+    if (!window.confirm(`Delete branch ${branch.name}?${warning}`)) return;
+    run('Delete failed', () => api.deleteBranch(environmentId, branch.name, force));
+  };
+
+  const counts = (branch: GitBranch) => (
+    <>
+      {!!branch.ahead && <Badge variant="secondary" className="text-[10px] px-1">+{branch.ahead}</Badge>}
+      {!!branch.behind && <Badge variant="outline" className="text-[10px] px-1">-{branch.behind}</Badge>}
+    </>
+  );
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center gap-1">
+        <span className="text-xs font-semibold flex-1">Branches</span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="New branch" onClick={() => createFrom()}>
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="Fetch remote branches" disabled={fetching} onClick={fetchRemote}>
+          <CloudDownload className={`h-3.5 w-3.5 ${fetching ? 'animate-pulse' : ''}`} />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" title="Refresh" onClick={refresh}>
+          <RefreshCw className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {isLoading && <div className="text-xs text-muted-foreground">Loading…</div>}
+      {error && <div className="text-xs text-red-500">{(error as Error).message}</div>}
+
+      {data && (
+        <div className="space-y-0.5">
+          {data.local.map(branch => {
+            const isCurrent = branch.name === currentBranch;
+            const heldElsewhere = !!branch.sessionId && branch.sessionId !== sessionId;
+            return (
+              <ContextMenu key={branch.name}>
+                <ContextMenuTrigger asChild>
+                  <div
+                    className={`flex items-center gap-1.5 py-1 px-1 rounded text-xs hover:bg-accent/50 ${isCurrent ? 'font-medium' : ''}`}
+                    title={`${branch.commit.slice(0, 7)} ${branch.subject}`}
+                  >
+                    {isCurrent ? <Check className="h-3 w-3 shrink-0" /> : <GitBranchIcon className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                    <span className="font-mono truncate flex-1">{branch.name}</span>
+                    {branch.name === data.defaultBranch && <Badge variant="outline" className="text-[10px] px-1">default</Badge>}
+                    {heldElsewhere && (
+                      <Badge variant="outline" className="text-[10px] px-1" title="Checked out by another session">
+                        {branch.sessionName || 'in use'}
+                      </Badge>
+                    )}
+                    {counts(branch)}
+                  </div>
+                </ContextMenuTrigger>
+                <ContextMenuContent>
+                  <ContextMenuItem disabled={isCurrent || heldElsewhere} onClick={() => switchTo(branch.name)}>
+                    Switch to branch
+                  </ContextMenuItem>
+                  <ContextMenuItem onClick={() => createFrom(branch.name)}>New branch from here…</ContextMenuItem>
+                  <ContextMenuItem disabled={branch.name === data.defaultBranch} onClick={() => rename(branch)}>
+                    Rename…
+                  </ContextMenuItem>
+                  <ContextMenuSeparator />
+                  <ContextMenuItem
+                    className="text-red-500"
+                    disabled={branch.name === data.defaultBranch || !!branch.sessionId}
+                    onClick={() => remove(branch, false)}
+                  >
+                    Delete
+                  </ContextMenuItem>
+                  <ContextMenuItem
+                    className="text-red-500"
+                    disabled={branch.name === data.defaultBranch || !!branch.sessionId}
+                    onClick={() => remove(branch, true)}
+                  >
+                    Force delete
+                  </ContextMenuItem>
+                </ContextMenuContent>
+              </ContextMenu>
+            );
+          })}
+
+          {data.remote.length > 0 && (
+            <div className="pt-2 text-[10px] uppercase tracking-wide text-muted-foreground">Remote</div>
+          )}
+          {data.remote.map(branch => (
+            <ContextMenu key={branch.name}>
+              <ContextMenuTrigger asChild>
+                <div
+                  className="flex items-center gap-1.5 py-1 px-1 rounded text-xs text-muted-foreground hover:bg-accent/50"
+                  title={`${branch.commit.slice(0, 7)} ${branch.subject}`}
+                >
+                  <GitBranchIcon className="h-3 w-3 shrink-0" />
+                  <span className="font-mono truncate flex-1">{branch.name}</span>
+                  {counts(branch)}
+                </div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem onClick={() => checkoutRemote(branch)}>Check out as local branch</ContextMenuItem>
+                <ContextMenuItem onClick={() => createFrom(branch.name)}>New branch from here…</ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Search, Loader2, Github, GitBranch, ExternalLink, Star, GitFork, Lock, Globe, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { Search, Loader2, Github, GitBranch, ExternalLink, Star, GitFork, Lock, Globe, CheckCircle2, AlertCircle, Clock, Cpu } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -15,33 +15,70 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useGitHub } from '../contexts/GitHubContext';
 import { useQuery } from '@tanstack/react-query';
-import { api } from '../api/client.ts';
+import { api, ProviderRepository, ResourceProfileName, SandboxSettings } from '../api/client.ts';
 import { useAuth } from '../contexts/AuthContext';
 
 interface CreateEnvironmentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCreate: (name: string, repositoryUrl?: string) => void;
+  onCreate: (name: string, repositoryUrl?: string, sandbox?: SandboxSettings) => void;
   dockerImageError?: string | null;
   onClearError?: () => void;
 }
 
 interface GitHubRepo {
-  id: number;
+  id: number | string;
   name: string;
   full_name: string;
-  description: string;
+  description: string | null;
   html_url: string;
   clone_url: string;
   private: boolean;
-  updated_at: string;
-  language: string;
+  updated_at: string | null;
+  language: string | null;
   stargazers_count: number;
   open_issues_count: number;
 }
 
+const GITHUB_SOURCE = 'github';
+
+// GitLab/Gitea repositories in the card shape used for GitHub
+const fromProviderRepository = (repo: ProviderRepository): GitHubRepo => ({
+  id: repo.id,
+  name: repo.name,
+  full_name: repo.fullName,
+  description: repo.description,
+  html_url: repo.htmlUrl,
+  clone_url: repo.cloneUrl,
+  private: repo.private,
+  updated_at: repo.updatedAt,
+  language: null,
+  stargazers_count: 0,
+  open_issues_count: 0,
+});
+
+// Generic git servers have no API: the user types the clone URL
+const fromRepositoryUrl = (url: string): GitHubRepo | null => {
+  const trimmed = url.trim();
+  const name = trimmed.replace(/\/+$/, '').replace(/\.git$/i, '').split(/[/:]/).pop();
+  return trimmed && name ? {
+    id: trimmed,
+    name,
+    full_name: name,
+    description: null,
+    html_url: '',
+    clone_url: trimmed,
+    private: true,
+    updated_at: null,
+    language: null,
+    stargazers_count: 0,
+    open_issues_count: 0,
+  } : null;
+};
+
 // Language color mapping for badges
 const getLanguageColor = (language: string | null): string => {
   const colors: Record<string, string> = {
@@ -68,6 +105,14 @@ const formatCount = (count: number): string => {
   return count.toString();
 };
 
+// Presets mirror presetLimits() in the orchestrator; small follows its SANDBOX_* settings
+const RESOURCE_PROFILE_OPTIONS: { value: ResourceProfileName; label: string }[] = [
+  { value: 'small', label: 'Small — server default (512 MB, 0.5 CPU)' },
+  { value: 'medium', label: 'Medium — 2 GB, 2 CPUs' },
+  { value: 'large', label: 'Large — 8 GB, 4 CPUs' },
+  { value: 'custom', label: 'Custom' },
+];
+
 // Repository loading skeleton component
 const RepoSkeleton = () => (
   <Card className="p-4">
@@ -94,8 +139,18 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
   const [name, setName] = useState('');
   const [selectedRepo, setSelectedRepo] = useState<GitHubRepo | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [source, setSource] = useState(GITHUB_SOURCE);
+  const [repositoryUrl, setRepositoryUrl] = useState('');
   const [isCopied, setIsCopied] = useState(false);
   
+  // Sandbox settings
+  const [sandboxImage, setSandboxImage] = useState('');
+  const [resourceProfile, setResourceProfile] = useState<ResourceProfileName>('small');
+  const [customMemory, setCustomMemory] = useState('1g');
+  const [customCpus, setCustomCpus] = useState('1');
+  const [customPids, setCustomPids] = useState('512');
+  const [customDisk, setCustomDisk] = useState('');
+  
   // Name validation state
   const [nameValidation, setNameValidation] = useState<{
     status: 'idle' | 'checking' | 'available' | 'taken';
@@ -154,18 +209,48 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
     return () => clearTimeout(timeoutId);
   }, [name, checkNameAvailability]);
 
+  // GitLab, Gitea and generic connections besides GitHub
+  const { data: providerData } = useQuery({
+    queryKey: ['git-providers'],
+    queryFn: () => api.listGitProviders(),
+    enabled: open,
+  });
+  const otherConnections = (providerData?.connections ?? [])
+    .filter(connection => connection.provider !== 'github' && connection.connected);
+  const sourceConnection = otherConnections.find(connection => connection.id === source) ?? null;
+  const hasSource = isConnected || otherConnections.length > 0;
+  const isUrlSource = sourceConnection?.provider === 'generic';
+
+  // Without GitHub, start from the first other connection
+  useEffect(() => {
+    if (open && !isConnected && source === GITHUB_SOURCE && otherConnections.length > 0) {
+      setSource(otherConnections[0].id);
+    }
+  }, [open, isConnected, source, otherConnections.length]);
+
   // Fetch GitHub repos if connected
-  const { data: reposData, isLoading: reposLoading } = useQuery({
+  const { data: reposData, isLoading: githubReposLoading } = useQuery({
     queryKey: ['github-repos'],
     queryFn: () => api.listGitHubRepos({ per_page: 100 }),
-    enabled: isConnected && open,
+    enabled: isConnected && open && source === GITHUB_SOURCE,
   });
 
+  const { data: providerRepos, isLoading: providerReposLoading } = useQuery({
+    queryKey: ['provider-repos', source],
+    queryFn: () => api.listProviderRepositories(source, { per_page: 100 }),
+    enabled: open && !!sourceConnection && !isUrlSource,
+  });
+
+  const repos: GitHubRepo[] = source === GITHUB_SOURCE
+    ? reposData?.repositories ?? []
+    : providerRepos?.map(fromProviderRepository) ?? [];
+  const reposLoading = source === GITHUB_SOURCE ? githubReposLoading : providerReposLoading;
+
   // Filter repos based on search
-  const filteredRepos = reposData?.repositories.filter(repo => 
-    repo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+  const filteredRepos = repos.filter(repo => 
+    repo.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     repo.description?.toLowerCase().includes(searchQuery.toLowerCase())
-  ) || [];
+  );
 
   // Reset state when dialog closes
   useEffect(() => {
@@ -173,7 +258,15 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
       setName('');
       setSelectedRepo(null);
       setSearchQuery('');
+      setSource(GITHUB_SOURCE);
+      setRepositoryUrl('');
       setNameValidation({ status: 'idle', message: '', suggestions: [] });
+      setSandboxImage('');
+      setResourceProfile('small');
+      setCustomMemory('1g');
+      setCustomCpus('1');
+      setCustomPids('512');
+      setCustomDisk('');
     }
   }, [open]);
 
@@ -188,7 +281,17 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
     if (!name.trim() || nameValidation.status === 'taken') return;
     
     const repoUrl = selectedRepo?.clone_url;
-    onCreate(name.trim(), repoUrl);
+    const sandbox: SandboxSettings = {
+      sandboxImage: sandboxImage.trim() || undefined,
+      resourceProfile,
+      resourceLimits: resourceProfile === 'custom' ? {
+        memory: customMemory.trim() || undefined,
+        cpus: customCpus ? parseFloat(customCpus) : undefined,
+        pids: customPids ? parseInt(customPids, 10) : undefined,
+        disk: customDisk.trim() || undefined,
+      } : undefined,
+    };
+    onCreate(name.trim(), repoUrl, sandbox);
   };
 
   const getValidationIcon = () => {
@@ -228,13 +331,14 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
             </DialogDescription>
           </DialogHeader>
 
-        {!isConnected ? (
+        {!hasSource ? (
           <Card className="mt-6">
             <CardContent className="p-8 text-center">
               <Github className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">Connect GitHub Account</h3>
               <p className="text-muted-foreground mb-6 max-w-md mx-auto">
-                To create environments from your repositories, please connect your GitHub account first.
+                To create environments from your repositories, connect your GitHub account or add a
+                GitLab, Gitea or git server connection first.
               </p>
               <Button 
                 onClick={() => window.open('/settings/git', '_blank')}
@@ -250,131 +354,178 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
           </Card>
         ) : (
           <div className="space-y-4 mt-6">
-            <div className="space-y-2">
-              <Label>Search Repositories</Label>
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            {otherConnections.length > 0 && (
+              <div className="space-y-2">
+                <Label>Source</Label>
+                <Select
+                  value={source}
+                  onValueChange={(value) => {
+                    setSource(value);
+                    setSelectedRepo(null);
+                    setRepositoryUrl('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {isConnected && <SelectItem value={GITHUB_SOURCE}>GitHub</SelectItem>}
+                    {otherConnections.map(connection => (
+                      <SelectItem key={connection.id} value={connection.id}>
+                        {connection.name} ({connection.host})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {isUrlSource ? (
+              <div className="space-y-2">
+                <Label htmlFor="repository-url">Repository URL</Label>
                 <Input
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search your repositories..."
-                  className="pl-9"
+                  id="repository-url"
+                  value={repositoryUrl}
+                  onChange={(e) => {
+                    setRepositoryUrl(e.target.value);
+                    setSelectedRepo(fromRepositoryUrl(e.target.value));
+                  }}
+                  placeholder={`https://${sourceConnection?.host}/team/project.git or git@${sourceConnection?.host}:team/project.git`}
                 />
               </div>
-            </div>
-
-            <div className="space-y-3">
-              <Label>Select Repository</Label>
-              {reposLoading ? (
-                <ScrollArea className="h-[400px]">
-                  <div className="space-y-3">
-                    {Array.from({ length: 3 }).map((_, i) => (
-                      <RepoSkeleton key={i} />
-                    ))}
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Search Repositories</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="Search your repositories..."
+                      className="pl-9"
+                    />
                   </div>
-                </ScrollArea>
-              ) : (
-                <ScrollArea className="h-[400px]">
-                  <div className="space-y-3">
-                    {filteredRepos.length === 0 ? (
-                      <Card className="p-8">
-                        <CardContent className="p-0 text-center">
-                          <Github className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                          <div className="text-sm text-muted-foreground">
-                            {searchQuery ? 'No repositories match your search' : 'No repositories found'}
-                          </div>
-                          {searchQuery && (
-                            <div className="text-xs text-muted-foreground mt-1">
-                              Try adjusting your search terms
-                            </div>
-                          )}
-                        </CardContent>
-                      </Card>
-                    ) : (
-                      filteredRepos.map((repo) => (
-                        <Card
-                          key={repo.id}
-                          className={`cursor-pointer transition-all duration-200 hover:shadow-md border-2 ${
-                            selectedRepo?.id === repo.id 
-                              ? 'border-primary bg-accent/50' 
-                              : 'border-border hover:border-accent-foreground/20'
-                          }`}
-                          onClick={() => setSelectedRepo(repo)}
-                        >
-                          <CardContent className="p-4">
-                            <div className="flex items-start justify-between gap-3">
-                              <div className="flex-1 min-w-0 space-y-2">
-                                {/* Repository name and privacy indicator */}
-                                <div className="flex items-center gap-2">
-                                  <h3 className="font-semibold text-base truncate">{repo.name}</h3>
-                                  {repo.private ? (
-                                    <Lock className="h-4 w-4 text-muted-foreground shrink-0" />
-                                  ) : (
-                                    <Globe className="h-4 w-4 text-muted-foreground shrink-0" />
-                                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Select Repository</Label>
+                  {reposLoading ? (
+                    <ScrollArea className="h-[400px]">
+                      <div className="space-y-3">
+                        {Array.from({ length: 3 }).map((_, i) => (
+                          <RepoSkeleton key={i} />
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  ) : (
+                    <ScrollArea className="h-[400px]">
+                      <div className="space-y-3">
+                        {filteredRepos.length === 0 ? (
+                          <Card className="p-8">
+                            <CardContent className="p-0 text-center">
+                              <Github className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                              <div className="text-sm text-muted-foreground">
+                                {searchQuery ? 'No repositories match your search' : 'No repositories found'}
+                              </div>
+                              {searchQuery && (
+                                <div className="text-xs text-muted-foreground mt-1">
+                                  Try adjusting your search terms
                                 </div>
-                                
-                                {/* Description */}
-                                {repo.description && (
-                                  <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
-                                    {repo.description}
-                                  </p>
-                                )}
-                                
-                                {/* Metadata row */}
-                                <div className="flex items-center gap-4">
-                                  {/* Language badge */}
-                                  {repo.language && (
-                                    <Badge 
-                                      variant="secondary" 
-                                      className={`text-white ${getLanguageColor(repo.language)}`}
-                                    >
-                                      {repo.language}
-                                    </Badge>
-                                  )}
-                                  
-                                  {/* Stats */}
-                                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
-                                    {(repo.stargazers_count ?? 0) > 0 && (
-                                      <div className="flex items-center gap-1">
-                                        <Star className="h-3 w-3" />
-                                        <span>{formatCount(repo.stargazers_count!)}</span>
-                                      </div>
+                              )}
+                            </CardContent>
+                          </Card>
+                        ) : (
+                          filteredRepos.map((repo) => (
+                            <Card
+                              key={repo.id}
+                              className={`cursor-pointer transition-all duration-200 hover:shadow-md border-2 ${
+                                selectedRepo?.id === repo.id 
+                                  ? 'border-primary bg-accent/50' 
+                                  : 'border-border hover:border-accent-foreground/20'
+                              }`}
+                              onClick={() => setSelectedRepo(repo)}
+                            >
+                              <CardContent className="p-4">
+                                <div className="flex items-start justify-between gap-3">
+                                  <div className="flex-1 min-w-0 space-y-2">
+                                    {/* Repository name and privacy indicator */}
+                                    <div className="flex items-center gap-2">
+                                      <h3 className="font-semibold text-base truncate">
+                                        {source === GITHUB_SOURCE ? repo.name : repo.full_name}
+                                      </h3>
+                                      {repo.private ? (
+                                        <Lock className="h-4 w-4 text-muted-foreground shrink-0" />
+                                      ) : (
+                                        <Globe className="h-4 w-4 text-muted-foreground shrink-0" />
+                                      )}
+                                    </div>
+                                    
+                                    {/* Description */}
+                                    {repo.description && (
+                                      <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
+                                        {repo.description}
+                                      </p>
                                     )}
-                                    {(repo.open_issues_count ?? 0) > 0 && (
-                                      <div className="flex items-center gap-1">
-                                        <GitBranch className="h-3 w-3" />
-                                        <span>{formatCount(repo.open_issues_count!)} issues</span>
+                                    
+                                    {/* Metadata row */}
+                                    <div className="flex items-center gap-4">
+                                      {/* Language badge */}
+                                      {repo.language && (
+                                        <Badge 
+                                          variant="secondary" 
+                                          className={`text-white ${getLanguageColor(repo.language)}`}
+                                        >
+                                          {repo.language}
+                                        </Badge>
+                                      )}
+                                      
+                                      {/* Stats */}
+                                      <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                                        {(repo.stargazers_count ?? 0) > 0 && (
+                                          <div className="flex items-center gap-1">
+                                            <Star className="h-3 w-3" />
+                                            <span>{formatCount(repo.stargazers_count!)}</span>
+                                          </div>
+                                        )}
+                                        {(repo.open_issues_count ?? 0) > 0 && (
+                                          <div className="flex items-center gap-1">
+                                            <GitBranch className="h-3 w-3" />
+                                            <span>{formatCount(repo.open_issues_count!)} issues</span>
+                                          </div>
+                                        )}
+                                        {repo.updated_at && (
+                                          <span className="text-xs">
+                                            Updated {new Date(repo.updated_at).toLocaleDateString()}
+                                          </span>
+                                        )}
                                       </div>
-                                    )}
-                                    <span className="text-xs">
-                                      Updated {new Date(repo.updated_at).toLocaleDateString()}
-                                    </span>
+                                    </div>
                                   </div>
+                                  
+                                  {/* External link button */}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="shrink-0 h-8 w-8 p-0"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      window.open(repo.html_url, '_blank', 'noopener,noreferrer');
+                                    }}
+                                  >
+                                    <ExternalLink className="h-4 w-4" />
+                                  </Button>
                                 </div>
-                              </div>
-                              
-                              {/* External link button */}
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="shrink-0 h-8 w-8 p-0"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  window.open(repo.html_url, '_blank', 'noopener,noreferrer');
-                                }}
-                              >
-                                <ExternalLink className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))
-                    )}
-                  </div>
-                </ScrollArea>
-              )}
-            </div>
+                              </CardContent>
+                            </Card>
+                          ))
+                        )}
+                      </div>
+                    </ScrollArea>
+                  )}
+                </div>
+              </>
+            )}
 
             {selectedRepo && (
               <div className="space-y-2">
@@ -421,6 +572,59 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
                 )}
               </div>
             )}
+
+            {selectedRepo && (
+              <div className="space-y-3 rounded-lg border border-border p-3">
+                <Label className="flex items-center gap-2">
+                  <Cpu className="h-4 w-4" />
+                  Sandbox
+                </Label>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="sandbox-image" className="text-xs text-muted-foreground">Image</Label>
+                    <Input
+                      id="sandbox-image"
+                      value={sandboxImage}
+                      onChange={(e) => setSandboxImage(e.target.value)}
+                      placeholder="Default sandbox image"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Resources</Label>
+                    <Select value={resourceProfile} onValueChange={(value) => setResourceProfile(value as ResourceProfileName)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RESOURCE_PROFILE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {resourceProfile === 'custom' && (
+                  <div className="grid grid-cols-4 gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="custom-memory" className="text-xs text-muted-foreground">Memory</Label>
+                      <Input id="custom-memory" value={customMemory} onChange={(e) => setCustomMemory(e.target.value)} placeholder="1g" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="custom-cpus" className="text-xs text-muted-foreground">CPUs</Label>
+                      <Input id="custom-cpus" type="number" min="0.1" step="0.1" value={customCpus} onChange={(e) => setCustomCpus(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="custom-pids" className="text-xs text-muted-foreground">Processes</Label>
+                      <Input id="custom-pids" type="number" min="16" value={customPids} onChange={(e) => setCustomPids(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="custom-disk" className="text-xs text-muted-foreground">Disk</Label>
+                      <Input id="custom-disk" value={customDisk} onChange={(e) => setCustomDisk(e.target.value)} placeholder="None" />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -490,7 +694,7 @@ export function CreateEnvironmentDialog({ open, onOpenChange, onCreate, dockerIm
           <Button 
             onClick={handleCreate} 
             disabled={
-              !isConnected || 
+              !hasSource || 
               !selectedRepo || 
               !name.trim() || 
               nameValidation.status === 'taken' ||
@@ -1,10 +1,11 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Link } from 'react-router-dom';
-import { CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { CheckCircle2, AlertCircle, Clock, RefreshCw } from 'lucide-react';
 import { api } from '../api/client.ts';
 
 interface Agent {
@@ -63,6 +64,37 @@ export function CreateSessionDialog({
     message: ''
   });
 
+  // Branch suggestions: local branches and those seen on the remote by the
+  // background fetch (sessions on a remote-only branch start from its tip)
+  const queryClient = useQueryClient();
+  const [fetchingBranches, setFetchingBranches] = useState(false);
+  const { data: branchList } = useQuery({
+    queryKey: ['branches', environmentId],
+    queryFn: () => api.listBranches(environmentId),
+    enabled: open,
+    retry: false,
+  });
+  const branchOptions = useMemo(() => {
+    if (!branchList) return [];
+    const names = [
+      ...branchList.local.map(b => b.name),
+      ...branchList.remote.map(b => b.name.slice((b.remote ?? '').length + 1)),
+    ];
+    return [...new Set(names)].filter(name => name !== 'HEAD');
+  }, [branchList]);
+
+  const fetchBranches = async () => {
+    setFetchingBranches(true);
+    try {
+      await api.fetchEnvironmentRepository(environmentId);
+      await queryClient.invalidateQueries({ queryKey: ['branches', environmentId] });
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+    } finally {
+      setFetchingBranches(false);
+    }
+  };
+
   // Check name availability
   const checkNameAvailability = useCallback(async (nameToCheck: string) => {
     if (!nameToCheck.trim()) {
@@ -231,7 +263,8 @@ export function CreateSessionDialog({
                   {agents.map((agent) => (
                     <option key={agent.id} value={agent.id}>
                       {agent.type === 'claude-code' ? '🤖' : 
-                       agent.type === 'gemini-cli' ? '💎' : '🧠'} {agent.name} ({agent.type})
+                       agent.type === 'gemini-cli' ? '💎' :
+                       agent.type === 'cursor-cli' ? '🖱️' : '🧠'} {agent.name} ({agent.type})
                     </option>
                   ))}
                 </select>
@@ -246,10 +279,25 @@ export function CreateSessionDialog({
           <hr className="border-t" />
 
           <div className="space-y-2">
-            <Label htmlFor="branch">Branch/Worktree</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="branch">Branch/Worktree</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={fetchBranches}
+                disabled={fetchingBranches}
+                title="Fetch branches from the remote"
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${fetchingBranches ? 'animate-spin' : ''}`} />
+                Fetch
+              </Button>
+            </div>
             <div className="relative">
               <Input
                 id="branch"
+                list="branch-options"
                 value={branch}
                 onChange={(e) => {
                   const newBranch = e.target.value;
@@ -264,6 +312,9 @@ export function CreateSessionDialog({
                 required
                 className={branchValidation.status === 'taken' ? 'border-destructive pr-10' : 'pr-10'}
               />
+              <datalist id="branch-options">
+                {branchOptions.map(name => <option key={name} value={name} />)}
+              </datalist>
               <div className="absolute right-2 top-1/2 -translate-y-1/2">
                 {getValidationIcon(branchValidation)}
               </div>
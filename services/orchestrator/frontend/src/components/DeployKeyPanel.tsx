@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, KeyRound, RefreshCw } from 'lucide-react';
+import { api, Environment } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { toast } from './ui/use-toast';
+
+interface DeployKeyPanelProps {
+  environment: Environment;
+}
+
+export function DeployKeyPanel({ environment }: DeployKeyPanelProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+
+  // The key pair is generated on first request, so only fetch once asked for
+  const [revealed, setRevealed] = useState(!!environment.deployKeyFingerprint);
+  const { data: deployKey, error } = useQuery({
+    queryKey: ['deploy-key', environment.id],
+    queryFn: () => api.getDeployKey(environment.id),
+    enabled: revealed,
+    retry: false,
+  });
+
+  const run = async (label: string, action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      queryClient.invalidateQueries({ queryKey: ['deploy-key', environment.id] });
+      queryClient.invalidateQueries({ queryKey: ['environment', environment.id] });
+    } catch (err) {
+      toast({ title: `${label} failed`, description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+          <KeyRound className="h-4 w-4" />
+          Deploy key
+        </label>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Clone over SSH</span>
+          <Switch
+            checked={!!environment.useSshClone}
+            disabled={busy}
+            onCheckedChange={(checked) => run('Updating clone protocol', () =>
+              api.updateEnvironmentSandbox(environment.id, { useSshClone: checked })
+            )}
+          />
+        </div>
+      </div>
+
+      {!revealed ? (
+        <Button variant="outline" size="sm" onClick={() => setRevealed(true)}>
+          Generate deploy key
+        </Button>
+      ) : error ? (
+        <div className="text-sm text-destructive">{(error as Error).message}</div>
+      ) : !deployKey ? (
+        <div className="text-sm text-muted-foreground">Loading…</div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 min-w-0">
+            <code className="font-mono text-xs truncate flex-1" title={deployKey.publicKey}>{deployKey.publicKey}</code>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => navigator.clipboard.writeText(deployKey.publicKey)}
+              title="Copy public key"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              disabled={busy}
+              onClick={() => run('Rotating deploy key', () => api.rotateDeployKey(environment.id))}
+              title="Rotate key pair"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {deployKey.fingerprint} · add it as a deploy key (with write access to push) on the repository.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
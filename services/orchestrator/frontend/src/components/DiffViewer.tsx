@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Minus, Plus, RefreshCw, Undo2 } from 'lucide-react';
+import { api, DiffHunk, DiffLine, HunkAction } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { toast } from './ui/use-toast';
+import { cn } from '../lib/utils';
+
+interface DiffViewerProps {
+  sessionId: string;
+  file: string | null;
+  onClose: () => void;
+}
+
+type DiffSide = 'unstaged' | 'staged';
+
+interface DiffCell {
+  line: DiffLine;
+  index: number;             // Index into hunk.lines, sent back for line staging
+}
+
+interface DiffRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+// Context lines on both sides; a run of deletions pairs up with the additions after it
+function toRows(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < hunk.lines.length) {
+    if (hunk.lines[i].type === 'context') {
+      rows.push({ left: { line: hunk.lines[i], index: i }, right: { line: hunk.lines[i], index: i } });
+      i++;
+      continue;
+    }
+    const deletions: DiffCell[] = [];
+    const additions: DiffCell[] = [];
+    while (i < hunk.lines.length && hunk.lines[i].type === 'del') deletions.push({ line: hunk.lines[i], index: i++ });
+    while (i < hunk.lines.length && hunk.lines[i].type === 'add') additions.push({ line: hunk.lines[i], index: i++ });
+    for (let k = 0; k < Math.max(deletions.length, additions.length); k++) {
+      rows.push({ left: deletions[k] ?? null, right: additions[k] ?? null });
+    }
+  }
+  return rows;
+}
+
+const ACTION_LABELS: Record<HunkAction, string> = { stage: 'Stage', unstage: 'Unstage', discard: 'Discard' };
+
+export function DiffViewer({ sessionId, file, onClose }: DiffViewerProps) {
+  const queryClient = useQueryClient();
+  const [side, setSide] = useState<DiffSide>('unstaged');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ['git-diff', sessionId, file, side],
+    queryFn: () => api.gitDiff(sessionId, file!, side === 'staged'),
+    enabled: !!file,
+    retry: false,
+  });
+  const diffFile = data?.files[0];
+
+  const toggleLine = (hunk: DiffHunk, cell: DiffCell | null) => {
+    if (!cell || cell.line.type === 'context') return;
+    const key = `${hunk.id}:${cell.index}`;
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selectedLines = (hunk: DiffHunk) =>
+    hunk.lines.map((_, index) => index).filter(index => selected.has(`${hunk.id}:${index}`));
+
+  const run = async (action: HunkAction, hunk: DiffHunk) => {
+    if (!file) return;
+    const lines = selectedLines(hunk);
+    if (action === 'discard' && !window.confirm(`Discard ${lines.length > 0 ? `${lines.length} selected line(s)` : 'this hunk'}? This cannot be undone.`)) {
+      return;
+    }
+    setBusy(hunk.id);
+    try {
+      await api.applyHunks(sessionId, action, file, [{ id: hunk.id, lines: lines.length > 0 ? lines : undefined }]);
+      setSelected(new Set());
+    } catch (actionError) {
+      toast({ title: `${ACTION_LABELS[action]} failed`, description: (actionError as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['git-diff', sessionId, file] }),
+        queryClient.invalidateQueries({ queryKey: ['git-status', sessionId] }),
+      ]);
+    }
+  };
+
+  const renderCell = (hunk: DiffHunk, cell: DiffCell | null, number: number | null | undefined) => {
+    const type = cell?.line.type;
+    const isSelected = !!cell && selected.has(`${hunk.id}:${cell.index}`);
+    return (
+      <>
+        <div className="select-none text-right pr-2 text-muted-foreground border-r border-border">{number ?? ''}</div>
+        <div
+          onClick={() => toggleLine(hunk, cell)}
+          className={cn(
+            'whitespace-pre pl-2 pr-4',
+            !cell && 'bg-muted/40',
+            type === 'del' && 'bg-red-500/10 cursor-pointer',
+            type === 'add' && 'bg-green-500/10 cursor-pointer',
+            isSelected && type === 'del' && 'bg-red-500/30',
+            isSelected && type === 'add' && 'bg-green-500/30'
+          )}
+        >
+          {cell ? cell.line.content || ' ' : ''}
+          {cell?.line.noNewline && <span className="text-muted-foreground" title="No newline at end of file"> ⊘</span>}
+        </div>
+      </>
+    );
+  };
+
+  const actions: HunkAction[] = side === 'unstaged' ? ['stage', 'discard'] : ['unstage'];
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => { if (!open) { setSelected(new Set()); onClose(); } }}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-sm flex items-center gap-2">
+            {diffFile?.oldPath && diffFile.oldPath !== diffFile.path ? `${diffFile.oldPath} → ${file}` : file}
+            {diffFile && <Badge variant="outline" className="text-[10px] px-1">{diffFile.status}</Badge>}
+            {isFetching && <RefreshCw className="h-3 w-3 animate-spin" />}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Click changed lines to select them; hunk actions then apply to the selection only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          {(['unstaged', 'staged'] as DiffSide[]).map(option => (
+            <Button
+              key={option}
+              variant={side === option ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => { setSide(option); setSelected(new Set()); }}
+            >
+              {option === 'unstaged' ? 'Unstaged' : 'Staged'}
+            </Button>
+          ))}
+          {diffFile && (
+            <span className="ml-auto text-xs text-muted-foreground self-center">
+              <span className="text-green-600">+{diffFile.additions}</span> <span className="text-red-600">-{diffFile.deletions}</span>
+            </span>
+          )}
+        </div>
+
+        <ScrollArea className="flex-1 border border-border rounded-md">
+          {error ? (
+            <div className="p-4 text-sm text-destructive">{(error as Error).message}</div>
+          ) : !diffFile ? (
+            <div className="p-4 text-sm text-muted-foreground">{data ? `No ${side} changes` : 'Loading…'}</div>
+          ) : diffFile.binary ? (
+            <div className="p-4 text-sm text-muted-foreground">Binary file - stage or discard it as a whole file.</div>
+          ) : (
+            <div className="font-mono text-xs">
+              {diffFile.hunks.map(hunk => {
+                const count = selectedLines(hunk).length;
+                return (
+                  <div key={hunk.id} className="border-b border-border">
+                    <div className="flex items-center gap-2 px-2 py-1 bg-muted/60 sticky top-0">
+                      <span className="text-muted-foreground truncate flex-1">{hunk.header}</span>
+                      {actions.map(action => (
+                        <Button
+                          key={action}
+                          variant={action === 'discard' ? 'ghost' : 'outline'}
+                          size="sm"
+                          className="h-6 text-xs"
+                          disabled={busy !== null}
+                          onClick={() => run(action, hunk)}
+                        >
+                          {action === 'stage' ? <Plus className="h-3 w-3 mr-1" /> : action === 'unstage' ? <Minus className="h-3 w-3 mr-1" /> : <Undo2 className="h-3 w-3 mr-1" />}
+                          {ACTION_LABELS[action]} {count > 0 ? `${count} line${count === 1 ? '' : 's'}` : 'hunk'}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-[3rem_1fr_3rem_1fr]">
+                      {toRows(hunk).map((row, index) => (
+                        <div key={index} className="contents">
+                          {renderCell(hunk, row.left, row.left?.line.oldNumber)}
+                          {renderCell(hunk, row.right, row.right?.line.newNumber)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
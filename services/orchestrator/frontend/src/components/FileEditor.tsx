@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import Editor, { OnMount } from '@monaco-editor/react';
+import { Save, X } from 'lucide-react';
+import { api } from '../api/client.ts';
+import { Button } from './ui/button';
+import { toast } from './ui/use-toast';
+
+interface FileEditorProps {
+  sessionId: string;
+  path: string;
+  onClose: () => void;
+}
+
+export function FileEditor({ sessionId, path, onClose }: FileEditorProps) {
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const saveRef = useRef<() => void>(() => {});
+
+  const { data: file, error, isLoading } = useQuery({
+    queryKey: ['file', sessionId, path],
+    queryFn: () => api.readFile(sessionId, path),
+    retry: false,
+    // Never refetch underneath unsaved edits
+    refetchOnWindowFocus: false,
+  });
+
+  // Reset local edits when switching files or after (re)loading from the server
+  useEffect(() => {
+    setValue(file?.content ?? null);
+  }, [file]);
+
+  const dirty = value !== null && file?.content !== undefined && value !== file.content;
+
+  const save = async () => {
+    if (value === null || !dirty || saving) return;
+    try {
+      setSaving(true);
+      await api.writeFile(sessionId, path, value);
+      queryClient.setQueryData(['file', sessionId, path], { ...file!, content: value, size: new Blob([value]).size });
+    } catch (saveError) {
+      toast({ title: 'Save failed', description: (saveError as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+  saveRef.current = save;
+
+  const handleMount: OnMount = (editor, monaco) => {
+    // Ctrl/Cmd+S saves instead of triggering the browser's "save page"
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => saveRef.current());
+  };
+
+  const close = () => {
+    if (dirty && !window.confirm('Discard unsaved changes?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="flex flex-col h-full min-w-0">
+      <div className="h-9 border-b border-border flex items-center gap-2 px-2">
+        <span className="font-mono text-xs truncate flex-1" title={path}>
+          {path}
+          {dirty && <span className="ml-1 text-muted-foreground">●</span>}
+        </span>
+        <Button variant="ghost" size="sm" className="h-7" disabled={!dirty || saving} onClick={save}>
+          <Save className="h-3.5 w-3.5 mr-1" />
+          {saving ? 'Saving…' : 'Save'}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={close}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex-1 min-h-0">
+        {isLoading && <div className="p-4 text-sm text-muted-foreground">Loading…</div>}
+        {error && <div className="p-4 text-sm text-red-500">{(error as Error).message}</div>}
+        {file?.binary && (
+          <div className="p-4 text-sm text-muted-foreground">
+            Binary file ({file.size} bytes) - use Download from the file tree instead.
+          </div>
+        )}
+        {file && !file.binary && value !== null && (
+          <Editor
+            height="100%"
+            theme="vs-dark"
+            path={path}
+            value={value}
+            onChange={(next) => setValue(next ?? '')}
+            onMount={handleMount}
+            options={{
+              fontSize: 13,
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
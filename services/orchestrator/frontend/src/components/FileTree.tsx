@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, ChevronRight, File, Folder, FolderOpen, Link2 } from 'lucide-react';
+import { api, WorkspaceEntry } from '../api/client.ts';
+import { toast } from './ui/use-toast';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from './ui/context-menu';
+
+interface FileTreeProps {
+  sessionId: string;
+  selectedPath: string | null;
+  onOpenFile: (path: string) => void;
+  onPathRemoved: (path: string) => void;
+}
+
+interface DirectoryProps extends FileTreeProps {
+  path: string;
+  depth: number;
+}
+
+function parentOf(path: string) {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+export function refreshDirectory(queryClient: ReturnType<typeof useQueryClient>, sessionId: string, path: string) {
+  return queryClient.invalidateQueries({ queryKey: ['files', sessionId, path] });
+}
+
+function Directory({ sessionId, path, depth, ...props }: DirectoryProps) {
+  const { data, error, isLoading } = useQuery({
+    queryKey: ['files', sessionId, path],
+    queryFn: () => api.listFiles(sessionId, path),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-muted-foreground py-1" style={{ paddingLeft: depth * 12 + 20 }}>Loading…</div>;
+  }
+  if (error) {
+    return <div className="text-xs text-red-500 py-1" style={{ paddingLeft: depth * 12 + 20 }}>{(error as Error).message}</div>;
+  }
+
+  return (
+    <>
+      {data?.entries.map(entry => (
+        <Entry key={entry.path} sessionId={sessionId} entry={entry} depth={depth} {...props} />
+      ))}
+    </>
+  );
+}
+
+function Entry({ sessionId, entry, depth, selectedPath, onOpenFile, onPathRemoved }: FileTreeProps & { entry: WorkspaceEntry; depth: number }) {
+  const [expanded, setExpanded] = useState(false);
+  const queryClient = useQueryClient();
+  const isDirectory = entry.type === 'directory';
+
+  const rename = async () => {
+    const to = window.prompt('Rename to (relative to /workspace):', entry.path);
+    if (!to || to === entry.path) return;
+    try {
+      await api.renameFile(sessionId, entry.path, to);
+      onPathRemoved(entry.path);
+      await Promise.all([
+        refreshDirectory(queryClient, sessionId, parentOf(entry.path)),
+        refreshDirectory(queryClient, sessionId, parentOf(to)),
+      ]);
+    } catch (error) {
+      toast({ title: 'Rename failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const remove = async () => {
+    if (!window.confirm(`Delete ${entry.path}${isDirectory ? ' and everything in it' : ''}?`)) return;
+    try {
+      await api.deleteFile(sessionId, entry.path);
+      onPathRemoved(entry.path);
+      await refreshDirectory(queryClient, sessionId, parentOf(entry.path));
+    } catch (error) {
+      toast({ title: 'Delete failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const Icon = isDirectory ? (expanded ? FolderOpen : Folder) : entry.type === 'symlink' ? Link2 : File;
+
+  return (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            className={`flex items-center gap-1 py-0.5 pr-2 text-xs cursor-pointer hover:bg-muted ${
+              selectedPath === entry.path ? 'bg-muted font-medium' : ''
+            }`}
+            style={{ paddingLeft: depth * 12 + 4 }}
+            onClick={() => (isDirectory ? setExpanded(!expanded) : onOpenFile(entry.path))}
+          >
+            {isDirectory ? (
+              expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />
+            ) : (
+              <span className="w-3 shrink-0" />
+            )}
+            <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="truncate">{entry.name}</span>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          {!isDirectory && <ContextMenuItem onClick={() => onOpenFile(entry.path)}>Open</ContextMenuItem>}
+          <ContextMenuItem onClick={rename}>Rename…</ContextMenuItem>
+          <ContextMenuItem onClick={() => api.downloadArchive(sessionId, entry.path)}>Download</ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem className="text-red-500" onClick={remove}>Delete</ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+      {isDirectory && expanded && (
+        <Directory
+          sessionId={sessionId}
+          path={entry.path}
+          depth={depth + 1}
+          selectedPath={selectedPath}
+          onOpenFile={onOpenFile}
+          onPathRemoved={onPathRemoved}
+        />
+      )}
+    </>
+  );
+}
+
+export function FileTree(props: FileTreeProps) {
+  return (
+    <div className="py-1">
+      <Directory {...props} path="" depth={0} />
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Download, FilePlus, FolderTree, RefreshCw, Upload } from 'lucide-react';
+import { api } from '../api/client.ts';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import { toast } from './ui/use-toast';
+import { FileTree, refreshDirectory } from './FileTree';
+import { FileEditor } from './FileEditor';
+
+interface FilesPanelProps {
+  sessionId: string;
+}
+
+export function FilesPanel({ sessionId }: FilesPanelProps) {
+  const queryClient = useQueryClient();
+  const [openPath, setOpenPath] = useState<string | null>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
+
+  const parentOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+  const createFile = async () => {
+    const path = window.prompt('New file (relative to /workspace):');
+    if (!path) return;
+    try {
+      const created = await api.writeFile(sessionId, path, '');
+      await refreshDirectory(queryClient, sessionId, parentOf(created.path));
+      setOpenPath(created.path);
+    } catch (error) {
+      toast({ title: 'Could not create file', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  // Uploads land next to the open file, or in the workspace root
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const directory = openPath ? parentOf(openPath) : '';
+    for (const file of Array.from(files)) {
+      try {
+        await api.uploadFile(sessionId, directory ? `${directory}/${file.name}` : file.name, file);
+      } catch (error) {
+        toast({ title: `Upload of ${file.name} failed`, description: (error as Error).message, variant: 'destructive' });
+      }
+    }
+    await refreshDirectory(queryClient, sessionId, directory);
+  };
+
+  // Close the editor when its file (or a parent directory) was renamed or deleted
+  const handlePathRemoved = (path: string) => {
+    if (openPath && (openPath === path || openPath.startsWith(`${path}/`))) {
+      setOpenPath(null);
+    }
+  };
+
+  return (
+    <div className={`${openPath ? 'w-[52rem] max-w-[65%]' : 'w-64'} border-l border-border flex h-full bg-background`}>
+      <div className="w-64 shrink-0 flex flex-col border-r border-border">
+        <div className="h-9 border-b border-border flex items-center gap-1 px-2">
+          <FolderTree className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs font-semibold flex-1">Files</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="New file" onClick={createFile}>
+            <FilePlus className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="Upload" onClick={() => uploadRef.current?.click()}>
+            <Upload className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Download workspace"
+            onClick={() => api.downloadArchive(sessionId, '')}
+          >
+            <Download className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Refresh"
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['files', sessionId] })}
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+          <input
+            ref={uploadRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              uploadFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <ScrollArea className="flex-1">
+          <FileTree
+            sessionId={sessionId}
+            selectedPath={openPath}
+            onOpenFile={setOpenPath}
+            onPathRemoved={handlePathRemoved}
+          />
+        </ScrollArea>
+      </div>
+      {openPath && (
+        <div className="flex-1 min-w-0">
+          <FileEditor key={openPath} sessionId={sessionId} path={openPath} onClose={() => setOpenPath(null)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { GitCommit, Upload, FileText, RefreshCw, GitBranch, History, AlertCircle, Github, CheckCircle, X } from 'lucide-react';
+import { GitCommit, Upload, FileText, FileDiff, RefreshCw, GitBranch, History, AlertCircle, Github, CheckCircle, X } from 'lucide-react';
 import { api } from '../api/client.ts';
 import { Button } from './ui/button';
 import { ScrollArea } from './ui/scroll-area';
@@ -8,6 +8,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Alert, AlertDescription } from './ui/alert';
 import { Badge } from './ui/badge';
 import { GitHubAuth } from './GitHubAuth';
+import { BranchList } from './BranchList';
+import { GitSyncControls } from './GitSyncControls';
+import { PullRequestPanel } from './PullRequestPanel';
+import { StashPanel } from './StashPanel';
+import { DiffViewer } from './DiffViewer';
 import { cn } from '../lib/utils';
 
 interface GitPanelProps {
@@ -20,6 +25,7 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [githubConnected, setGitHubConnected] = useState(false);
   const [githubUsername, setGitHubUsername] = useState<string>();
+  const [diffFile, setDiffFile] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   const { data: status, refetch: refetchStatus, error: statusError } = useQuery({
@@ -59,6 +65,7 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
     mutationFn: () => api.gitPush(sessionId),
     onSuccess: () => {
       refetchStatus();
+      queryClient.invalidateQueries({ queryKey: ['pull-request', sessionId] });
     },
   });
 
@@ -138,6 +145,7 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
       <Tabs defaultValue="status" className="flex-1 flex flex-col">
         <TabsList className="mx-4 mt-2">
           <TabsTrigger value="status" className="flex-1 text-xs">Status</TabsTrigger>
+          <TabsTrigger value="branches" className="flex-1 text-xs">Branches</TabsTrigger>
           <TabsTrigger value="history" className="flex-1 text-xs">History</TabsTrigger>
           <TabsTrigger value="auth" className="flex-1 text-xs">Auth</TabsTrigger>
         </TabsList>
@@ -171,6 +179,12 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
                   )}
                 </div>
 
+                <GitSyncControls sessionId={sessionId} />
+
+                <StashPanel sessionId={sessionId} />
+
+                <PullRequestPanel sessionId={sessionId} branch={status.branch} />
+
                 {status.files && status.files.length > 0 ? (
                   <>
                     <div className="space-y-2">
@@ -186,6 +200,21 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
                             {getStatusIcon(file.status)}
                           </span>
                           <span className="truncate flex-1 text-xs font-mono">{file.filename}</span>
+                          {file.status !== '??' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-5 w-5 shrink-0"
+                              title="Show diff"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                // Renames are reported as "old -> new"
+                                setDiffFile(file.filename.split(' -> ').pop()!);
+                              }}
+                            >
+                              <FileDiff className="h-3 w-3" />
+                            </Button>
+                          )}
                         </label>
                       ))}
                     </div>
@@ -255,6 +284,12 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
           </ScrollArea>
         </TabsContent>
 
+        <TabsContent value="branches" className="flex-1 mt-0">
+          <ScrollArea className="flex-1">
+            <BranchList sessionId={sessionId} environmentId={environmentId} currentBranch={status?.branch} />
+          </ScrollArea>
+        </TabsContent>
+
         <TabsContent value="history" className="flex-1 mt-0">
           <ScrollArea className="flex-1">
             {commits?.commits && commits.commits.length > 0 ? (
@@ -296,6 +331,8 @@ export function GitPanel({ sessionId, environmentId }: GitPanelProps) {
           </div>
         </TabsContent>
       </Tabs>
+
+      <DiffViewer sessionId={sessionId} file={diffFile} onClose={() => setDiffFile(null)} />
     </div>
   );
 }
\ No newline at end of file
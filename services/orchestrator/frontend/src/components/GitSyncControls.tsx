@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CloudDownload, GitMerge, GitPullRequestArrow } from 'lucide-react';
+import { api, GitConflictType, GitSyncResult } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { toast } from './ui/use-toast';
+
+interface GitSyncControlsProps {
+  sessionId: string;
+}
+
+const CONFLICT_LABELS: Record<GitConflictType, string> = {
+  'both-modified': 'both modified',
+  'both-added': 'both added',
+  'both-deleted': 'both deleted',
+  'added-by-us': 'added by us',
+  'added-by-them': 'added by them',
+  'deleted-by-us': 'deleted by us',
+  'deleted-by-them': 'deleted by them',
+};
+
+const shortRef = (ref: string | null) => (ref && /^[0-9a-f]{40,64}$/.test(ref) ? ref.slice(0, 7) : ref ?? '?');
+
+export function GitSyncControls({ sessionId }: GitSyncControlsProps) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data: state } = useQuery({
+    queryKey: ['git-conflicts', sessionId],
+    queryFn: () => api.getGitConflicts(sessionId),
+    refetchInterval: 5000,
+    retry: false,
+  });
+
+  const run = async (label: string, action: () => Promise<GitSyncResult | void>) => {
+    setBusy(label);
+    try {
+      const result = await action();
+      if (result) {
+        queryClient.setQueryData(['git-conflicts', sessionId], result.state);
+        if (result.status === 'up-to-date') {
+          toast({ title: 'Already up to date' });
+        } else if (result.status === 'conflicts') {
+          toast({
+            title: `${label} stopped`,
+            description: result.state.conflicts.length > 0
+              ? `${result.state.conflicts.length} conflicting file(s) to resolve`
+              : result.output,
+            variant: 'destructive',
+          });
+        }
+      }
+    } catch (error) {
+      toast({ title: `${label} failed`, description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['git-conflicts', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['git-status', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['git-log', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['files', sessionId] }),
+      ]);
+    }
+  };
+
+  const inProgress = !!state?.operation;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-1">
+        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy} onClick={() => run('Fetch', () => api.gitFetch(sessionId))}>
+          <CloudDownload className="h-3.5 w-3.5 mr-1" />
+          {busy === 'Fetch' ? 'Fetching…' : 'Fetch'}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy || inProgress} onClick={() => run('Pull', () => api.gitPull(sessionId, 'merge'))}>
+          <GitMerge className="h-3.5 w-3.5 mr-1" />
+          {busy === 'Pull' ? 'Pulling…' : 'Pull'}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy || inProgress} onClick={() => run('Pull (rebase)', () => api.gitPull(sessionId, 'rebase'))}>
+          <GitPullRequestArrow className="h-3.5 w-3.5 mr-1" />
+          {busy === 'Pull (rebase)' ? 'Pulling…' : 'Pull --rebase'}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy || inProgress} onClick={() => run('Rebase', () => api.gitRebase(sessionId))}>
+          <GitPullRequestArrow className="h-3.5 w-3.5 mr-1" />
+          {busy === 'Rebase' ? 'Rebasing…' : 'Rebase on default'}
+        </Button>
+      </div>
+
+      {state?.operation && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-xs space-y-2">
+            <div className="font-medium">
+              {state.operation === 'rebase' ? 'Rebase' : 'Merge'} in progress
+              {state.progress && ` (${state.progress.current}/${state.progress.total})`}
+            </div>
+            <div className="text-muted-foreground">
+              ours: <span className="font-mono">{shortRef(state.ours)}</span>, theirs: <span className="font-mono">{shortRef(state.theirs)}</span>
+            </div>
+            {state.conflicts.length > 0 ? (
+              <div className="space-y-1">
+                {state.conflicts.map(conflict => (
+                  <div key={conflict.path} className="flex items-center gap-2">
+                    <span className="font-mono truncate flex-1" title={conflict.path}>{conflict.path}</span>
+                    <Badge variant="outline" className="text-[10px] px-1 shrink-0">{CONFLICT_LABELS[conflict.type]}</Badge>
+                  </div>
+                ))}
+                <div className="text-muted-foreground">Resolve the conflict markers in these files, then continue.</div>
+              </div>
+            ) : (
+              <div className="text-muted-foreground">No conflicting files left - continue, or skip this commit if it is now empty.</div>
+            )}
+            <div className="flex gap-1">
+              <Button size="sm" className="h-7 text-xs flex-1" disabled={!!busy} onClick={() => run('Continue', () => api.gitSyncAction(sessionId, 'continue'))}>
+                Continue
+              </Button>
+              {state.operation === 'rebase' && (
+                <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy} onClick={() => run('Skip', () => api.gitSyncAction(sessionId, 'skip'))}>
+                  Skip
+                </Button>
+              )}
+              <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!!busy} onClick={() => run('Abort', () => api.gitSyncAction(sessionId, 'abort'))}>
+                Abort
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { api, McpConfigScope, McpServerMap, MCP_SECRET_PLACEHOLDER } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { toast } from './ui/use-toast';
+
+interface McpServersEditorProps {
+  scope: McpConfigScope;
+}
+
+const EXAMPLE = `{
+  "postgres": {
+    "command": "npx",
+    "args": ["-y", "@modelcontextprotocol/server-postgres"],
+    "env": { "DATABASE_URL": "postgres://..." }
+  },
+  "docs": {
+    "type": "http",
+    "url": "https://docs.example.com/mcp",
+    "headers": { "Authorization": "Bearer ..." }
+  }
+}`;
+
+const format = (servers: McpServerMap) =>
+  Object.keys(servers).length > 0 ? JSON.stringify(servers, null, 2) : '';
+
+// One level of MCP server definitions, edited as JSON (services/agent-mcp.ts)
+export function McpServersEditor({ scope }: McpServersEditorProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['mcp-servers', scope];
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: servers, error } = useQuery({
+    queryKey,
+    queryFn: () => api.getMcpServers(scope),
+  });
+
+  useEffect(() => {
+    if (servers) setText(format(servers));
+  }, [servers]);
+
+  const save = async () => {
+    let parsed: McpServerMap;
+    try {
+      parsed = text.trim() ? JSON.parse(text) : {};
+    } catch (err) {
+      toast({ title: 'Invalid JSON', description: (err as Error).message, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await api.updateMcpServers(scope, parsed);
+      queryClient.setQueryData(queryKey, saved);
+      toast({ title: 'MCP servers saved', description: 'Agents pick them up when their session next starts.' });
+    } catch (err) {
+      toast({ title: 'Failed to save MCP servers', description: (err as Error).message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-destructive">{(error as Error).message}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        className="font-mono text-xs min-h-[12rem]"
+        placeholder={EXAMPLE}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Secrets show as <code>{MCP_SECRET_PLACEHOLDER}</code>; leave them as they are to keep them.
+          Add <code>"disabled": true</code> to turn off a server inherited from another level.
+        </p>
+        <Button size="sm" onClick={save} disabled={saving || !servers}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
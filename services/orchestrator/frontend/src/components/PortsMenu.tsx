@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Radio, ExternalLink, AlertCircle, RefreshCw } from 'lucide-react';
+import { api, SessionPort } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { toast } from './ui/use-toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+interface PortsMenuProps {
+  sessionId: string;
+}
+
+export function PortsMenu({ sessionId }: PortsMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  // Poll slowly in the background, faster while the menu is open
+  const { data, isFetching, error, refetch } = useQuery({
+    queryKey: ['session-ports', sessionId],
+    queryFn: () => api.getSessionPorts(sessionId),
+    refetchInterval: open ? 3000 : 15000,
+    retry: false,
+  });
+
+  const ports = data?.ports || [];
+  const listeningCount = ports.filter(p => p.listening).length;
+
+  const describePort = (port: SessionPort) => {
+    if (!port.listening) return 'Not listening yet';
+    if (!port.reachable) return 'Bound to localhost - listen on 0.0.0.0 to preview';
+    if (!port.url) return 'Previews need PREVIEW_BASE_URL on the server';
+    return port.addresses.join(', ');
+  };
+
+  const openPreview = async (port: SessionPort) => {
+    try {
+      await api.openPreview(sessionId, port);
+    } catch (err) {
+      toast({ title: 'Failed to open preview', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Radio className="h-4 w-4 mr-2" />
+          Ports
+          {listeningCount > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">
+              {listeningCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Listening ports
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={(e) => {
+              e.preventDefault();
+              refetch();
+            }}
+          >
+            <RefreshCw className={`h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {error ? (
+          <div className="flex items-center gap-2 p-2 text-xs text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {(error as Error).message}
+          </div>
+        ) : ports.length === 0 ? (
+          <div className="p-2 text-xs text-muted-foreground">
+            No servers detected. Start a dev server in the terminal to preview it here.
+          </div>
+        ) : (
+          ports.map((port) => (
+            <DropdownMenuItem
+              key={port.port}
+              disabled={!port.reachable || !port.url}
+              onSelect={() => openPreview(port)}
+              className="flex items-start gap-2"
+            >
+              <span className="font-mono text-sm w-14">{port.port}</span>
+              <span className="flex-1 text-xs text-muted-foreground">
+                {describePort(port)}
+                {port.declared && <Badge variant="outline" className="ml-2 text-[10px]">devcontainer</Badge>}
+              </span>
+              {port.reachable && port.url && <ExternalLink className="h-3 w-3 mt-0.5" />}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
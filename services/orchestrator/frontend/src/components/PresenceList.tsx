@@ -0,0 +1,53 @@
+import { Eye } from 'lucide-react';
+import { TerminalPresenceClient } from '../api/client.ts';
+import { Avatar, AvatarFallback } from './ui/avatar';
+
+interface PresenceListProps {
+  clients: TerminalPresenceClient[];
+  selfId: string | null;
+}
+
+const MAX_VISIBLE = 5;
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]!.toUpperCase())
+    .join('') || '?';
+}
+
+export function PresenceList({ clients, selfId }: PresenceListProps) {
+  if (clients.length === 0) return null;
+
+  const visible = clients.slice(0, MAX_VISIBLE);
+  const hidden = clients.length - visible.length;
+
+  return (
+    <div className="flex items-center -space-x-2" aria-label={`${clients.length} watching`}>
+      {visible.map(client => {
+        const label = [
+          client.id === selfId ? `${client.name} (you)` : client.name,
+          client.isOwner ? 'owner' : client.access,
+        ].join(' - ');
+
+        return (
+          <div key={client.id} className="relative" title={label}>
+            <Avatar className={`h-7 w-7 border-2 ${client.id === selfId ? 'border-primary' : 'border-background'}`}>
+              <AvatarFallback className="text-[10px]">{initials(client.name)}</AvatarFallback>
+            </Avatar>
+            {client.access === 'read-only' && (
+              <Eye className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-background text-muted-foreground" />
+            )}
+          </div>
+        );
+      })}
+      {hidden > 0 && (
+        <Avatar className="h-7 w-7 border-2 border-background">
+          <AvatarFallback className="text-[10px]">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
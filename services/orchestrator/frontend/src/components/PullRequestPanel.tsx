@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, Circle, ExternalLink, GitPullRequest, RefreshCw, XCircle } from 'lucide-react';
+import { api, PullRequestStatus } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Alert, AlertDescription } from './ui/alert';
+import { toast } from './ui/use-toast';
+
+interface PullRequestPanelProps {
+  sessionId: string;
+  branch?: string;
+}
+
+const REVIEW_LABELS: Record<PullRequestStatus['reviews']['decision'], string> = {
+  approved: 'Approved',
+  changes_requested: 'Changes requested',
+  review_required: 'Review required',
+  none: 'No reviews',
+};
+
+const CHECK_ICONS = {
+  success: <CheckCircle className="h-3.5 w-3.5 text-green-600 shrink-0" />,
+  failure: <XCircle className="h-3.5 w-3.5 text-red-600 shrink-0" />,
+  pending: <Circle className="h-3.5 w-3.5 text-yellow-600 shrink-0" />,
+};
+
+export function PullRequestPanel({ sessionId, branch }: PullRequestPanelProps) {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState('');
+
+  const { data: pullRequest, error, isFetching, refetch } = useQuery({
+    queryKey: ['pull-request', sessionId],
+    queryFn: () => api.getPullRequest(sessionId),
+    // Review and check status change on GitHub, not here
+    refetchInterval: 60_000,
+    retry: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createPullRequest(sessionId, { title: title.trim() || branch || 'Update' }),
+    onSuccess: (created) => {
+      setTitle('');
+      toast({ title: created.created ? `Opened pull request #${created.number}` : `Linked existing pull request #${created.number}` });
+      queryClient.invalidateQueries({ queryKey: ['pull-request', sessionId] });
+    },
+    onError: (createError) => {
+      toast({ title: 'Could not open pull request', description: (createError as Error).message, variant: 'destructive' });
+    },
+  });
+
+  if (error) {
+    return (
+      <Alert>
+        <GitPullRequest className="h-4 w-4" />
+        <AlertDescription className="text-xs">{(error as Error).message}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!pullRequest || pullRequest.state !== 'open') {
+    return (
+      <div className="space-y-2">
+        {pullRequest && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <a href={pullRequest.url} target="_blank" rel="noreferrer" className="hover:underline">#{pullRequest.number}</a>
+            <Badge variant="outline" className="text-[10px] px-1">{pullRequest.state}</Badge>
+          </div>
+        )}
+        <div className="flex gap-1">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Pull request title..."
+            className="h-7 text-xs"
+          />
+          <Button size="sm" className="h-7 text-xs shrink-0" disabled={createMutation.isPending} onClick={() => createMutation.mutate()}>
+            <GitPullRequest className="h-3.5 w-3.5 mr-1" />
+            {createMutation.isPending ? 'Opening…' : 'Open PR'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-border rounded-lg p-3 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <GitPullRequest className="h-4 w-4 text-green-600 shrink-0" />
+        <a href={pullRequest.url} target="_blank" rel="noreferrer" className="font-medium truncate flex-1 hover:underline" title={pullRequest.title}>
+          #{pullRequest.number} {pullRequest.title}
+        </a>
+        <ExternalLink className="h-3 w-3 text-muted-foreground shrink-0" />
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {pullRequest.draft && <Badge variant="outline" className="text-[10px] px-1">draft</Badge>}
+        <Badge variant={pullRequest.reviews.decision === 'changes_requested' ? 'destructive' : 'secondary'} className="text-[10px] px-1">
+          {REVIEW_LABELS[pullRequest.reviews.decision]}
+        </Badge>
+        {pullRequest.mergeable === false && <Badge variant="destructive" className="text-[10px] px-1">merge conflicts</Badge>}
+        <span className="text-muted-foreground">{pullRequest.head} → {pullRequest.base}</span>
+      </div>
+
+      {pullRequest.checks.total > 0 ? (
+        <div className="space-y-1">
+          <div className="text-muted-foreground">
+            Checks: {pullRequest.checks.passed} passed, {pullRequest.checks.failed} failed, {pullRequest.checks.pending} pending
+          </div>
+          {pullRequest.checks.checks.map(check => (
+            <div key={check.name} className="flex items-center gap-2">
+              {CHECK_ICONS[check.state]}
+              {check.url ? (
+                <a href={check.url} target="_blank" rel="noreferrer" className="truncate hover:underline">{check.name}</a>
+              ) : (
+                <span className="truncate">{check.name}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-muted-foreground">No checks reported</div>
+      )}
+    </div>
+  );
+}
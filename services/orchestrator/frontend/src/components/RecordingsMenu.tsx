@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Circle, Play, Download, Trash2 } from 'lucide-react';
+import { api, Recording } from '../api/client.ts';
+import { formatDuration } from '../lib/asciicast';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { toast } from './ui/use-toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+
+interface RecordingsMenuProps {
+  sessionId: string;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function RecordingsMenu({ sessionId }: RecordingsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['recordings', sessionId],
+    queryFn: () => api.getRecordings(sessionId),
+    refetchInterval: open ? 5000 : false,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (enabled: boolean) => api.setRecording(sessionId, enabled),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['recordings', sessionId] }),
+    onError: (error) => {
+      toast({ title: 'Failed to update recording', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (recordingId: string) => api.deleteRecording(sessionId, recordingId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['recordings', sessionId] }),
+    onError: (error) => {
+      toast({ title: 'Failed to delete recording', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const enabled = data?.enabled ?? false;
+  const recordings = data?.recordings || [];
+  const isRecording = recordings.some((recording: Recording) => recording.active);
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Circle className={`h-4 w-4 mr-2 ${isRecording ? 'fill-red-500 text-red-500' : ''}`} />
+          {isRecording ? 'Recording' : 'Recordings'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-96">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Record this session
+          <Switch
+            checked={enabled}
+            disabled={toggleMutation.isPending}
+            onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+          />
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {recordings.length === 0 ? (
+          <div className="p-2 text-xs text-muted-foreground">
+            No recordings yet. Turn on recording to capture terminal output for playback.
+          </div>
+        ) : (
+          recordings.map((recording: Recording) => (
+            <div key={recording.id} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="truncate">
+                  {new Date(recording.startedAt).toLocaleString()}
+                  {recording.active && <span className="ml-2 text-xs text-red-500">live</span>}
+                  {recording.truncated && <span className="ml-2 text-xs text-muted-foreground">truncated</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDuration(recording.duration ?? 0)} · {formatSize(recording.size)}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => navigate(`/recordings/${sessionId}/${recording.id}`)}
+              >
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => api.downloadRecording(sessionId, recording.id)}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={recording.active || deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(recording.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Share2, Copy, Check, Trash2, Eye, Keyboard } from 'lucide-react';
+import { api, ShareLink, TerminalAccess } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { toast } from './ui/use-toast';
+
+interface ShareSessionDialogProps {
+  sessionId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '24 hours' },
+  { value: '168', label: '7 days' },
+  { value: 'never', label: 'Until revoked' },
+];
+
+export function ShareSessionDialog({ sessionId }: ShareSessionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [access, setAccess] = useState<TerminalAccess>('read-only');
+  const [expiry, setExpiry] = useState('24');
+  const [createdLink, setCreatedLink] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['share-links', sessionId],
+    queryFn: () => api.getShareLinks(sessionId),
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createShareLink(sessionId, access, expiry === 'never' ? undefined : Number(expiry)),
+    onSuccess: (link) => {
+      setCreatedLink(link);
+      setCopied(false);
+      queryClient.invalidateQueries({ queryKey: ['share-links', sessionId] });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to create share link', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) => api.deleteShareLink(sessionId, linkId),
+    onSuccess: (_, linkId) => {
+      if (createdLink?.id === linkId) setCreatedLink(null);
+      queryClient.invalidateQueries({ queryKey: ['share-links', sessionId] });
+      toast({ title: 'Share link revoked' });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to revoke share link', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // The token is only returned once, right after creation
+  const shareUrl = createdLink?.token ? api.getShareUrl(sessionId, createdLink.token) : '';
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+  };
+
+  const shareLinks = data?.shareLinks || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) setCreatedLink(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share terminal</DialogTitle>
+          <DialogDescription>
+            Anyone signed in with the link can join this terminal. Read-only viewers can watch but cannot type.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Access</Label>
+              <Select value={access} onValueChange={(value) => setAccess(value as TerminalAccess)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read-only">Read-only</SelectItem>
+                  <SelectItem value="read-write">Read-write</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending} className="w-full">
+            {createMutation.isPending ? 'Creating…' : 'Create link'}
+          </Button>
+
+          {shareUrl && (
+            <div className="space-y-2">
+              <Label>Link (copy it now - it won't be shown again)</Label>
+              <div className="flex gap-2">
+                <Input readOnly value={shareUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={copyUrl}>
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {shareLinks.length > 0 && (
+            <div className="space-y-2">
+              <Label>Active links</Label>
+              {shareLinks.map(link => (
+                <div key={link.id} className="flex items-center gap-2 text-sm">
+                  {link.access === 'read-only' ? <Eye className="h-4 w-4" /> : <Keyboard className="h-4 w-4" />}
+                  <Badge variant="outline">{link.access}</Badge>
+                  <span className="flex-1 text-xs text-muted-foreground">
+                    {link.expiresAt ? `expires ${new Date(link.expiresAt).toLocaleString()}` : 'no expiry'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(link.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
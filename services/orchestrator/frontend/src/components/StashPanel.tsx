@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { api, GitStashEntry, StashApplyResult } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { toast } from './ui/use-toast';
+
+interface StashPanelProps {
+  sessionId: string;
+}
+
+function StashFiles({ sessionId, entry }: { sessionId: string; entry: GitStashEntry }) {
+  const { data, error } = useQuery({
+    queryKey: ['git-stash-show', sessionId, entry.commit],
+    queryFn: () => api.showStash(sessionId, entry),
+    retry: false,
+  });
+
+  if (error) return <div className="pl-5 text-destructive">{(error as Error).message}</div>;
+  if (!data) return <div className="pl-5 text-muted-foreground">Loading…</div>;
+
+  return (
+    <div className="pl-5 space-y-0.5">
+      {data.files.map(file => (
+        <div key={file.path} className="flex items-center gap-2">
+          <span className="font-mono truncate flex-1" title={file.path}>{file.path}</span>
+          {file.status !== 'modified' && <Badge variant="outline" className="text-[10px] px-1">{file.status}</Badge>}
+          <span className="text-green-600">+{file.additions}</span>
+          <span className="text-red-600">-{file.deletions}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StashPanel({ sessionId }: StashPanelProps) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState('');
+  const [includeUntracked, setIncludeUntracked] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data: stashes } = useQuery({
+    queryKey: ['git-stash', sessionId],
+    queryFn: () => api.listStashes(sessionId),
+    retry: false,
+  });
+
+  const run = async (label: string, action: () => Promise<StashApplyResult | unknown>) => {
+    setBusy(label);
+    try {
+      const result = await action();
+      if ((result as StashApplyResult)?.status === 'conflicts') {
+        const { conflicts } = result as StashApplyResult;
+        toast({
+          title: `${label} stopped on conflicts`,
+          description: `${conflicts.length} conflicting file(s) to resolve; the stash entry was kept`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({ title: `${label} failed`, description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['git-stash', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['git-status', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['git-conflicts', sessionId] }),
+        queryClient.invalidateQueries({ queryKey: ['files', sessionId] }),
+      ]);
+    }
+  };
+
+  const push = () => run('Stash', async () => {
+    await api.pushStash(sessionId, { message: message.trim() || undefined, includeUntracked });
+    setMessage('');
+  });
+
+  const drop = (entry: GitStashEntry) => {
+    if (!window.confirm(`Drop ${entry.ref} "${entry.message}"? This cannot be undone.`)) return;
+    run('Drop', () => api.dropStash(sessionId, entry));
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex gap-1">
+        <Input
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Stash message (optional)..."
+          className="h-7 text-xs"
+        />
+        <Button variant="outline" size="sm" className="h-7 text-xs shrink-0" disabled={!!busy} onClick={push}>
+          <Archive className="h-3.5 w-3.5 mr-1" />
+          {busy === 'Stash' ? 'Stashing…' : 'Stash'}
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-muted-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeUntracked}
+          onChange={(e) => setIncludeUntracked(e.target.checked)}
+          className="rounded border-border"
+        />
+        Include untracked files
+      </label>
+
+      {stashes && stashes.length > 0 && (
+        <div className="space-y-1">
+          {stashes.map(entry => (
+            <div key={entry.commit} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 shrink-0"
+                  onClick={() => setExpanded(expanded === entry.commit ? null : entry.commit)}
+                >
+                  {expanded === entry.commit ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                </Button>
+                <span className="truncate flex-1" title={`${entry.ref} on ${entry.branch ?? 'detached HEAD'} - ${new Date(entry.createdAt).toLocaleString()}`}>
+                  {entry.message}
+                </span>
+                {entry.includesUntracked && <Badge variant="outline" className="text-[10px] px-1 shrink-0">+untracked</Badge>}
+                <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs" disabled={!!busy} onClick={() => run('Apply', () => api.applyStash(sessionId, entry))}>
+                  Apply
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs" disabled={!!busy} onClick={() => run('Pop', () => api.applyStash(sessionId, entry, true))}>
+                  <ArchiveRestore className="h-3 w-3 mr-1" />
+                  Pop
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" disabled={!!busy} onClick={() => drop(entry)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              {expanded === entry.commit && <StashFiles sessionId={sessionId} entry={entry} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Columns2, Plus, Rows2, X } from 'lucide-react';
+import { api, TmuxWindow } from '../api/client.ts';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { toast } from './ui/use-toast';
+
+interface WindowTabsProps {
+  sessionId: string;
+  readOnly?: boolean;
+}
+
+export function WindowTabs({ sessionId, readOnly = false }: WindowTabsProps) {
+  const queryClient = useQueryClient();
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+
+  // The terminal WebSocket invalidates this on 'windows' events; polling catches
+  // windows opened with tmux key bindings
+  const { data } = useQuery({
+    queryKey: ['windows', sessionId],
+    queryFn: () => api.getWindows(sessionId),
+    refetchInterval: 5000,
+    retry: false,
+    enabled: !readOnly,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Window operation failed', description: error.message, variant: 'destructive' });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['windows', sessionId] });
+
+  const selectMutation = useMutation({
+    mutationFn: (windowId: number) => api.selectWindow(sessionId, windowId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => api.createWindow(sessionId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => api.renameWindow(sessionId, id, name),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (windowId: number) => api.deleteWindow(sessionId, windowId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: ({ windowId, direction }: { windowId: number; direction: 'horizontal' | 'vertical' }) =>
+      api.splitPane(sessionId, windowId, direction),
+    onSuccess: refresh,
+    onError,
+  });
+
+  // The bar is always rendered (even while loading) so the terminal below is
+  // fitted to its final height
+  const windows = data?.windows || [];
+  if (readOnly) return null;
+
+  const activeWindow = windows.find((window: TmuxWindow) => window.active);
+
+  const finishRename = () => {
+    if (renaming && renaming.name.trim()) {
+      renameMutation.mutate({ id: renaming.id, name: renaming.name.trim() });
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className="h-9 border-b border-border flex items-center gap-1 px-2 bg-muted/30 overflow-x-auto">
+      {windows.map((window: TmuxWindow) => (
+        <div
+          key={window.id}
+          className={`group flex items-center gap-1 h-7 rounded px-2 text-xs cursor-pointer ${
+            window.active ? 'bg-background border border-border' : 'text-muted-foreground hover:bg-muted'
+          }`}
+          onClick={() => !window.active && selectMutation.mutate(window.id)}
+          onDoubleClick={() => setRenaming({ id: window.id, name: window.name })}
+        >
+          {renaming?.id === window.id ? (
+            <Input
+              autoFocus
+              className="h-5 w-28 px-1 text-xs"
+              value={renaming.name}
+              onChange={(e) => setRenaming({ id: window.id, name: e.target.value })}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+            />
+          ) : (
+            <span className="font-mono">
+              {window.index}:{window.name}
+              {window.panes.length > 1 && <span className="ml-1 opacity-60">({window.panes.length})</span>}
+            </span>
+          )}
+          {windows.length > 1 && (
+            <button
+              className="opacity-0 group-hover:opacity-100 hover:text-red-500"
+              onClick={(e) => {
+                e.stopPropagation();
+                deleteMutation.mutate(window.id);
+              }}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={createMutation.isPending}
+        onClick={() => createMutation.mutate()}
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      {activeWindow && (
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Split right"
+            disabled={splitMutation.isPending}
+            onClick={() => splitMutation.mutate({ windowId: activeWindow.id, direction: 'horizontal' })}
+          >
+            <Columns2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Split down"
+            disabled={splitMutation.isPending}
+            onClick={() => splitMutation.mutate({ windowId: activeWindow.id, direction: 'vertical' })}
+          >
+            <Rows2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
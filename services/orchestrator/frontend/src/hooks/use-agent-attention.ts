@@ -0,0 +1,37 @@
+import { useEffect, useRef } from "react"
+import type { AgentState, Session } from "../api/client.ts"
+import { toast } from "../components/ui/use-toast"
+
+// Mirrors needsAttention() in the orchestrator's lib/agent-state.ts
+function needsAttention(previous: AgentState | undefined, next: AgentState | undefined): boolean {
+  if (next === "awaiting_input") return previous !== "awaiting_input"
+  return next === "idle" && previous === "working"
+}
+
+// Toasts (and, when allowed, a browser notification) when an agent session
+// starts waiting for input or stops working. States seen on the first render
+// are only remembered, so reloading the page does not replay them.
+export function useAgentAttention(sessions: Session[]) {
+  const seen = useRef<Map<string, AgentState | undefined> | null>(null)
+
+  useEffect(() => {
+    const previous = seen.current
+    seen.current = new Map(sessions.map(session => [session.id, session.agentState]))
+    if (!previous) return
+
+    for (const session of sessions) {
+      if (session.sessionType !== "agent" || !previous.has(session.id)) continue
+      if (!needsAttention(previous.get(session.id), session.agentState)) continue
+
+      const name = session.name || `Session ${session.id.substring(0, 8)}`
+      const title = session.agentState === "awaiting_input"
+        ? `${name} is waiting for input`
+        : `${name} has finished working`
+      toast({ title })
+
+      if (typeof Notification !== "undefined" && Notification.permission === "granted" && document.hidden) {
+        new Notification(title, { tag: `agent-${session.id}` })
+      }
+    }
+  }, [sessions])
+}
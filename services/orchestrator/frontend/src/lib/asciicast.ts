@@ -0,0 +1,73 @@
+// Parsing for asciicast v2 recordings (see src/lib/asciicast.ts on the server)
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number;
+  title?: string;
+}
+
+export interface CastEvent {
+  time: number;            // seconds on the playback timeline (idle gaps capped)
+  type: 'o' | 'r';
+  data: string;
+}
+
+export interface Cast {
+  header: CastHeader;
+  events: CastEvent[];
+  duration: number;
+}
+
+/**
+ * Parse a .cast file. Gaps longer than `idleLimit` seconds are shortened so an
+ * overnight session with long pauses can be reviewed quickly.
+ */
+export function parseCast(content: string, idleLimit = Infinity): Cast {
+  const lines = content.split('\n').filter(line => line.trim());
+  if (lines.length === 0) {
+    throw new Error('Recording is empty');
+  }
+
+  const header = JSON.parse(lines[0]) as CastHeader;
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version: ${header.version}`);
+  }
+
+  const events: CastEvent[] = [];
+  let lastRaw = 0;
+  let time = 0;
+
+  for (const line of lines.slice(1)) {
+    let event: [number, string, string];
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue; // A recording still being written may end mid-line
+    }
+
+    const [rawTime, type, data] = event;
+    if (type !== 'o' && type !== 'r') continue;
+
+    time += Math.min(Math.max(0, rawTime - lastRaw), idleLimit);
+    lastRaw = rawTime;
+    events.push({ time, type, data });
+  }
+
+  return { header, events, duration: time };
+}
+
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data);
+  return match ? { cols: Number(match[1]), rows: Number(match[2]) } : null;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(h ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+}
@@ -0,0 +1,18 @@
+// Binary terminal output frames (see src/lib/terminal-output.ts on the server):
+// [type: u8][seq: u32 big-endian][UTF-8 payload]
+
+const OUTPUT_FRAME = 0x01;
+const FRAME_HEADER_BYTES = 5;
+const decoder = new TextDecoder();
+
+export function decodeOutputFrame(buffer: ArrayBuffer): { seq: number; data: string } | null {
+  if (buffer.byteLength < FRAME_HEADER_BYTES) return null;
+
+  const view = new DataView(buffer);
+  if (view.getUint8(0) !== OUTPUT_FRAME) return null;
+
+  return {
+    seq: view.getUint32(1),
+    data: decoder.decode(new Uint8Array(buffer, FRAME_HEADER_BYTES)),
+  };
+}
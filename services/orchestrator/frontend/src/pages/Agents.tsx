@@ -1,5 +1,8 @@
 import React from 'react';
 import { AgentList } from '../components/AgentList';
+import { AgentNotificationSettings } from '../components/AgentNotificationSettings';
+import { McpServersEditor } from '../components/McpServersEditor';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { useAuth } from '../contexts/AuthContext';
 
 export function Agents() {
@@ -10,5 +13,23 @@ export function Agents() {
     return <div>Please log in to view agents.</div>;
   }
 
-  return <AgentList userId={userId} />;
+  return (
+    <>
+      <AgentList userId={userId} />
+      <div className="px-6 pb-6 space-y-6">
+        <AgentNotificationSettings />
+        <Card>
+          <CardHeader>
+            <CardTitle>MCP servers</CardTitle>
+            <CardDescription>
+              Given to every agent in every environment. Agents and environments can add their own or override these.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <McpServersEditor scope={{ level: 'user' }} />
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
 }
\ No newline at end of file
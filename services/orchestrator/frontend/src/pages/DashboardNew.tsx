@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate, Link } from 'react-router-dom';
 import { Code, GitBranch, GitFork, Play, Plus, Power, Settings, X, Grid3X3, List } from "lucide-react"
 import { api } from '../api/client.ts';
-import type { Environment } from '../api/client.ts';
+import type { Environment, SandboxSettings } from '../api/client.ts';
 import { useCreateEnvironment } from '../components/AppSidebar';
 import { CreateEnvironmentDialog } from '../components/CreateEnvironmentDialog';
 import { useAuth } from '../contexts/AuthContext';
@@ -42,8 +42,8 @@ export function DashboardNew() {
   
   console.log('DashboardNew render - dockerImageError:', dockerImageError);
 
-  const handleCreateEnvironment = async (name: string, repositoryUrl?: string) => {
-    console.log('Creating environment:', { name, repositoryUrl });
+  const handleCreateEnvironment = async (name: string, repositoryUrl?: string, sandbox?: SandboxSettings) => {
+    console.log('Creating environment:', { name, repositoryUrl, sandbox });
     
     // Clear any previous errors
     setDockerImageError(null);
@@ -51,7 +51,7 @@ export function DashboardNew() {
     
     try {
       if (!userId) throw new Error('User not authenticated');
-      const environment = await api.createEnvironment(userId, name, repositoryUrl);
+      const environment = await api.createEnvironment(userId, name, repositoryUrl, 'main', sandbox);
       
       // Success - close dialog and navigate
       console.log('Environment created successfully:', environment);
@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Terminal, Trash2, ArrowLeft, GitBranch, Folder, Clock, Play, Square, Settings, Bot, Grid3X3, List, User, AlertCircle, Loader2, ExternalLink, Copy, Search, SortAsc, SortDesc } from 'lucide-react';
+import { Plus, Terminal, Trash2, ArrowLeft, GitBranch, Folder, Clock, Play, Square, Settings, Bot, Grid3X3, List, User, AlertCircle, Loader2, ExternalLink, Copy, Search, SortAsc, SortDesc, RefreshCw, Plug } from 'lucide-react';
 import { api } from '../api/client.ts';
 import type { Session } from '../api/client.ts';
 import { Button } from '../components/ui/button';
@@ -9,6 +9,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Badge } from '../components/ui/badge';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu';
 import { CreateSessionDialog } from '../components/CreateSessionDialog';
+import { DeployKeyPanel } from '../components/DeployKeyPanel';
+import { McpServersEditor } from '../components/McpServersEditor';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
@@ -47,6 +49,20 @@ export function Environment() {
     enabled: !!userId,
   });
 
+  const fetchRepositoryMutation = useMutation({
+    mutationFn: () => api.fetchEnvironmentRepository(environmentId!),
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['environment', environmentId] });
+      queryClient.invalidateQueries({ queryKey: ['branches', environmentId] });
+      if (status.lastFetchError && status.fetchFailures > 0) {
+        toast({ title: 'Fetch failed', description: status.lastFetchError, variant: 'destructive' });
+      }
+    },
+    onError: (error) => {
+      toast({ title: 'Fetch failed', description: (error as Error).message, variant: 'destructive' });
+    },
+  });
+
   const createSessionMutation = useMutation({
     mutationFn: ({ name, branch, workingDirectory, sessionType, agentId }: { 
       name?: string; 
@@ -536,6 +552,45 @@ export function Environment() {
                 </div>
               </div>
             )}
+            {environment.repositoryUrl && (
+              <div className="space-y-1 md:col-span-2">
+                <label className="text-sm font-medium text-muted-foreground">Last fetched</label>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>{formatRelative(environment.lastFetchedAt)}</span>
+                  {environment.lastFetchError && (
+                    <span className="flex items-center gap-1 text-destructive truncate" title={environment.lastFetchError}>
+                      <AlertCircle className="h-4 w-4 shrink-0" />
+                      {environment.lastFetchError}
+                    </span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => fetchRepositoryMutation.mutate()}
+                    disabled={fetchRepositoryMutation.isPending}
+                    title="Fetch now"
+                  >
+                    {fetchRepositoryMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {environment.repositoryUrl && (
+              <div className="md:col-span-2">
+                <DeployKeyPanel environment={environment} />
+              </div>
+            )}
+            <div className="md:col-span-2 space-y-2">
+              <label className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                <Plug className="h-4 w-4" />
+                MCP servers
+              </label>
+              <p className="text-sm text-muted-foreground">
+                For every agent in this environment. These override your own and the agent's servers of the same name.
+              </p>
+              <McpServersEditor scope={{ level: 'environment', id: environment.id }} />
+            </div>
           </div>
         </CardContent>
       </Card>
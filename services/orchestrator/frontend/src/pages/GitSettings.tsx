@@ -10,6 +10,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useGitHub } from '../contexts/GitHubContext';
+import { GitProviderConnections } from '@/components/GitProviderConnections';
 import { useState, useEffect } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -160,6 +161,8 @@ export function GitSettings() {
           </CardContent>
         </Card>
 
+        <GitProviderConnections />
+
         {/* Git Configuration Card */}
         <Card>
           <CardHeader>
@@ -176,7 +179,7 @@ export function GitSettings() {
               <div className="rounded-lg border p-4">
                 <p className="text-sm text-muted-foreground">
                   Git configuration settings will be available in a future update.
-                  Currently, all Git operations use your GitHub account credentials.
+                  Git operations use the GitHub account or provider connection matching each repository's host.
                 </p>
               </div>
             </div>
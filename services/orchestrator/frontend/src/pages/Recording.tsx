@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Terminal as XTerm } from 'xterm';
+import { ArrowLeft, Download, Pause, Play, RotateCcw } from 'lucide-react';
+import 'xterm/css/xterm.css';
+import { Button } from '../components/ui/button';
+import { Slider } from '../components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { api } from '../api/client.ts';
+import { formatDuration, parseCast, parseResize } from '../lib/asciicast';
+
+const SPEEDS = ['1', '2', '4', '8', '16'];
+const IDLE_LIMITS = [
+  { value: 'none', label: 'Real pauses' },
+  { value: '2', label: 'Max 2s pause' },
+  { value: '10', label: 'Max 10s pause' },
+];
+
+export function Recording() {
+  const { sessionId, recordingId } = useParams<{ sessionId: string; recordingId: string }>();
+  const navigate = useNavigate();
+
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const nextEventRef = useRef(0);
+  const timeRef = useRef(0);
+
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState('1');
+  const [idleLimit, setIdleLimit] = useState('2');
+
+  const { data: content, error, isLoading } = useQuery({
+    queryKey: ['recording', sessionId, recordingId],
+    queryFn: () => api.getRecordingCast(sessionId!, recordingId!),
+    enabled: !!sessionId && !!recordingId,
+  });
+
+  const cast = useMemo(() => {
+    if (!content) return null;
+    try {
+      return parseCast(content, idleLimit === 'none' ? Infinity : Number(idleLimit));
+    } catch (parseError) {
+      console.error('Failed to parse recording:', parseError);
+      return null;
+    }
+  }, [content, idleLimit]);
+
+  // Write every event up to `time` (exclusive of later ones) starting at `from`
+  const applyEvents = useCallback((from: number, time: number) => {
+    const term = xtermRef.current;
+    if (!term || !cast) return from;
+
+    let index = from;
+    let output = '';
+    while (index < cast.events.length && cast.events[index].time <= time) {
+      const event = cast.events[index];
+      if (event.type === 'o') {
+        output += event.data;
+      } else {
+        // Flush before resizing so output lands at the size it was produced for
+        if (output) term.write(output);
+        output = '';
+        const size = parseResize(event.data);
+        if (size) term.resize(size.cols, size.rows);
+      }
+      index++;
+    }
+    if (output) term.write(output);
+    return index;
+  }, [cast]);
+
+  const seek = useCallback((time: number) => {
+    const term = xtermRef.current;
+    if (!term || !cast) return;
+
+    term.reset();
+    term.resize(cast.header.width, cast.header.height);
+    nextEventRef.current = applyEvents(0, time);
+    timeRef.current = time;
+    setCurrentTime(time);
+  }, [cast, applyEvents]);
+
+  // Create the player terminal once the recording is loaded
+  useEffect(() => {
+    if (!terminalRef.current || !cast) return;
+
+    const term = new XTerm({
+      fontSize: 14,
+      fontFamily: 'monospace',
+      theme: {
+        background: '#000000',
+        foreground: '#ffffff',
+      },
+      cols: cast.header.width,
+      rows: cast.header.height,
+      scrollback: 1000,
+      disableStdin: true,
+      cursorBlink: false,
+    });
+    term.open(terminalRef.current);
+    xtermRef.current = term;
+
+    // Re-apply the current position (idle limit changes rebuild the timeline)
+    const start = Math.min(timeRef.current, cast.duration);
+    nextEventRef.current = applyEvents(0, start);
+    timeRef.current = start;
+    setCurrentTime(start);
+
+    return () => {
+      term.dispose();
+      xtermRef.current = null;
+    };
+  }, [cast, applyEvents]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!playing || !cast) return;
+
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const time = Math.min(timeRef.current + ((now - last) / 1000) * Number(speed), cast.duration);
+      last = now;
+      nextEventRef.current = applyEvents(nextEventRef.current, time);
+      timeRef.current = time;
+      setCurrentTime(time);
+
+      if (time >= cast.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, cast, applyEvents]);
+
+  const togglePlaying = () => {
+    if (!cast) return;
+    if (!playing && currentTime >= cast.duration) {
+      seek(0);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-background">
+      <div className="h-14 border-b border-border flex items-center justify-between px-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold">
+            Recording - {cast?.header.title || `Session ${sessionId?.substring(0, 8)}`}
+          </h2>
+          {cast && (
+            <span className="text-sm text-muted-foreground">
+              {new Date(cast.header.timestamp * 1000).toLocaleString()}
+            </span>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!sessionId || !recordingId}
+          onClick={() => api.downloadRecording(sessionId!, recordingId!)}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download .cast
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-black p-2">
+        {isLoading && <div className="text-sm text-muted-foreground p-4">Loading recording…</div>}
+        {error && <div className="text-sm text-red-500 p-4">{(error as Error).message}</div>}
+        {content && !cast && <div className="text-sm text-red-500 p-4">This recording could not be parsed.</div>}
+        <div ref={terminalRef} />
+      </div>
+
+      <div className="border-t border-border flex items-center gap-3 px-4 py-3">
+        <Button variant="outline" size="icon" className="h-8 w-8" disabled={!cast} onClick={togglePlaying}>
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={!cast} onClick={() => seek(0)}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <span className="font-mono text-xs w-24 text-muted-foreground">
+          {formatDuration(currentTime)} / {formatDuration(cast?.duration ?? 0)}
+        </span>
+        <Slider
+          className="flex-1"
+          min={0}
+          max={cast?.duration || 1}
+          step={0.1}
+          value={[currentTime]}
+          disabled={!cast}
+          onValueChange={([time]) => seek(time)}
+        />
+        <Select value={speed} onValueChange={setSpeed}>
+          <SelectTrigger className="w-20 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.map(value => (
+              <SelectItem key={value} value={value}>{value}x</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={idleLimit} onValueChange={setIdleLimit}>
+          <SelectTrigger className="w-36 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IDLE_LIMITS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
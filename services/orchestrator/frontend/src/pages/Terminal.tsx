@@ -4,18 +4,37 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Terminal as XTerm } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
 import { WebLinksAddon } from 'xterm-addon-web-links';
-import { Maximize2, Minimize2, ArrowLeft, PanelRightOpen, PanelRightClose, Trash2 } from 'lucide-react';
+import { Maximize2, Minimize2, ArrowLeft, PanelRightOpen, PanelRightClose, Trash2, Eye, FolderTree } from 'lucide-react';
 import 'xterm/css/xterm.css';
 import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
 import { GitPanel } from '../components/GitPanel';
+import { PortsMenu } from '../components/PortsMenu';
+import { RecordingsMenu } from '../components/RecordingsMenu';
+import { PresenceList } from '../components/PresenceList';
+import { ShareSessionDialog } from '../components/ShareSessionDialog';
+import { WindowTabs } from '../components/WindowTabs';
+import { FilesPanel } from '../components/FilesPanel';
 import * as client from '../api/client.ts';
+import { decodeOutputFrame } from '../lib/terminal-frames';
 
 export function Terminal() {
   const { sessionId } = useParams<{ sessionId: string }>();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const environmentId = searchParams.get('environmentId');
+  // Opened through a share link: ?share=<token> instead of ?environmentId=
+  const shareToken = searchParams.get('share');
+  const initialWindow = searchParams.get('window');
+
+  const { data: sharedSession, error: shareError } = useQuery({
+    queryKey: ['shared-session', shareToken],
+    queryFn: () => client.api.resolveShareLink(shareToken!),
+    enabled: !!shareToken,
+    retry: false,
+  });
+
+  const environmentId = searchParams.get('environmentId') || sharedSession?.environmentId || null;
   
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
@@ -29,7 +48,18 @@ export function Terminal() {
     const initial = new URLSearchParams(window.location.search).get('showGit');
     return initial === '1' || initial === 'true';
   });
+  const [showFilesPanel, setShowFilesPanel] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [access, setAccess] = useState<client.TerminalAccess>('read-write');
+  const [presence, setPresence] = useState<client.TerminalPresenceClient[]>([]);
+
+  // Side panels change the terminal's width: refit it (the window resize handler
+  // fits and tells the server) once the new layout is in place
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => window.dispatchEvent(new Event('resize')));
+    return () => cancelAnimationFrame(frame);
+  }, [showFilesPanel, showGitPanel]);
 
   // React to query param changes for showGit
   useEffect(() => {
@@ -43,9 +73,11 @@ export function Terminal() {
   const { data: sessionData } = useQuery({
     queryKey: ['session', sessionId],
     queryFn: () => client.api.getSession(sessionId!),
-    enabled: !!sessionId,
+    enabled: !!sessionId && !shareToken,
   });
 
+  const sessionName = sessionData?.name || sharedSession?.sessionName;
+
   useEffect(() => {
     console.log('[Terminal.tsx] useEffect triggered', { sessionId, environmentId, hasTerminalRef: !!terminalRef.current });
     
@@ -227,9 +259,15 @@ export function Terminal() {
         return null;
       }
       
-      const wsUrl = `ws://localhost:3000/api/terminal/ws/${sessionId}?environmentId=${environmentId}&token=${encodeURIComponent(accessToken)}`;
+      const shareParam = shareToken ? `&share=${encodeURIComponent(shareToken)}` : '';
+      // ?window=<id> opens that tmux window in a view of its own; reconnects
+      // ask for it again so they resume the same view
+      const windowParam = initialWindow ? `&window=${encodeURIComponent(initialWindow)}` : '';
+      // protocol=binary: output arrives as binary frames, control messages stay JSON
+      const wsUrl = `ws://localhost:3000/api/terminal/ws/${sessionId}?environmentId=${environmentId}&token=${encodeURIComponent(accessToken)}${shareParam}${windowParam}&protocol=binary`;
       console.log('[Terminal.tsx] Creating WebSocket connection (with auth)');
       const ws = new WebSocket(wsUrl);
+      ws.binaryType = 'arraybuffer';
 
       ws.onopen = () => {
         console.log('WebSocket connected');
@@ -269,26 +307,108 @@ export function Terminal() {
         setTimeout(setupTerminal, 100);
       };
 
+      attachSocketHandlers(ws);
+      wsRef.current = ws;
       return ws;
     };
 
-    // Wait a bit before connecting to ensure terminal is fully initialized
-    const timeoutId = setTimeout(async () => {
-      console.log('[Terminal.tsx] Attempting WebSocket connection...');
-      const ws = await connectWebSocket();
-      if (!ws) {
-        console.log('[Terminal.tsx] WebSocket connection delayed, terminal not ready');
-        return;
+    // Resume state: the server numbers every output chunk, so after a dropped
+    // connection we ask for everything after the last chunk we wrote. Output
+    // that arrives while the replay is in flight is held and deduped by seq.
+    let lastSeq = 0;
+    let bufferId: string | null = null;
+    let resuming = false;
+    let heldOutput: { seq: number; data: string }[] = [];
+    let reconnectAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const writeOutput = (seq: number | undefined, data: string) => {
+      if (typeof seq === 'number') {
+        if (seq <= lastSeq) return;
+        lastSeq = seq;
+      }
+      term.write(data);
+    };
+
+    const handleOutput = (seq: number | undefined, data: string) => {
+      if (resuming) {
+        heldOutput.push({ seq: seq ?? 0, data });
+      } else {
+        writeOutput(seq, data);
+      }
+    };
+
+    const flushHeldOutput = () => {
+      const held = heldOutput;
+      heldOutput = [];
+      resuming = false;
+      for (const chunk of held) {
+        writeOutput(chunk.seq, chunk.data);
       }
+    };
 
+    const scheduleReconnect = () => {
+      // 1s, 2s, 4s, ... capped at 10s
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, 10000);
+      reconnectAttempts++;
+      console.log(`[Terminal.tsx] Reconnecting in ${delay}ms (attempt ${reconnectAttempts})`);
+      reconnectTimer = setTimeout(() => {
+        if (!disposed) connectWebSocket();
+      }, delay);
+    };
+
+    function attachSocketHandlers(ws: WebSocket) {
       ws.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          const frame = decodeOutputFrame(event.data);
+          if (frame) {
+            handleOutput(frame.seq, frame.data);
+          }
+          return;
+        }
+
         try {
           const data = JSON.parse(event.data);
           console.log('[Terminal] WebSocket message received:', data.type, data.data?.length || 0, 'chars');
           
           if (data.type === 'output') {
             // Write data directly to terminal - let xterm handle ANSI sequences
+            handleOutput(data.seq, data.data);
+          } else if (data.type === 'joined') {
+            setClientId(data.clientId);
+            setAccess(data.access);
+            // Observers can scroll and select, but keystrokes are not sent (and dropped server-side)
+            term.options.disableStdin = data.access === 'read-only';
+            reconnectAttempts = 0;
+
+            if (bufferId) {
+              // Reconnect: ask for exactly what we missed
+              resuming = true;
+              ws.send(JSON.stringify({ type: 'resume', bufferId, lastSeq }));
+            } else {
+              bufferId = data.bufferId;
+              lastSeq = data.seq ?? 0;
+            }
+          } else if (data.type === 'replay') {
             term.write(data.data);
+            lastSeq = data.toSeq;
+            flushHeldOutput();
+          } else if (data.type === 'resume-failed') {
+            // Too much output was missed (or the server restarted) - start over
+            // from a clean screen; the server redraws the current pane
+            term.reset();
+            bufferId = data.bufferId;
+            lastSeq = data.seq;
+            flushHeldOutput();
+          } else if (data.type === 'presence') {
+            setPresence(data.clients);
+          } else if (data.type === 'windows') {
+            queryClient.invalidateQueries({ queryKey: ['windows', sessionId] });
+          } else if (data.type === 'agent-state') {
+            // The agent finished, started or asked something (services/agent-watcher.ts)
+            queryClient.invalidateQueries({ queryKey: ['sidebar-sessions'] });
+            queryClient.invalidateQueries({ queryKey: ['sessions'] });
           } else if (data.type === 'error') {
             term.write(`\r\n[Error] ${data.message}\r\n`);
           } else if (data.type === 'request-resize') {
@@ -313,11 +433,12 @@ export function Terminal() {
 
       ws.onerror = (error) => {
         console.error('WebSocket error:', error);
-        term.write('\r\n[Connection Error]\r\n');
       };
 
       ws.onclose = async (event) => {
         console.log('WebSocket disconnected', event.code, event.reason);
+        setPresence([]);
+        if (disposed || wsRef.current !== ws) return;
         
         // Handle authentication failure (code 1008)
         if (event.code === 1008 && event.reason.includes('authentication')) {
@@ -331,11 +452,8 @@ export function Terminal() {
             term.write('[Reconnecting...]\r\n');
             
             // Reconnect with new token
-            setTimeout(async () => {
-              const newWs = await connectWebSocket();
-              if (newWs && newWs instanceof WebSocket) {
-                wsRef.current = newWs;
-              }
+            reconnectTimer = setTimeout(() => {
+              if (!disposed) connectWebSocket();
             }, 1000);
           } else {
             console.error('[Terminal.tsx] Failed to refresh token, redirecting to login...');
@@ -344,95 +462,100 @@ export function Terminal() {
               window.location.reload(); // This will show the auth form
             }, 2000);
           }
-        } else {
+        } else if ((event.code === 1008 || event.code === 1011) && event.reason) {
+          term.write(`\r\n[Disconnected: ${event.reason}]\r\n`);
+        } else if (event.code === 1000) {
           term.write('\r\n[Disconnected]\r\n');
+        } else {
+          // Network drop or server restart - the session keeps running, so reconnect
+          // and resume. Nothing is written to the terminal so the replay lines up.
+          resuming = false;
+          heldOutput = [];
+          scheduleReconnect();
         }
       };
+    }
 
-      term.onData((data) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({
-            type: 'input',
-            data,
-          }));
-        }
-      });
+    // Wait a bit before connecting to ensure terminal is fully initialized
+    const timeoutId = setTimeout(async () => {
+      console.log('[Terminal.tsx] Attempting WebSocket connection...');
+      const ws = await connectWebSocket();
+      if (!ws) {
+        console.log('[Terminal.tsx] WebSocket connection delayed, terminal not ready');
+      }
+    }, 500);
 
-      // Window resize handler - only triggers on actual browser window changes
-      const handleWindowResize = () => {
-        clearTimeout((window as any).windowResizeTimeout);
-        (window as any).windowResizeTimeout = setTimeout(() => {
-          if (fitAddonRef.current && xtermRef.current && terminalRef.current) {
-            try {
-              const container = terminalRef.current;
-              const rect = container.getBoundingClientRect();
+    term.onData((data) => {
+      const ws = wsRef.current;
+      if (ws?.readyState === WebSocket.OPEN && !resuming) {
+        ws.send(JSON.stringify({
+          type: 'input',
+          data,
+        }));
+      }
+    });
+
+    // Window resize handler - only triggers on actual browser window changes
+    const handleWindowResize = () => {
+      clearTimeout((window as any).windowResizeTimeout);
+      (window as any).windowResizeTimeout = setTimeout(() => {
+        if (fitAddonRef.current && xtermRef.current && terminalRef.current) {
+          try {
+            const container = terminalRef.current;
+            const rect = container.getBoundingClientRect();
+            
+            // Only resize if container has valid dimensions
+            if (rect.width > 0 && rect.height > 0) {
+              const oldCols = xtermRef.current.cols;
+              const oldRows = xtermRef.current.rows;
               
-              // Only resize if container has valid dimensions
-              if (rect.width > 0 && rect.height > 0) {
-                const oldCols = xtermRef.current.cols;
-                const oldRows = xtermRef.current.rows;
-                
-                // Validate proposed dimensions before fitting
-                const proposed = fitAddonRef.current.proposeDimensions();
-                if (!proposed || proposed.cols <= 0 || proposed.rows <= 0) {
-                  console.warn('Window resize: Invalid proposed dimensions:', proposed);
-                  return;
-                }
-                
-                fitAddonRef.current.fit();
-                console.log(`Window resize: ${oldCols}x${oldRows} -> ${xtermRef.current.cols}x${xtermRef.current.rows} (proposed: ${proposed.cols}x${proposed.rows})`);
-                
-                // Force a redraw after fitting
-                if (xtermRef.current.rows > 0) {
-                  xtermRef.current.refresh(0, xtermRef.current.rows - 1);
-                }
-                
-                // Only send if dimensions actually changed
-                if (ws.readyState === WebSocket.OPEN && 
-                    xtermRef.current.cols > 0 && xtermRef.current.rows > 0 &&
-                    (xtermRef.current.cols !== oldCols || xtermRef.current.rows !== oldRows)) {
-                  ws.send(JSON.stringify({
-                    type: 'resize',
-                    cols: xtermRef.current.cols,
-                    rows: xtermRef.current.rows,
-                  }));
-                  console.log(`Window resize: Sent new dimensions ${xtermRef.current.cols}x${xtermRef.current.rows}`);
-                }
+              // Validate proposed dimensions before fitting
+              const proposed = fitAddonRef.current.proposeDimensions();
+              if (!proposed || proposed.cols <= 0 || proposed.rows <= 0) {
+                console.warn('Window resize: Invalid proposed dimensions:', proposed);
+                return;
+              }
+              
+              fitAddonRef.current.fit();
+              console.log(`Window resize: ${oldCols}x${oldRows} -> ${xtermRef.current.cols}x${xtermRef.current.rows} (proposed: ${proposed.cols}x${proposed.rows})`);
+              
+              // Force a redraw after fitting
+              if (xtermRef.current.rows > 0) {
+                xtermRef.current.refresh(0, xtermRef.current.rows - 1);
+              }
+              
+              // Only send if dimensions actually changed
+              const ws = wsRef.current;
+              if (ws?.readyState === WebSocket.OPEN && 
+                  xtermRef.current.cols > 0 && xtermRef.current.rows > 0 &&
+                  (xtermRef.current.cols !== oldCols || xtermRef.current.rows !== oldRows)) {
+                ws.send(JSON.stringify({
+                  type: 'resize',
+                  cols: xtermRef.current.cols,
+                  rows: xtermRef.current.rows,
+                }));
+                console.log(`Window resize: Sent new dimensions ${xtermRef.current.cols}x${xtermRef.current.rows}`);
               }
-            } catch (error) {
-              console.error('Error during window resize:', error);
             }
+          } catch (error) {
+            console.error('Error during window resize:', error);
           }
-        }, 200); // Increased debounce time to prevent rapid firing
-      };
-
-      window.addEventListener('resize', handleWindowResize);
-      wsRef.current = ws;
+        }
+      }, 200); // Increased debounce time to prevent rapid firing
+    };
 
-      // Disable problematic ResizeObserver that causes shrinking loops
-      // Only use window resize events for terminal fitting
-      console.log('Skipping ResizeObserver to prevent resize loops');
+    window.addEventListener('resize', handleWindowResize);
 
-      return () => {
-        window.removeEventListener('resize', handleWindowResize);
-        clearTimeout(timeoutId);
-        clearTimeout((window as any).terminalResizeTimeout);
-        clearTimeout((window as any).windowResizeTimeout);
-        
-        if (resizeObserverRef.current) {
-          resizeObserverRef.current.disconnect();
-        }
-        
-        if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
-          ws.close();
-        }
-        term.dispose();
-      };
-    }, 500);
+    // Disable problematic ResizeObserver that causes shrinking loops
+    // Only use window resize events for terminal fitting
+    console.log('Skipping ResizeObserver to prevent resize loops');
 
     // Cleanup function for immediate cleanup
     return () => {
+      disposed = true;
+      window.removeEventListener('resize', handleWindowResize);
       clearTimeout(timeoutId);
+      clearTimeout(reconnectTimer);
       clearTimeout((window as any).terminalResizeTimeout);
       clearTimeout((window as any).windowResizeTimeout);
       
@@ -442,6 +565,12 @@ export function Terminal() {
         resizeObserverRef.current.disconnect();
         resizeObserverRef.current = null;
       }
+
+      const ws = wsRef.current;
+      if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
+        ws.close(1000);
+      }
+      wsRef.current = null;
       
       if (xtermRef.current) {
         xtermRef.current.dispose();
@@ -450,7 +579,7 @@ export function Terminal() {
       
       fitAddonRef.current = null;
     };
-  }, [sessionId, environmentId]);
+  }, [sessionId, environmentId, shareToken]);
 
   // Remove duplicate useEffect since we have useLayoutEffect handling this
 
@@ -566,58 +695,87 @@ export function Terminal() {
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => navigate(`/environment/${environmentId}`)}
+              onClick={() => navigate(shareToken ? '/' : `/environment/${environmentId}`)}
               className="h-8 w-8"
             >
               <ArrowLeft className="h-4 w-4" />
             </Button>
             <h2 className="text-lg font-semibold">
-              Terminal - {sessionData?.name || `Session ${sessionId?.substring(0, 8)}`}
+              Terminal - {sessionName || `Session ${sessionId?.substring(0, 8)}`}
             </h2>
+            {sharedSession && (
+              <span className="text-sm text-muted-foreground">shared by {sharedSession.ownerName}</span>
+            )}
+            {access === 'read-only' && (
+              <Badge variant="secondary">
+                <Eye className="h-3 w-3 mr-1" />
+                Read-only
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              disabled={!sessionId || !environmentId || isDeleting}
-              onClick={async () => {
-                if (!sessionId || !environmentId) return;
-                const confirmed = window.confirm('Delete this session? This cannot be undone.');
-                if (!confirmed) return;
-                try {
-                  setIsDeleting(true);
-                  await client.api.deleteSession(sessionId);
-                  // Invalidate sidebar sessions to update the sidebar immediately
-                  queryClient.invalidateQueries({ queryKey: ['sidebar-sessions'] });
-                  navigate(`/environment/${environmentId}`);
-                } catch (error: any) {
-                  alert(error?.message || 'Failed to delete session');
-                } finally {
-                  setIsDeleting(false);
-                }
-              }}
-              className="text-red-500 border-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              {isDeleting ? 'Deleting…' : 'Delete'}
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowGitPanel(!showGitPanel)}
-            >
-              {showGitPanel ? (
-                <>
-                  <PanelRightClose className="h-4 w-4 mr-2" />
-                  Hide Git
-                </>
-              ) : (
-                <>
-                  <PanelRightOpen className="h-4 w-4 mr-2" />
-                  Show Git
-                </>
-              )}
-            </Button>
+            <PresenceList clients={presence} selfId={clientId} />
+            {shareError && (
+              <span className="text-sm text-red-500">{(shareError as Error).message}</span>
+            )}
+            {/* Session management is owner-only */}
+            {!shareToken && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!sessionId || !environmentId || isDeleting}
+                  onClick={async () => {
+                    if (!sessionId || !environmentId) return;
+                    const confirmed = window.confirm('Delete this session? This cannot be undone.');
+                    if (!confirmed) return;
+                    try {
+                      setIsDeleting(true);
+                      await client.api.deleteSession(sessionId);
+                      // Invalidate sidebar sessions to update the sidebar immediately
+                      queryClient.invalidateQueries({ queryKey: ['sidebar-sessions'] });
+                      navigate(`/environment/${environmentId}`);
+                    } catch (error: any) {
+                      alert(error?.message || 'Failed to delete session');
+                    } finally {
+                      setIsDeleting(false);
+                    }
+                  }}
+                  className="text-red-500 border-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {isDeleting ? 'Deleting…' : 'Delete'}
+                </Button>
+                {sessionId && <ShareSessionDialog sessionId={sessionId} />}
+                {sessionId && <PortsMenu sessionId={sessionId} />}
+                {sessionId && <RecordingsMenu sessionId={sessionId} />}
+                <Button
+                  variant={showFilesPanel ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowFilesPanel(!showFilesPanel)}
+                >
+                  <FolderTree className="h-4 w-4 mr-2" />
+                  Files
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowGitPanel(!showGitPanel)}
+                >
+                  {showGitPanel ? (
+                    <>
+                      <PanelRightClose className="h-4 w-4 mr-2" />
+                      Hide Git
+                    </>
+                  ) : (
+                    <>
+                      <PanelRightOpen className="h-4 w-4 mr-2" />
+                      Show Git
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -633,15 +791,21 @@ export function Terminal() {
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden min-w-0">
         {/* Terminal */}
-        <div className="flex-1 flex bg-black min-w-0 overflow-hidden">
+        <div className="flex-1 flex flex-col bg-black min-w-0 overflow-hidden">
+          {sessionId && <WindowTabs sessionId={sessionId} readOnly={!!shareToken} />}
           <div 
             ref={terminalRef} 
             className="flex-1 w-full h-full"
           />
         </div>
         
+        {/* Files Panel */}
+        {showFilesPanel && !isExpanded && !shareToken && sessionId && (
+          <FilesPanel sessionId={sessionId} />
+        )}
+
         {/* Git Panel */}
-        {showGitPanel && !isExpanded && sessionId && environmentId && (
+        {showGitPanel && !isExpanded && !shareToken && sessionId && environmentId && (
           <GitPanel sessionId={sessionId} environmentId={environmentId} />
         )}
       </div>
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MCP_SECRET_PLACEHOLDER,
+  McpServerMap,
+  McpServersSchema,
+  mergeMcpServers,
+  parseRenderedNames,
+  redactMcpServers,
+  renderMcpConfig,
+  restoreMcpSecrets,
+} from '../lib/agent-mcp';
+import { AGENT_TYPES } from '../lib/agent-plugins';
+import { getAgentPlugin } from '../services/agent-plugins';
+
+/**
+ * AGENT MCP TESTS - Merging, redacting and rendering MCP server definitions
+ * =========================================================================
+ *
+ * M₁: secrets leave only as placeholders
+ * M₂: a placeholder sent back keeps the stored value
+ */
+
+const db: McpServerMap = {
+  postgres: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-postgres'], env: { DATABASE_URL: 'postgres://secret' } },
+};
+const docs: McpServerMap = {
+  docs: { type: 'http', url: 'https://docs.example.com/mcp', headers: { Authorization: 'Bearer secret' } },
+};
+
+describe('McpServersSchema', () => {
+  it('should accept stdio and remote servers', () => {
+    expect(McpServersSchema.safeParse({ ...db, ...docs }).success).toBe(true);
+  });
+
+  it('should reject bad names, URLs and unknown keys', () => {
+    expect(McpServersSchema.safeParse({ 'bad name': db.postgres }).success).toBe(false);
+    expect(McpServersSchema.safeParse({ docs: { type: 'http', url: 'file:///etc/passwd' } }).success).toBe(false);
+    expect(McpServersSchema.safeParse({ x: { command: 'x', cwd: '/' } }).success).toBe(false);
+    expect(McpServersSchema.safeParse({ x: { command: 'x', env: { 'NOT-A-VAR': 'v' } } }).success).toBe(false);
+  });
+});
+
+describe('mergeMcpServers', () => {
+  it('should let later levels win by name and drop disabled servers', () => {
+    const user = { ...db, ...docs };
+    const agent: McpServerMap = { docs: { type: 'sse', url: 'https://agent.example.com/sse' } };
+    const environment: McpServerMap = { postgres: { disabled: true } };
+
+    expect(mergeMcpServers(user, agent, environment)).toEqual({ docs: agent.docs });
+    // A server turned off at one level can come back at a more specific one
+    expect(mergeMcpServers(environment, user)).toEqual(user);
+  });
+});
+
+describe('redactMcpServers and restoreMcpSecrets', () => {
+  it('Invariant M₁: should replace every env value and header', () => {
+    const redacted = redactMcpServers({ ...db, ...docs });
+    expect(JSON.stringify(redacted)).not.toContain('secret');
+    expect(redacted.postgres).toMatchObject({ env: { DATABASE_URL: MCP_SECRET_PLACEHOLDER } });
+    expect(redacted.docs).toMatchObject({ headers: { Authorization: MCP_SECRET_PLACEHOLDER } });
+  });
+
+  it('Invariant M₂: should keep stored values behind placeholders and take new ones', () => {
+    const next = redactMcpServers({ ...db, ...docs });
+    (next.docs as { headers: Record<string, string> }).headers.Authorization = 'Bearer new';
+
+    const { servers, missing } = restoreMcpSecrets(next, { ...db, ...docs });
+    expect(missing).toEqual([]);
+    expect(servers.postgres).toEqual(db.postgres);
+    expect(servers.docs).toMatchObject({ headers: { Authorization: 'Bearer new' } });
+  });
+
+  it('Invariant M₂: should report placeholders with nothing stored', () => {
+    const { missing } = restoreMcpSecrets(redactMcpServers(db), {});
+    expect(missing).toEqual(['postgres.DATABASE_URL']);
+  });
+});
+
+describe('renderMcpConfig', () => {
+  it('should merge into an existing file and keep servers added by hand', () => {
+    const existing = JSON.stringify({
+      selectedAuthType: 'oauth-personal',
+      mcpServers: { manual: { command: 'mine' }, stale: { command: 'old' } },
+    });
+    const rendered = JSON.parse(renderMcpConfig('gemini', { ...db, ...docs }, existing, ['stale']));
+
+    expect(rendered.selectedAuthType).toBe('oauth-personal');
+    expect(Object.keys(rendered.mcpServers).sort()).toEqual(['docs', 'manual', 'postgres']);
+    expect(rendered.mcpServers.docs).toEqual({ httpUrl: 'https://docs.example.com/mcp', headers: { Authorization: 'Bearer secret' } });
+    expect(rendered.mcpServers.postgres).toEqual({ ...db.postgres });
+  });
+
+  it('should spell servers the way each agent expects', () => {
+    const sse: McpServerMap = { events: { type: 'sse', url: 'https://example.com/sse' } };
+    expect(JSON.parse(renderMcpConfig('claude', { ...db, ...sse }, null, [])).mcpServers).toEqual({
+      postgres: { type: 'stdio', ...db.postgres },
+      events: { type: 'sse', url: 'https://example.com/sse' },
+    });
+    expect(JSON.parse(renderMcpConfig('gemini', sse, null, [])).mcpServers.events).toEqual({ url: 'https://example.com/sse' });
+    expect(JSON.parse(renderMcpConfig('cursor', docs, null, [])).mcpServers.docs)
+      .toEqual({ url: 'https://docs.example.com/mcp', headers: { Authorization: 'Bearer secret' } });
+  });
+
+  it('should refuse to overwrite a file it cannot parse', () => {
+    expect(() => renderMcpConfig('claude', db, '{ broken', [])).toThrow();
+    expect(() => renderMcpConfig('claude', db, '[]', [])).toThrow();
+  });
+});
+
+describe('agent MCP config files', () => {
+  it('should give every agent type a config file in HOME', () => {
+    for (const type of AGENT_TYPES) {
+      const { mcpConfig } = getAgentPlugin(type);
+      expect(mcpConfig).not.toBeNull();
+      expect(mcpConfig!.path.startsWith('/')).toBe(false);
+    }
+  });
+
+  it('should read back only the names it wrote', () => {
+    expect(parseRenderedNames(null)).toEqual([]);
+    expect(parseRenderedNames('not json')).toEqual([]);
+    expect(parseRenderedNames('["a", 1, "b"]')).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { AGENT_ENV_FILE, AGENT_TYPES, agentLaunchScript, renderEnvFile, shellQuote } from '../lib/agent-plugins';
+import { AgentPluginError, describeAgentPlugins, getAgentPlugin } from '../services/agent-plugins';
+
+/**
+ * AGENT PLUGIN TESTS - Launch scripts, credential material and the registry
+ * =========================================================================
+ *
+ * A₁: quoted values survive bash unchanged
+ * A₂: only POSIX variable names reach the env file
+ * L₂: every agent type has exactly one plugin
+ */
+
+const bash = (script: string) => execFileSync('bash', ['-c', script], { encoding: 'utf8' });
+
+describe('shellQuote', () => {
+  it('Invariant A₁: should round-trip values through bash', () => {
+    for (const value of ["it's", '$(touch /tmp/x); `id`', "'; rm -rf /; '", 'a\nb', '']) {
+      expect(bash(`printf %s ${shellQuote(value)}`)).toBe(value);
+    }
+  });
+});
+
+describe('renderEnvFile', () => {
+  it('should emit one export per variable', () => {
+    const file = renderEnvFile({ GEMINI_API_KEY: "k'ey", OTHER: 'v' });
+    expect(bash(`${file}printf '%s|%s' "$GEMINI_API_KEY" "$OTHER"`)).toBe("k'ey|v");
+  });
+
+  it('Invariant A₂: should reject names that are not variables', () => {
+    expect(() => renderEnvFile({ 'A;B': 'x' })).toThrow(/Invalid environment variable name/);
+    expect(() => renderEnvFile({ '1A': 'x' })).toThrow();
+    expect(renderEnvFile({})).toBe('');
+  });
+});
+
+describe('agentLaunchScript', () => {
+  it('should set HOME, load the env file and skip the install when present', () => {
+    const script = agentLaunchScript({
+      home: '/data/agents/a b/home',
+      workingDirectory: '/workspace',
+      binary: 'bash',
+      installCommand: 'echo SHOULD-NOT-RUN',
+      run: 'claude',
+    });
+    expect(script.startsWith(`export HOME='/data/agents/a b/home'; `)).toBe(true);
+    expect(script).toContain(`. "$HOME/${AGENT_ENV_FILE}"`);
+    expect(script).toContain(`cd '/workspace'`);
+    expect(script.endsWith('; claude')).toBe(true);
+  });
+});
+
+describe('agent plugin registry', () => {
+  it('Invariant L₂: should have one plugin per agent type', () => {
+    expect(describeAgentPlugins().map(plugin => plugin.type).sort()).toEqual([...AGENT_TYPES].sort());
+    for (const type of AGENT_TYPES) {
+      const plugin = getAgentPlugin(type);
+      expect(plugin.type).toBe(type);
+      expect(plugin.credentialTypes.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should reject unknown agent types with 400', () => {
+    try {
+      getAgentPlugin('vim');
+      expect.fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentPluginError);
+      expect((error as AgentPluginError).statusCode).toBe(400);
+    }
+  });
+
+  it('should materialize env and file credentials', () => {
+    const gemini = getAgentPlugin('gemini-cli');
+    expect(gemini.materialize({ type: 'gemini_api_key', value: 'k' })).toEqual({ env: { GEMINI_API_KEY: 'k' }, files: [] });
+    expect(gemini.materialize({ type: 'gemini_oauth_json', value: '{}' })).toEqual({
+      env: {},
+      files: [{ path: '.gemini/oauth_creds.json', content: '{}' }],
+    });
+    expect(() => gemini.materialize({ type: 'anthropic_api_key', value: 'k' })).toThrow(AgentPluginError);
+  });
+
+  it('should launch the login without a credential and the agent with one', () => {
+    const cursor = getAgentPlugin('cursor-cli');
+    const context = { home: '/home/agent', workingDirectory: '/workspace' };
+    expect(cursor.bootstrap({ ...context, hasCredential: false }).endsWith('; cursor-agent login')).toBe(true);
+    expect(cursor.bootstrap({ ...context, hasCredential: true }).endsWith('; cursor-agent')).toBe(true);
+  });
+
+  it('should ingest tokens or the first credential file found', async () => {
+    const files: Record<string, string> = { '.qwen/oauth_creds.json': '{"access_token":"t"}' };
+    const readHome = async (path: string) => files[path] ?? null;
+
+    await expect(getAgentPlugin('claude-code').ingest(readHome, 'tok')).resolves.toEqual({ type: 'claude_oauth_token', value: 'tok' });
+    await expect(getAgentPlugin('qwen-coder').ingest(readHome)).resolves.toEqual({
+      type: 'qwen_oauth_json',
+      value: '{"access_token":"t"}',
+    });
+    await expect(getAgentPlugin('gemini-cli').ingest(readHome, 'tok')).rejects.toThrow(/does not produce a token/);
+    await expect(getAgentPlugin('gemini-cli').ingest(readHome)).rejects.toThrow(/Credentials file not found/);
+
+    files['.gemini/oauth_creds.json'] = 'not json';
+    await expect(getAgentPlugin('gemini-cli').ingest(readHome)).rejects.toThrow(/Invalid JSON/);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMON_SCREEN_SIGNALS,
+  SCREEN_TAIL_LINES,
+  classifyAgentScreen,
+  needsAttention,
+  screenTail,
+} from '../lib/agent-state';
+import { getAgentPlugin } from '../services/agent-plugins';
+
+/**
+ * AGENT STATE TESTS - Reading what an agent is doing from its screen
+ * ==================================================================
+ *
+ * S₁: a question on screen wins over every other signal
+ * S₂: a screen that keeps changing is never idle
+ */
+
+const IDLE_AFTER = 20_000;
+
+describe('classifyAgentScreen', () => {
+  it('Invariant S₂: should call a recently changed screen working, a still one idle', () => {
+    const screen = '> refactor the parser\n\nDone. Anything else?\n> ';
+    expect(classifyAgentScreen(screen, 1_000, COMMON_SCREEN_SIGNALS, IDLE_AFTER)).toBe('working');
+    expect(classifyAgentScreen(screen, IDLE_AFTER, COMMON_SCREEN_SIGNALS, IDLE_AFTER)).toBe('idle');
+  });
+
+  it('should call a still screen working while the agent says it is busy', () => {
+    const screen = '✻ Thinking… (12s · esc to interrupt)';
+    expect(classifyAgentScreen(screen, 60_000, COMMON_SCREEN_SIGNALS, IDLE_AFTER)).toBe('working');
+  });
+
+  it('Invariant S₁: should prefer a question over busy hints and recent changes', () => {
+    const screen = 'esc to interrupt\nOverwrite package.json? (y/n)';
+    expect(classifyAgentScreen(screen, 0, COMMON_SCREEN_SIGNALS, IDLE_AFTER)).toBe('awaiting_input');
+  });
+
+  it('should ignore a question that has scrolled up', () => {
+    const lines = ['Continue? (y/n)', ...Array.from({ length: SCREEN_TAIL_LINES }, (_, i) => `line ${i}`)];
+    expect(classifyAgentScreen(lines.join('\n'), 60_000, COMMON_SCREEN_SIGNALS, IDLE_AFTER)).toBe('idle');
+  });
+
+  it('should recognise each agent\'s own permission prompt', () => {
+    const claude = [
+      ' Edit file',
+      ' src/index.ts',
+      ' Do you want to make this edit to index.ts?',
+      ' ❯ 1. Yes',
+      '   2. Yes, allow all edits during this session',
+      '   3. No, and tell Claude what to do differently (esc)',
+    ].join('\n');
+    const gemini = ' Allow execution of: \'npm test\'?\n ● 1. Yes, allow once';
+
+    expect(classifyAgentScreen(claude, 0, getAgentPlugin('claude-code').screenSignals, IDLE_AFTER)).toBe('awaiting_input');
+    expect(classifyAgentScreen(gemini, 0, getAgentPlugin('gemini-cli').screenSignals, IDLE_AFTER)).toBe('awaiting_input');
+    expect(classifyAgentScreen(gemini, 0, getAgentPlugin('qwen-coder').screenSignals, IDLE_AFTER)).toBe('awaiting_input');
+    // Another agent's prompt means nothing to Claude Code
+    expect(classifyAgentScreen(gemini, 0, getAgentPlugin('claude-code').screenSignals, IDLE_AFTER)).toBe('working');
+  });
+});
+
+describe('screenTail', () => {
+  it('should keep the last non-blank lines without trailing spaces', () => {
+    expect(screenTail('a   \n\n b\n   \nc\n\n\n', 2)).toBe(' b\nc');
+  });
+});
+
+describe('needsAttention', () => {
+  it('should notify once when an agent starts waiting for input', () => {
+    expect(needsAttention('working', 'awaiting_input')).toBe(true);
+    expect(needsAttention(null, 'awaiting_input')).toBe(true);
+    expect(needsAttention('awaiting_input', 'awaiting_input')).toBe(false);
+  });
+
+  it('should notify when a working agent goes idle, and only then', () => {
+    expect(needsAttention('working', 'idle')).toBe(true);
+    expect(needsAttention(null, 'idle')).toBe(false);
+    expect(needsAttention('awaiting_input', 'idle')).toBe(false);
+    expect(needsAttention('idle', 'working')).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AGENT_TASK_STATUSES,
+  AgentTaskPaths,
+  TASK_RETRY_MAX_DELAY_MS,
+  agentTaskPaths,
+  agentTaskScript,
+  isFinishedTaskStatus,
+  parseTaskExitCode,
+  pickNextTask,
+  taskRetryDelay,
+  truncateText,
+} from '../lib/agent-tasks';
+import { getAgentPlugin } from '../services/agent-plugins';
+
+/**
+ * AGENT TASK TESTS - Task script, exit status, output limits and queue order
+ * ==========================================================================
+ *
+ * T₁: finished statuses are exactly succeeded, failed and cancelled
+ * T₂: the exit status file holds the agent's exit status once it has exited
+ * T₃: the next task keeps the global, per-user and per-session limits
+ */
+
+let scratch: string | null = null;
+
+function scratchPaths(): AgentTaskPaths {
+  scratch = mkdtempSync(join(tmpdir(), 'agent-task-'));
+  return {
+    dir: scratch,
+    prompt: join(scratch, 'prompt'),
+    script: join(scratch, 'run.sh'),
+    log: join(scratch, 'output.log'),
+    exitCode: join(scratch, 'exit_code'),
+  };
+}
+
+function runScript(paths: AgentTaskPaths, launch: string): void {
+  writeFileSync(paths.script, agentTaskScript(paths, launch));
+  execFileSync('bash', [paths.script], { stdio: 'pipe' });
+}
+
+afterEach(() => {
+  if (scratch) rmSync(scratch, { recursive: true, force: true });
+  scratch = null;
+});
+
+describe('agentTaskScript', () => {
+  it('Invariant T₂: should record output and the exit status of the launch command', () => {
+    const paths = scratchPaths();
+    runScript(paths, 'echo out; echo err >&2; exit 3');
+
+    expect(readFileSync(paths.log, 'utf8')).toBe('out\nerr\n');
+    expect(parseTaskExitCode(readFileSync(paths.exitCode, 'utf8'))).toBe(3);
+  });
+
+  it('should record success and give the agent no stdin', () => {
+    const paths = scratchPaths();
+    runScript(paths, 'cat; echo done');
+
+    expect(readFileSync(paths.log, 'utf8')).toBe('done\n');
+    expect(parseTaskExitCode(readFileSync(paths.exitCode, 'utf8'))).toBe(0);
+  });
+
+  it('should pass the prompt file to the agent as one argument', () => {
+    const paths = scratchPaths();
+    const prompt = `Fix the "bug" in $HOME's code\n\`rm -rf /\``;
+    writeFileSync(paths.prompt, prompt);
+    const launch = getAgentPlugin('claude-code').headless({ home: paths.dir, workingDirectory: paths.dir }, paths.prompt);
+    const run = launch.slice(launch.lastIndexOf('; ') + 2);
+    expect(run.startsWith('claude -p ')).toBe(true);
+
+    // Only the prompt argument matters here: swap the agent for printf
+    runScript(paths, run.replace(/^claude -p --permission-mode acceptEdits /, 'printf %s '));
+    expect(readFileSync(paths.log, 'utf8')).toBe(prompt);
+  });
+});
+
+describe('agent task helpers', () => {
+  it('should keep task files together under one directory', () => {
+    const paths = agentTaskPaths('abc');
+    expect(paths.dir).toBe('/tmp/craftastic/tasks/abc');
+    for (const path of [paths.prompt, paths.script, paths.log, paths.exitCode]) {
+      expect(path.startsWith(`${paths.dir}/`)).toBe(true);
+    }
+  });
+
+  it('should only parse whole exit statuses', () => {
+    expect(parseTaskExitCode(null)).toBeNull();
+    expect(parseTaskExitCode('')).toBeNull();
+    expect(parseTaskExitCode('12\n')).toBe(12);
+    expect(parseTaskExitCode('1x')).toBeNull();
+  });
+
+  it('Invariant T₁: should treat only succeeded, failed and cancelled as finished', () => {
+    expect(AGENT_TASK_STATUSES.filter(isFinishedTaskStatus)).toEqual(['succeeded', 'failed', 'cancelled']);
+  });
+
+  it('should truncate long output and mark the cut', () => {
+    expect(truncateText('short', 10)).toBe('short');
+    const truncated = truncateText('x'.repeat(20), 10);
+    expect(truncated.startsWith('x'.repeat(10) + '\n[truncated')).toBe(true);
+  });
+});
+
+describe('pickNextTask', () => {
+  const limits = { global: 3, perUser: 2 };
+  const task = (id: string, user: string, session = `s-${id}`) => ({ id, user_id: user, session_id: session });
+
+  it('Invariant T₃: should take candidates in queue order', () => {
+    const candidates = [task('a', 'u1'), task('b', 'u2')];
+    expect(pickNextTask(candidates, [], limits)?.id).toBe('a');
+    expect(pickNextTask([], [], limits)).toBeNull();
+  });
+
+  it('Invariant T₃: should respect the global limit', () => {
+    const running = [task('r1', 'u1'), task('r2', 'u2'), task('r3', 'u3')];
+    expect(pickNextTask([task('a', 'u4')], running, limits)).toBeNull();
+  });
+
+  it('Invariant T₃: should skip users at their limit and busy sessions', () => {
+    const running = [task('r1', 'u1'), task('r2', 'u1', 'shared')];
+    const candidates = [task('a', 'u1'), task('b', 'u2', 'shared'), task('c', 'u2')];
+    expect(pickNextTask(candidates, running, limits)?.id).toBe('c');
+  });
+});
+
+describe('taskRetryDelay', () => {
+  it('should double per failed attempt up to the cap', () => {
+    expect(taskRetryDelay(1, 30_000)).toBe(30_000);
+    expect(taskRetryDelay(2, 30_000)).toBe(60_000);
+    expect(taskRetryDelay(4, 30_000)).toBe(240_000);
+    expect(taskRetryDelay(50, 30_000)).toBe(TASK_RETRY_MAX_DELAY_MS);
+    // A base delay above the cap is never shortened
+    expect(taskRetryDelay(3, 2 * TASK_RETRY_MAX_DELAY_MS)).toBe(2 * TASK_RETRY_MAX_DELAY_MS);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  devcontainerLabels,
+  normalizeForwardPorts,
+  normalizeLifecycleCommand,
+  parseJsonc,
+  resolveContainerEnv,
+} from '../services/devcontainer';
+
+/**
+ * DEVCONTAINER TESTS - devcontainer.json translation
+ * ==================================================
+ *
+ * DC₂: ∀v ∈ containerEnv. resolve(v) contains no host environment values
+ * DC₃: lifecycle commands preserve declaration order
+ */
+
+describe('Devcontainer', () => {
+  describe('parseJsonc', () => {
+    it('should strip comments and trailing commas', () => {
+      const config = parseJsonc(`{
+        // Prebuilt image
+        "image": "mcr.microsoft.com/devcontainers/python:3.12",
+        /* ports the app listens on */
+        "forwardPorts": [8000, 5432,],
+      }`);
+
+      expect(config).toEqual({
+        image: 'mcr.microsoft.com/devcontainers/python:3.12',
+        forwardPorts: [8000, 5432],
+      });
+    });
+
+    it('should leave comment-like text inside strings alone', () => {
+      const config = parseJsonc(`{ "postCreateCommand": "curl https://example.com/x,y // not a comment", }`);
+      expect(config.postCreateCommand).toBe('curl https://example.com/x,y // not a comment');
+    });
+
+    it('should handle escaped quotes', () => {
+      expect(parseJsonc(`{ "a": "say \\"hi\\" /* still text */" }`).a).toBe('say "hi" /* still text */');
+    });
+  });
+
+  describe('Invariant DC₃: lifecycle commands', () => {
+    it('should normalise the string form', () => {
+      expect(normalizeLifecycleCommand('npm install')).toEqual(['npm install']);
+      expect(normalizeLifecycleCommand('  ')).toEqual([]);
+      expect(normalizeLifecycleCommand(undefined)).toEqual([]);
+    });
+
+    it('should quote the array form', () => {
+      expect(normalizeLifecycleCommand(['echo', 'hello world', "it's"])).toEqual([`echo 'hello world' 'it'\\''s'`]);
+    });
+
+    it('should flatten the object form in order', () => {
+      expect(normalizeLifecycleCommand({
+        deps: 'npm ci',
+        db: ['make', 'migrate'],
+      })).toEqual(['npm ci', 'make migrate']);
+    });
+  });
+
+  describe('forwardPorts', () => {
+    it('should reduce host:port entries and drop invalid ports', () => {
+      expect(normalizeForwardPorts([3000, 'db:5432', '3000', 'nope', 70000])).toEqual([3000, 5432]);
+    });
+  });
+
+  describe('Invariant DC₂: containerEnv', () => {
+    it('should substitute workspace variables and blank localEnv', () => {
+      expect(resolveContainerEnv({
+        APP_ROOT: '${containerWorkspaceFolder}/app',
+        TOKEN: '${localEnv:GITHUB_TOKEN}',
+        MODE: 'dev',
+      })).toEqual(['APP_ROOT=/workspace/app', 'TOKEN=', 'MODE=dev']);
+    });
+
+    it('should skip entries that need containerEnv expansion', () => {
+      expect(resolveContainerEnv({ PATH: '${containerEnv:PATH}:/opt/bin' })).toEqual([]);
+    });
+  });
+
+  describe('devcontainerLabels', () => {
+    it('should record forward ports and postStart commands', () => {
+      const labels = devcontainerLabels({ forwardPorts: [5173], postStartCommand: 'npm run dev &' });
+      expect(labels['craftastic.devcontainer']).toBe('true');
+      expect(labels['craftastic.forward-ports']).toBe('5173');
+      expect(JSON.parse(labels['craftastic.post-start-command'])).toEqual(['npm run dev &']);
+    });
+  });
+});
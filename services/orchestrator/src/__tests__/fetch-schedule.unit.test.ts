@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { nextFetchDelay } from '../lib/fetch-schedule';
+
+/**
+ * FETCH SCHEDULE TESTS - Backoff and jitter
+ * =========================================
+ *
+ * F₁: failures = 0 ⇒ delay ≈ intervalMs
+ * F₂: each failure doubles the delay, capped at maxBackoffMs
+ * F₃: jitter keeps the delay within ±jitter of the backed-off value
+ */
+
+const options = { intervalMs: 300_000, maxBackoffMs: 3_600_000, jitter: 0.2 };
+const middle = () => 0.5;
+
+describe('nextFetchDelay', () => {
+  it('Invariant F₁: should wait one interval when healthy', () => {
+    expect(nextFetchDelay(0, options, middle)).toBe(300_000);
+  });
+
+  it('Invariant F₂: should double per failure up to the cap', () => {
+    expect(nextFetchDelay(1, options, middle)).toBe(600_000);
+    expect(nextFetchDelay(3, options, middle)).toBe(2_400_000);
+    expect(nextFetchDelay(4, options, middle)).toBe(3_600_000);
+    expect(nextFetchDelay(5000, options, middle)).toBe(3_600_000);
+    // A cap below the interval never shortens the interval
+    expect(nextFetchDelay(2, { ...options, maxBackoffMs: 1000 }, middle)).toBe(300_000);
+  });
+
+  it('Invariant F₃: should spread delays within the jitter bounds', () => {
+    expect(nextFetchDelay(0, options, () => 0)).toBe(240_000);
+    expect(nextFetchDelay(0, options, () => 0.999999)).toBeLessThanOrEqual(360_000);
+    expect(nextFetchDelay(2, options, () => 0)).toBe(960_000);
+    expect(nextFetchDelay(0, { ...options, jitter: 0 }, () => 0.9)).toBe(300_000);
+  });
+});
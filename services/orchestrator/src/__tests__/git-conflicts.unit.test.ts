@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { parseOperationState, parseUnmergedEntries } from '../lib/git-conflicts';
+
+/**
+ * GIT CONFLICT TESTS - Merge/rebase state parsing
+ * ===============================================
+ *
+ * C₁: one conflict per path, ordered by path, typed by its index stages
+ * C₂: no operation ⟹ no progress and no sides
+ */
+
+const entry = (stage: number, path: string, oid = `${stage}`.repeat(40)) => `100644 ${oid} ${stage}\t${path}\0`;
+
+describe('parseUnmergedEntries', () => {
+  describe('Invariant C₁: one conflict per path', () => {
+    it('should group stages by path and order by path', () => {
+      const output = entry(1, 'src/b.ts') + entry(2, 'src/b.ts') + entry(3, 'src/b.ts') + entry(2, 'a.ts') + entry(3, 'a.ts');
+
+      expect(parseUnmergedEntries(output)).toEqual([
+        { path: 'a.ts', type: 'both-added', base: null, ours: '2'.repeat(40), theirs: '3'.repeat(40) },
+        { path: 'src/b.ts', type: 'both-modified', base: '1'.repeat(40), ours: '2'.repeat(40), theirs: '3'.repeat(40) },
+      ]);
+    });
+
+    it('should type every stage combination like git status', () => {
+      const output =
+        entry(1, 'dd') +
+        entry(2, 'au') +
+        entry(3, 'ua') +
+        entry(1, 'du') + entry(3, 'du') +
+        entry(1, 'ud') + entry(2, 'ud');
+
+      expect(parseUnmergedEntries(output).map(c => [c.path, c.type])).toEqual([
+        ['au', 'added-by-us'],
+        ['dd', 'both-deleted'],
+        ['du', 'deleted-by-us'],
+        ['ua', 'added-by-them'],
+        ['ud', 'deleted-by-them'],
+      ]);
+    });
+
+    it('should keep paths with spaces and tabs intact', () => {
+      const [conflict] = parseUnmergedEntries(entry(2, 'my file\twith tab') + entry(3, 'my file\twith tab'));
+      expect(conflict.path).toBe('my file\twith tab');
+    });
+
+    it('should ignore garbage entries', () => {
+      expect(parseUnmergedEntries('warning: something\0\0')).toEqual([]);
+    });
+  });
+});
+
+describe('parseOperationState', () => {
+  it('should report a rebase with progress and sides', () => {
+    const state = parseOperationState(
+      'operation=rebase\ncurrent=2\ntotal=5\nours=abc123\ntheirs=def456\n',
+      entry(1, 'x') + entry(2, 'x') + entry(3, 'x')
+    );
+
+    expect(state).toMatchObject({
+      operation: 'rebase',
+      ours: 'abc123',
+      theirs: 'def456',
+      progress: { current: 2, total: 5 },
+    });
+    expect(state.conflicts).toHaveLength(1);
+  });
+
+  it('should report a merge without progress', () => {
+    const state = parseOperationState('operation=merge\nours=feature\ntheirs=abc123\n', '');
+
+    expect(state).toEqual({ operation: 'merge', ours: 'feature', theirs: 'abc123', progress: null, conflicts: [] });
+  });
+
+  describe('Invariant C₂: nothing in progress', () => {
+    it('should return an empty state for empty output', () => {
+      expect(parseOperationState('', '')).toEqual({
+        operation: null,
+        ours: null,
+        theirs: null,
+        progress: null,
+        conflicts: [],
+      });
+    });
+  });
+});
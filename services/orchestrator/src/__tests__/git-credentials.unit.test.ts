@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CREDENTIAL_TOKEN_ENV,
+  gitProxyEnv,
+  gitProxyUpstreamPath,
+  hostCredentialEnv,
+  remoteCredentialTarget,
+} from '../lib/git-credentials';
+import { sessionCredentialToken, verifyCredentialToken } from '../services/git-credentials';
+
+/**
+ * GIT CREDENTIAL TESTS - Proxy wiring and session tokens
+ * ======================================================
+ *
+ * K₁: the helper configuration carries no secret
+ * K₂: the proxy only serves smart HTTP endpoints of the one repository
+ * T₁: a session token verifies to its own session and nonce and nothing else
+ */
+
+describe('remoteCredentialTarget', () => {
+  it('should return protocol and host of https remotes', () => {
+    expect(remoteCredentialTarget('https://github.com/acme/app.git')).toEqual({ protocol: 'https', host: 'github.com' });
+    expect(remoteCredentialTarget('http://git.local:8080/acme/app')).toEqual({ protocol: 'http', host: 'git.local:8080' });
+  });
+
+  it('should return null for SSH and local remotes', () => {
+    expect(remoteCredentialTarget('git@github.com:acme/app.git')).toBeNull();
+    expect(remoteCredentialTarget('ssh://git@github.com/acme/app.git')).toBeNull();
+    expect(remoteCredentialTarget('/srv/repos/app.git')).toBeNull();
+  });
+});
+
+describe('Invariant K₁: gitProxyEnv', () => {
+  const env = gitProxyEnv('http://host.docker.internal:3001/', 'session.nonce.signature', { protocol: 'https', host: 'github.com' });
+
+  it('should rewrite the remote to the proxy through GIT_CONFIG_* entries', () => {
+    expect(env).toContain('GIT_CONFIG_COUNT=3');
+    expect(env).toContain('GIT_CONFIG_KEY_0=url.http://host.docker.internal:3001/git/proxy/https/github.com/.insteadOf');
+    expect(env).toContain('GIT_CONFIG_VALUE_0=https://github.com/');
+    expect(env).toContain('GIT_CONFIG_KEY_2=credential.http://host.docker.internal:3001.helper');
+  });
+
+  it('should reference the token by variable name only', () => {
+    const helper = env.find(entry => entry.startsWith('GIT_CONFIG_VALUE_2='))!;
+
+    expect(env).toContain(`${CREDENTIAL_TOKEN_ENV}=session.nonce.signature`);
+    expect(helper).not.toContain('session.nonce.signature');
+    expect(helper).toContain(`$${CREDENTIAL_TOKEN_ENV}`);
+  });
+});
+
+describe('Invariant K₂: gitProxyUpstreamPath', () => {
+  it('should accept the smart HTTP endpoints in either spelling', () => {
+    expect(gitProxyUpstreamPath('/acme/app.git', '/acme/app.git/info/refs')).toBe('/acme/app.git/info/refs');
+    expect(gitProxyUpstreamPath('/acme/app.git', '/acme/app/git-upload-pack')).toBe('/acme/app/git-upload-pack');
+    expect(gitProxyUpstreamPath('/acme/app', '/acme/app.git/git-receive-pack')).toBe('/acme/app.git/git-receive-pack');
+  });
+
+  it('should refuse other repositories and other paths', () => {
+    expect(gitProxyUpstreamPath('/acme/app.git', '/acme/other.git/info/refs')).toBeNull();
+    expect(gitProxyUpstreamPath('/acme/app.git', '/acme/app.git/objects/info/packs')).toBeNull();
+    expect(gitProxyUpstreamPath('/acme/app.git', '/api/v3/user')).toBeNull();
+    expect(gitProxyUpstreamPath('/', '/info/refs')).toBeNull();
+  });
+});
+
+describe('Invariant K₁: hostCredentialEnv', () => {
+  const env = hostCredentialEnv({ protocol: 'https', host: 'gitlab.example.com:8443' }, 'oauth2', 'glpat-secret');
+
+  it('should scope the helper to the one remote, clearing host helpers first', () => {
+    expect(env.GIT_CONFIG_COUNT).toBe('2');
+    expect(env.GIT_CONFIG_KEY_0).toBe('credential.https://gitlab.example.com:8443.helper');
+    expect(env.GIT_CONFIG_VALUE_0).toBe('');
+    expect(env.GIT_CONFIG_KEY_1).toBe(env.GIT_CONFIG_KEY_0);
+    expect(env.GIT_TERMINAL_PROMPT).toBe('0');
+  });
+
+  it('should keep the password out of the helper configuration', () => {
+    expect(env.CRAFTASTIC_GIT_PASSWORD).toBe('glpat-secret');
+    expect(env.GIT_CONFIG_VALUE_1).not.toContain('glpat-secret');
+  });
+});
+
+describe('Invariant T₁: session credential tokens', () => {
+  const sessionId = '7b0c8a52-3f4e-4d7a-9d61-0c2f4b1e9a10';
+  const nonce = 'q3J9bW1xZ0RkM2Zz';
+
+  it('should verify to the session and nonce it was issued for', () => {
+    expect(verifyCredentialToken(sessionCredentialToken(sessionId, nonce))).toEqual({ sessionId, nonce });
+  });
+
+  it('should reject tokens moved to another session or nonce, or tampered with', () => {
+    const [, , signature] = sessionCredentialToken(sessionId, nonce).split('.');
+    const other = 'a1e5c3d2-0000-4000-8000-000000000000';
+
+    expect(verifyCredentialToken(`${other}.${nonce}.${signature}`)).toBeNull();
+    expect(verifyCredentialToken(`${sessionId}.other.${signature}`)).toBeNull();
+    expect(verifyCredentialToken(`${sessionId}.${nonce}.${signature.slice(1)}x`)).toBeNull();
+    expect(verifyCredentialToken(`${sessionId}.${signature}`)).toBeNull();
+    expect(verifyCredentialToken('')).toBeNull();
+  });
+});
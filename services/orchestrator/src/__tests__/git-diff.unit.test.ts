@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { buildHunkPatch, parseUnifiedDiff, unquoteGitPath } from '../lib/git-diff';
+
+/**
+ * GIT DIFF TESTS - Parsing and partial patches
+ * ============================================
+ *
+ * D₁: hunk ids are content hashes
+ * D₂: line numbers follow the hunk header
+ * D₃: built patches carry recomputed hunk counts
+ * P₁: unselected lines follow `git add -p` rules (forward vs. reverse)
+ */
+
+const MODIFIED = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,4 +1,4 @@ export function main() {',
+  ' one',
+  '-two',
+  '+TWO',
+  ' three',
+  '-four',
+  '+FOUR',
+  '@@ -10 +10,2 @@',
+  ' ten',
+  '+eleven',
+  '\\ No newline at end of file',
+].join('\n') + '\n';
+
+const MIXED = [
+  'diff --git a/new.txt b/new.txt',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  '--- /dev/null',
+  '+++ b/new.txt',
+  '@@ -0,0 +1 @@',
+  '+hello',
+  'diff --git a/old name.txt b/renamed.txt',
+  'similarity index 90%',
+  'rename from old name.txt',
+  'rename to renamed.txt',
+  'index 4444444..5555555 100644',
+  '--- a/old name.txt\t',
+  '+++ b/renamed.txt',
+  '@@ -1 +1 @@',
+  '-a',
+  '+b',
+  'diff --git a/logo.png b/logo.png',
+  'index 6666666..7777777 100644',
+  'Binary files a/logo.png and b/logo.png differ',
+  'diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"',
+  'deleted file mode 100755',
+  'index 8888888..0000000',
+  '--- "a/caf\\303\\251.txt"',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+].join('\n') + '\n';
+
+describe('parseUnifiedDiff', () => {
+  it('Invariant D₂: should number lines from the hunk headers', () => {
+    const [file] = parseUnifiedDiff(MODIFIED);
+
+    expect(file).toMatchObject({ path: 'src/app.ts', status: 'modified', additions: 3, deletions: 2, oldMode: '100644' });
+    expect(file.hunks).toHaveLength(2);
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 4, section: 'export function main() {' });
+    expect(file.hunks[0].lines.map(l => [l.type, l.oldNumber, l.newNumber])).toEqual([
+      ['context', 1, 1],
+      ['del', 2, null],
+      ['add', null, 2],
+      ['context', 3, 3],
+      ['del', 4, null],
+      ['add', null, 4],
+    ]);
+    expect(file.hunks[1]).toMatchObject({ oldLines: 1, newLines: 2 });
+    expect(file.hunks[1].lines[1]).toMatchObject({ content: 'eleven', noNewline: true });
+  });
+
+  it('should flag added, renamed, binary and deleted files', () => {
+    const files = parseUnifiedDiff(MIXED);
+
+    expect(files.map(f => [f.path, f.status, f.oldPath, f.newPath, f.binary])).toEqual([
+      ['new.txt', 'added', null, 'new.txt', false],
+      ['renamed.txt', 'renamed', 'old name.txt', 'renamed.txt', false],
+      ['logo.png', 'modified', 'logo.png', 'logo.png', true],
+      ['café.txt', 'deleted', 'café.txt', null, false],
+    ]);
+    expect(files[1].similarity).toBe(90);
+    expect(files[2].hunks).toEqual([]);
+    expect(files[3].oldMode).toBe('100755');
+  });
+
+  it('Invariant D₁: should derive hunk ids from content', () => {
+    const first = parseUnifiedDiff(MODIFIED)[0].hunks[0].id;
+    const changed = parseUnifiedDiff(MODIFIED.replace('+TWO', '+Two'))[0].hunks[0].id;
+
+    expect(parseUnifiedDiff(MODIFIED)[0].hunks[0].id).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+
+  it('should return nothing for an empty diff', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
+
+describe('unquoteGitPath', () => {
+  it('should decode C-style quoting', () => {
+    expect(unquoteGitPath('"a/caf\\303\\251 \\"x\\".txt"')).toBe('a/café "x".txt');
+    expect(unquoteGitPath('a/plain.txt')).toBe('a/plain.txt');
+  });
+});
+
+describe('buildHunkPatch', () => {
+  const [file] = parseUnifiedDiff(MODIFIED);
+  const [first, second] = file.hunks;
+
+  it('should rebuild whole hunks', () => {
+    const patch = buildHunkPatch(file, [{ hunk: second, lines: null }], false);
+
+    expect(patch).toBe([
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -10,1 +10,2 @@',
+      ' ten',
+      '+eleven',
+      '\\ No newline at end of file',
+    ].join('\n') + '\n');
+  });
+
+  it('Invariant P₁: forwards, unselected deletions become context', () => {
+    const patch = buildHunkPatch(file, [{ hunk: first, lines: new Set([1, 2]) }], false)!;
+
+    expect(patch.split('\n').slice(4, -1)).toEqual(['@@ -1,4 +1,4 @@', ' one', '-two', '+TWO', ' three', ' four']);
+  });
+
+  it('Invariant P₁: in reverse, unselected additions become context', () => {
+    const patch = buildHunkPatch(file, [{ hunk: first, lines: new Set([4, 5]) }], true)!;
+
+    expect(patch.split('\n').slice(4, -1)).toEqual(['@@ -1,4 +1,4 @@', ' one', ' TWO', ' three', '-four', '+FOUR']);
+  });
+
+  it('Invariant D₃: should order hunks and skip selections without changes', () => {
+    const patch = buildHunkPatch(file, [{ hunk: second, lines: null }, { hunk: first, lines: new Set([0]) }], false)!;
+
+    expect(patch.match(/^@@.*$/gm)).toEqual(['@@ -10,1 +10,2 @@']);
+    expect(buildHunkPatch(file, [{ hunk: first, lines: new Set([0]) }], false)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fromGitLabProject,
+  gitCredentialUsername,
+  parseRepositoryUrl,
+  summarizeGitLabApprovals,
+  summarizeGitLabPipeline,
+  summarizeGiteaReviews,
+  summarizeGiteaStatuses,
+} from '../lib/git-providers';
+
+/**
+ * GIT PROVIDER TESTS - Remote URLs and forge payload mapping
+ * ==========================================================
+ *
+ * P₁: host is lowercase and keeps a non-default port
+ * P₂: path has no surrounding slashes nor '.git'; subgroups are kept
+ * P₃: unparseable URLs yield null
+ */
+
+describe('parseRepositoryUrl', () => {
+  it('Invariant P₁: should normalize the host of https and ssh remotes', () => {
+    expect(parseRepositoryUrl('https://GitLab.Example.com:8443/team/app.git')).toEqual({
+      protocol: 'https',
+      host: 'gitlab.example.com:8443',
+      path: 'team/app',
+    });
+    expect(parseRepositoryUrl('https://github.com:443/acme/app')).toMatchObject({ host: 'github.com' });
+    expect(parseRepositoryUrl('ssh://git@git.example.com:2222/team/app.git')).toEqual({
+      protocol: 'ssh',
+      host: 'git.example.com:2222',
+      path: 'team/app',
+    });
+  });
+
+  it('Invariant P₂: should read scp-style remotes and keep subgroups', () => {
+    expect(parseRepositoryUrl('git@gitlab.example.com:group/sub/app.git')).toEqual({
+      protocol: 'ssh',
+      host: 'gitlab.example.com',
+      path: 'group/sub/app',
+    });
+    expect(parseRepositoryUrl('https://gitea.example.com/org/app/')).toMatchObject({ path: 'org/app' });
+  });
+
+  it('Invariant P₃: should reject anything that is not a repository remote', () => {
+    expect(parseRepositoryUrl('/srv/git/app.git')).toBeNull();
+    expect(parseRepositoryUrl('file:///srv/git/team/app.git')).toBeNull();
+    expect(parseRepositoryUrl('https://github.com/acme')).toBeNull();
+    expect(parseRepositoryUrl('https://example.com/team/../app')).toBeNull();
+    expect(parseRepositoryUrl('not a url')).toBeNull();
+  });
+});
+
+describe('forge payload mapping', () => {
+  it('should map GitLab projects', () => {
+    expect(fromGitLabProject({
+      id: 42,
+      name: 'app',
+      path_with_namespace: 'group/sub/app',
+      description: '',
+      web_url: 'https://gitlab.example.com/group/sub/app',
+      http_url_to_repo: 'https://gitlab.example.com/group/sub/app.git',
+      ssh_url_to_repo: 'git@gitlab.example.com:group/sub/app.git',
+      visibility: 'internal',
+      default_branch: 'main',
+      last_activity_at: '2025-08-21T10:00:00Z',
+    })).toEqual({
+      id: '42',
+      name: 'app',
+      fullName: 'group/sub/app',
+      description: null,
+      htmlUrl: 'https://gitlab.example.com/group/sub/app',
+      cloneUrl: 'https://gitlab.example.com/group/sub/app.git',
+      sshUrl: 'git@gitlab.example.com:group/sub/app.git',
+      private: true,
+      defaultBranch: 'main',
+      updatedAt: '2025-08-21T10:00:00Z',
+    });
+  });
+
+  it('should summarize GitLab approvals and pipelines', () => {
+    expect(summarizeGitLabApprovals({ approved_by: [{ user: { username: 'ana' } }], approvals_left: 1 }))
+      .toMatchObject({ decision: 'review_required', approvals: 1 });
+    expect(summarizeGitLabApprovals({ approved_by: [{ user: { username: 'ana' } }], approvals_left: 0 }).decision)
+      .toBe('approved');
+
+    expect(summarizeGitLabPipeline({ status: 'running', web_url: 'https://ci/1' }))
+      .toMatchObject({ state: 'pending', total: 1, checks: [{ name: 'pipeline', state: 'pending', url: 'https://ci/1' }] });
+    expect(summarizeGitLabPipeline({ status: 'failed' }).state).toBe('failure');
+    expect(summarizeGitLabPipeline(null)).toMatchObject({ state: 'none', total: 0 });
+  });
+
+  it('should summarize Gitea reviews and statuses', () => {
+    const reviews = summarizeGiteaReviews([
+      { user: { login: 'ana' }, state: 'APPROVED' },
+      { user: { login: 'bo' }, state: 'REQUEST_CHANGES' },
+      { user: { login: 'cy' }, state: 'REQUEST_REVIEW' },
+    ]);
+    expect(reviews).toMatchObject({ decision: 'changes_requested', approvals: 1, changesRequested: 1 });
+    expect(reviews.reviewers).toContainEqual({ login: 'cy', state: 'requested' });
+
+    expect(summarizeGiteaStatuses([
+      { context: 'ci', status: 'success' },
+      { context: 'lint', status: 'warning' },
+    ])).toMatchObject({ state: 'success', passed: 2 });
+  });
+});
+
+describe('gitCredentialUsername', () => {
+  it('should send the username each forge expects', () => {
+    expect(gitCredentialUsername('github', 'oauth', 'octocat')).toBe('x-access-token');
+    expect(gitCredentialUsername('gitlab', 'oauth', 'ana')).toBe('oauth2');
+    expect(gitCredentialUsername('gitlab', 'token', 'ana')).toBe('ana');
+    expect(gitCredentialUsername('gitea', 'token', null)).toBe('git');
+  });
+});
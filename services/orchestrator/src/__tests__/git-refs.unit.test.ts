@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { isValidBranchName, parseAheadBehind, parseBranchRefs } from '../lib/git-refs';
+
+/**
+ * GIT REF TESTS - Branch listing and validation
+ * =============================================
+ *
+ * G₁: refs/heads → local, refs/remotes → remote, <remote>/HEAD skipped
+ * G₂: only names git accepts (and that cannot look like options) are valid
+ * G₃: malformed lines are skipped
+ */
+
+describe('parseBranchRefs', () => {
+  const output = [
+    'refs/heads/main\taaa111\t2025-08-01T10:00:00+00:00\tInitial commit',
+    'refs/heads/feature/login\tbbb222\t2025-08-02T10:00:00+00:00\tAdd login\twith tabs',
+    'refs/remotes/origin/HEAD\taaa111\t2025-08-01T10:00:00+00:00\tInitial commit',
+    'refs/remotes/origin/feature/login\tccc333\t2025-08-03T10:00:00+00:00\tRemote work',
+    'refs/tags/v1\tddd444\t2025-08-01T10:00:00+00:00\tTag',
+  ].join('\n') + '\n';
+
+  describe('Invariant G₁: local and remote branches', () => {
+    it('should split refs into local and remote branches', () => {
+      const branches = parseBranchRefs(output);
+
+      expect(branches.map(b => [b.name, b.remote])).toEqual([
+        ['main', null],
+        ['feature/login', null],
+        ['origin/feature/login', 'origin'],
+      ]);
+    });
+
+    it('should keep tabs inside the commit subject', () => {
+      const [, login] = parseBranchRefs(output);
+
+      expect(login.subject).toBe('Add login\twith tabs');
+      expect(login.commit).toBe('bbb222');
+      expect(login.ahead).toBeNull();
+    });
+  });
+
+  describe('Invariant G₃: malformed lines', () => {
+    it('should skip lines without all fields', () => {
+      expect(parseBranchRefs('refs/heads/main\n\nrefs/heads/x\tabc\n')).toEqual([]);
+    });
+  });
+});
+
+describe('parseAheadBehind', () => {
+  it('should read behind (left) then ahead (right)', () => {
+    expect(parseAheadBehind('3\t5')).toEqual({ behind: 3, ahead: 5 });
+  });
+
+  it('should return null for an empty or garbled line', () => {
+    expect(parseAheadBehind('')).toBeNull();
+    expect(parseAheadBehind('fatal: bad revision')).toBeNull();
+  });
+});
+
+describe('Invariant G₂: isValidBranchName', () => {
+  it('should accept ordinary branch names', () => {
+    for (const name of ['main', 'feature/login', 'fix-123', 'user/jo.doe/wip']) {
+      expect(isValidBranchName(name)).toBe(true);
+    }
+  });
+
+  it('should reject names git refuses or that look like options', () => {
+    for (const name of [
+      '', '-f', '--force', 'a..b', 'a b', 'a~1', 'a^', 'a:b', 'a?', 'a*', 'a[b', 'a\\b',
+      'a/', '/a', 'a//b', 'a.', 'a.lock', 'a/.hidden', 'a@{1}', '@', 'HEAD',
+    ]) {
+      expect(isValidBranchName(name)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseStashList } from '../lib/git-stash';
+
+/**
+ * GIT STASH TESTS - Stash listing
+ * ===============================
+ *
+ * T₁: git's order is kept and index = n of stash@{n}
+ * T₂: includesUntracked ⟺ the stash commit has a third parent
+ * T₃: malformed lines are skipped
+ */
+
+describe('parseStashList', () => {
+  const output = [
+    'stash@{0}\t8c9f62c\t4db06ad b12684b\t2025-08-21T10:00:00+00:00\tWIP on main: 4db06ad Add login',
+    'stash@{1}\td21d5a4\t4db06ad b12684b 111c969\t2025-08-20T10:00:00+00:00\tOn feature/x: half done: the\tparser',
+    'stash@{2}\te0e0e0e\t4db06ad b12684b\t2025-08-19T10:00:00+00:00\tOn (no branch): detached',
+    'not a stash line',
+    'stash@{x}\tf0f0f0f\t4db06ad\t2025-08-18T10:00:00+00:00\tOn main: bad selector',
+  ].join('\n') + '\n';
+
+  it('Invariant T₁: should keep order and selector indices', () => {
+    const entries = parseStashList(output);
+
+    expect(entries.map(e => [e.index, e.ref, e.commit])).toEqual([
+      [0, 'stash@{0}', '8c9f62c'],
+      [1, 'stash@{1}', 'd21d5a4'],
+      [2, 'stash@{2}', 'e0e0e0e'],
+    ]);
+  });
+
+  it('should split the branch from the message', () => {
+    const [wip, named, detached] = parseStashList(output);
+
+    expect(wip).toMatchObject({ branch: 'main', message: '4db06ad Add login', createdAt: '2025-08-21T10:00:00+00:00' });
+    expect(named).toMatchObject({ branch: 'feature/x', message: 'half done: the\tparser' });
+    expect(detached).toMatchObject({ branch: null, message: 'detached' });
+  });
+
+  it('Invariant T₂: should detect stashed untracked files', () => {
+    expect(parseStashList(output).map(e => e.includesUntracked)).toEqual([false, true, false]);
+  });
+
+  it('Invariant T₃: should ignore empty output', () => {
+    expect(parseStashList('')).toEqual([]);
+  });
+});
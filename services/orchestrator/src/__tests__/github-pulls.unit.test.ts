@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { config } from '../config';
+import { parseGitHubRepository, summarizeChecks, summarizeReviews } from '../lib/github-pulls';
+import { GitHubApiError, createPullRequest, getPullRequestStatus } from '../services/github-pulls';
+
+/**
+ * GITHUB PULL REQUEST TESTS - Summaries and API client (local HTTP stub)
+ * ======================================================================
+ *
+ * R₁: only each reviewer's latest approving or blocking review counts
+ * R₂: any counted change request makes the decision 'changes_requested'
+ * H₁: failure > pending > success > none for the combined check state
+ * A₁: GitHub's 401/403 surface as 403
+ * P₁: creating a PR that already exists links the open one
+ */
+
+describe('parseGitHubRepository', () => {
+  it('should parse https and ssh remotes', () => {
+    expect(parseGitHubRepository('https://github.com/acme/app.git')).toEqual({ owner: 'acme', repo: 'app' });
+    expect(parseGitHubRepository('https://token@github.com/acme/app')).toEqual({ owner: 'acme', repo: 'app' });
+    expect(parseGitHubRepository('git@github.com:acme/my.app.git')).toEqual({ owner: 'acme', repo: 'my.app' });
+  });
+
+  it('should reject other hosts', () => {
+    expect(parseGitHubRepository('https://gitlab.com/acme/app.git')).toBeNull();
+    expect(parseGitHubRepository('https://github.com/acme')).toBeNull();
+  });
+});
+
+describe('summarizeReviews', () => {
+  it('Invariant R₁: should count only the latest review per reviewer', () => {
+    const summary = summarizeReviews([
+      { user: { login: 'ana' }, state: 'CHANGES_REQUESTED' },
+      { user: { login: 'ana' }, state: 'COMMENTED' },
+      { user: { login: 'ana' }, state: 'APPROVED' },
+      { user: { login: 'bo' }, state: 'APPROVED' },
+      { user: { login: 'bo' }, state: 'DISMISSED' },
+    ]);
+
+    expect(summary).toEqual({
+      decision: 'approved',
+      approvals: 1,
+      changesRequested: 0,
+      reviewers: [{ login: 'ana', state: 'approved' }],
+    });
+  });
+
+  it('Invariant R₂: should block on any change request', () => {
+    const summary = summarizeReviews([
+      { user: { login: 'ana' }, state: 'APPROVED' },
+      { user: { login: 'bo' }, state: 'CHANGES_REQUESTED' },
+    ], [{ login: 'cy' }]);
+
+    expect(summary.decision).toBe('changes_requested');
+    expect(summary.reviewers.map(r => r.state)).toEqual(['approved', 'changes_requested', 'requested']);
+  });
+
+  it('should require review while reviewers are pending', () => {
+    expect(summarizeReviews([], [{ login: 'ana' }]).decision).toBe('review_required');
+    expect(summarizeReviews([]).decision).toBe('none');
+  });
+});
+
+describe('Invariant H₁: summarizeChecks', () => {
+  it('should combine check runs and commit statuses', () => {
+    const summary = summarizeChecks(
+      [
+        { name: 'build', status: 'completed', conclusion: 'success' },
+        { name: 'lint', status: 'completed', conclusion: 'skipped' },
+        { name: 'e2e', status: 'in_progress', conclusion: null },
+      ],
+      [{ context: 'ci/legacy', state: 'success' }]
+    );
+
+    expect(summary).toMatchObject({ state: 'pending', total: 4, passed: 3, failed: 0, pending: 1 });
+  });
+
+  it('should fail when anything failed', () => {
+    const summary = summarizeChecks(
+      [{ name: 'e2e', status: 'queued', conclusion: null }],
+      [{ context: 'deploy', state: 'error' }]
+    );
+
+    expect(summary.state).toBe('failure');
+  });
+
+  it('should report none without checks', () => {
+    expect(summarizeChecks([], []).state).toBe('none');
+  });
+});
+
+describe('GitHub API client', () => {
+  type Handler = (req: http.IncomingMessage, body: string) => { status: number; json: unknown };
+  let server: http.Server;
+  let handler: Handler;
+  let requests: Array<{ method: string; url: string; auth?: string; body: string }>;
+  let originalApiUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, auth: req.headers.authorization, body });
+        const { status, json } = handler(req, body);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(json));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    originalApiUrl = config.GITHUB_API_URL;
+    config.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    config.GITHUB_API_URL = originalApiUrl;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const repo = { owner: 'acme', repo: 'app' };
+  const input = { head: 'feature/login', base: 'main', title: 'Add login' };
+
+  it('should create a pull request with the user token', async () => {
+    handler = () => ({ status: 201, json: { number: 7, html_url: 'https://github.com/acme/app/pull/7' } });
+
+    const result = await createPullRequest('gho_token', repo, input);
+
+    expect(result).toEqual({ number: 7, url: 'https://github.com/acme/app/pull/7', created: true });
+    expect(requests[0]).toMatchObject({ method: 'POST', url: '/repos/acme/app/pulls', auth: 'Bearer gho_token' });
+    expect(JSON.parse(requests[0].body)).toEqual({ ...input, body: '', draft: false });
+  });
+
+  it('Invariant P₁: should link the open pull request that already exists', async () => {
+    handler = (req) => req.method === 'POST'
+      ? { status: 422, json: { message: 'Validation Failed', errors: [{ message: 'A pull request already exists for acme:feature/login.' }] } }
+      : { status: 200, json: [{ number: 3, html_url: 'https://github.com/acme/app/pull/3' }] };
+
+    const result = await createPullRequest('gho_token', repo, input);
+
+    expect(result).toEqual({ number: 3, url: 'https://github.com/acme/app/pull/3', created: false });
+    expect(requests[1].url).toBe('/repos/acme/app/pulls?head=acme%3Afeature%2Flogin&base=main&state=open');
+  });
+
+  it('should keep other validation errors as 422', async () => {
+    handler = () => ({ status: 422, json: { message: 'Validation Failed', errors: [{ message: 'No commits between main and feature/login' }] } });
+
+    const error = await createPullRequest('gho_token', repo, input).catch(e => e);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.statusCode).toBe(422);
+    expect(error.message).toContain('No commits between main and feature/login');
+  });
+
+  it('Invariant A₁: should not pass GitHub 401s through', async () => {
+    handler = () => ({ status: 401, json: { message: 'Bad credentials' } });
+
+    const error = await getPullRequestStatus('expired', repo, 7).catch(e => e);
+
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('should assemble review and check status', async () => {
+    handler = (req) => {
+      switch (req.url) {
+        case '/repos/acme/app/pulls/7':
+          return {
+            status: 200,
+            json: {
+              number: 7,
+              html_url: 'https://github.com/acme/app/pull/7',
+              title: 'Add login',
+              state: 'closed',
+              merged: true,
+              draft: false,
+              mergeable: null,
+              head: { ref: 'feature/login', sha: 'abc123' },
+              base: { ref: 'main' },
+              requested_reviewers: [],
+              updated_at: '2025-08-20T10:00:00Z',
+            },
+          };
+        case '/repos/acme/app/pulls/7/reviews?per_page=100':
+          return { status: 200, json: [{ user: { login: 'ana' }, state: 'APPROVED' }] };
+        case '/repos/acme/app/commits/abc123/check-runs?per_page=100':
+          return { status: 200, json: { check_runs: [{ name: 'build', status: 'completed', conclusion: 'failure', html_url: 'https://ci/1' }] } };
+        case '/repos/acme/app/commits/abc123/status':
+          return { status: 200, json: { statuses: [] } };
+        default:
+          return { status: 404, json: { message: 'Not Found' } };
+      }
+    };
+
+    const status = await getPullRequestStatus('gho_token', repo, 7);
+
+    expect(status).toMatchObject({
+      number: 7,
+      state: 'merged',
+      head: 'feature/login',
+      base: 'main',
+      mergeable: null,
+      reviews: { decision: 'approved', approvals: 1 },
+      checks: { state: 'failure', failed: 1, checks: [{ name: 'build', state: 'failure', url: 'https://ci/1' }] },
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeProcAddress,
+  groupListeningPorts,
+  parseProcNetTcp,
+} from '../lib/listening-ports';
+
+/**
+ * LISTENING PORT TESTS - /proc/net/tcp parsing
+ * ============================================
+ *
+ * L₁: ∀s ∈ parse(tcp). state(s) = LISTEN
+ * L₂: loopbackOnly(p) ⟺ ∀a ∈ addresses(p). loopback(a)
+ */
+
+const TCP = `  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1001        0 12345 1 0000000000000000 100 0 0 10 0
+   1: 0100007F:1435 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1001        0 12346 1 0000000000000000 100 0 0 10 0
+   2: 0200110A:1F90 0100110A:D2F0 01 00000000:00000000 00:00000000 00000000  1001        0 12347 1 0000000000000000 20 4 30 10 -1
+`;
+
+const TCP6 = `  sl  local_address                         remote_address                        st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode
+   0: 00000000000000000000000001000000:1435 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1001        0 22345 1 0000000000000000 100 0 0 10 0
+   1: 00000000000000000000000000000000:0BB8 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1001        0 22346 1 0000000000000000 100 0 0 10 0
+`;
+
+describe('Listening Ports', () => {
+  describe('decodeProcAddress', () => {
+    it('should decode little-endian IPv4 addresses', () => {
+      expect(decodeProcAddress('0100007F')).toBe('127.0.0.1');
+      expect(decodeProcAddress('0200110A')).toBe('10.17.0.2');
+      expect(decodeProcAddress('00000000')).toBe('0.0.0.0');
+    });
+
+    it('should decode IPv6 wildcard, loopback and mapped addresses', () => {
+      expect(decodeProcAddress('00000000000000000000000000000000')).toBe('::');
+      expect(decodeProcAddress('00000000000000000000000001000000')).toBe('::1');
+      expect(decodeProcAddress('0000000000000000FFFF00000100007F')).toBe('::ffff:127.0.0.1');
+    });
+  });
+
+  describe('Invariant L₁: only LISTEN sockets', () => {
+    it('should skip established connections', () => {
+      const sockets = parseProcNetTcp(TCP, 'tcp');
+      expect(sockets).toEqual([
+        { port: 8080, address: '0.0.0.0', protocol: 'tcp' },
+        { port: 5173, address: '127.0.0.1', protocol: 'tcp' },
+      ]);
+    });
+
+    it('should handle empty tables', () => {
+      expect(parseProcNetTcp('', 'tcp6')).toEqual([]);
+    });
+  });
+
+  describe('Invariant L₂: loopback detection', () => {
+    it('should group by port and flag loopback-only servers', () => {
+      const ports = groupListeningPorts([
+        ...parseProcNetTcp(TCP, 'tcp'),
+        ...parseProcNetTcp(TCP6, 'tcp6'),
+      ]);
+
+      expect(ports).toEqual([
+        { port: 3000, addresses: ['::'], loopbackOnly: false },
+        { port: 5173, addresses: ['127.0.0.1', '::1'], loopbackOnly: true },
+        { port: 8080, addresses: ['0.0.0.0'], loopbackOnly: false },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { OutputRingBuffer, OutputTail } from '../lib/output-buffer';
+
+/**
+ * OUTPUT RING BUFFER TESTS - Resumable terminal output
+ * ====================================================
+ *
+ * B₁: seq increases by 1 per chunk
+ * B₂: retained bytes ≤ capacity (a single oversized chunk is kept alone)
+ * B₃: since(s) = chunks with seq > s, or null once any of them was evicted
+ * T₁: a tail keeps the last capacity bytes written
+ * T₂: truncated ⟺ more than capacity bytes were written
+ */
+
+describe('OutputRingBuffer', () => {
+  describe('Invariant B₁: sequence numbers', () => {
+    it('should number chunks from 1', () => {
+      const buffer = new OutputRingBuffer(1024);
+      expect(buffer.lastSeq).toBe(0);
+      expect(buffer.append('a')).toBe(1);
+      expect(buffer.append('b')).toBe(2);
+      expect(buffer.lastSeq).toBe(2);
+    });
+  });
+
+  describe('Invariant B₃: replay', () => {
+    it('should return exactly the chunks after the given seq', () => {
+      const buffer = new OutputRingBuffer(1024);
+      ['one', 'two', 'three', 'four'].forEach(data => buffer.append(data));
+
+      expect(buffer.since(2)).toEqual([
+        { seq: 3, data: 'three' },
+        { seq: 4, data: 'four' },
+      ]);
+      expect(buffer.since(0)?.map(c => c.data).join('')).toBe('onetwothreefour');
+    });
+
+    it('should return an empty replay for an up-to-date client', () => {
+      const buffer = new OutputRingBuffer(1024);
+      buffer.append('x');
+
+      expect(buffer.since(1)).toEqual([]);
+      expect(new OutputRingBuffer().since(0)).toEqual([]);
+    });
+
+    it('should reject seq numbers from the future', () => {
+      const buffer = new OutputRingBuffer(1024);
+      buffer.append('x');
+
+      expect(buffer.since(5)).toBeNull();
+      expect(buffer.since(-1)).toBeNull();
+    });
+  });
+
+  describe('Invariant B₂: bounded size', () => {
+    it('should evict the oldest chunks and refuse replays that need them', () => {
+      const buffer = new OutputRingBuffer(10);
+      buffer.append('aaaa'); // 1
+      buffer.append('bbbb'); // 2
+      buffer.append('cccc'); // 3 - evicts 1
+
+      expect(buffer.firstSeq).toBe(2);
+      expect(buffer.since(0)).toBeNull();
+      expect(buffer.since(1)?.map(c => c.seq)).toEqual([2, 3]);
+    });
+
+    it('should keep a single oversized chunk', () => {
+      const buffer = new OutputRingBuffer(4);
+      buffer.append('ab');
+      buffer.append('0123456789');
+
+      expect(buffer.since(1)).toEqual([{ seq: 2, data: '0123456789' }]);
+      expect(buffer.since(0)).toBeNull();
+    });
+
+    it('should keep working across compactions', () => {
+      const buffer = new OutputRingBuffer(100);
+      for (let i = 0; i < 5000; i++) {
+        buffer.append('0123456789');
+      }
+
+      const replay = buffer.since(4990);
+      expect(replay?.map(c => c.seq)).toEqual([4991, 4992, 4993, 4994, 4995, 4996, 4997, 4998, 4999, 5000]);
+      expect(buffer.since(4989)).toBeNull();
+    });
+  });
+});
+
+describe('OutputTail', () => {
+  it('Invariant T₁/T₂: should keep everything up to capacity', () => {
+    const tail = new OutputTail(8);
+    tail.push(Buffer.from('abc'));
+    tail.push(Buffer.from('defgh'));
+    expect(tail.toString()).toBe('abcdefgh');
+    expect(tail.truncated).toBe(false);
+  });
+
+  it('Invariant T₁/T₂: should drop the oldest bytes past capacity', () => {
+    const tail = new OutputTail(5);
+    tail.push(Buffer.from('abc'));
+    tail.push(Buffer.from('defg'));
+    expect(tail.toString()).toBe('cdefg');
+    tail.push(Buffer.from('0123456789'));
+    expect(tail.toString()).toBe('56789');
+    expect(tail.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ipLiteralHost, isPublicAddress } from '../lib/public-address';
+
+/**
+ * PUBLIC ADDRESS TESTS - Which addresses user-supplied URLs may reach
+ * ===================================================================
+ *
+ * A₁: IPv6 spellings of IPv4 addresses are never public
+ */
+
+describe('isPublicAddress', () => {
+  it('should accept globally routable addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it('should reject loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ['::', '::1', 'fd00::1', 'fe80::1', 'ff02::1']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('Invariant A₁: should reject IPv4 addresses spelled as IPv6', () => {
+    expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:8.8.8.8')).toBe(false);
+    expect(isPublicAddress('::127.0.0.1')).toBe(false);
+    expect(isPublicAddress('64:ff9b::a9fe:a9fe')).toBe(false);
+  });
+
+  it('should reject anything that is not an address', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+    expect(isPublicAddress('')).toBe(false);
+  });
+});
+
+describe('ipLiteralHost', () => {
+  it('should return IP hosts without brackets and null for names', () => {
+    expect(ipLiteralHost(new URL('http://127.0.0.1:8080/hook'))).toBe('127.0.0.1');
+    expect(ipLiteralHost(new URL('http://[::1]/hook'))).toBe('::1');
+    expect(ipLiteralHost(new URL('http://2130706433/hook'))).toBe('127.0.0.1');
+    expect(ipLiteralHost(new URL('https://hooks.slack.com/services/x'))).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { config } from '../config';
+import {
+  parseSizeToBytes,
+  resolveResourceLimits,
+  ResourceLimitsSchema,
+} from '../lib/resource-profiles';
+
+/**
+ * RESOURCE PROFILE TESTS - Sandbox Limit Resolution
+ * =================================================
+ *
+ * R₁: ∀p ∈ {small, medium, large}. resolve(p) = PRESETS[p]
+ * R₂: resolve(custom, l) = PRESETS.small ⊕ l
+ * R₃: resolve(small) ≡ the configured SANDBOX_* limits
+ * R₄: pids are unlimited unless a custom profile sets them
+ */
+
+describe('Resource Profiles', () => {
+  describe('parseSizeToBytes', () => {
+    it('should parse unit suffixes', () => {
+      expect(parseSizeToBytes('512k')).toBe(512 * 1024);
+      expect(parseSizeToBytes('512m')).toBe(512 * 1024 * 1024);
+      expect(parseSizeToBytes('2G')).toBe(2 * 1024 * 1024 * 1024);
+      expect(parseSizeToBytes('1.5g')).toBe(1.5 * 1024 * 1024 * 1024);
+    });
+
+    it('should treat bare numbers as megabytes', () => {
+      expect(parseSizeToBytes('256')).toBe(256 * 1024 * 1024);
+    });
+
+    it('should reject malformed sizes', () => {
+      expect(() => parseSizeToBytes('lots')).toThrow('Invalid size');
+      expect(() => parseSizeToBytes('10tb')).toThrow('Invalid size');
+    });
+  });
+
+  describe('Invariant R₁/R₃: named profiles', () => {
+    const { SANDBOX_MEMORY_LIMIT, SANDBOX_CPU_LIMIT } = config;
+    afterEach(() => {
+      Object.assign(config, { SANDBOX_MEMORY_LIMIT, SANDBOX_CPU_LIMIT });
+    });
+
+    it('should resolve small to the default sandbox limits', () => {
+      const limits = resolveResourceLimits('small');
+      expect(limits.memoryBytes).toBe(512 * 1024 * 1024);
+      expect(limits.cpuQuota).toBe(50000);
+      expect(limits.pidsLimit).toBeUndefined();
+      expect(limits.diskSize).toBeUndefined();
+    });
+
+    it('should follow the configured sandbox limits for small and custom', () => {
+      Object.assign(config, { SANDBOX_MEMORY_LIMIT: '1g', SANDBOX_CPU_LIMIT: '1.5' });
+      expect(resolveResourceLimits('small')).toMatchObject({ memoryBytes: 1024 * 1024 * 1024, cpuQuota: 150000 });
+      expect(resolveResourceLimits('custom', { memory: '4g' }).cpuQuota).toBe(150000);
+    });
+
+    it('should resolve larger profiles', () => {
+      expect(resolveResourceLimits('medium').memoryBytes).toBe(2 * 1024 * 1024 * 1024);
+      expect(resolveResourceLimits('large').cpuQuota).toBe(400000);
+    });
+
+    it('should ignore custom limits for named profiles', () => {
+      const limits = resolveResourceLimits('medium', { memory: '64m' });
+      expect(limits.memoryBytes).toBe(2 * 1024 * 1024 * 1024);
+    });
+
+    it('should fall back to small for unknown or missing profiles', () => {
+      expect(resolveResourceLimits(null)).toEqual(resolveResourceLimits('small'));
+      expect(resolveResourceLimits('huge')).toEqual(resolveResourceLimits('small'));
+    });
+  });
+
+  describe('Invariant R₂/R₄: custom profiles', () => {
+    it('should overlay custom limits on small', () => {
+      const limits = resolveResourceLimits('custom', { memory: '4g', disk: '20g' });
+      expect(limits.memoryBytes).toBe(4 * 1024 * 1024 * 1024);
+      expect(limits.cpuQuota).toBe(50000);
+      expect(limits.pidsLimit).toBeUndefined();
+      expect(limits.diskSize).toBe('20g');
+    });
+
+    it('should limit pids only when asked to', () => {
+      expect(resolveResourceLimits('custom', { pids: 512 }).pidsLimit).toBe(512);
+      expect(resolveResourceLimits('large').pidsLimit).toBeUndefined();
+    });
+  });
+
+  describe('ResourceLimitsSchema', () => {
+    it('should accept well-formed limits', () => {
+      expect(ResourceLimitsSchema.safeParse({ memory: '2g', cpus: 1.5, pids: 512, disk: '10g' }).success).toBe(true);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(ResourceLimitsSchema.safeParse({ memory: 'two gigs' }).success).toBe(false);
+      expect(ResourceLimitsSchema.safeParse({ cpus: 0 }).success).toBe(false);
+      expect(ResourceLimitsSchema.safeParse({ pids: 1 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { TerminalClientRegistry, TerminalAccess } from '../lib/terminal-clients';
+
+/**
+ * TERMINAL CLIENT TESTS - Shared terminal membership
+ * ==================================================
+ *
+ * C₁: canWrite(c) ⟺ c.access = 'read-write'
+ * C₂: effectiveSize() = min over writers' sizes (all sizes when no writer is sized)
+ */
+
+function addClient(registry: TerminalClientRegistry, id: string, access: TerminalAccess) {
+  return registry.add({
+    id,
+    userId: `user-${id}`,
+    name: `User ${id}`,
+    access,
+    isOwner: id === 'owner',
+    shareLinkId: id === 'owner' ? null : `link-${id}`,
+  });
+}
+
+describe('TerminalClientRegistry', () => {
+  describe('Invariant C₁: write access', () => {
+    it('should only allow read-write clients to write', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+      addClient(registry, 'viewer', 'read-only');
+
+      expect(registry.canWrite('owner')).toBe(true);
+      expect(registry.canWrite('viewer')).toBe(false);
+      expect(registry.canWrite('unknown')).toBe(false);
+    });
+
+    it('should revoke write access once a client is removed', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+
+      expect(registry.remove('owner')).toBe(true);
+      expect(registry.canWrite('owner')).toBe(false);
+      expect(registry.size).toBe(0);
+    });
+  });
+
+  describe('Invariant C₂: shared terminal size', () => {
+    it('should return null until a client reports its size', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+
+      expect(registry.effectiveSize()).toBeNull();
+    });
+
+    it('should use the smallest writer viewport', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+      addClient(registry, 'pair', 'read-write');
+      registry.setSize('owner', 200, 50);
+      registry.setSize('pair', 120, 60);
+
+      expect(registry.effectiveSize()).toEqual({ cols: 120, rows: 50 });
+    });
+
+    it('should ignore read-only viewports while a writer is sized', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+      addClient(registry, 'viewer', 'read-only');
+      registry.setSize('owner', 200, 50);
+      registry.setSize('viewer', 40, 10);
+
+      expect(registry.effectiveSize()).toEqual({ cols: 200, rows: 50 });
+    });
+
+    it('should fall back to read-only viewports when no writer is sized', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'viewer', 'read-only');
+      registry.setSize('viewer', 100, 30);
+      registry.setSize('viewer', 0, 0); // invalid sizes are ignored
+
+      expect(registry.effectiveSize()).toEqual({ cols: 100, rows: 30 });
+    });
+  });
+
+  describe('presence', () => {
+    it('should list clients in join order without internal fields', () => {
+      const registry = new TerminalClientRegistry();
+      addClient(registry, 'owner', 'read-write');
+      addClient(registry, 'viewer', 'read-only');
+
+      const presence = registry.presence();
+      expect(presence.map(p => p.id)).toEqual(['owner', 'viewer']);
+      expect(presence[1]).toMatchObject({ name: 'User viewer', access: 'read-only', isOwner: false });
+      expect(presence[1]).not.toHaveProperty('shareLinkId');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OutputBatcher, decodeOutputFrame, encodeOutputFrame, OUTPUT_FRAME } from '../lib/terminal-output';
+
+/**
+ * TERMINAL OUTPUT FRAMING TESTS - Batching and binary frames
+ * ==========================================================
+ *
+ * F₁: batches keep output order
+ * F₂: flushed after delayMs, or immediately at maxBytes
+ * F₃: frames round-trip seq and UTF-8 data
+ */
+
+describe('OutputBatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Invariant F₁: ordering', () => {
+    it('should concatenate chunks in order and report the last seq', () => {
+      vi.useFakeTimers();
+      const flushed: Array<[string, number]> = [];
+      const batcher = new OutputBatcher((data, seq) => flushed.push([data, seq]));
+
+      batcher.push('a', 1);
+      batcher.push('b', 2);
+      batcher.push('c', 3);
+      vi.runAllTimers();
+
+      expect(flushed).toEqual([['abc', 3]]);
+    });
+  });
+
+  describe('Invariant F₂: flush timing', () => {
+    it('should wait for the delay before flushing', () => {
+      vi.useFakeTimers();
+      const onFlush = vi.fn();
+      const batcher = new OutputBatcher(onFlush, { delayMs: 10 });
+
+      batcher.push('hello', 1);
+      vi.advanceTimersByTime(9);
+      expect(onFlush).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(onFlush).toHaveBeenCalledWith('hello', 1);
+    });
+
+    it('should flush immediately once maxBytes is reached', () => {
+      vi.useFakeTimers();
+      const onFlush = vi.fn();
+      const batcher = new OutputBatcher(onFlush, { maxBytes: 4 });
+
+      batcher.push('ab', 1);
+      expect(onFlush).not.toHaveBeenCalled();
+      batcher.push('cd', 2);
+      expect(onFlush).toHaveBeenCalledWith('abcd', 2);
+
+      vi.runAllTimers();
+      expect(onFlush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop pending output on dispose', () => {
+      vi.useFakeTimers();
+      const onFlush = vi.fn();
+      const batcher = new OutputBatcher(onFlush);
+
+      batcher.push('lost', 1);
+      batcher.dispose();
+      vi.runAllTimers();
+      batcher.flush();
+
+      expect(onFlush).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('output frames', () => {
+  describe('Invariant F₃: round trip', () => {
+    it('should encode type, seq and UTF-8 payload', () => {
+      const frame = encodeOutputFrame(258, 'héllo ✓');
+
+      expect(frame.readUInt8(0)).toBe(OUTPUT_FRAME);
+      expect(frame.readUInt32BE(1)).toBe(258);
+      expect(decodeOutputFrame(frame)).toEqual({ seq: 258, data: 'héllo ✓' });
+    });
+
+    it('should reject frames that are too short or of another type', () => {
+      expect(decodeOutputFrame(Buffer.from([OUTPUT_FRAME, 0, 0]))).toBeNull();
+      expect(decodeOutputFrame(Buffer.from([0x7f, 0, 0, 0, 1]))).toBeNull();
+    });
+  });
+});
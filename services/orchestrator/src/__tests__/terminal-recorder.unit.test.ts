@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TRUNCATED_MARKER, endsTruncated, formatEvent, formatMarker, lastEventTime, parseHeader } from '../lib/asciicast';
+import {
+  deleteRecording,
+  getRecordingPath,
+  listRecordings,
+  startRecorder,
+} from '../services/terminal-recorder';
+
+/**
+ * TERMINAL RECORDER TESTS - asciicast v2 output
+ * =============================================
+ *
+ * A₁: event times are seconds since the header timestamp, non-decreasing
+ * A₂: a chunk cut mid-line still yields the last complete event
+ * R₁: recording ids cannot escape the session recordings directory
+ * RC₁: a recording stops at its size limit and ends with TRUNCATED_MARKER
+ */
+
+describe('asciicast', () => {
+  it('should format events as single JSON lines', () => {
+    expect(formatEvent(1.2345678, 'o', 'hi\r\n')).toBe('[1.234568,"o","hi\\r\\n"]\n');
+  });
+
+  it('should only accept version 2 headers', () => {
+    expect(parseHeader('{"version":2,"width":80,"height":24,"timestamp":1}')?.width).toBe(80);
+    expect(parseHeader('{"version":1}')).toBeNull();
+    expect(parseHeader('not json')).toBeNull();
+  });
+
+  describe('Invariant A₂: tail parsing', () => {
+    it('should find the last complete event in a truncated chunk', () => {
+      const tail = '"o","partial"]\n[2.5,"o","x"]\n[3.25,"r","100x30"]\n';
+      expect(lastEventTime(tail)).toBe(3.25);
+    });
+
+    it('should return null when there are no events', () => {
+      expect(lastEventTime('{"version":2,"width":80,"height":24,"timestamp":1}\n')).toBeNull();
+    });
+
+    it('should only see truncation when the marker is the last event', () => {
+      expect(endsTruncated(`[1,"o","x"]\n${formatMarker(2, TRUNCATED_MARKER)}`)).toBe(true);
+      expect(endsTruncated(`${formatMarker(2, TRUNCATED_MARKER)}[3,"o","x"]\n`)).toBe(false);
+      expect(endsTruncated('')).toBe(false);
+    });
+  });
+});
+
+describe('TerminalRecorder', () => {
+  let dataDir: string;
+  const previousDataDir = process.env.CRAFTASTIC_DATA_DIR;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'craftastic-recordings-'));
+    process.env.CRAFTASTIC_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    process.env.CRAFTASTIC_DATA_DIR = previousDataDir;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('Invariant A₁: recorded events', () => {
+    it('should record output and resize events after the header', async () => {
+      const terminal = new EventEmitter();
+      const recorder = startRecorder('session-1', terminal, { cols: 80, rows: 24 }, 'demo');
+
+      terminal.emit('data', '$ ls\r\n');
+      terminal.emit('resize', 120, 40);
+      terminal.emit('data', 'README.md\r\n');
+      await recorder.stop();
+      terminal.emit('data', 'after stop');
+
+      const lines = fs.readFileSync(recorder.filePath, 'utf8').trim().split('\n');
+      const header = parseHeader(lines[0]);
+      const events = lines.slice(1).map(line => JSON.parse(line));
+
+      expect(header).toMatchObject({ version: 2, width: 80, height: 24, title: 'demo' });
+      expect(events.map(e => [e[1], e[2]])).toEqual([
+        ['o', '$ ls\r\n'],
+        ['r', '120x40'],
+        ['o', 'README.md\r\n'],
+      ]);
+      for (let i = 1; i < events.length; i++) {
+        expect(events[i][0]).toBeGreaterThanOrEqual(events[i - 1][0]);
+      }
+    });
+
+    it('should list recordings with size and active state', async () => {
+      const terminal = new EventEmitter();
+      const recorder = startRecorder('session-2', terminal, { cols: 100, rows: 30 });
+      terminal.emit('data', 'hello');
+
+      // Wait for the write stream to flush before reading
+      await new Promise(resolve => setTimeout(resolve, 20));
+      let [info] = await listRecordings('session-2');
+      expect(info).toMatchObject({ id: recorder.id, width: 100, height: 30, active: true });
+
+      await recorder.stop();
+      [info] = await listRecordings('session-2');
+      expect(info.active).toBe(false);
+      expect(info.size).toBeGreaterThan(0);
+      expect(info.duration).not.toBeNull();
+    });
+  });
+
+  describe('Invariant RC₁: size limit', () => {
+    it('should stop at the limit and mark the recording truncated', async () => {
+      const terminal = new EventEmitter();
+      const recorder = startRecorder('session-3', terminal, { cols: 80, rows: 24 }, undefined, 400);
+
+      for (let i = 0; i < 20; i++) {
+        terminal.emit('data', 'x'.repeat(40));
+      }
+      expect(recorder.truncated()).toBe(true);
+      expect(terminal.listenerCount('data')).toBe(0);
+      await recorder.stop();
+
+      const content = fs.readFileSync(recorder.filePath, 'utf8');
+      const lines = content.trim().split('\n');
+      expect(JSON.parse(lines[lines.length - 1])[2]).toBe(TRUNCATED_MARKER);
+      expect(Buffer.byteLength(content) - Buffer.byteLength(lines[lines.length - 1]) - 1).toBeLessThanOrEqual(400);
+
+      const [info] = await listRecordings('session-3');
+      expect(info.truncated).toBe(true);
+    });
+  });
+
+  describe('Invariant R₁: path safety', () => {
+    it('should reject recording ids with path separators', async () => {
+      expect(getRecordingPath('session-1', '../../etc/passwd')).toBeNull();
+      expect(getRecordingPath('session-1', 'a/b')).toBeNull();
+      expect(await deleteRecording('session-1', '../x')).toBe(false);
+    });
+
+    it('should return an empty list for sessions without recordings', async () => {
+      expect(await listRecordings('missing')).toEqual([]);
+    });
+  });
+});
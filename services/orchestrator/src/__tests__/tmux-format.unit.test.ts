@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { isTmuxWindowView, parseTmuxId, parseTmuxWindows, tmuxWindowViewName } from '../lib/tmux-format';
+
+/**
+ * TMUX FORMAT TESTS - Window and pane listing
+ * ===========================================
+ *
+ * T₁: windows ordered by index, panes by pane index
+ * T₂: malformed lines are skipped
+ * T₃: window view names belong to exactly one session
+ */
+
+describe('parseTmuxId', () => {
+  it('should strip the id prefix', () => {
+    expect(parseTmuxId('@3', '@')).toBe(3);
+    expect(parseTmuxId('%12', '%')).toBe(12);
+  });
+
+  it('should reject the wrong prefix or a non-numeric id', () => {
+    expect(parseTmuxId('%3', '@')).toBeNull();
+    expect(parseTmuxId('@x', '@')).toBeNull();
+    expect(parseTmuxId('', '@')).toBeNull();
+  });
+});
+
+describe('parseTmuxWindows', () => {
+  const windows = [
+    '@4\t2\t0\tlogs',
+    '@1\t0\t1\tbash',
+    '@2\t1\t0\tdev\tserver',
+  ].join('\n') + '\n';
+
+  const panes = [
+    '@1\t%3\t1\t1\t40\t24\tvim\t/workspace/src',
+    '@1\t%1\t0\t0\t39\t24\tbash\t/workspace',
+    '@2\t%2\t0\t1\t80\t24\tnode\t/workspace',
+    '@9\t%9\t0\t1\t80\t24\tbash\t/tmp',
+  ].join('\n') + '\n';
+
+  describe('Invariant T₁: ordering', () => {
+    it('should order windows by index and attach their panes', () => {
+      const result = parseTmuxWindows(windows, panes);
+
+      expect(result.map(window => window.id)).toEqual([1, 2, 4]);
+      expect(result[0]).toMatchObject({ index: 0, name: 'bash', active: true });
+      expect(result[0].panes.map(pane => pane.id)).toEqual([1, 3]);
+      expect(result[0].panes[1]).toEqual({
+        id: 3,
+        index: 1,
+        active: true,
+        width: 40,
+        height: 24,
+        command: 'vim',
+        cwd: '/workspace/src',
+      });
+      expect(result[2].panes).toEqual([]);
+    });
+
+    it('should keep tabs inside the trailing name field', () => {
+      const result = parseTmuxWindows(windows, panes);
+      expect(result[1].name).toBe('dev\tserver');
+    });
+  });
+
+  describe('Invariant T₂: malformed input', () => {
+    it('should skip lines that do not match the format', () => {
+      const result = parseTmuxWindows('no server running\n@1\t0\t1\tbash\n', 'garbage\n@1\t%1\n');
+
+      expect(result).toHaveLength(1);
+      expect(result[0].panes).toEqual([]);
+    });
+
+    it('should ignore panes of windows outside the listed session', () => {
+      const result = parseTmuxWindows(windows, panes);
+      expect(result.flatMap(window => window.panes).map(pane => pane.id)).not.toContain(9);
+    });
+  });
+});
+
+describe('Invariant T₃: window views', () => {
+  it('should recognise views of the session', () => {
+    const view = tmuxWindowViewName('dev-1700000000', 3);
+    expect(view).toBe('dev-1700000000_w3');
+    expect(isTmuxWindowView(view, 'dev-1700000000')).toBe(true);
+  });
+
+  it('should not mistake the session or other sessions for views', () => {
+    expect(isTmuxWindowView('dev-1700000000', 'dev-1700000000')).toBe(false);
+    expect(isTmuxWindowView('dev-1700000000_w', 'dev-1700000000')).toBe(false);
+    expect(isTmuxWindowView('dev-1700000000_wx', 'dev-1700000000')).toBe(false);
+    expect(isTmuxWindowView('dev-17000000001_w3', 'dev-1700000000')).toBe(false);
+    expect(isTmuxWindowView('dev-1700000000_w3', 'dev-1700000001')).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseStatListing, resolveWorkspacePath, toWorkspaceRelative } from '../lib/workspace-paths';
+
+/**
+ * WORKSPACE PATH TESTS - File API path handling
+ * =============================================
+ *
+ * W₁: resolved paths never leave /workspace
+ * W₂: relative → absolute → relative is the normalised input
+ */
+
+describe('resolveWorkspacePath', () => {
+  describe('Invariant W₁: confinement', () => {
+    it('should resolve paths under /workspace', () => {
+      expect(resolveWorkspacePath('')).toBe('/workspace');
+      expect(resolveWorkspacePath(undefined)).toBe('/workspace');
+      expect(resolveWorkspacePath('src/index.ts')).toBe('/workspace/src/index.ts');
+      expect(resolveWorkspacePath('/src/')).toBe('/workspace/src');
+      expect(resolveWorkspacePath('src/../README.md')).toBe('/workspace/README.md');
+    });
+
+    it('should reject paths that escape the workspace', () => {
+      expect(resolveWorkspacePath('..')).toBeNull();
+      expect(resolveWorkspacePath('../etc/passwd')).toBeNull();
+      expect(resolveWorkspacePath('src/../../etc')).toBeNull();
+      expect(resolveWorkspacePath('..\\..\\etc')).toBeNull();
+      expect(resolveWorkspacePath('a\0b')).toBeNull();
+    });
+
+    it('should not treat a sibling with the same prefix as inside', () => {
+      expect(resolveWorkspacePath('../workspace-other/file')).toBeNull();
+    });
+  });
+
+  describe('Invariant W₂: round trip', () => {
+    it('should map back to the normalised relative path', () => {
+      expect(toWorkspaceRelative(resolveWorkspacePath('./src//lib/')!)).toBe('src/lib');
+      expect(toWorkspaceRelative(resolveWorkspacePath('')!)).toBe('');
+    });
+  });
+});
+
+describe('parseStatListing', () => {
+  it('should parse GNU and busybox stat output, directories first', () => {
+    const output = [
+      'regular file\t120\t1700000000\tREADME.md',
+      'directory\t4096\t1700000100\tsrc',
+      'regular empty file\t0\t1700000200\t.env',
+      'symbolic link\t9\t1700000300\tlatest',
+      'directory\t4096\t1700000400\t.git',
+    ].join('\n') + '\n';
+
+    const entries = parseStatListing(output, '/workspace');
+
+    expect(entries.map(entry => entry.name)).toEqual(['.git', 'src', '.env', 'latest', 'README.md']);
+    expect(entries[1]).toEqual({
+      name: 'src',
+      path: 'src',
+      type: 'directory',
+      size: 4096,
+      modifiedAt: new Date(1700000100 * 1000).toISOString(),
+    });
+    expect(entries[2].type).toBe('file');
+    expect(entries[3].type).toBe('symlink');
+  });
+
+  it('should build paths relative to the workspace', () => {
+    const entries = parseStatListing('regular file\t1\t0\tindex.ts\n', '/workspace/src/lib');
+    expect(entries[0].path).toBe('src/lib/index.ts');
+  });
+
+  it('should skip malformed lines', () => {
+    expect(parseStatListing("stat: can't stat '*': No such file\n\n", '/workspace')).toEqual([]);
+  });
+});
@@ -20,6 +20,43 @@ const envSchema = z.object({
   SANDBOX_MEMORY_LIMIT: z.string().default('512m'),
   SANDBOX_CPU_LIMIT: z.string().default('0.5'),
   
+  // Origin used for session preview links, e.g. http://preview.localhost:3000.
+  // It must differ from the dashboard's origin so previewed apps cannot read
+  // its localStorage; previews are refused while it is unset.
+  PREVIEW_BASE_URL: z.string().url().optional().or(z.literal('')),
+  
+  // Orchestrator URL as seen from session containers (git proxy).
+  // Defaults to http://host.docker.internal:<PORT>.
+  CONTAINER_API_URL: z.string().optional(),
+  
+  // GitHub REST API base (pull requests); override for GitHub Enterprise or tests
+  GITHUB_API_URL: z.string().default('https://api.github.com'),
+  
+  // Background fetch of bare repositories: base interval and longest backoff
+  // after failures, in seconds. An interval of 0 disables the scheduler.
+  REPO_FETCH_INTERVAL: z.string().transform(Number).default('300'),
+  REPO_FETCH_MAX_BACKOFF: z.string().transform(Number).default('3600'),
+  
+  // Agent task queue: running tasks at once (all users, and per user), runs
+  // per task including retries, and the first retry delay in seconds
+  AGENT_TASK_CONCURRENCY: z.string().transform(Number).default('4'),
+  AGENT_TASK_USER_CONCURRENCY: z.string().transform(Number).default('2'),
+  AGENT_TASK_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+  AGENT_TASK_RETRY_DELAY: z.string().transform(Number).default('30'),
+  
+  // Agent watcher: how often agent panes are read, and how long an unchanged
+  // screen takes to count as idle, in seconds. An interval of 0 disables it.
+  AGENT_WATCH_INTERVAL: z.string().transform(Number).default('5'),
+  AGENT_IDLE_AFTER: z.string().transform(Number).default('20'),
+  
+  // Terminal recordings: largest file per recording, in megabytes; a
+  // recording that reaches it is cut off and marked truncated
+  RECORDING_MAX_SIZE: z.string().transform(Number).default('64'),
+  
+  // Devcontainer postCreateCommand/postStartCommand: longest a single command
+  // may run, in seconds, before it is killed and the phase abandoned
+  DEVCONTAINER_COMMAND_TIMEOUT: z.string().transform(Number).default('600'),
+  
   COOLIFY_API_URL: z.string().optional(),
   COOLIFY_API_TOKEN: z.string().optional(),
 });
@@ -9,14 +9,26 @@ import { containerRoutes } from './routes/containers';
 import { environmentRoutes } from './routes/environments';
 import { terminalRoutes } from './routes/terminal';
 import gitRoutes from './routes/git';
+import { gitProxyRoutes } from './routes/git-proxy';
+import { gitProviderRoutes } from './routes/git-providers';
 import { deploymentRoutes } from './routes/deployment';
 import { sessionRoutes } from './routes/sessions';
 import agentRoutes from './routes/agents';
 import authRoutes from './routes/auth';
 import { cleanupRoutes } from './routes/cleanup';
+import { previewRoutes } from './routes/preview';
+import { recordingRoutes } from './routes/recordings';
+import { execRoutes } from './routes/exec';
+import { windowRoutes } from './routes/windows';
+import { fileRoutes } from './routes/files';
+import { agentTaskRoutes } from './routes/agent-tasks';
+import { mcpServerRoutes } from './routes/mcp-servers';
 import { setupDatabase } from './lib/database';
 import { setupViteDev } from './lib/vite-dev';
 import { cleanupStaleSessions, startPeriodicCleanup, stopPeriodicCleanup } from './services/session-cleanup';
+import { startRepositoryFetcher, stopRepositoryFetcher } from './services/repository-fetcher';
+import { startAgentTaskRunner, stopAgentTaskRunner } from './services/agent-tasks';
+import { startAgentWatcher, stopAgentWatcher } from './services/agent-watcher';
 
 const server = Fastify({
   logger: {
@@ -62,6 +74,11 @@ async function start() {
       try {
         // Try to verify JWT token
         await request.jwtVerify();
+        // Scoped tokens (e.g. preview cookies) are not valid for the API
+        if (request.user.scope) {
+          reply.status(401).send({ success: false, error: 'Unauthorized' });
+          return;
+        }
         // Add compatibility with old user.id format
         request.user.id = request.user.sub;
       } catch (err) {
@@ -95,10 +112,19 @@ async function start() {
     server.register(environmentRoutes, { prefix: '/api' });
     server.register(terminalRoutes, { prefix: '/api/terminal' });
     server.register(gitRoutes);
+    server.register(gitProxyRoutes);
+    server.register(gitProviderRoutes, { prefix: '/api/git/providers' });
     server.register(deploymentRoutes, { prefix: '/api/deployment' });
     server.register(sessionRoutes, { prefix: '/api/sessions' });
     server.register(agentRoutes, { prefix: '/api/agents' });
     server.register(cleanupRoutes, { prefix: '/api/cleanup' });
+    server.register(previewRoutes);
+    server.register(recordingRoutes, { prefix: '/api/sessions' });
+    server.register(execRoutes, { prefix: '/api/sessions' });
+    server.register(windowRoutes, { prefix: '/api/sessions' });
+    server.register(fileRoutes, { prefix: '/api/sessions' });
+    server.register(agentTaskRoutes, { prefix: '/api/agent-tasks' });
+    server.register(mcpServerRoutes, { prefix: '/api/mcp-servers' });
 
     await server.listen({ 
       port: config.PORT, 
@@ -109,6 +135,15 @@ async function start() {
     
     // Start periodic cleanup of orphaned sessions
     startPeriodicCleanup(5 * 60 * 1000); // Run every 5 minutes
+
+    // Keep bare repositories current with their remotes
+    startRepositoryFetcher();
+
+    // Start queued agent tasks and collect finished ones
+    startAgentTaskRunner();
+
+    // Notice agents that finished or wait for input
+    startAgentWatcher();
     
     // Graceful shutdown
     const shutdown = async () => {
@@ -116,6 +151,9 @@ async function start() {
       
       // Stop periodic cleanup
       stopPeriodicCleanup();
+      stopRepositoryFetcher();
+      stopAgentTaskRunner();
+      stopAgentWatcher();
       
       // Run final cleanup
       console.log('Running final session cleanup...');
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+
+/**
+ * AGENT MCP - MCP server definitions and the agent config files they go into
+ * ==========================================================================
+ *
+ * Pure helpers behind services/agent-mcp.ts. Definitions are declared at three
+ * levels and merged by server name:
+ *
+ *   user  <  agent  <  environment
+ *
+ * so a project can override, or turn off with { "disabled": true }, a server
+ * its owner declared for every agent.
+ *
+ * Hoare Triple:
+ * {P: levels are valid McpServerMaps, least specific first}
+ * mergeMcpServers(...levels)
+ * {Q: result[name] = the most specific definition of name, for every name
+ *     whose most specific definition is not disabled}
+ *
+ * Hoare Triple:
+ * {P: existing = current contents of the agent's config file, or null ∧
+ *     previousNames = the servers rendered into it last time}
+ * renderMcpConfig(format, servers, existing, previousNames)
+ * {Q: existing with its MCP section holding `servers` in the agent's own
+ *     format; servers added by hand (∉ previousNames) and every other key of
+ *     the file are kept}
+ *
+ * Invariants:
+ * M₁: environment variables and headers are secrets. They leave the
+ *     orchestrator only as MCP_SECRET_PLACEHOLDER, or inside the agent's HOME
+ * M₂: a placeholder sent back means "keep the stored value"; it is never
+ *     stored or rendered
+ */
+
+export const MCP_SECRET_PLACEHOLDER = '********';
+
+// Rendered server names, relative to the agent's HOME
+export const MCP_STATE_FILE = '.craftastic/mcp-servers.json';
+
+const MAX_MCP_SERVERS = 50;
+const MCP_SERVER_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+const McpEnvSchema = z.record(
+  z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Invalid environment variable name'),
+  z.string().max(8192)
+);
+
+const McpHeadersSchema = z.record(
+  z.string().regex(/^[A-Za-z0-9-]+$/, 'Invalid header name'),
+  z.string().max(8192)
+);
+
+const McpStdioServerSchema = z.object({
+  type: z.literal('stdio').optional(),
+  command: z.string().min(1).max(1000),
+  args: z.array(z.string().max(8192)).max(100).optional(),
+  env: McpEnvSchema.optional(),
+  disabled: z.boolean().optional(),
+}).strict();
+
+const McpRemoteServerSchema = z.object({
+  type: z.enum(['http', 'sse']),
+  url: z.string().url().max(2000).refine(url => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  headers: McpHeadersSchema.optional(),
+  disabled: z.boolean().optional(),
+}).strict();
+
+// Turns off a server of the same name from a less specific level
+const McpDisabledServerSchema = z.object({
+  disabled: z.literal(true),
+}).strict();
+
+export const McpServerSchema = z.union([McpRemoteServerSchema, McpStdioServerSchema, McpDisabledServerSchema]);
+
+export const McpServersSchema = z
+  .record(z.string().regex(MCP_SERVER_NAME, 'Server names use letters, digits, _ and - (at most 64)'), McpServerSchema)
+  .refine(servers => Object.keys(servers).length <= MAX_MCP_SERVERS, `At most ${MAX_MCP_SERVERS} MCP servers`);
+
+export type McpServer = z.infer<typeof McpServerSchema>;
+type McpRunnableServer = z.infer<typeof McpRemoteServerSchema> | z.infer<typeof McpStdioServerSchema>;
+export type McpServerMap = Record<string, McpServer>;
+
+// How each agent CLI spells its MCP section (see services/agent-plugins.ts)
+export type McpConfigFormat = 'claude' | 'gemini' | 'cursor';
+
+export function mergeMcpServers(...levels: McpServerMap[]): McpServerMap {
+  const merged: McpServerMap = {};
+  for (const level of levels) {
+    Object.assign(merged, level);
+  }
+  for (const [name, server] of Object.entries(merged)) {
+    if (server.disabled) delete merged[name];
+  }
+  return merged;
+}
+
+function secretsOf(server: McpServer): Record<string, string> | undefined {
+  if ('url' in server) return server.headers;
+  if ('command' in server) return server.env;
+  return undefined;
+}
+
+function withSecrets(server: McpServer, secrets: Record<string, string>): McpServer {
+  if ('url' in server) return { ...server, headers: secrets };
+  if ('command' in server) return { ...server, env: secrets };
+  return server;
+}
+
+// M₁
+export function redactMcpServers(servers: McpServerMap): McpServerMap {
+  return Object.fromEntries(Object.entries(servers).map(([name, server]) => {
+    const secrets = secretsOf(server);
+    if (!secrets) return [name, server];
+    return [name, withSecrets(server, Object.fromEntries(Object.keys(secrets).map(key => [key, MCP_SECRET_PLACEHOLDER])))];
+  }));
+}
+
+/**
+ * M₂: put the stored values back where `next` holds placeholders. `missing`
+ * names the placeholders with nothing stored behind them.
+ */
+export function restoreMcpSecrets(
+  next: McpServerMap,
+  stored: McpServerMap
+): { servers: McpServerMap; missing: string[] } {
+  const missing: string[] = [];
+  const servers = Object.fromEntries(Object.entries(next).map(([name, server]) => {
+    const secrets = secretsOf(server);
+    if (!secrets) return [name, server];
+
+    const previous = stored[name] ? secretsOf(stored[name]) : undefined;
+    const restored = Object.fromEntries(Object.entries(secrets).map(([key, value]) => {
+      if (value !== MCP_SECRET_PLACEHOLDER) return [key, value];
+      if (previous?.[key] === undefined) missing.push(`${name}.${key}`);
+      return [key, previous?.[key] ?? ''];
+    }));
+    return [name, withSecrets(server, restored)];
+  }));
+  return { servers, missing };
+}
+
+function renderServer(format: McpConfigFormat, server: McpRunnableServer): Record<string, unknown> {
+  if ('url' in server) {
+    const headers = server.headers && Object.keys(server.headers).length > 0 ? { headers: server.headers } : {};
+    switch (format) {
+      case 'claude':
+        return { type: server.type, url: server.url, ...headers };
+      case 'gemini':
+        // Gemini CLI (and Qwen Code) tell streamable HTTP from SSE by the key
+        return server.type === 'http' ? { httpUrl: server.url, ...headers } : { url: server.url, ...headers };
+      case 'cursor':
+        return { url: server.url, ...headers };
+    }
+  }
+
+  return {
+    ...(format === 'claude' ? { type: 'stdio' } : {}),
+    command: server.command,
+    args: server.args ?? [],
+    ...(server.env && Object.keys(server.env).length > 0 ? { env: server.env } : {}),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function renderMcpConfig(
+  format: McpConfigFormat,
+  servers: McpServerMap,
+  existing: string | null,
+  previousNames: string[]
+): string {
+  let config: Record<string, unknown> = {};
+  if (existing !== null && existing.trim() !== '') {
+    const parsed = JSON.parse(existing);
+    if (!isPlainObject(parsed)) {
+      throw new Error('not a JSON object');
+    }
+    config = parsed;
+  }
+
+  const section = isPlainObject(config.mcpServers) ? { ...config.mcpServers } : {};
+  for (const name of previousNames) {
+    delete section[name];
+  }
+  for (const [name, server] of Object.entries(servers)) {
+    if ('url' in server || 'command' in server) {
+      section[name] = renderServer(format, server);
+    }
+  }
+
+  return `${JSON.stringify({ ...config, mcpServers: section }, null, 2)}\n`;
+}
+
+// Contents of MCP_STATE_FILE; anything unreadable counts as nothing rendered
+export function parseRenderedNames(content: string | null): string[] {
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * AGENT PLUGINS - Agent types and the shell scripts that launch them
+ * ==================================================================
+ *
+ * Pure helpers behind services/agent-plugins.ts: the set of agent types, and
+ * the launch script typed into an agent session's tmux pane.
+ *
+ * Hoare Triple:
+ * {P: home, workingDirectory are absolute container paths ∧ binary is a command name}
+ * agentLaunchScript(options)
+ * {Q: one line of bash that sets HOME (with ~/.local/bin on PATH), loads
+ *     AGENT_ENV_FILE if present, installs the agent when `binary` is
+ *     missing, then runs `run` in workingDirectory}
+ *
+ * Secrets never appear in the launch script: they are written to files in the
+ * agent's HOME beforehand (AGENT_ENV_FILE for environment variables), so the
+ * script can be echoed to the terminal and its recordings.
+ *
+ * Invariants:
+ * A₁: every interpolated value is single-quoted (shellQuote); no value can
+ *     end the quoting or start another command
+ * A₂: renderEnvFile only emits POSIX environment variable names
+ */
+
+export const AGENT_TYPES = ['claude-code', 'gemini-cli', 'qwen-coder', 'cursor-cli'] as const;
+
+export type AgentType = typeof AGENT_TYPES[number];
+
+export interface AgentCredential {
+  type: string;
+  value: string;
+}
+
+export interface AgentCredentialFile {
+  path: string;     // relative to the agent's HOME
+  content: string;
+}
+
+// What a stored credential becomes inside the container
+export interface AgentCredentialMaterial {
+  env: Record<string, string>;
+  files: AgentCredentialFile[];
+}
+
+// Relative to the agent's HOME; sourced by the launch script
+export const AGENT_ENV_FILE = '.craftastic/agent.env';
+
+export function isAgentType(value: string): value is AgentType {
+  return (AGENT_TYPES as readonly string[]).includes(value);
+}
+
+// A₁: 'it'\''s' - the only character that needs care inside single quotes is the quote itself
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function renderEnvFile(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([name, value]) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid environment variable name '${name}'`);
+      }
+      return `export ${name}=${shellQuote(value)}\n`;
+    })
+    .join('');
+}
+
+export interface AgentLaunchOptions {
+  home: string;
+  workingDirectory: string;
+  binary: string;
+  installCommand: string;
+  run: string;
+}
+
+export function agentLaunchScript({ home, workingDirectory, binary, installCommand, run }: AgentLaunchOptions): string {
+  return [
+    `export HOME=${shellQuote(home)}`,
+    'mkdir -p "$HOME"',
+    // User-level installers (e.g. Cursor's) put binaries here
+    'export PATH="$HOME/.local/bin:$PATH"',
+    `[ -f "$HOME/${AGENT_ENV_FILE}" ] && . "$HOME/${AGENT_ENV_FILE}"`,
+    `cd ${shellQuote(workingDirectory)}`,
+    `{ command -v ${shellQuote(binary)} >/dev/null 2>&1 || { echo ${shellQuote(`Installing ${binary}...`)}; ${installCommand}; }; }`,
+    run,
+  ].join('; ');
+}
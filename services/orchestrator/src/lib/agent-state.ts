@@ -0,0 +1,83 @@
+/**
+ * AGENT STATE - What an agent is doing, read from its terminal screen
+ * ===================================================================
+ *
+ * Pure classification behind services/agent-watcher.ts, which captures the
+ * agent's tmux pane every few seconds.
+ *
+ * Hoare Triple:
+ * {P: screen = visible text of the agent's pane ∧ unchangedForMs = time since
+ *     the screen last changed}
+ * classifyAgentScreen(screen, unchangedForMs, signals, idleAfterMs)
+ * {Q: result = awaiting_input  if the bottom of the screen asks a question
+ *            | working         if it shows the agent is busy, or it changed
+ *                              less than idleAfterMs ago
+ *            | idle            otherwise}
+ *
+ * Only the bottom SCREEN_TAIL_LINES non-blank lines are read. A question the
+ * agent asked and the user answered has scrolled up by then.
+ *
+ * Invariants:
+ * S₁: a question on screen wins over every other signal. A prompt that waits
+ *     for the user must never be reported as working
+ * S₂: a screen that keeps changing is never idle
+ */
+
+export const AGENT_STATES = ['working', 'idle', 'awaiting_input'] as const;
+
+export type AgentState = typeof AGENT_STATES[number];
+
+export interface AgentScreenSignals {
+  working: RegExp[];          // the agent's own "busy" hints, e.g. "esc to interrupt"
+  awaitingInput: RegExp[];    // questions that block the agent
+}
+
+export const SCREEN_TAIL_LINES = 15;
+
+// Shared by every agent; plugins add their own (services/agent-plugins.ts)
+export const COMMON_SCREEN_SIGNALS: AgentScreenSignals = {
+  working: [/esc to (interrupt|cancel)/i, /ctrl\+c to (stop|cancel)/i],
+  awaitingInput: [
+    /\(y\/n\)|\[y\/n\]/i,
+    /do you want to (proceed|continue)\?/i,
+    /waiting for (user )?(confirmation|approval|input)/i,
+    /press enter to continue/i,
+  ],
+};
+
+export function mergeScreenSignals(...signals: Array<Partial<AgentScreenSignals> | undefined>): AgentScreenSignals {
+  return {
+    working: signals.flatMap(s => s?.working ?? []),
+    awaitingInput: signals.flatMap(s => s?.awaitingInput ?? []),
+  };
+}
+
+export function screenTail(screen: string, lines = SCREEN_TAIL_LINES): string {
+  return screen
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line.trim() !== '')
+    .slice(-lines)
+    .join('\n');
+}
+
+export function classifyAgentScreen(
+  screen: string,
+  unchangedForMs: number,
+  signals: AgentScreenSignals,
+  idleAfterMs: number
+): AgentState {
+  const tail = screenTail(screen);
+
+  // S₁
+  if (signals.awaitingInput.some(pattern => pattern.test(tail))) return 'awaiting_input';
+  if (signals.working.some(pattern => pattern.test(tail))) return 'working';
+  // S₂
+  return unchangedForMs < idleAfterMs ? 'working' : 'idle';
+}
+
+// An agent moving into one of these states needs the user
+export function needsAttention(previous: AgentState | null, next: AgentState): boolean {
+  if (next === 'awaiting_input') return previous !== 'awaiting_input';
+  return next === 'idle' && previous === 'working';
+}
@@ -0,0 +1,128 @@
+import { shellQuote } from './agent-plugins';
+
+/**
+ * AGENT TASKS - Statuses, the task window's script and the queue order
+ * ====================================================================
+ *
+ * Pure helpers behind services/agent-tasks.ts: the task script, and the
+ * queue's choice of what runs next.
+ *
+ * Hoare Triple:
+ * {P: launch is a line of bash that runs the agent to completion}
+ * agentTaskScript(paths, launch)
+ * {Q: a bash script that runs launch with stdout and stderr copied to
+ *     paths.log (and the tmux window), then writes launch's exit status to
+ *     paths.exitCode}
+ *
+ * The exit status is written to a temporary file and renamed into place, so a
+ * reader that sees paths.exitCode always sees a whole number.
+ *
+ * Hoare Triple:
+ * {P: running = the tasks with status running ∧ candidates = runnable queued
+ *     tasks, highest priority first, then oldest first}
+ * pickNextTask(candidates, running, limits)
+ * {Q: result = the first candidate that keeps every limit, or null}
+ *
+ * Invariants:
+ * T₁: status only moves forward: queued → running → succeeded | failed, and
+ *     queued | running → cancelled; finished statuses never change. The one
+ *     step back is a retry, running → queued, while attempts < max_attempts
+ * T₂: paths.exitCode exists ⟹ the agent has exited
+ * T₃: |running| ≤ limits.global, |running of a user| ≤ limits.perUser, and
+ *     at most one running task per session (its agents share a worktree)
+ */
+
+export const AGENT_TASK_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type AgentTaskStatus = typeof AGENT_TASK_STATUSES[number];
+
+export const FINISHED_TASK_STATUSES: AgentTaskStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+// Stored transcripts keep the end of the log, stored diffs the start
+export const TASK_TRANSCRIPT_LIMIT = 1024 * 1024;
+export const TASK_DIFF_LIMIT = 5 * 1024 * 1024;
+
+export interface AgentTaskPaths {
+  dir: string;
+  prompt: string;
+  script: string;
+  log: string;
+  exitCode: string;
+}
+
+export interface AgentTaskQueueLimits {
+  global: number;
+  perUser: number;
+}
+
+export interface QueuedTaskRef {
+  id: string;
+  user_id: string;
+  session_id: string;
+}
+
+// Retries wait retryDelayMs, then twice as long each time, up to this
+export const TASK_RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+export function agentTaskPaths(taskId: string): AgentTaskPaths {
+  const dir = `/tmp/craftastic/tasks/${taskId}`;
+  return {
+    dir,
+    prompt: `${dir}/prompt`,
+    script: `${dir}/run.sh`,
+    log: `${dir}/output.log`,
+    exitCode: `${dir}/exit_code`,
+  };
+}
+
+export function isFinishedTaskStatus(status: AgentTaskStatus): boolean {
+  return FINISHED_TASK_STATUSES.includes(status);
+}
+
+export function agentTaskScript(paths: AgentTaskPaths, launch: string): string {
+  const exitCode = shellQuote(paths.exitCode);
+  return [
+    '#!/bin/bash',
+    `{ ${launch}; } < /dev/null 2>&1 | tee ${shellQuote(paths.log)}`,
+    `echo "\${PIPESTATUS[0]}" > ${exitCode}.tmp && mv ${exitCode}.tmp ${exitCode}`,
+    '',
+  ].join('\n');
+}
+
+// Contents of paths.exitCode; null while the agent runs (T₂) or when garbled
+export function parseTaskExitCode(content: string | null): number | null {
+  if (content === null) return null;
+  const trimmed = content.trim();
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+// Keep the start of `text`, marking what was cut
+export function truncateText(text: string, limit: number): string {
+  if (Buffer.byteLength(text) <= limit) return text;
+  const kept = Buffer.from(text).subarray(0, limit).toString('utf8');
+  return `${kept}\n[truncated: output exceeded ${limit} bytes]\n`;
+}
+
+// T₃
+export function pickNextTask<T extends QueuedTaskRef>(
+  candidates: T[],
+  running: Array<Pick<QueuedTaskRef, 'user_id' | 'session_id'>>,
+  limits: AgentTaskQueueLimits
+): T | null {
+  if (running.length >= limits.global) return null;
+
+  const perUser = new Map<string, number>();
+  for (const task of running) {
+    perUser.set(task.user_id, (perUser.get(task.user_id) ?? 0) + 1);
+  }
+  const busySessions = new Set(running.map(task => task.session_id));
+
+  return candidates.find(task =>
+    (perUser.get(task.user_id) ?? 0) < limits.perUser && !busySessions.has(task.session_id)
+  ) ?? null;
+}
+
+// Delay before the next attempt, after `attempts` runs have failed
+export function taskRetryDelay(attempts: number, retryDelayMs: number): number {
+  return Math.min(retryDelayMs * 2 ** Math.max(0, attempts - 1), Math.max(retryDelayMs, TASK_RETRY_MAX_DELAY_MS));
+}
@@ -0,0 +1,93 @@
+/**
+ * ASCIICAST V2 - Terminal recording format
+ * ========================================
+ *
+ * https://docs.asciinema.org/manual/asciicast/v2/
+ *
+ * A recording is newline-delimited JSON: one header object, then one event
+ * array per line.
+ *
+ *   {"version": 2, "width": 80, "height": 24, "timestamp": 1700000000}
+ *   [0.248, "o", "$ "]
+ *   [1.001, "r", "120x40"]
+ *
+ * Invariants:
+ * A₁: event times are seconds since the header timestamp, non-decreasing
+ * A₂: every line is independently parseable (a truncated file loses at most
+ *     its last line)
+ */
+
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp: number;        // Unix seconds
+  title?: string;
+  env?: Record<string, string>;
+}
+
+export type AsciicastEventType = 'o' | 'i' | 'r' | 'm';
+export type AsciicastEvent = [number, AsciicastEventType, string];
+
+export function formatHeader(header: AsciicastHeader): string {
+  return JSON.stringify(header) + '\n';
+}
+
+export function formatEvent(time: number, type: AsciicastEventType, data: string): string {
+  // Microsecond precision is plenty and keeps files small
+  return JSON.stringify([Math.round(time * 1e6) / 1e6, type, data]) + '\n';
+}
+
+export function formatResize(time: number, cols: number, rows: number): string {
+  return formatEvent(time, 'r', `${cols}x${rows}`);
+}
+
+// Marker that ends a recording cut off at its size limit
+export const TRUNCATED_MARKER = 'craftastic: recording truncated at size limit';
+
+export function formatMarker(time: number, label: string): string {
+  return formatEvent(time, 'm', label);
+}
+
+/**
+ * Whether a chunk read from the end of a file ends with TRUNCATED_MARKER.
+ */
+export function endsTruncated(tail: string): boolean {
+  const lines = tail.split('\n').filter(line => line.trim());
+  try {
+    const event = JSON.parse(lines[lines.length - 1]);
+    return Array.isArray(event) && event[1] === 'm' && event[2] === TRUNCATED_MARKER;
+  } catch {
+    return false;
+  }
+}
+
+export function parseHeader(line: string): AsciicastHeader | null {
+  try {
+    const header = JSON.parse(line);
+    return header?.version === 2 ? header : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Time of the last complete event in a chunk read from the end of a file.
+ * Returns null when the chunk holds no complete event (e.g. header only).
+ */
+export function lastEventTime(tail: string): number | null {
+  const lines = tail.split('\n').filter(line => line.trim());
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const event = JSON.parse(lines[i]);
+      if (Array.isArray(event) && typeof event[0] === 'number') {
+        return event[0];
+      }
+    } catch {
+      // First line of the chunk may be cut mid-event (A₂)
+    }
+  }
+
+  return null;
+}
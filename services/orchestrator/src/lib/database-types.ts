@@ -1,4 +1,9 @@
 import { Generated } from 'kysely';
+import type { ResourceLimits, ResourceProfileName } from './resource-profiles';
+import type { GitAuthType, GitProviderKind } from './git-providers';
+import type { AgentType } from './agent-plugins';
+import type { AgentTaskStatus } from './agent-tasks';
+import type { AgentState } from './agent-state';
 
 // Database table types for Kysely
 export interface Database {
@@ -13,7 +18,11 @@ export interface Database {
   session_credentials: SessionCredentialTable;
   agents: AgentTable;
   agent_credentials: AgentCredentialTable;
+  agent_configs: AgentConfigTable;
   refresh_tokens: RefreshTokenTable;
+  session_share_links: SessionShareLinkTable;
+  git_provider_connections: GitProviderConnectionTable;
+  agent_tasks: AgentTaskTable;
 }
 
 export interface UserTable {
@@ -30,6 +39,7 @@ export interface UserTable {
   github_refresh_token: string | null;
   github_username: string | null;
   github_token_expires_at: Date | null;
+  agent_webhook_url: string | null; // POSTed when an agent needs attention
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 }
@@ -45,7 +55,18 @@ export interface EnvironmentTable {
   github_repository_id: string | null;
   git_clone_path: string | null;
   default_branch: string;
-  use_ssh_clone: boolean;
+  use_ssh_clone: boolean; // clone and fetch over SSH with the deploy key
+  deploy_key_public: string | null; // OpenSSH public key line
+  deploy_key_fingerprint: string | null;
+  encrypted_deploy_key: string | null; // encryptCredentials({ privateKey })
+  deploy_key_created_at: Date | null;
+  last_fetched_at: Date | null; // background fetch of the bare repository
+  last_fetch_error: string | null;
+  fetch_failures: Generated<number>; // consecutive, drives the backoff
+  next_fetch_at: Date | null;
+  sandbox_image: string | null; // null = config.SANDBOX_IMAGE
+  resource_profile: Generated<ResourceProfileName>;
+  resource_limits: ResourceLimits | null; // JSONB, only used for 'custom'
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 }
@@ -66,6 +87,12 @@ export interface SessionTable {
   last_activity: Date | null;
   agent_id: string | null;
   session_type: 'terminal' | 'agent';
+  recording_enabled: Generated<boolean>;
+  pr_number: number | null;
+  pr_url: string | null;
+  agent_state: AgentState | null; // see services/agent-watcher.ts
+  agent_state_changed_at: Date | null;
+  git_credential_nonce: string | null; // see services/git-credentials.ts
 }
 
 export interface DeploymentTable {
@@ -81,7 +108,7 @@ export interface AgentTable {
   id: Generated<string>;
   user_id: string;
   name: string;
-  type: 'claude-code' | 'gemini-cli' | 'qwen-coder';
+  type: AgentType; // see services/agent-plugins.ts
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 }
@@ -95,6 +122,15 @@ export interface AgentCredentialTable {
   updated_at: Generated<Date>;
 }
 
+export interface AgentConfigTable {
+  id: Generated<number>;
+  agent_id: string;
+  config_type: string; // e.g. 'mcp_servers' (see services/agent-mcp.ts)
+  encrypted_value: string;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
 export interface GitHubRepositoryTable {
   id: Generated<number>;
   user_id: string; // UUID but Kysely treats as string
@@ -136,6 +172,7 @@ export interface EnvironmentAgentConfigTable {
   config_type: string;
   encrypted_value: string;
   created_at: Generated<Date>;
+  updated_at: Generated<Date>;
 }
 
 export interface SessionCredentialTable {
@@ -155,4 +192,52 @@ export interface RefreshTokenTable {
   revoked: boolean;
   user_agent: string | null;
   ip_address: string | null;
-}
\ No newline at end of file
+}
+
+export interface SessionShareLinkTable {
+  id: Generated<string>;
+  session_id: string;
+  created_by: string;
+  token_hash: string; // SHA-256 hex of the share token
+  access: 'read-write' | 'read-only';
+  expires_at: Date | null;
+  created_at: Generated<Date>;
+}
+
+export interface GitProviderConnectionTable {
+  id: Generated<string>;
+  user_id: string;
+  provider: Exclude<GitProviderKind, 'github'>;
+  name: string;
+  host: string; // lowercase host[:port]
+  base_url: string;
+  auth_type: GitAuthType;
+  username: string | null;
+  client_id: string | null;
+  encrypted_credentials: string | null; // encryptCredentials({ secret, refreshToken })
+  token_expires_at: Date | null;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface AgentTaskTable {
+  id: Generated<string>;
+  user_id: string;
+  session_id: string;
+  agent_id: string;
+  prompt: string;
+  status: Generated<AgentTaskStatus>; // see lib/agent-tasks.ts
+  tmux_window_id: number | null; // tmux window id without '@', while running
+  base_commit: string | null; // worktree HEAD when the task started
+  exit_code: number | null;
+  transcript: string | null; // end of the agent's output, TASK_TRANSCRIPT_LIMIT bytes
+  diff: string | null; // worktree changes since base_commit, untracked files included
+  error: string | null; // why the task failed outside the agent (provisioning, lost window)
+  priority: Generated<number>; // higher first, then created_at
+  attempts: Generated<number>; // runs started, including the current one
+  max_attempts: Generated<number>;
+  run_after: Date | null; // a retried task waits until then
+  created_at: Generated<Date>;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
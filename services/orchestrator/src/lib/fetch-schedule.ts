@@ -0,0 +1,34 @@
+/**
+ * FETCH SCHEDULE - Backoff and jitter for background repository fetches
+ * =====================================================================
+ *
+ * Hoare Triple:
+ * {P: failures ≥ 0 ∧ 0 ≤ jitter < 1 ∧ random() ∈ [0, 1)}
+ * nextFetchDelay(failures, options, random)
+ * {Q: result = d · (1 - jitter + 2 · jitter · random())
+ *     where d = min(intervalMs · 2^failures, max(intervalMs, maxBackoffMs))}
+ *
+ * Invariants:
+ * F₁: a healthy environment (failures = 0) is fetched about every intervalMs
+ * F₂: each consecutive failure doubles the delay, up to maxBackoffMs
+ * F₃: jitter spreads environments created together over time, so their
+ *     fetches do not hit the forge in lockstep
+ */
+
+export interface FetchScheduleOptions {
+  intervalMs: number;
+  maxBackoffMs: number;
+  jitter: number;        // fraction of the delay, e.g. 0.2 for ±20%
+}
+
+export function nextFetchDelay(
+  failures: number,
+  options: FetchScheduleOptions,
+  random: () => number = Math.random
+): number {
+  const { intervalMs, maxBackoffMs, jitter } = options;
+  const cap = Math.max(intervalMs, maxBackoffMs);
+  // 2^failures overflows to Infinity long before failures is unreasonable; min() handles it
+  const delay = Math.min(intervalMs * 2 ** Math.max(0, failures), cap);
+  return Math.round(delay * (1 - jitter + 2 * jitter * random()));
+}
@@ -0,0 +1,125 @@
+/**
+ * GIT CONFLICT PARSING - Merge/rebase state of a worktree
+ * =======================================================
+ *
+ * A stopped merge or rebase is described by two outputs:
+ * - OPERATION_STATE_SCRIPT: key=value lines read from the worktree's git dir
+ *   (MERGE_HEAD, rebase-merge/, rebase-apply/)
+ * - `git ls-files -u -z`: one NUL-terminated "mode oid stage\tpath" entry per
+ *   conflicted path and index stage (1 = base, 2 = ours, 3 = theirs)
+ *
+ * The conflict type follows from which stages exist, exactly as git status
+ * reports it (UU, AA, DD, AU, UA, DU, UD).
+ *
+ * During a merge "ours" is the checked-out branch and "theirs" the commit
+ * being merged. During a rebase they swap roles: "ours" is the commit being
+ * rebased onto and "theirs" the commit being replayed.
+ *
+ * Invariants:
+ * C₁: one GitConflict per path, ordered by path
+ * C₂: operation = null ⟹ progress = null ∧ ours = null ∧ theirs = null
+ */
+
+export type GitConflictType =
+  | 'both-modified'
+  | 'both-added'
+  | 'both-deleted'
+  | 'added-by-us'
+  | 'added-by-them'
+  | 'deleted-by-us'
+  | 'deleted-by-them';
+
+export interface GitConflict {
+  path: string;
+  type: GitConflictType;
+  base: string | null;       // blob ids of each index stage, null when absent
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface GitOperationState {
+  operation: 'merge' | 'rebase' | null;
+  ours: string | null;       // commit or branch on the "ours" side
+  theirs: string | null;     // commit on the "theirs" side
+  progress: { current: number; total: number } | null;   // rebase only
+  conflicts: GitConflict[];
+}
+
+// Run in the worktree; prints nothing when no merge or rebase is in progress
+export const OPERATION_STATE_SCRIPT = [
+  'gd=$(git rev-parse --git-dir) || exit 1',
+  'if [ -d "$gd/rebase-merge" ]; then',
+  '  echo operation=rebase',
+  '  echo current=$(cat "$gd/rebase-merge/msgnum" 2>/dev/null)',
+  '  echo total=$(cat "$gd/rebase-merge/end" 2>/dev/null)',
+  '  echo ours=$(cat "$gd/rebase-merge/onto" 2>/dev/null)',
+  '  echo theirs=$(cat "$gd/rebase-merge/stopped-sha" 2>/dev/null || git rev-parse -q --verify REBASE_HEAD)',
+  'elif [ -d "$gd/rebase-apply" ]; then',
+  '  echo operation=rebase',
+  '  echo current=$(cat "$gd/rebase-apply/next" 2>/dev/null)',
+  '  echo total=$(cat "$gd/rebase-apply/last" 2>/dev/null)',
+  '  echo ours=$(cat "$gd/rebase-apply/onto" 2>/dev/null)',
+  '  echo theirs=$(cat "$gd/rebase-apply/original-commit" 2>/dev/null)',
+  'elif [ -f "$gd/MERGE_HEAD" ]; then',
+  '  echo operation=merge',
+  '  echo ours=$(git symbolic-ref --short -q HEAD || git rev-parse HEAD)',
+  '  echo theirs=$(head -n 1 "$gd/MERGE_HEAD")',
+  'fi',
+].join('\n');
+
+const CONFLICT_TYPES: Record<string, GitConflictType> = {
+  '123': 'both-modified',
+  '23': 'both-added',
+  '1': 'both-deleted',
+  '2': 'added-by-us',
+  '3': 'added-by-them',
+  '13': 'deleted-by-us',
+  '12': 'deleted-by-them',
+};
+
+export function parseUnmergedEntries(output: string): GitConflict[] {
+  const stagesByPath = new Map<string, Map<string, string>>();
+
+  for (const entry of output.split('\0')) {
+    const match = entry.match(/^\d{6} ([0-9a-f]{4,64}) ([123])\t(.+)$/s);
+    if (!match) continue;
+    const [, oid, stage, path] = match;
+    if (!stagesByPath.has(path)) stagesByPath.set(path, new Map());
+    stagesByPath.get(path)!.set(stage, oid);
+  }
+
+  return [...stagesByPath.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([path, stages]) => ({
+      path,
+      type: CONFLICT_TYPES[[...stages.keys()].sort().join('')],
+      base: stages.get('1') ?? null,
+      ours: stages.get('2') ?? null,
+      theirs: stages.get('3') ?? null,
+    }));
+}
+
+export function parseOperationState(stateOutput: string, unmergedOutput: string): GitOperationState {
+  const fields = new Map<string, string>();
+  for (const line of stateOutput.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator > 0) fields.set(line.slice(0, separator), line.slice(separator + 1).trim());
+  }
+
+  const operation = fields.get('operation');
+  const conflicts = parseUnmergedEntries(unmergedOutput);
+  if (operation !== 'merge' && operation !== 'rebase') {
+    return { operation: null, ours: null, theirs: null, progress: null, conflicts };
+  }
+
+  const current = Number(fields.get('current'));
+  const total = Number(fields.get('total'));
+
+  return {
+    operation,
+    ours: fields.get('ours') || null,
+    theirs: fields.get('theirs') || null,
+    progress: operation === 'rebase' && current > 0 && total > 0 ? { current, total } : null,
+    conflicts,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * GIT CREDENTIAL WIRING - Helpers and the git proxy for session containers
+ * ========================================================================
+ *
+ * git talks to credential helpers with newline-separated `key=value`
+ * attributes (protocol, host, path, username, password, ...). See
+ * gitcredentials(7). Helpers are installed through GIT_CONFIG_COUNT /
+ * GIT_CONFIG_KEY_n / GIT_CONFIG_VALUE_n environment entries, so nothing is
+ * written to a gitconfig file.
+ *
+ * Session containers never see the owner's token. Their git reaches the
+ * environment's https remote through the orchestrator's git proxy
+ * (routes/git-proxy.ts): a `url.<proxy>.insteadOf` entry rewrites the remote,
+ * and a helper answers the proxy's 401 with the session token. The proxy
+ * swaps that for the owner's credential on the way upstream.
+ *
+ * Orchestrator-side git (bare clones and fetches on the host) uses a helper
+ * that echoes a username and password from its own environment, scoped to
+ * the one remote it is meant for.
+ *
+ * Invariants:
+ * K₁: the helper configuration carries no secret - tokens are read from the
+ *     environment when the helper runs
+ * K₂: the proxy only serves git's smart HTTP endpoints of the one remote
+ *     repository, never another path on its host
+ */
+
+export const CREDENTIAL_TOKEN_ENV = 'CRAFTASTIC_GIT_CREDENTIAL_TOKEN';
+export const GIT_PROXY_ROUTE = '/git/proxy';
+export const GIT_PROXY_USERNAME = 'craftastic';
+export const HOST_USERNAME_ENV = 'CRAFTASTIC_GIT_USERNAME';
+export const HOST_PASSWORD_ENV = 'CRAFTASTIC_GIT_PASSWORD';
+
+export const PROXY_CREDENTIAL_HELPER =
+  '!f() { test "$1" = get || exit 0; ' +
+  `printf 'username=%s\\npassword=%s\\n' '${GIT_PROXY_USERNAME}' "$${CREDENTIAL_TOKEN_ENV}"; }; f`;
+
+export const HOST_CREDENTIAL_HELPER =
+  '!f() { test "$1" = get || exit 0; ' +
+  `printf 'username=%s\\npassword=%s\\n' "$${HOST_USERNAME_ENV}" "$${HOST_PASSWORD_ENV}"; }; f`;
+
+const SMART_HTTP_ENDPOINTS = ['info/refs', 'git-upload-pack', 'git-receive-pack'];
+
+/**
+ * Protocol and host git asks credentials for when talking to `repositoryUrl`.
+ * Null for remotes that never use credential helpers (SSH, local paths).
+ */
+export function remoteCredentialTarget(repositoryUrl: string): { protocol: string; host: string } | null {
+  let url: URL;
+  try {
+    url = new URL(repositoryUrl);
+  } catch {
+    return null;    // scp-like git@host:path or a local path
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+  return { protocol: url.protocol.slice(0, -1), host: url.host };
+}
+
+// Base URL that stands in for `target` inside containers
+export function gitProxyBaseUrl(apiUrl: string, target: { protocol: string; host: string }): string {
+  return `${apiUrl.replace(/\/+$/, '')}${GIT_PROXY_ROUTE}/${target.protocol}/${target.host}/`;
+}
+
+/**
+ * Container Env entries sending git for `target` through the proxy (K₁). The
+ * empty helper first clears any helper the image configures for the proxy.
+ */
+export function gitProxyEnv(apiUrl: string, token: string, target: { protocol: string; host: string }): string[] {
+  const credentialKey = `credential.${new URL(apiUrl).origin}.helper`;
+  return [
+    `${CREDENTIAL_TOKEN_ENV}=${token}`,
+    'GIT_CONFIG_COUNT=3',
+    `GIT_CONFIG_KEY_0=url.${gitProxyBaseUrl(apiUrl, target)}.insteadOf`,
+    `GIT_CONFIG_VALUE_0=${target.protocol}://${target.host}/`,
+    `GIT_CONFIG_KEY_1=${credentialKey}`,
+    'GIT_CONFIG_VALUE_1=',
+    `GIT_CONFIG_KEY_2=${credentialKey}`,
+    `GIT_CONFIG_VALUE_2=${PROXY_CREDENTIAL_HELPER}`,
+  ];
+}
+
+/**
+ * K₂: the upstream path for a proxied request, or null when `requestPath` is
+ * not a smart HTTP endpoint of the repository at `repositoryPath`. Both
+ * `repo` and `repo.git` spellings are accepted.
+ */
+export function gitProxyUpstreamPath(repositoryPath: string, requestPath: string): string | null {
+  const base = repositoryPath.replace(/\/+$/, '').replace(/\.git$/, '');
+  if (!base || base.split('/').some(segment => segment === '..' || segment === '.')) {
+    return null;
+  }
+  for (const spelling of [base, `${base}.git`]) {
+    for (const endpoint of SMART_HTTP_ENDPOINTS) {
+      if (requestPath === `${spelling}/${endpoint}`) {
+        return requestPath;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Process environment for host-side git talking to one https remote. The
+ * empty helper first clears helpers from the host's own gitconfig for that
+ * remote, so exactly this credential is offered (K₁ - the values travel in
+ * the environment, not in the configuration).
+ */
+export function hostCredentialEnv(
+  target: { protocol: string; host: string },
+  username: string,
+  password: string
+): Record<string, string> {
+  const key = `credential.${target.protocol}://${target.host}.helper`;
+  return {
+    [HOST_USERNAME_ENV]: username,
+    [HOST_PASSWORD_ENV]: password,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_CONFIG_COUNT: '2',
+    GIT_CONFIG_KEY_0: key,
+    GIT_CONFIG_VALUE_0: '',
+    GIT_CONFIG_KEY_1: key,
+    GIT_CONFIG_VALUE_1: HOST_CREDENTIAL_HELPER,
+  };
+}
+
+// Process environment for host-side git over SSH with one private key file
+export function sshKeyEnv(keyPath: string): Record<string, string> {
+  return {
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_SSH_COMMAND: `ssh -i '${keyPath.replace(/'/g, `'\\''`)}' -o IdentitiesOnly=yes -o BatchMode=yes -o StrictHostKeyChecking=accept-new`,
+  };
+}
@@ -0,0 +1,275 @@
+import crypto from 'crypto';
+
+/**
+ * GIT DIFF PARSING - Unified diffs as files, hunks and lines
+ * ==========================================================
+ *
+ * parseUnifiedDiff reads `git diff` output (a/ and b/ prefixes, no color)
+ * into structured files. buildHunkPatch turns a selection of those hunks, or
+ * of single lines inside them, back into a patch for `git apply`.
+ *
+ * Partial selections follow `git add -p` editing rules. Applied forwards
+ * (stage), an unselected '+' line is dropped and an unselected '-' line
+ * becomes context. Applied in reverse (unstage, discard), an unselected '+'
+ * line becomes context and an unselected '-' line is dropped.
+ *
+ * Invariants:
+ * D₁: hunk ids are content hashes - the same hunk has the same id in every
+ *     diff, and a hunk that changed gets a new one
+ * D₂: line numbers follow the hunk header; context lines have both numbers,
+ *     additions only newNumber, deletions only oldNumber
+ * D₃: built patches carry recomputed hunk counts (apply with --recount anyway)
+ */
+
+export type DiffLineType = 'context' | 'add' | 'del';
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+  noNewline: boolean;        // "\ No newline at end of file" follows
+}
+
+export interface DiffHunk {
+  id: string;
+  header: string;            // The full "@@ -a,b +c,d @@ section" line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section: string;           // Function/section context after the second @@
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  path: string;              // newPath, or oldPath for deletions
+  oldPath: string | null;    // null for added files
+  newPath: string | null;    // null for deleted files
+  status: DiffFileStatus;
+  binary: boolean;
+  oldMode: string | null;
+  newMode: string | null;
+  similarity: number | null; // Renames and copies
+  additions: number;
+  deletions: number;
+  patchHeader: string;       // Lines from "diff --git" up to the first hunk
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const NO_NEWLINE = '\\ No newline at end of file';
+
+const C_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+// Undo git's C-style quoting of unusual paths ("a/caf\303\251")
+export function unquoteGitPath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"') || path.length < 2) {
+    return path;
+  }
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i]));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-3][0-7]{2}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      bytes.push(C_ESCAPES[body[i + 1]] ?? body.charCodeAt(i + 1));
+      i += 1;
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function stripPrefix(path: string): string | null {
+  const unquoted = unquoteGitPath(path.replace(/\t$/, ''));
+  if (unquoted === '/dev/null') return null;
+  return unquoted.replace(/^[ab]\//, '');
+}
+
+// "diff --git a/x b/y": exact for quoted paths, else assumes x = y
+function parseDiffGitPaths(rest: string): [string, string] {
+  if (rest.startsWith('"')) {
+    const end = rest.search(/[^\\]" /) + 1;
+    return [stripPrefix(rest.slice(0, end + 1)) ?? '', stripPrefix(rest.slice(end + 2)) ?? ''];
+  }
+  if (rest.endsWith('"')) {
+    const start = rest.lastIndexOf(' "');
+    return [stripPrefix(rest.slice(0, start)) ?? '', stripPrefix(rest.slice(start + 1)) ?? ''];
+  }
+  const length = (rest.length - 5) / 2;
+  return [rest.slice(2, 2 + length), rest.slice(length + 5)];
+}
+
+function hunkId(path: string, hunk: Pick<DiffHunk, 'header' | 'lines'>): string {
+  const hash = crypto.createHash('sha1').update(path).update('\0').update(hunk.header);
+  for (const line of hunk.lines) {
+    hash.update('\0').update(line.type).update(line.content);
+  }
+  return hash.digest('hex').slice(0, 12);
+}
+
+export function parseUnifiedDiff(output: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let header: string[] = [];
+  let hunk: DiffHunk | null = null;
+  let oldLeft = 0;
+  let newLeft = 0;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  const finish = () => {
+    if (!file) return;
+    file.patchHeader = header.join('\n');
+    file.path = file.newPath ?? file.oldPath ?? '';
+    for (const h of file.hunks) h.id = hunkId(file.path, h);
+    files.push(file);
+  };
+
+  const lines = output.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      finish();
+      const [oldPath, newPath] = parseDiffGitPaths(line.slice('diff --git '.length));
+      file = {
+        path: '', oldPath, newPath, status: 'modified', binary: false, oldMode: null, newMode: null,
+        similarity: null, additions: 0, deletions: 0, patchHeader: '', hunks: [],
+      };
+      header = [line];
+      hunk = null;
+      oldLeft = newLeft = 0;
+      continue;
+    }
+    if (!file) continue;
+
+    // Hunk body, while the header's line counts are not used up
+    if (hunk && (oldLeft > 0 || newLeft > 0) && /^[ +-]|^$/.test(line)) {
+      const type: DiffLineType = line[0] === '+' ? 'add' : line[0] === '-' ? 'del' : 'context';
+      hunk.lines.push({
+        type,
+        content: line.slice(1),
+        oldNumber: type === 'add' ? null : oldNumber++,
+        newNumber: type === 'del' ? null : newNumber++,
+        noNewline: false,
+      });
+      if (type !== 'add') oldLeft--;
+      if (type !== 'del') newLeft--;
+      if (type === 'add') file.additions++;
+      if (type === 'del') file.deletions++;
+      continue;
+    }
+    if (hunk && line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewline = true;
+      continue;
+    }
+
+    const hunkHeader = line.match(HUNK_HEADER);
+    if (hunkHeader) {
+      const [, oldStart, oldCount, newStart, newCount, section] = hunkHeader;
+      hunk = {
+        id: '',
+        header: line,
+        oldStart: Number(oldStart),
+        oldLines: oldCount === undefined ? 1 : Number(oldCount),
+        newStart: Number(newStart),
+        newLines: newCount === undefined ? 1 : Number(newCount),
+        section,
+        lines: [],
+      };
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      oldNumber = hunk.oldStart;
+      newNumber = hunk.newStart;
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    // Extended header lines
+    header.push(line);
+    const [keyword, value] = [line.slice(0, line.indexOf(' ')), line.slice(line.indexOf(' ') + 1)];
+    if (line.startsWith('new file mode ')) {
+      file.status = 'added';
+      file.oldPath = null;
+      file.newMode = line.slice('new file mode '.length);
+    } else if (line.startsWith('deleted file mode ')) {
+      file.status = 'deleted';
+      file.newPath = null;
+      file.oldMode = line.slice('deleted file mode '.length);
+    } else if (line.startsWith('old mode ')) {
+      file.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      file.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('similarity index ')) {
+      file.similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      file.status = keyword === 'rename' ? 'renamed' : 'copied';
+      file.oldPath = unquoteGitPath(value.slice('from '.length));
+    } else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      file.newPath = unquoteGitPath(value.slice('to '.length));
+    } else if (line.startsWith('--- ')) {
+      file.oldPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('+++ ')) {
+      file.newPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    } else if (line.startsWith('index ')) {
+      const mode = line.split(' ')[2];
+      if (mode) file.oldMode = file.newMode = mode;
+    }
+  }
+  finish();
+
+  return files;
+}
+
+export interface HunkSelection {
+  hunk: DiffHunk;
+  lines: Set<number> | null; // Indices into hunk.lines; null = the whole hunk
+}
+
+/**
+ * Patch applying the selected changes of one file. Returns null when the
+ * selection contains no change at all.
+ */
+export function buildHunkPatch(file: DiffFile, selections: HunkSelection[], reverse: boolean): string | null {
+  const out = [file.patchHeader];
+  let changes = 0;
+
+  for (const { hunk, lines } of [...selections].sort((a, b) => a.hunk.oldStart - b.hunk.oldStart)) {
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let hunkChanges = 0;
+
+    hunk.lines.forEach((line, index) => {
+      let prefix: ' ' | '+' | '-' | null;
+      if (line.type === 'context') prefix = ' ';
+      else if (!lines || lines.has(index)) prefix = line.type === 'add' ? '+' : '-';
+      else if (line.type === 'add') prefix = reverse ? ' ' : null;
+      else prefix = reverse ? null : ' ';
+      if (prefix === null) return;
+
+      body.push(prefix + line.content);
+      if (line.noNewline) body.push(NO_NEWLINE);
+      if (prefix !== '+') oldCount++;
+      if (prefix !== '-') newCount++;
+      if (prefix !== ' ') hunkChanges++;
+    });
+
+    if (hunkChanges === 0) continue;
+    changes += hunkChanges;
+    out.push(`@@ -${hunk.oldStart},${oldCount} +${hunk.newStart},${newCount} @@`, ...body);
+  }
+
+  return changes > 0 ? out.join('\n') + '\n' : null;
+}
@@ -0,0 +1,237 @@
+import {
+  GitHubCommitStatus,
+  GitHubReview,
+  PullRequestChecksSummary,
+  PullRequestReviewSummary,
+  summarizeChecks,
+  summarizeReviews,
+} from './github-pulls';
+
+/**
+ * GIT PROVIDER MAPPING - Remote URLs and forge payloads in one shape
+ * ==================================================================
+ *
+ * Pure helpers behind services/git-providers.ts:
+ * - parseRepositoryUrl: host and repository path of an https, ssh:// or
+ *   scp-style (git@host:path) remote
+ * - from*Repository: GitHub, GitLab and Gitea repository payloads as one
+ *   ProviderRepository
+ * - GitLab approvals/pipelines and Gitea reviews/statuses mapped onto the
+ *   GitHub-shaped review and check summaries of lib/github-pulls.ts
+ * - gitCredentialUsername: the username git sends along with a token
+ *
+ * Invariants:
+ * P₁: host is lowercase and keeps a non-default port, so connections match
+ *     remotes by host alone
+ * P₂: path never has a leading or trailing slash, nor a '.git' suffix;
+ *     GitLab subgroups keep every segment ('group/sub/repo')
+ * P₃: unparseable URLs yield null, never a partial match
+ */
+
+export type GitProviderKind = 'github' | 'gitlab' | 'gitea' | 'generic';
+export type GitAuthType = 'oauth' | 'token' | 'password' | 'ssh_key';
+
+export interface RemoteRepository {
+  protocol: 'https' | 'http' | 'ssh';
+  host: string;
+  path: string;              // 'owner/repo', or 'group/sub/repo' on GitLab
+}
+
+export interface ProviderRepository {
+  id: string;
+  name: string;
+  fullName: string;
+  description: string | null;
+  htmlUrl: string;
+  cloneUrl: string;
+  sshUrl: string | null;
+  private: boolean;
+  defaultBranch: string | null;
+  updatedAt: string | null;
+}
+
+function trimPath(path: string): string | null {
+  const trimmed = path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/i, '');
+  return trimmed.includes('/') && !trimmed.split('/').some(segment => !segment || segment === '..') ? trimmed : null;
+}
+
+export function parseRepositoryUrl(repositoryUrl: string): RemoteRepository | null {
+  const value = repositoryUrl.trim();
+
+  // scp-like: [user@]host:path (no scheme, no slash before the colon)
+  const scp = value.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/\/)(.+)$/);
+  if (scp && !value.includes('://')) {
+    const path = trimPath(scp[2]);
+    return path ? { protocol: 'ssh', host: scp[1].toLowerCase(), path } : null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  const protocol = url.protocol.slice(0, -1);
+  if (protocol !== 'https' && protocol !== 'http' && protocol !== 'ssh') {
+    return null;
+  }
+  const path = trimPath(decodeURIComponent(url.pathname));
+  return path && url.host ? { protocol, host: url.host.toLowerCase(), path } : null;
+}
+
+// The fields we read of GitHub's repository object (GET /user/repos)
+export interface GitHubRepositoryPayload {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  clone_url: string;
+  ssh_url?: string | null;
+  private: boolean;
+  default_branch?: string | null;
+  updated_at?: string | null;
+}
+
+// GitLab's project object (GET /projects)
+export interface GitLabProjectPayload {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  web_url: string;
+  http_url_to_repo: string;
+  ssh_url_to_repo?: string | null;
+  visibility: 'private' | 'internal' | 'public';
+  default_branch?: string | null;
+  last_activity_at?: string | null;
+}
+
+// Gitea's repository object (GET /user/repos) - GitHub's field names
+export interface GiteaRepositoryPayload {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string;        // '' rather than null
+  html_url: string;
+  clone_url: string;
+  ssh_url?: string | null;
+  private: boolean;
+  default_branch?: string | null;
+  updated_at?: string | null;
+}
+
+export interface GitLabApprovalsPayload {
+  approved_by?: Array<{ user: { username: string } }>;
+  approvals_left?: number;
+}
+
+export interface GiteaReviewPayload {
+  user: { login: string } | null;
+  state: string;             // APPROVED, REQUEST_CHANGES, COMMENT, PENDING, REQUEST_REVIEW
+  dismissed?: boolean;
+}
+
+export interface GiteaStatusPayload {
+  context: string;
+  status: string;
+  target_url?: string | null;
+}
+
+export function fromGitHubRepository(repo: GitHubRepositoryPayload): ProviderRepository {
+  return {
+    id: String(repo.id),
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description ?? null,
+    htmlUrl: repo.html_url,
+    cloneUrl: repo.clone_url,
+    sshUrl: repo.ssh_url ?? null,
+    private: !!repo.private,
+    defaultBranch: repo.default_branch ?? null,
+    updatedAt: repo.updated_at ?? null,
+  };
+}
+
+export function fromGitLabProject(project: GitLabProjectPayload): ProviderRepository {
+  return {
+    id: String(project.id),
+    name: project.name,
+    fullName: project.path_with_namespace,
+    description: project.description || null,
+    htmlUrl: project.web_url,
+    cloneUrl: project.http_url_to_repo,
+    sshUrl: project.ssh_url_to_repo ?? null,
+    private: project.visibility !== 'public',
+    defaultBranch: project.default_branch ?? null,
+    updatedAt: project.last_activity_at ?? null,
+  };
+}
+
+export function fromGiteaRepository(repo: GiteaRepositoryPayload): ProviderRepository {
+  return {
+    id: String(repo.id),
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description || null,
+    htmlUrl: repo.html_url,
+    cloneUrl: repo.clone_url,
+    sshUrl: repo.ssh_url ?? null,
+    private: !!repo.private,
+    defaultBranch: repo.default_branch ?? null,
+    updatedAt: repo.updated_at ?? null,
+  };
+}
+
+// GET /projects/:id/merge_requests/:iid/approvals
+export function summarizeGitLabApprovals(approvals: GitLabApprovalsPayload): PullRequestReviewSummary {
+  const reviewers = (approvals.approved_by ?? []).map(({ user }) => ({ login: user.username, state: 'approved' as const }));
+  const decision = (approvals.approvals_left ?? 0) > 0 ? 'review_required' : reviewers.length > 0 ? 'approved' : 'none';
+  return { decision, approvals: reviewers.length, changesRequested: 0, reviewers };
+}
+
+// A merge request's head_pipeline as one check
+export function summarizeGitLabPipeline(pipeline: { status: string; web_url?: string | null } | null): PullRequestChecksSummary {
+  if (!pipeline) {
+    return summarizeChecks([]);
+  }
+  const state = pipeline.status === 'success' || pipeline.status === 'skipped' ? 'success'
+    : ['failed', 'canceled', 'canceling'].includes(pipeline.status) ? 'failure'
+      : 'pending';
+  return summarizeChecks([], [{ context: 'pipeline', state, target_url: pipeline.web_url ?? null }]);
+}
+
+// GET /repos/{owner}/{repo}/pulls/{n}/reviews - REQUEST_REVIEW entries are pending reviewers
+export function summarizeGiteaReviews(reviews: GiteaReviewPayload[]): PullRequestReviewSummary {
+  const mapped: GitHubReview[] = reviews
+    .filter(review => review.state !== 'REQUEST_REVIEW')
+    .map(review => ({
+      user: review.user,
+      state: review.dismissed ? 'DISMISSED' : review.state === 'REQUEST_CHANGES' ? 'CHANGES_REQUESTED' : review.state,
+    }));
+  const requested = reviews
+    .filter(review => review.state === 'REQUEST_REVIEW' && review.user)
+    .map(review => ({ login: review.user!.login }));
+  return summarizeReviews(mapped, requested);
+}
+
+// GET /repos/{owner}/{repo}/commits/{sha}/status - Gitea names the field `status`
+export function summarizeGiteaStatuses(statuses: GiteaStatusPayload[]): PullRequestChecksSummary {
+  const mapped: GitHubCommitStatus[] = statuses.map(status => ({
+    context: status.context,
+    state: status.status === 'warning' ? 'success' : status.status,
+    target_url: status.target_url ?? null,
+  }));
+  return summarizeChecks([], mapped);
+}
+
+/**
+ * Username git sends with a token over HTTPS. GitHub and GitLab ignore it
+ * for tokens but require a fixed value for OAuth tokens; Gitea and plain
+ * servers check it.
+ */
+export function gitCredentialUsername(kind: GitProviderKind, authType: GitAuthType, username: string | null): string {
+  if (kind === 'github') return 'x-access-token';
+  if (kind === 'gitlab') return authType === 'oauth' ? 'oauth2' : username || 'oauth2';
+  return username || 'git';
+}
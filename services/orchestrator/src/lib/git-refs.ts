@@ -0,0 +1,85 @@
+/**
+ * GIT REF PARSING - Branch listings from `git for-each-ref` output
+ * ================================================================
+ *
+ * Branches are listed with one for-each-ref call (BRANCH_REF_FORMAT) and
+ * compared with the default branch by `git rev-list --left-right --count
+ * <default>...<ref>`, one output line per ref. Fields are tab-separated with
+ * the commit subject last so a tab in a subject cannot shift the others.
+ *
+ * Invariants:
+ * G₁: local branches come from refs/heads, remote ones from refs/remotes
+ *     (symbolic <remote>/HEAD entries are skipped)
+ * G₂: isValidBranchName(name) ⟹ `git check-ref-format --branch name` accepts
+ *     it and it cannot be mistaken for a command-line option
+ * G₃: unparseable lines are ignored, never misparsed
+ */
+
+export interface GitBranch {
+  name: string;              // 'feature/x' or 'origin/feature/x'
+  remote: string | null;     // null for local branches
+  commit: string;
+  committedAt: string;
+  subject: string;
+  ahead: number | null;      // commits on the branch but not on the default branch
+  behind: number | null;     // null when the default branch is missing
+}
+
+export const BRANCH_REF_FORMAT = [
+  '%(refname)',
+  '%(objectname)',
+  '%(committerdate:iso-strict)',
+  '%(subject)',
+].join('%09');
+
+export function parseBranchRefs(output: string): GitBranch[] {
+  const branches: GitBranch[] = [];
+
+  for (const line of output.split('\n')) {
+    const [ref, commit, committedAt, ...subject] = line.split('\t');
+    if (!ref || !commit || committedAt === undefined) continue;
+
+    if (ref.startsWith('refs/heads/')) {
+      branches.push({
+        name: ref.slice('refs/heads/'.length),
+        remote: null,
+        commit,
+        committedAt,
+        subject: subject.join('\t'),
+        ahead: null,
+        behind: null,
+      });
+    } else if (ref.startsWith('refs/remotes/')) {
+      const name = ref.slice('refs/remotes/'.length);
+      const slash = name.indexOf('/');
+      if (slash <= 0 || name.slice(slash + 1) === 'HEAD') continue;
+      branches.push({
+        name,
+        remote: name.slice(0, slash),
+        commit,
+        committedAt,
+        subject: subject.join('\t'),
+        ahead: null,
+        behind: null,
+      });
+    }
+  }
+
+  return branches;
+}
+
+// 'behind\tahead' from rev-list --left-right --count <default>...<ref>; anything else is unknown
+export function parseAheadBehind(line: string): { ahead: number; behind: number } | null {
+  const match = line.trim().match(/^(\d+)\s+(\d+)$/);
+  return match ? { behind: Number(match[1]), ahead: Number(match[2]) } : null;
+}
+
+// The rules of git-check-ref-format(1) for branch names, plus no leading '-'
+export function isValidBranchName(name: string): boolean {
+  if (!name || name.length > 255) return false;
+  if (name.startsWith('-') || name.startsWith('/') || name.endsWith('/')) return false;
+  if (name.endsWith('.') || name.endsWith('.lock') || name === '@' || name === 'HEAD') return false;
+  if (name.includes('..') || name.includes('//') || name.includes('@{')) return false;
+  if (/[\x00-\x20\x7f~^:?*[\\]/.test(name)) return false;
+  return name.split('/').every(component => !component.startsWith('.') && !component.endsWith('.lock'));
+}
@@ -0,0 +1,54 @@
+/**
+ * GIT STASH PARSING - Stash entries from `git stash list` output
+ * ==============================================================
+ *
+ * Stashes are listed with STASH_LIST_FORMAT: reflog selector, stash commit,
+ * its parents and date, tab-separated with the reflog subject last. The
+ * subject is what `git stash` wrote: "WIP on <branch>: <sha> <subject>"
+ * without a message, "On <branch>: <message>" with one.
+ *
+ * Invariants:
+ * T₁: entries keep git's order, newest first, and index = n of stash@{n}
+ * T₂: includesUntracked ⟺ the stash commit has a third parent (the
+ *     untracked-files commit made by --include-untracked)
+ * T₃: unparseable lines are ignored, never misparsed
+ */
+
+export interface GitStashEntry {
+  index: number;
+  ref: string;               // 'stash@{0}'
+  commit: string;
+  branch: string | null;     // branch the stash was made on; null when detached
+  message: string;
+  createdAt: string;
+  includesUntracked: boolean;
+}
+
+export const STASH_LIST_FORMAT = ['%gd', '%H', '%P', '%cI', '%gs'].join('%x09');
+
+const STASH_SUBJECT = /^(?:WIP on|On) (.+?): (.*)$/;
+
+export function parseStashList(output: string): GitStashEntry[] {
+  const entries: GitStashEntry[] = [];
+
+  for (const line of output.split('\n')) {
+    const [ref, commit, parents, createdAt, ...subject] = line.split('\t');
+    const selector = ref?.match(/^stash@\{(\d+)\}$/);
+    if (!selector || !commit || parents === undefined || createdAt === undefined) continue;
+
+    const text = subject.join('\t');
+    const parsed = text.match(STASH_SUBJECT);
+    const branch = parsed ? parsed[1] : null;
+    entries.push({
+      index: Number(selector[1]),
+      ref,
+      commit,
+      branch: branch === '(no branch)' ? null : branch,
+      message: parsed ? parsed[2] : text,
+      createdAt,
+      includesUntracked: parents.split(' ').filter(Boolean).length >= 3,
+    });
+  }
+
+  return entries;
+}
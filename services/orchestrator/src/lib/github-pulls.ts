@@ -0,0 +1,134 @@
+/**
+ * GITHUB PULL REQUEST SUMMARIES - Review and check state of a PR
+ * ==============================================================
+ *
+ * Pure helpers over GitHub REST API payloads (services/github-pulls.ts does
+ * the requests):
+ * - parseGitHubRepository: owner/repo of a github.com remote URL
+ * - summarizeReviews: GET /pulls/{n}/reviews + requested_reviewers
+ * - summarizeChecks: GET /commits/{sha}/check-runs + /commits/{sha}/status
+ *
+ * Invariants:
+ * R₁: only each reviewer's latest approving or blocking review counts -
+ *     comments never change the decision, and a dismissed review clears it
+ * R₂: decision = 'changes_requested' whenever any counted review requests changes
+ * H₁: check state = 'failure' if anything failed, else 'pending' if anything
+ *     is still running, else 'success' when there is at least one check
+ */
+
+export interface GitHubRepository {
+  owner: string;
+  repo: string;
+}
+
+export type ReviewDecision = 'approved' | 'changes_requested' | 'review_required' | 'none';
+export type ChecksState = 'success' | 'failure' | 'pending' | 'none';
+
+export interface PullRequestReviewSummary {
+  decision: ReviewDecision;
+  approvals: number;
+  changesRequested: number;
+  reviewers: Array<{ login: string; state: 'approved' | 'changes_requested' | 'requested' }>;
+}
+
+export interface PullRequestCheck {
+  name: string;
+  state: 'success' | 'failure' | 'pending';
+  url: string | null;
+}
+
+export interface PullRequestChecksSummary {
+  state: ChecksState;
+  total: number;
+  passed: number;
+  failed: number;
+  pending: number;
+  checks: PullRequestCheck[];
+}
+
+// Subsets of the GitHub REST payloads that the summaries read
+export interface GitHubReview {
+  user: { login: string } | null;
+  state: string;             // APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED, PENDING
+  submitted_at?: string | null;
+}
+
+export interface GitHubCheckRun {
+  name: string;
+  status: string;            // queued, in_progress, completed, ...
+  conclusion: string | null; // success, failure, neutral, skipped, cancelled, timed_out, ...
+  html_url?: string | null;
+}
+
+export interface GitHubCommitStatus {
+  context: string;
+  state: string;             // success, failure, error, pending
+  target_url?: string | null;
+}
+
+const PASSING_CONCLUSIONS = new Set(['success', 'neutral', 'skipped']);
+
+export function parseGitHubRepository(repositoryUrl: string): GitHubRepository | null {
+  const match = repositoryUrl.trim().match(
+    /^(?:https?:\/\/(?:[^@/]+@)?github\.com\/|ssh:\/\/git@github\.com\/|git@github\.com:)([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/i
+  );
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+export function summarizeReviews(
+  reviews: GitHubReview[],
+  requestedReviewers: Array<{ login: string }> = []
+): PullRequestReviewSummary {
+  // R₁: reviews arrive in chronological order; later ones replace earlier ones
+  const latest = new Map<string, 'approved' | 'changes_requested'>();
+  for (const review of reviews) {
+    const login = review.user?.login;
+    if (!login) continue;
+    if (review.state === 'APPROVED') latest.set(login, 'approved');
+    else if (review.state === 'CHANGES_REQUESTED') latest.set(login, 'changes_requested');
+    else if (review.state === 'DISMISSED') latest.delete(login);
+  }
+
+  const reviewers: PullRequestReviewSummary['reviewers'] = [...latest.entries()].map(([login, state]) => ({ login, state }));
+  for (const { login } of requestedReviewers) {
+    // Re-requested reviewers are pending again, whatever they said before
+    const index = reviewers.findIndex(reviewer => reviewer.login === login);
+    if (index >= 0) reviewers.splice(index, 1);
+    reviewers.push({ login, state: 'requested' });
+  }
+
+  const approvals = reviewers.filter(reviewer => reviewer.state === 'approved').length;
+  const changesRequested = reviewers.filter(reviewer => reviewer.state === 'changes_requested').length;
+  const decision: ReviewDecision =
+    changesRequested > 0 ? 'changes_requested'
+      : reviewers.some(reviewer => reviewer.state === 'requested') ? 'review_required'
+        : approvals > 0 ? 'approved'
+          : 'none';
+
+  return { decision, approvals, changesRequested, reviewers };
+}
+
+export function summarizeChecks(checkRuns: GitHubCheckRun[], statuses: GitHubCommitStatus[] = []): PullRequestChecksSummary {
+  const checks: PullRequestCheck[] = [
+    ...checkRuns.map(run => ({
+      name: run.name,
+      state: run.status !== 'completed'
+        ? 'pending' as const
+        : PASSING_CONCLUSIONS.has(run.conclusion ?? '') ? 'success' as const : 'failure' as const,
+      url: run.html_url ?? null,
+    })),
+    ...statuses.map(status => ({
+      name: status.context,
+      state: status.state === 'success' ? 'success' as const : status.state === 'pending' ? 'pending' as const : 'failure' as const,
+      url: status.target_url ?? null,
+    })),
+  ];
+
+  const passed = checks.filter(check => check.state === 'success').length;
+  const failed = checks.filter(check => check.state === 'failure').length;
+  const pending = checks.filter(check => check.state === 'pending').length;
+  const state: ChecksState =
+    failed > 0 ? 'failure' : pending > 0 ? 'pending' : checks.length > 0 ? 'success' : 'none';
+
+  return { state, total: checks.length, passed, failed, pending, checks };
+}
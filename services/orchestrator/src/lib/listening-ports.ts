@@ -0,0 +1,98 @@
+/**
+ * LISTENING PORT DETECTION
+ * ========================
+ *
+ * Parses `/proc/net/tcp` and `/proc/net/tcp6` from a session container to
+ * find sockets in the LISTEN state. Reading procfs works in every image
+ * (no dependency on ss/netstat/lsof being installed).
+ *
+ * Address encoding: each 32-bit word is printed as hex in host (little-endian)
+ * byte order, so 127.0.0.1 appears as 0100007F.
+ */
+
+export interface ListeningSocket {
+  port: number;
+  address: string;
+  protocol: 'tcp' | 'tcp6';
+}
+
+export interface ListeningPort {
+  port: number;
+  addresses: string[];
+  loopbackOnly: boolean; // Bound only to 127.0.0.1/::1 - unreachable through the preview proxy
+}
+
+const TCP_LISTEN_STATE = '0A';
+
+function decodeWord(hex: string): number[] {
+  // Little-endian 32-bit word → network byte order
+  return [hex.slice(6, 8), hex.slice(4, 6), hex.slice(2, 4), hex.slice(0, 2)].map(byte => parseInt(byte, 16));
+}
+
+export function decodeProcAddress(hex: string): string {
+  if (hex.length === 8) {
+    return decodeWord(hex).join('.');
+  }
+
+  const bytes = [0, 8, 16, 24].flatMap(offset => decodeWord(hex.slice(offset, offset + 8)));
+  if (bytes.every(b => b === 0)) {
+    return '::';
+  }
+  if (bytes.slice(0, 15).every(b => b === 0) && bytes[15] === 1) {
+    return '::1';
+  }
+  if (bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return `::ffff:${bytes.slice(12).join('.')}`;
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  return groups.join(':');
+}
+
+export function isLoopbackAddress(address: string): boolean {
+  return address.startsWith('127.') || address === '::1' || address.startsWith('::ffff:127.');
+}
+
+/**
+ * Parse the contents of /proc/net/tcp or /proc/net/tcp6 into listening sockets.
+ */
+export function parseProcNetTcp(content: string, protocol: 'tcp' | 'tcp6'): ListeningSocket[] {
+  const sockets: ListeningSocket[] = [];
+
+  for (const line of content.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 4 || fields[3] !== TCP_LISTEN_STATE) continue;
+
+    const [addressHex, portHex] = fields[1].split(':');
+    if (!addressHex || !portHex) continue;
+
+    sockets.push({
+      port: parseInt(portHex, 16),
+      address: decodeProcAddress(addressHex),
+      protocol,
+    });
+  }
+
+  return sockets;
+}
+
+/**
+ * Group sockets by port, sorted by port number.
+ */
+export function groupListeningPorts(sockets: ListeningSocket[]): ListeningPort[] {
+  const byPort = new Map<number, Set<string>>();
+  for (const socket of sockets) {
+    if (!byPort.has(socket.port)) byPort.set(socket.port, new Set());
+    byPort.get(socket.port)!.add(socket.address);
+  }
+
+  return [...byPort.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([port, addresses]) => {
+      const list = [...addresses];
+      return { port, addresses: list, loopbackOnly: list.every(isLoopbackAddress) };
+    });
+}
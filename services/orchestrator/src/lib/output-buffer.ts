@@ -0,0 +1,113 @@
+/**
+ * OUTPUT RING BUFFER - Recent terminal output with sequence numbers
+ * =================================================================
+ *
+ * Every output chunk gets the next sequence number (1, 2, 3, ...). The buffer
+ * keeps the most recent chunks up to `capacityBytes` so a reconnecting client
+ * can ask for exactly what it missed.
+ *
+ * Invariants:
+ * B₁: seq is strictly increasing by 1 per appended chunk
+ * B₂: Σ bytes(retained) ≤ capacityBytes, except a single oversized chunk,
+ *     which is kept alone so the newest output is always replayable
+ * B₃: since(s) returns every chunk with seq > s, or null if any of them has
+ *     been evicted (the caller must fall back to a full redraw)
+ */
+
+export interface OutputChunk {
+  seq: number;
+  data: string;
+}
+
+export const DEFAULT_OUTPUT_BUFFER_BYTES = 1024 * 1024;
+
+export class OutputRingBuffer {
+  private chunks: OutputChunk[] = [];
+  private head = 0;          // Index of the oldest retained chunk
+  private bytes = 0;
+  private seq = 0;
+
+  constructor(private readonly capacityBytes = DEFAULT_OUTPUT_BUFFER_BYTES) {}
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  // Oldest sequence number that can still be replayed
+  get firstSeq(): number {
+    return this.head < this.chunks.length ? this.chunks[this.head].seq : this.seq + 1;
+  }
+
+  append(data: string): number {
+    const chunk = { seq: ++this.seq, data };
+    this.chunks.push(chunk);
+    this.bytes += Buffer.byteLength(data);
+
+    while (this.bytes > this.capacityBytes && this.chunks.length - this.head > 1) {
+      this.bytes -= Buffer.byteLength(this.chunks[this.head].data);
+      this.head++;
+    }
+
+    // Compact occasionally instead of shifting on every eviction
+    if (this.head > 1024 && this.head * 2 > this.chunks.length) {
+      this.chunks = this.chunks.slice(this.head);
+      this.head = 0;
+    }
+
+    return chunk.seq;
+  }
+
+  since(seq: number): OutputChunk[] | null {
+    if (seq > this.seq || seq < 0) {
+      return null;
+    }
+    if (seq + 1 < this.firstSeq) {
+      return null;
+    }
+
+    const start = this.head + (seq + 1 - this.firstSeq);
+    return this.chunks.slice(start);
+  }
+}
+
+/**
+ * The last `capacityBytes` of a byte stream, for collecting command output
+ * without holding all of it.
+ *
+ * Invariants:
+ * T₁: toString() = the last min(total, capacityBytes) bytes written
+ * T₂: truncated ⟺ total bytes written > capacityBytes
+ */
+export class OutputTail {
+  private chunks: Buffer[] = [];
+  private bytes = 0;
+  private dropped = false;
+
+  constructor(private readonly capacityBytes: number) {}
+
+  get truncated(): boolean {
+    return this.dropped;
+  }
+
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.bytes += chunk.length;
+
+    while (this.bytes > this.capacityBytes) {
+      this.dropped = true;
+      const excess = this.bytes - this.capacityBytes;
+      const oldest = this.chunks[0];
+      if (oldest.length <= excess) {
+        this.chunks.shift();
+        this.bytes -= oldest.length;
+      } else {
+        this.chunks[0] = oldest.subarray(excess);
+        this.bytes -= excess;
+      }
+    }
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
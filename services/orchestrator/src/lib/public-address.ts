@@ -0,0 +1,67 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * PUBLIC ADDRESSES - Where requests made for users may go
+ * =======================================================
+ *
+ * URLs users save (agent webhooks) are requested by the orchestrator, from
+ * inside its network. Only globally routable unicast addresses are fair game;
+ * everything below is the orchestrator's own host, its LAN, the cloud
+ * metadata service, or not a real destination.
+ *
+ * Hoare Triple:
+ * {P: address is any string}
+ * isPublicAddress(address)
+ * {Q: true ⟺ address is an IPv4 or IPv6 literal outside every range in
+ *     NON_PUBLIC_RANGES}
+ *
+ * Invariants:
+ * A₁: IPv6 forms that embed an IPv4 address (mapped, compatible, NAT64) are
+ *     never public, so an internal IPv4 address cannot be spelled past the check
+ */
+
+const NON_PUBLIC_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],          // "this network"
+  ['10.0.0.0', 8, 'ipv4'],         // private
+  ['100.64.0.0', 10, 'ipv4'],      // carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],        // loopback
+  ['169.254.0.0', 16, 'ipv4'],     // link-local, cloud metadata
+  ['172.16.0.0', 12, 'ipv4'],      // private
+  ['192.0.0.0', 24, 'ipv4'],       // IETF protocol assignments
+  ['192.0.2.0', 24, 'ipv4'],       // documentation
+  ['192.168.0.0', 16, 'ipv4'],     // private
+  ['198.18.0.0', 15, 'ipv4'],      // benchmarking
+  ['198.51.100.0', 24, 'ipv4'],    // documentation
+  ['203.0.113.0', 24, 'ipv4'],     // documentation
+  ['224.0.0.0', 4, 'ipv4'],        // multicast
+  ['240.0.0.0', 4, 'ipv4'],        // reserved, broadcast
+  ['::', 96, 'ipv6'],              // unspecified, loopback, IPv4-compatible (A₁)
+  ['::ffff:0:0', 96, 'ipv6'],      // IPv4-mapped (A₁)
+  ['64:ff9b::', 96, 'ipv6'],       // NAT64 (A₁)
+  ['64:ff9b:1::', 48, 'ipv6'],     // local-use NAT64 (A₁)
+  ['100::', 64, 'ipv6'],           // discard
+  ['2001:db8::', 32, 'ipv6'],      // documentation
+  ['fc00::', 7, 'ipv6'],           // unique local
+  ['fe80::', 10, 'ipv6'],          // link-local
+  ['ff00::', 8, 'ipv6'],           // multicast
+];
+
+// One list per family: BlockList matches IPv4 addresses against IPv6 subnets
+// through their mapped form, which would put all of IPv4 under ::ffff:0:0/96
+const nonPublic = { ipv4: new BlockList(), ipv6: new BlockList() };
+for (const [network, prefix, family] of NON_PUBLIC_RANGES) {
+  nonPublic[family].addSubnet(network, prefix, family);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+  const family = version === 4 ? 'ipv4' : 'ipv6';
+  return !nonPublic[family].check(address, family);
+}
+
+// The host of a URL as an IP literal, or null when it is a name ([::1] → ::1)
+export function ipLiteralHost(url: URL): string | null {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? host : null;
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { config } from '../config';
+
+/**
+ * SANDBOX RESOURCE PROFILES
+ * =========================
+ *
+ * Environments carry a named resource profile that bounds every session
+ * container created for them. `small` is the operator's global sandbox limits
+ * (SANDBOX_MEMORY_LIMIT, SANDBOX_CPU_LIMIT); `medium` and `large` are fixed
+ * presets; `custom` takes its limits from the environment's `resource_limits`
+ * column.
+ *
+ * Invariants:
+ * R₁: ∀p ∈ {small, medium, large}. resolve(p) = PRESETS[p]
+ * R₂: resolve(custom, l) = PRESETS.small ⊕ l   (unset custom fields fall back to small)
+ * R₃: small ≡ the configured global limits, so raising SANDBOX_* raises it too
+ * R₄: the process count is unlimited unless a custom profile sets `pids`
+ *
+ * Disk limits map to Docker's `StorageOpt.size`, which only works on storage
+ * drivers that support per-container quotas (overlay2 on xfs with pquota,
+ * devicemapper, btrfs, zfs). They are therefore only applied for custom
+ * profiles that ask for them explicitly.
+ */
+
+export const RESOURCE_PROFILE_NAMES = ['small', 'medium', 'large', 'custom'] as const;
+
+export type ResourceProfileName = typeof RESOURCE_PROFILE_NAMES[number];
+
+export interface ResourceLimits {
+  memory?: string;   // e.g. "512m", "2g"
+  cpus?: number;     // fractional CPUs, e.g. 0.5
+  pids?: number;     // max processes in the container
+  disk?: string;     // e.g. "10g" (requires storage driver quota support)
+}
+
+export interface ResolvedResourceLimits {
+  memoryBytes: number;
+  cpuQuota: number;
+  pidsLimit?: number;
+  diskSize?: string;
+}
+
+type PresetProfileName = Exclude<ResourceProfileName, 'custom'>;
+
+// R₃: read on every call so the presets follow the running config
+export function presetLimits(profile: PresetProfileName): ResourceLimits {
+  switch (profile) {
+    case 'small':
+      return { memory: config.SANDBOX_MEMORY_LIMIT, cpus: Number(config.SANDBOX_CPU_LIMIT) };
+    case 'medium':
+      return { memory: '2g', cpus: 2 };
+    case 'large':
+      return { memory: '8g', cpus: 4 };
+  }
+}
+
+function isPresetProfile(profile: string): profile is PresetProfileName {
+  return profile === 'small' || profile === 'medium' || profile === 'large';
+}
+
+const SIZE_PATTERN = /^\d+(\.\d+)?\s*[bkmg]?$/i;
+
+export const ResourceLimitsSchema = z.object({
+  memory: z.string().regex(SIZE_PATTERN, 'Memory must look like 512m or 2g').optional(),
+  cpus: z.number().positive().max(64).optional(),
+  pids: z.number().int().min(16).max(65536).optional(),
+  disk: z.string().regex(SIZE_PATTERN, 'Disk must look like 10g').optional(),
+});
+
+export const ResourceProfileSchema = z.enum(RESOURCE_PROFILE_NAMES);
+
+/**
+ * Parse a Docker-style size string into bytes.
+ * Bare numbers are treated as megabytes, matching how SANDBOX_MEMORY_LIMIT
+ * has always been interpreted.
+ */
+export function parseSizeToBytes(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([bkmg]?)$/);
+  if (!match) {
+    throw new Error(`Invalid size: ${value}`);
+  }
+
+  const amount = parseFloat(match[1]);
+  const multipliers: Record<string, number> = {
+    b: 1,
+    k: 1024,
+    m: 1024 * 1024,
+    g: 1024 * 1024 * 1024,
+    '': 1024 * 1024,
+  };
+
+  return Math.floor(amount * multipliers[match[2]]);
+}
+
+/**
+ * Resolve a profile name (plus custom overrides) into concrete Docker limits.
+ * Unknown profile names fall back to `small` so old rows keep working.
+ */
+export function resolveResourceLimits(
+  profile: string | null | undefined,
+  customLimits?: ResourceLimits | null
+): ResolvedResourceLimits {
+  let limits: ResourceLimits;
+  if (profile === 'custom') {
+    limits = { ...presetLimits('small'), ...(customLimits || {}) };
+  } else if (profile && isPresetProfile(profile)) {
+    limits = presetLimits(profile);
+  } else {
+    limits = presetLimits('small');
+  }
+
+  return {
+    memoryBytes: parseSizeToBytes(limits.memory!),
+    cpuQuota: Math.round(limits.cpus! * 100000),
+    pidsLimit: limits.pids, // R₄
+    diskSize: limits.disk,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * TERMINAL CLIENTS - Who is attached to a shared terminal
+ * =======================================================
+ *
+ * One TerminalSession (a single docker exec running `tmux attach`) is shared by
+ * every browser client viewing a session. This registry tracks those clients,
+ * their access level and their viewport sizes.
+ *
+ * Invariants:
+ * C₁: canWrite(c) ⟺ c.access = 'read-write'
+ * C₂: effectiveSize() = component-wise min over writers' sizes, or over all
+ *     sizes when no writer has reported one (read-only viewers never shrink
+ *     the terminal of someone who is typing)
+ */
+
+export type TerminalAccess = 'read-write' | 'read-only';
+
+export interface TerminalClient {
+  id: string;
+  userId: string;
+  name: string;
+  access: TerminalAccess;
+  isOwner: boolean;
+  shareLinkId: string | null;
+  connectedAt: Date;
+  cols?: number;
+  rows?: number;
+}
+
+export interface TerminalPresence {
+  id: string;
+  userId: string;
+  name: string;
+  access: TerminalAccess;
+  isOwner: boolean;
+  connectedAt: string;
+}
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+export class TerminalClientRegistry {
+  private clients = new Map<string, TerminalClient>();
+
+  add(client: Omit<TerminalClient, 'connectedAt'>): TerminalClient {
+    const entry: TerminalClient = { ...client, connectedAt: new Date() };
+    this.clients.set(client.id, entry);
+    return entry;
+  }
+
+  remove(clientId: string): boolean {
+    return this.clients.delete(clientId);
+  }
+
+  get(clientId: string): TerminalClient | undefined {
+    return this.clients.get(clientId);
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  canWrite(clientId: string): boolean {
+    return this.clients.get(clientId)?.access === 'read-write';
+  }
+
+  setSize(clientId: string, cols: number, rows: number): void {
+    const client = this.clients.get(clientId);
+    if (client && cols > 0 && rows > 0) {
+      client.cols = cols;
+      client.rows = rows;
+    }
+  }
+
+  effectiveSize(): TerminalSize | null {
+    const sized = [...this.clients.values()].filter(c => c.cols && c.rows);
+    const writers = sized.filter(c => c.access === 'read-write');
+    const candidates = writers.length > 0 ? writers : sized;
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return {
+      cols: Math.min(...candidates.map(c => c.cols!)),
+      rows: Math.min(...candidates.map(c => c.rows!)),
+    };
+  }
+
+  // Insertion order = join order
+  presence(): TerminalPresence[] {
+    return [...this.clients.values()].map(c => ({
+      id: c.id,
+      userId: c.userId,
+      name: c.name,
+      access: c.access,
+      isOwner: c.isOwner,
+      connectedAt: c.connectedAt.toISOString(),
+    }));
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * TERMINAL OUTPUT FRAMING - Batching and binary frames for WebSocket clients
+ * ==========================================================================
+ *
+ * Heavy output (npm install, cat of a large log) arrives from Docker as many
+ * small chunks. Sending each one as its own JSON message costs a stringify and
+ * a frame per chunk, so each client batches output briefly and, when it has
+ * negotiated the binary protocol, sends it as a raw frame:
+ *
+ *   ┌──────────┬──────────────────┬──────────────────────┐
+ *   │ type: u8 │ seq: u32 (BE)    │ payload: UTF-8 bytes │
+ *   └──────────┴──────────────────┴──────────────────────┘
+ *
+ * `seq` is the sequence number of the last chunk in the batch (see
+ * output-buffer.ts), which is all a client needs to resume.
+ *
+ * Invariants:
+ * F₁: Batches never reorder output: flush(d₁…dₙ) = d₁ ‖ … ‖ dₙ
+ * F₂: A batch is flushed after at most `delayMs`, or at once when it reaches
+ *     `maxBytes`
+ * F₃: decodeOutputFrame(encodeOutputFrame(seq, data)) = { seq, data }
+ */
+
+export type TerminalProtocol = 'json' | 'binary';
+
+export const OUTPUT_FRAME = 0x01;
+const FRAME_HEADER_BYTES = 5;
+
+export function encodeOutputFrame(seq: number, data: string): Buffer {
+  const payload = Buffer.from(data, 'utf8');
+  const frame = Buffer.allocUnsafe(FRAME_HEADER_BYTES + payload.length);
+  frame.writeUInt8(OUTPUT_FRAME, 0);
+  frame.writeUInt32BE(seq >>> 0, 1);
+  payload.copy(frame, FRAME_HEADER_BYTES);
+  return frame;
+}
+
+export function decodeOutputFrame(frame: Buffer): { seq: number; data: string } | null {
+  if (frame.length < FRAME_HEADER_BYTES || frame.readUInt8(0) !== OUTPUT_FRAME) {
+    return null;
+  }
+  return {
+    seq: frame.readUInt32BE(1),
+    data: frame.subarray(FRAME_HEADER_BYTES).toString('utf8'),
+  };
+}
+
+export interface OutputBatcherOptions {
+  delayMs?: number;
+  maxBytes?: number;
+}
+
+export class OutputBatcher {
+  private pending: string[] = [];
+  private bytes = 0;
+  private lastSeq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly delayMs: number;
+  private readonly maxBytes: number;
+
+  constructor(
+    private readonly onFlush: (data: string, seq: number) => void,
+    options: OutputBatcherOptions = {}
+  ) {
+    this.delayMs = options.delayMs ?? 8;
+    this.maxBytes = options.maxBytes ?? 64 * 1024;
+  }
+
+  push(data: string, seq: number) {
+    this.pending.push(data);
+    this.bytes += Buffer.byteLength(data);
+    this.lastSeq = seq;
+
+    if (this.bytes >= this.maxBytes) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.delayMs);
+    }
+  }
+
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    const data = this.pending.join('');
+    this.pending = [];
+    this.bytes = 0;
+    this.onFlush(data, this.lastSeq);
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = [];
+    this.bytes = 0;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * TMUX FORMAT PARSING - Windows and panes from `tmux list-*` output
+ * =================================================================
+ *
+ * tmux ids are stable for the life of the server (@3 is window 3, %7 is pane
+ * 7) while indexes shift when windows are moved or renumbered, so the API
+ * addresses windows and panes by id. Fields are tab-separated and the free-text
+ * field (window name, pane path) comes last so a stray tab cannot shift the
+ * others.
+ *
+ * Invariants:
+ * T₁: parseTmuxWindows returns windows ordered by index, each with its panes
+ *     ordered by pane index
+ * T₂: lines that do not match the format are ignored, never misparsed
+ * T₃: isTmuxWindowView(tmuxWindowViewName(s, id), s) for every id, and never
+ *     for s itself or another session's name
+ */
+
+export interface TmuxPane {
+  id: number;
+  index: number;
+  active: boolean;
+  width: number;
+  height: number;
+  command: string;
+  cwd: string;
+}
+
+export interface TmuxWindow {
+  id: number;
+  index: number;
+  name: string;
+  active: boolean;
+  panes: TmuxPane[];
+}
+
+export const TMUX_WINDOW_FORMAT = ['#{window_id}', '#{window_index}', '#{window_active}', '#{window_name}'].join('\t');
+
+export const TMUX_PANE_FORMAT = [
+  '#{window_id}',
+  '#{pane_id}',
+  '#{pane_index}',
+  '#{pane_active}',
+  '#{pane_width}',
+  '#{pane_height}',
+  '#{pane_current_command}',
+  '#{pane_current_path}',
+].join('\t');
+
+// '@3' → 3, '%7' → 7
+export function parseTmuxId(value: string, prefix: '@' | '%'): number | null {
+  if (!value.startsWith(prefix)) return null;
+  const id = Number(value.slice(1));
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+// A connection that asks for one window gets a session grouped with the
+// session's own (same windows, its own current window): '<session>_w<id>'
+const WINDOW_VIEW_SEPARATOR = '_w';
+
+export function tmuxWindowViewName(tmuxSessionName: string, windowId: number): string {
+  return `${tmuxSessionName}${WINDOW_VIEW_SEPARATOR}${windowId}`;
+}
+
+export function isTmuxWindowView(name: string, tmuxSessionName: string): boolean {
+  const prefix = tmuxSessionName + WINDOW_VIEW_SEPARATOR;
+  return name.startsWith(prefix) && /^\d+$/.test(name.slice(prefix.length));
+}
+
+export function parseTmuxWindows(windowOutput: string, paneOutput: string): TmuxWindow[] {
+  const windows = new Map<number, TmuxWindow>();
+
+  for (const line of windowOutput.split('\n')) {
+    const [rawId, rawIndex, rawActive, ...name] = line.split('\t');
+    const id = parseTmuxId(rawId ?? '', '@');
+    const index = Number(rawIndex);
+    if (id === null || !Number.isInteger(index) || name.length === 0) continue;
+
+    windows.set(id, { id, index, name: name.join('\t'), active: rawActive === '1', panes: [] });
+  }
+
+  for (const line of paneOutput.split('\n')) {
+    const [rawWindowId, rawPaneId, rawIndex, rawActive, rawWidth, rawHeight, command, ...cwd] = line.split('\t');
+    const window = windows.get(parseTmuxId(rawWindowId ?? '', '@') ?? -1);
+    const id = parseTmuxId(rawPaneId ?? '', '%');
+    if (!window || id === null || cwd.length === 0) continue;
+
+    window.panes.push({
+      id,
+      index: Number(rawIndex),
+      active: rawActive === '1',
+      width: Number(rawWidth),
+      height: Number(rawHeight),
+      command,
+      cwd: cwd.join('\t'),
+    });
+  }
+
+  return [...windows.values()]
+    .sort((a, b) => a.index - b.index)
+    .map(window => ({ ...window, panes: window.panes.sort((a, b) => a.index - b.index) }));
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+
+/**
+ * WORKSPACE PATHS - API paths ↔ container paths under /workspace
+ * ==============================================================
+ *
+ * The file API addresses files relative to the session worktree ('' is the
+ * root, 'src/index.ts' a file). Every path is normalised and checked before it
+ * reaches a shell command in the container.
+ *
+ * Invariants:
+ * W₁: resolveWorkspacePath(p) ∈ {WORKSPACE_ROOT} ∪ WORKSPACE_ROOT/* or null,
+ *     so '..' can never address a file outside the worktree
+ * W₂: toWorkspaceRelative(resolveWorkspacePath(p)) = normalise(p)
+ */
+
+export const WORKSPACE_ROOT = '/workspace';
+
+export type WorkspaceEntryType = 'file' | 'directory' | 'symlink';
+
+export interface WorkspaceEntry {
+  name: string;
+  path: string;              // Relative to WORKSPACE_ROOT
+  type: WorkspaceEntryType;
+  size: number;
+  modifiedAt: string;
+}
+
+export function resolveWorkspacePath(relativePath: string | undefined): string | null {
+  const input = (relativePath || '').replace(/\\/g, '/');
+  if (input.includes('\0')) return null;
+
+  // Leading slashes are treated as relative to the root, like `/src` → src
+  const resolved = path.posix.normalize(path.posix.join(WORKSPACE_ROOT, input.replace(/^\/+/, '')));
+  if (resolved !== WORKSPACE_ROOT && !resolved.startsWith(`${WORKSPACE_ROOT}/`)) {
+    return null;
+  }
+  return resolved.replace(/\/+$/, '') || WORKSPACE_ROOT;
+}
+
+export function toWorkspaceRelative(absolutePath: string): string {
+  return absolutePath === WORKSPACE_ROOT ? '' : absolutePath.slice(WORKSPACE_ROOT.length + 1);
+}
+
+// Format for `stat -c`, understood by both GNU coreutils and busybox
+export const STAT_LISTING_FORMAT = '%F\t%s\t%Y\t%n';
+
+/**
+ * Parse `stat -c STAT_LISTING_FORMAT` lines for the entries of `directory`.
+ * Directories sort first, then names case-insensitively.
+ */
+export function parseStatListing(output: string, directory: string): WorkspaceEntry[] {
+  const entries: WorkspaceEntry[] = [];
+
+  for (const line of output.split('\n')) {
+    const [kind, rawSize, rawMtime, ...nameParts] = line.split('\t');
+    const name = nameParts.join('\t');
+    if (!name || name === '.' || name === '..' || !Number.isFinite(Number(rawSize))) continue;
+
+    const type: WorkspaceEntryType = kind.includes('directory')
+      ? 'directory'
+      : kind.includes('symbolic link') ? 'symlink' : 'file';
+
+    entries.push({
+      name,
+      path: toWorkspaceRelative(path.posix.join(directory, name)),
+      type,
+      size: Number(rawSize),
+      modifiedAt: new Date(Number(rawMtime) * 1000).toISOString(),
+    });
+  }
+
+  return entries.sort((a, b) => {
+    if ((a.type === 'directory') !== (b.type === 'directory')) {
+      return a.type === 'directory' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+  });
+}
@@ -0,0 +1,49 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * ENVIRONMENT SANDBOX PROFILES - Database Migration
+ * ================================================
+ *
+ * Adds per-environment sandbox configuration:
+ * - sandbox_image: image reference for session containers (null = global SANDBOX_IMAGE)
+ * - resource_profile: small | medium | large | custom
+ * - resource_limits: custom memory/cpus/pids/disk limits (JSONB, used by 'custom')
+ *
+ * Hoare Triple:
+ * {P: environments table exists without sandbox columns}
+ * add_environment_sandbox_profiles()
+ * {Q: ∀e ∈ environments. e.resource_profile = 'small' ∧ e.sandbox_image = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('environments')
+    .addColumn('sandbox_image', 'varchar(255)')
+    .addColumn('resource_profile', 'varchar(20)', (col) => col.notNull().defaultTo('small'))
+    .addColumn('resource_limits', 'jsonb')
+    .execute();
+
+  await sql`
+    ALTER TABLE environments
+    ADD CONSTRAINT environments_resource_profile_check
+    CHECK (resource_profile IN ('small', 'medium', 'large', 'custom'))
+  `.execute(db);
+
+  console.log('✅ Added sandbox_image, resource_profile and resource_limits to environments table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await sql`
+    ALTER TABLE environments
+    DROP CONSTRAINT IF EXISTS environments_resource_profile_check
+  `.execute(db);
+
+  await db.schema
+    .alterTable('environments')
+    .dropColumn('sandbox_image')
+    .dropColumn('resource_profile')
+    .dropColumn('resource_limits')
+    .execute();
+
+  console.log('✅ Removed sandbox profile columns from environments table');
+}
@@ -0,0 +1,51 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * SESSION SHARE LINKS - Database Migration
+ * ========================================
+ *
+ * Share links let other users attach to a session's terminal:
+ * - access: 'read-write' (can type) | 'read-only' (input dropped server-side)
+ * - token_hash: SHA-256 of the link token; the token itself is only returned once
+ * - expires_at: optional expiry (null = valid until revoked)
+ *
+ * Revoking a link deletes its row; deleting a session cascades to its links.
+ *
+ * Hoare Triple:
+ * {P: sessions table exists}
+ * add_session_share_links()
+ * {Q: session_share_links table exists ∧ token_hash unique}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('session_share_links')
+    .addColumn('id', 'uuid', (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn('session_id', 'uuid', (col) => col.references('sessions.id').onDelete('cascade').notNull())
+    .addColumn('created_by', 'uuid', (col) => col.references('users.id').onDelete('cascade').notNull())
+    .addColumn('token_hash', 'varchar(64)', (col) => col.notNull().unique())
+    .addColumn('access', 'varchar(20)', (col) => col.notNull())
+    .addColumn('expires_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', (col) => col.defaultTo(sql`now()`).notNull())
+    .execute();
+
+  await sql`
+    ALTER TABLE session_share_links
+    ADD CONSTRAINT session_share_links_access_check
+    CHECK (access IN ('read-write', 'read-only'))
+  `.execute(db);
+
+  await db.schema
+    .createIndex('session_share_links_session_id_idx')
+    .on('session_share_links')
+    .column('session_id')
+    .execute();
+
+  console.log('✅ Created session_share_links table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('session_share_links').execute();
+
+  console.log('✅ Dropped session_share_links table');
+}
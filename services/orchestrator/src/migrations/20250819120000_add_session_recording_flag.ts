@@ -0,0 +1,34 @@
+import { Kysely } from 'kysely';
+
+/**
+ * SESSION RECORDING - Database Migration
+ * ======================================
+ *
+ * Adds sessions.recording_enabled. When true, every terminal attach for the
+ * session is recorded to an asciicast v2 file under
+ * {CRAFTASTIC_DATA_DIR}/recordings/{session_id}/ (files are not stored in the
+ * database).
+ *
+ * Hoare Triple:
+ * {P: sessions table exists without recording_enabled}
+ * add_session_recording_flag()
+ * {Q: ∀s ∈ sessions. s.recording_enabled = false}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .addColumn('recording_enabled', 'boolean', (col) => col.notNull().defaultTo(false))
+    .execute();
+
+  console.log('✅ Added recording_enabled column to sessions table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .dropColumn('recording_enabled')
+    .execute();
+
+  console.log('✅ Removed recording_enabled column from sessions table');
+}
@@ -0,0 +1,35 @@
+import { Kysely } from 'kysely';
+
+/**
+ * SESSION PULL REQUESTS - Database Migration
+ * ==========================================
+ *
+ * Adds sessions.pr_number and sessions.pr_url: the GitHub pull request opened
+ * from the session's branch to the environment's default branch. Review and
+ * check status is read from GitHub on demand, not stored.
+ *
+ * Hoare Triple:
+ * {P: sessions table exists without pr_number, pr_url}
+ * add_session_pull_requests()
+ * {Q: ∀s ∈ sessions. s.pr_number = null ∧ s.pr_url = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .addColumn('pr_number', 'integer')
+    .addColumn('pr_url', 'text')
+    .execute();
+
+  console.log('✅ Added pr_number and pr_url columns to sessions table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .dropColumn('pr_url')
+    .dropColumn('pr_number')
+    .execute();
+
+  console.log('✅ Removed pr_number and pr_url columns from sessions table');
+}
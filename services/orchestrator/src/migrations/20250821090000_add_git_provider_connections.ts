@@ -0,0 +1,61 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * GIT PROVIDER CONNECTIONS - Database Migration
+ * =============================================
+ *
+ * A connection is one user's account on a forge other than github.com
+ * (which keeps using the users.github_* columns):
+ * - provider: 'gitlab' | 'gitea' | 'generic'
+ * - host: lowercase host[:port] that repository URLs are matched against
+ * - base_url: web root the provider API hangs off (https://gitlab.example.com)
+ * - auth_type: 'oauth' (device flow) | 'token' | 'password' | 'ssh_key'
+ * - client_id: OAuth application id, only for device flows
+ * - encrypted_credentials: lib/encryption.ts blob of { secret, refreshToken };
+ *   null while a device flow has not completed
+ *
+ * Hoare Triple:
+ * {P: users table exists}
+ * add_git_provider_connections()
+ * {Q: git_provider_connections table exists ∧ (user_id, host) unique}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('git_provider_connections')
+    .addColumn('id', 'uuid', (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn('user_id', 'uuid', (col) => col.references('users.id').onDelete('cascade').notNull())
+    .addColumn('provider', 'varchar(20)', (col) => col.notNull())
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('host', 'varchar(255)', (col) => col.notNull())
+    .addColumn('base_url', 'text', (col) => col.notNull())
+    .addColumn('auth_type', 'varchar(20)', (col) => col.notNull())
+    .addColumn('username', 'varchar(255)')
+    .addColumn('client_id', 'varchar(255)')
+    .addColumn('encrypted_credentials', 'text')
+    .addColumn('token_expires_at', 'timestamp')
+    .addColumn('created_at', 'timestamp', (col) => col.defaultTo(sql`now()`).notNull())
+    .addColumn('updated_at', 'timestamp', (col) => col.defaultTo(sql`now()`).notNull())
+    .addUniqueConstraint('git_provider_connections_user_host_unique', ['user_id', 'host'])
+    .execute();
+
+  await sql`
+    ALTER TABLE git_provider_connections
+    ADD CONSTRAINT git_provider_connections_provider_check
+    CHECK (provider IN ('gitlab', 'gitea', 'generic'))
+  `.execute(db);
+
+  await sql`
+    ALTER TABLE git_provider_connections
+    ADD CONSTRAINT git_provider_connections_auth_type_check
+    CHECK (auth_type IN ('oauth', 'token', 'password', 'ssh_key'))
+  `.execute(db);
+
+  console.log('✅ Created git_provider_connections table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('git_provider_connections').execute();
+
+  console.log('✅ Dropped git_provider_connections table');
+}
@@ -0,0 +1,41 @@
+import { Kysely } from 'kysely';
+
+/**
+ * ENVIRONMENT DEPLOY KEYS - Database Migration
+ * ============================================
+ *
+ * One ed25519 SSH key pair per environment, registered by the user as a
+ * deploy key on the repository:
+ * - deploy_key_public: OpenSSH public key line, returned by the API
+ * - deploy_key_fingerprint: SHA256 fingerprint, as shown by forges
+ * - encrypted_deploy_key: private key, encrypted with lib/encryption.ts
+ *
+ * Hoare Triple:
+ * {P: environments table exists without deploy key columns}
+ * add_environment_deploy_keys()
+ * {Q: ∀e ∈ environments. e.deploy_key_public = null ∧ e.encrypted_deploy_key = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('environments')
+    .addColumn('deploy_key_public', 'text')
+    .addColumn('deploy_key_fingerprint', 'varchar(100)')
+    .addColumn('encrypted_deploy_key', 'text')
+    .addColumn('deploy_key_created_at', 'timestamp')
+    .execute();
+
+  console.log('✅ Added deploy key columns to environments table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('environments')
+    .dropColumn('deploy_key_created_at')
+    .dropColumn('encrypted_deploy_key')
+    .dropColumn('deploy_key_fingerprint')
+    .dropColumn('deploy_key_public')
+    .execute();
+
+  console.log('✅ Removed deploy key columns from environments table');
+}
@@ -0,0 +1,50 @@
+import { Kysely } from 'kysely';
+
+/**
+ * ENVIRONMENT FETCH STATUS - Database Migration
+ * =============================================
+ *
+ * Bookkeeping for the background fetch of each environment's bare repository
+ * (services/repository-fetcher.ts):
+ * - last_fetched_at: last successful fetch
+ * - last_fetch_error: message of the last failed fetch, cleared on success
+ * - fetch_failures: consecutive failures, drives the backoff
+ * - next_fetch_at: when the scheduler fetches next (null = due now)
+ *
+ * Hoare Triple:
+ * {P: environments table exists without fetch status columns}
+ * add_environment_fetch_status()
+ * {Q: ∀e ∈ environments. e.fetch_failures = 0 ∧ e.next_fetch_at = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('environments')
+    .addColumn('last_fetched_at', 'timestamp')
+    .addColumn('last_fetch_error', 'text')
+    .addColumn('fetch_failures', 'integer', col => col.notNull().defaultTo(0))
+    .addColumn('next_fetch_at', 'timestamp')
+    .execute();
+
+  await db.schema
+    .createIndex('environments_next_fetch_at_idx')
+    .on('environments')
+    .column('next_fetch_at')
+    .execute();
+
+  console.log('✅ Added fetch status columns to environments table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('environments_next_fetch_at_idx').ifExists().execute();
+
+  await db.schema
+    .alterTable('environments')
+    .dropColumn('next_fetch_at')
+    .dropColumn('fetch_failures')
+    .dropColumn('last_fetch_error')
+    .dropColumn('last_fetched_at')
+    .execute();
+
+  console.log('✅ Removed fetch status columns from environments table');
+}
@@ -0,0 +1,57 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * AGENT TASKS - Database Migration
+ * ================================
+ *
+ * An agent task is one prompt run non-interactively by an agent in a
+ * session's container (services/agent-tasks.ts):
+ * - status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+ * - tmux_window_id: the task's tmux window (id without '@') while it runs
+ * - base_commit: HEAD of the session worktree when the task started; the
+ *   task's diff is taken against it
+ * - transcript, exit_code, diff: filled in when the task finishes
+ *
+ * Hoare Triple:
+ * {P: sessions, agents and users tables exist}
+ * add_agent_tasks()
+ * {Q: agent_tasks table exists ∧ status ∈ the five statuses above}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('agent_tasks')
+    .addColumn('id', 'uuid', (col) => col.primaryKey().defaultTo(sql`gen_random_uuid()`))
+    .addColumn('user_id', 'uuid', (col) => col.references('users.id').onDelete('cascade').notNull())
+    .addColumn('session_id', 'uuid', (col) => col.references('sessions.id').onDelete('cascade').notNull())
+    .addColumn('agent_id', 'uuid', (col) => col.references('agents.id').onDelete('cascade').notNull())
+    .addColumn('prompt', 'text', (col) => col.notNull())
+    .addColumn('status', 'varchar(20)', (col) => col.notNull().defaultTo('queued'))
+    .addColumn('tmux_window_id', 'integer')
+    .addColumn('base_commit', 'varchar(64)')
+    .addColumn('exit_code', 'integer')
+    .addColumn('transcript', 'text')
+    .addColumn('diff', 'text')
+    .addColumn('error', 'text')
+    .addColumn('created_at', 'timestamp', (col) => col.defaultTo(sql`now()`).notNull())
+    .addColumn('started_at', 'timestamp')
+    .addColumn('finished_at', 'timestamp')
+    .execute();
+
+  await sql`
+    ALTER TABLE agent_tasks
+    ADD CONSTRAINT agent_tasks_status_check
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'))
+  `.execute(db);
+
+  await db.schema.createIndex('agent_tasks_session_id_idx').on('agent_tasks').column('session_id').execute();
+  await db.schema.createIndex('agent_tasks_status_idx').on('agent_tasks').column('status').execute();
+
+  console.log('✅ Created agent_tasks table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('agent_tasks').execute();
+
+  console.log('✅ Dropped agent_tasks table');
+}
@@ -0,0 +1,53 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * AGENT TASK QUEUE - Database Migration
+ * =====================================
+ *
+ * Queue columns for agent_tasks (services/agent-tasks.ts):
+ * - priority: higher runs first; equal priorities run in submission order
+ * - attempts: runs started so far, including the current one
+ * - max_attempts: runs allowed before a failure is final
+ * - run_after: a retried task waits until then
+ *
+ * Hoare Triple:
+ * {P: agent_tasks exists without queue columns}
+ * add_agent_task_queue()
+ * {Q: ∀t ∈ agent_tasks. t.priority = 0 ∧ t.attempts = (t.started_at ≠ null ? 1 : 0)
+ *     ∧ t.max_attempts = 1 ∧ t.run_after = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('agent_tasks')
+    .addColumn('priority', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('attempts', 'integer', (col) => col.notNull().defaultTo(0))
+    .addColumn('max_attempts', 'integer', (col) => col.notNull().defaultTo(1))
+    .addColumn('run_after', 'timestamp')
+    .execute();
+
+  await sql`UPDATE agent_tasks SET attempts = 1 WHERE started_at IS NOT NULL`.execute(db);
+
+  // The queue's scan order
+  await db.schema
+    .createIndex('agent_tasks_queue_idx')
+    .on('agent_tasks')
+    .expression(sql`priority DESC, created_at ASC`)
+    .where(sql.ref('status'), '=', 'queued')
+    .execute();
+
+  console.log('✅ Added queue columns to agent_tasks table');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('agent_tasks_queue_idx').execute();
+  await db.schema
+    .alterTable('agent_tasks')
+    .dropColumn('run_after')
+    .dropColumn('max_attempts')
+    .dropColumn('attempts')
+    .dropColumn('priority')
+    .execute();
+
+  console.log('✅ Removed queue columns from agent_tasks table');
+}
@@ -0,0 +1,53 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * AGENT ATTENTION - Database Migration
+ * ====================================
+ *
+ * - sessions.agent_state: what the agent in an agent session is doing, as
+ *   last seen by services/agent-watcher.ts - 'working' | 'idle' |
+ *   'awaiting_input', or null when it is not being watched
+ * - sessions.agent_state_changed_at: when agent_state last changed
+ * - users.agent_webhook_url: optional URL notified when an agent needs attention
+ *
+ * Hoare Triple:
+ * {P: sessions, users exist without these columns}
+ * add_agent_attention()
+ * {Q: ∀s ∈ sessions. s.agent_state = null ∧ ∀u ∈ users. u.agent_webhook_url = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .addColumn('agent_state', 'varchar(20)')
+    .addColumn('agent_state_changed_at', 'timestamp')
+    .execute();
+
+  await sql`
+    ALTER TABLE sessions
+    ADD CONSTRAINT sessions_agent_state_check
+    CHECK (agent_state IN ('working', 'idle', 'awaiting_input'))
+  `.execute(db);
+
+  await db.schema
+    .alterTable('users')
+    .addColumn('agent_webhook_url', 'text')
+    .execute();
+
+  console.log('✅ Added agent_state to sessions and agent_webhook_url to users');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('users').dropColumn('agent_webhook_url').execute();
+  await db.schema
+    .alterTable('sessions')
+    .dropConstraint('sessions_agent_state_check')
+    .execute();
+  await db.schema
+    .alterTable('sessions')
+    .dropColumn('agent_state_changed_at')
+    .dropColumn('agent_state')
+    .execute();
+
+  console.log('✅ Removed agent_state from sessions and agent_webhook_url from users');
+}
@@ -0,0 +1,78 @@
+import { Kysely, sql } from 'kysely';
+
+/**
+ * AGENT MCP CONFIGS - Database Migration
+ * ======================================
+ *
+ * MCP server definitions are declared per user, per agent and per
+ * environment (see services/agent-mcp.ts). Each level is one encrypted row
+ * with config_type = 'mcp_servers':
+ * - user_agent_configs: the user's own; unique per (user, agent type, config
+ *   type) instead of per (user, agent type), so a user can hold more than one
+ *   kind of config
+ * - agent_configs (new): per agent record, mirroring the other two tables
+ * - environment_agent_configs: gains updated_at and the same uniqueness
+ *
+ * Hoare Triple:
+ * {P: user_agent_configs, environment_agent_configs exist; agent_configs does not}
+ * add_agent_mcp_configs()
+ * {Q: agent_configs exists ∧ each table holds at most one row per owner,
+ *     agent type and config type}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex('user_agent_configs_user_agent_unique').ifExists().execute();
+  await db.schema
+    .createIndex('user_agent_configs_user_agent_config_unique')
+    .on('user_agent_configs')
+    .columns(['user_id', 'agent_type', 'config_type'])
+    .unique()
+    .execute();
+
+  await db.schema
+    .alterTable('environment_agent_configs')
+    .addColumn('updated_at', 'timestamp', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`))
+    .execute();
+  await db.schema
+    .createIndex('environment_agent_configs_environment_agent_config_unique')
+    .on('environment_agent_configs')
+    .columns(['environment_id', 'agent_type', 'config_type'])
+    .unique()
+    .execute();
+
+  await db.schema
+    .createTable('agent_configs')
+    .addColumn('id', 'serial', (col) => col.primaryKey())
+    .addColumn('agent_id', 'uuid', (col) =>
+      col.references('agents.id').onDelete('cascade').notNull())
+    .addColumn('config_type', 'varchar(50)', (col) => col.notNull())
+    .addColumn('encrypted_value', 'text', (col) => col.notNull())
+    .addColumn('created_at', 'timestamp', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`))
+    .addColumn('updated_at', 'timestamp', (col) => col.defaultTo(sql`CURRENT_TIMESTAMP`))
+    .execute();
+  await db.schema
+    .createIndex('agent_configs_agent_config_unique')
+    .on('agent_configs')
+    .columns(['agent_id', 'config_type'])
+    .unique()
+    .execute();
+
+  console.log('✅ Added agent_configs and per-config-type uniqueness for agent configs');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('agent_configs').ifExists().execute();
+
+  await db.schema.dropIndex('environment_agent_configs_environment_agent_config_unique').ifExists().execute();
+  await db.schema.alterTable('environment_agent_configs').dropColumn('updated_at').execute();
+
+  await db.schema.dropIndex('user_agent_configs_user_agent_config_unique').ifExists().execute();
+  await db.schema
+    .createIndex('user_agent_configs_user_agent_unique')
+    .on('user_agent_configs')
+    .columns(['user_id', 'agent_type'])
+    .unique()
+    .execute();
+
+  console.log('✅ Removed agent_configs');
+}
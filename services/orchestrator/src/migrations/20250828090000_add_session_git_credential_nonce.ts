@@ -0,0 +1,34 @@
+import { Kysely } from 'kysely';
+
+/**
+ * SESSION GIT CREDENTIAL NONCE - Database Migration
+ * ================================================
+ *
+ * - sessions.git_credential_nonce: nonce inside the session token of the
+ *   session's current container (services/git-credentials.ts). Replaced for
+ *   every new container and cleared on revocation; a token whose nonce no
+ *   longer matches is refused by the git proxy
+ *
+ * Tokens of containers created before this migration carry no nonce, so they
+ * stop working; those containers reach their remote again once recreated.
+ *
+ * Hoare Triple:
+ * {P: sessions exists without git_credential_nonce}
+ * add_session_git_credential_nonce()
+ * {Q: ∀s ∈ sessions. s.git_credential_nonce = null}
+ */
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('sessions')
+    .addColumn('git_credential_nonce', 'varchar(64)')
+    .execute();
+
+  console.log('✅ Added git_credential_nonce to sessions');
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('sessions').dropColumn('git_credential_nonce').execute();
+
+  console.log('✅ Removed git_credential_nonce from sessions');
+}
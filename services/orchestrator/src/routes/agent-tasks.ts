@@ -0,0 +1,131 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { isValidBranchName } from '../lib/git-refs';
+import {
+  AgentTaskError,
+  cancelAgentTask,
+  getAgentTask,
+  listAgentTasks,
+  setAgentTaskPriority,
+  submitAgentTask,
+} from '../services/agent-tasks';
+
+/**
+ * AGENT TASKS
+ * ===========
+ *
+ * Routes (prefix /api/agent-tasks):
+ * - POST  /                   { prompt, agentId?, sessionId } or
+ *                             { prompt, agentId, environmentId, branch, name? }
+ *                             plus { priority?, maxAttempts? } submit
+ * - GET   /?sessionId=        the caller's tasks, newest first (no transcript or diff)
+ * - GET   /:taskId            one task with its transcript and diff
+ * - PATCH /:taskId            { priority } reorder a queued task
+ * - POST  /:taskId/cancel     cancel a queued or running task
+ *
+ * Tasks run asynchronously: submitting returns the queued task, and clients
+ * poll GET /:taskId for its status. Owner-only.
+ */
+
+const SubmitAgentTaskSchema = z
+  .object({
+    prompt: z.string().min(1).max(100_000),
+    agentId: z.string().uuid().optional(),
+    sessionId: z.string().uuid().optional(),
+    environmentId: z.string().uuid().optional(),
+    branch: z.string().refine(isValidBranchName, 'Invalid branch name').optional(),
+    name: z.string().min(1).max(100).optional(),
+    priority: z.number().int().min(-100).max(100).optional(),
+    maxAttempts: z.number().int().min(1).max(10).optional(),
+  })
+  .refine(body => !!body.sessionId !== !!(body.environmentId && body.branch), {
+    message: 'Give either sessionId, or environmentId and branch',
+  });
+
+const UpdateAgentTaskSchema = z.object({
+  priority: z.number().int().min(-100).max(100),
+});
+
+export const agentTaskRoutes: FastifyPluginAsync = async (server) => {
+  const invalidBody = (reply: FastifyReply, error: z.ZodError) => {
+    reply.code(400).send({
+      error: 'Invalid request',
+      details: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    });
+  };
+
+  const sendError = (reply: FastifyReply, action: string, error: unknown) => {
+    if (error instanceof AgentTaskError) {
+      reply.code(error.statusCode).send({ error: error.message });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error trying to ${action}:`, error);
+    reply.code(500).send({ error: `Failed to ${action}`, details: message });
+  };
+
+  server.post('/', async (request, reply) => {
+    const parsed = SubmitAgentTaskSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      invalidBody(reply, parsed.error);
+      return;
+    }
+
+    const { prompt, agentId, sessionId, environmentId, branch, name, priority, maxAttempts } = parsed.data;
+    try {
+      const task = await submitAgentTask({
+        userId: request.user.sub,
+        prompt,
+        agentId,
+        priority,
+        maxAttempts,
+        target: sessionId ? { sessionId } : { environmentId: environmentId!, branch: branch!, name },
+      });
+      reply.code(202).send(task);
+    } catch (error) {
+      sendError(reply, 'submit task', error);
+    }
+  });
+
+  server.get('/', async (request, reply) => {
+    const { sessionId } = request.query as { sessionId?: string };
+    try {
+      reply.send({ tasks: await listAgentTasks(request.user.sub, { sessionId }) });
+    } catch (error) {
+      sendError(reply, 'list tasks', error);
+    }
+  });
+
+  server.get('/:taskId', async (request, reply) => {
+    const { taskId } = request.params as { taskId: string };
+    try {
+      reply.send(await getAgentTask(request.user.sub, taskId));
+    } catch (error) {
+      sendError(reply, 'get task', error);
+    }
+  });
+
+  server.patch('/:taskId', async (request, reply) => {
+    const { taskId } = request.params as { taskId: string };
+    const parsed = UpdateAgentTaskSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      invalidBody(reply, parsed.error);
+      return;
+    }
+
+    try {
+      reply.send(await setAgentTaskPriority(request.user.sub, taskId, parsed.data.priority));
+    } catch (error) {
+      sendError(reply, 'update task', error);
+    }
+  });
+
+  server.post('/:taskId/cancel', async (request, reply) => {
+    const { taskId } = request.params as { taskId: string };
+    try {
+      reply.send(await cancelAgentTask(request.user.sub, taskId));
+    } catch (error) {
+      sendError(reply, 'cancel task', error);
+    }
+  });
+};
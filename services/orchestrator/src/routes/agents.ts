@@ -2,15 +2,32 @@ import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { getDatabase } from '../lib/kysely';
 import { encryptCredentials, decryptCredentials } from '../lib/encryption.js';
+import { AGENT_TYPES, AgentCredential } from '../lib/agent-plugins';
+import { AgentPluginError, describeAgentPlugins, getAgentPlugin } from '../services/agent-plugins';
+import { execInContainer } from '../services/container-exec';
+import { AgentWebhookError, assertWebhookTarget } from '../services/agent-watcher';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 
+/**
+ * AGENTS
+ * ======
+ *
+ * Agent records and their single credential. What each agent type accepts and
+ * how it is launched lives in services/agent-plugins.ts:
+ * - GET /plugins                     agent types and their credential types
+ * - GET /:agentId/health?environmentId=  CLI installed? credential in place?
+ * - POST /:agentId/setup/start|ingest    interactive login, then store its result
+ * - GET|PUT /notifications           webhook called when an agent needs the user
+ *                                    (services/agent-watcher.ts)
+ */
+
 // Validation schemas
 const CreateAgentSchema = z.object({
   userId: z.string().min(1),
   name: z.string().min(1).max(255),
-  type: z.enum(['claude-code', 'gemini-cli', 'qwen-coder', 'cursor-cli']),
+  type: z.enum(AGENT_TYPES),
   credential: z.object({
     type: z.string().min(1), // oauth, anthropic_api_key, etc.
     value: z.string().min(1) // credential value
@@ -25,8 +42,80 @@ const UpdateAgentSchema = z.object({
   }).optional()
 });
 
+const NotificationSettingsSchema = z.object({
+  webhookUrl: z.string().url().max(2000).refine(url => /^https?:\/\//i.test(url), {
+    message: 'Webhook URL must use http or https',
+  }).nullable(),
+});
+
+// The credential must be one the agent's plugin knows how to install
+function assertCredentialType(agentType: string, credentialType: string) {
+  const plugin = getAgentPlugin(agentType);
+  if (!plugin.credentialTypes.some(candidate => candidate.type === credentialType)) {
+    throw new AgentPluginError(400, `${plugin.displayName} does not accept '${credentialType}' credentials`);
+  }
+}
+
+const dataDir = () => process.env.CRAFTASTIC_DATA_DIR || path.join(os.homedir(), '.craftastic');
+
 const agents: FastifyPluginAsync = async function (fastify) {
   const db = getDatabase();
+
+  fastify.get('/plugins', async function (_request, reply) {
+    reply.send({ plugins: describeAgentPlugins() });
+  });
+
+  fastify.get('/notifications', async function (request, reply) {
+    try {
+      const user = await db
+        .selectFrom('users')
+        .select(['agent_webhook_url'])
+        .where('id', '=', request.user.sub)
+        .executeTakeFirst();
+
+      if (!user) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+      reply.send({ webhookUrl: user.agent_webhook_url });
+    } catch (error) {
+      console.error('Error fetching notification settings:', error);
+      reply.status(500).send({ error: 'Failed to fetch notification settings' });
+    }
+  });
+
+  fastify.put('/notifications', async function (request, reply) {
+    const validation = NotificationSettingsSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Invalid request data',
+        details: validation.error.issues
+      });
+    }
+
+    try {
+      if (validation.data.webhookUrl !== null) {
+        await assertWebhookTarget(validation.data.webhookUrl);
+      }
+
+      const user = await db
+        .updateTable('users')
+        .set({ agent_webhook_url: validation.data.webhookUrl, updated_at: new Date() })
+        .where('id', '=', request.user.sub)
+        .returning(['agent_webhook_url'])
+        .executeTakeFirst();
+
+      if (!user) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+      reply.send({ webhookUrl: user.agent_webhook_url });
+    } catch (error) {
+      if (error instanceof AgentWebhookError) {
+        return reply.status(error.statusCode).send({ error: 'Invalid request data', details: error.message });
+      }
+      console.error('Error updating notification settings:', error);
+      reply.status(500).send({ error: 'Failed to update notification settings' });
+    }
+  });
   
   // Get all agents for a user
   fastify.get('/user/:userId', async function (request, reply) {
@@ -121,6 +210,10 @@ const agents: FastifyPluginAsync = async function (fastify) {
     const { userId, name, type, credential } = validation.data;
 
     try {
+      if (credential) {
+        assertCredentialType(type, credential.type);
+      }
+
       // Start a transaction
       const result = await db.transaction().execute(async (trx) => {
         // Create the agent
@@ -153,6 +246,9 @@ const agents: FastifyPluginAsync = async function (fastify) {
 
       reply.status(201).send(result);
     } catch (error) {
+      if (error instanceof AgentPluginError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
       fastify.log.error('Error creating agent:', error);
       reply.status(500).send({ error: 'Failed to create agent' });
     }
@@ -184,6 +280,9 @@ const agents: FastifyPluginAsync = async function (fastify) {
         if (!existingAgent) {
           throw new Error('Agent not found');
         }
+        if (credential) {
+          assertCredentialType(existingAgent.type, credential.type);
+        }
 
         // Update agent if name is provided
         if (name) {
@@ -226,7 +325,9 @@ const agents: FastifyPluginAsync = async function (fastify) {
       reply.send(result);
     } catch (error: any) {
       fastify.log.error('Error updating agent:', error);
-      if (error.message === 'Agent not found') {
+      if (error instanceof AgentPluginError) {
+        reply.status(error.statusCode).send({ error: error.message });
+      } else if (error.message === 'Agent not found') {
         reply.status(404).send({ error: 'Agent not found' });
       } else {
         reply.status(500).send({ error: 'Failed to update agent' });
@@ -256,7 +357,7 @@ const agents: FastifyPluginAsync = async function (fastify) {
     }
   });
 
-  // ========== Agent Setup (Claude CLI) ==========
+  // ========== Agent Setup (interactive login, see AgentPlugin.bootstrap) ==========
   // Start setup: create an agent session and ensure agent HOME directory exists on host
   fastify.post('/:agentId/setup/start', async function (request, reply) {
     const { agentId } = request.params as { agentId: string };
@@ -288,8 +389,7 @@ const agents: FastifyPluginAsync = async function (fastify) {
       }
 
       // Ensure host HOME path for this agent exists
-      const dataDir = process.env.CRAFTASTIC_DATA_DIR || path.join(os.homedir(), '.craftastic');
-      const hostHome = path.join(dataDir, 'agents', agentId, 'home');
+      const hostHome = path.join(dataDir(), 'agents', agentId, 'home');
       await fs.mkdir(hostHome, { recursive: true });
 
       // Create a minimal agent session for setup
@@ -317,7 +417,8 @@ const agents: FastifyPluginAsync = async function (fastify) {
     }
   });
 
-  // Ingest credentials after setup: read ~/.claude.json from host, store in DB
+  // Ingest credentials after setup: the token seen in the terminal, or the
+  // agent's credentials file from its HOME (in the setup container, else on the host)
   fastify.post('/:agentId/setup/ingest', async function (request, reply) {
     const { agentId } = request.params as { agentId: string };
     const db = getDatabase();
@@ -325,54 +426,47 @@ const agents: FastifyPluginAsync = async function (fastify) {
       const body = (request.body as any) || {};
       const agent = await db
         .selectFrom('agents')
-        .select(['id'])
+        .select(['id', 'type'])
         .where('id', '=', agentId)
         .executeTakeFirst();
       if (!agent) return reply.status(404).send({ error: 'Agent not found' });
 
-      // If a token is provided directly, store it and return
-      if (body.token && typeof body.token === 'string') {
-        await db.transaction().execute(async (trx) => {
-          await trx.deleteFrom('agent_credentials').where('agent_id', '=', agentId).execute();
-          await trx
-            .insertInto('agent_credentials')
-            .values({
-              agent_id: agentId,
-              type: 'claude_oauth_token',
-              encrypted_value: encryptCredentials(body.token),
-            })
-            .execute();
-        });
-        return reply.send({ success: true, mode: 'token' });
-      }
-
-      const dataDir = process.env.CRAFTASTIC_DATA_DIR || path.join(os.homedir(), '.craftastic');
-      const hostHome = path.join(dataDir, 'agents', agentId, 'home');
-      const candidates = [
-        path.join(hostHome, '.claude.json'),
-        path.join(hostHome, '.claude', 'settings.json'),
-        path.join(hostHome, '.config', 'claude', 'settings.json'),
-      ];
+      const plugin = getAgentPlugin(agent.type);
+      const setupSession = await db
+        .selectFrom('sessions')
+        .select(['container_id'])
+        .where('agent_id', '=', agentId)
+        .where('status', '!=', 'dead')
+        .where('container_id', 'is not', null)
+        .orderBy('created_at', 'desc')
+        .executeTakeFirst();
 
-      let jsonContent = '';
+      const containerHome = `/data/agents/${agentId}/home`;
+      const hostHome = path.join(dataDir(), 'agents', agentId, 'home');
       let usedPath: string | null = null;
-      for (const p of candidates) {
+      const readHome = async (relativePath: string): Promise<string | null> => {
+        if (setupSession?.container_id) {
+          const { stdout, exitCode } = await execInContainer(
+            setupSession.container_id,
+            ['cat', `${containerHome}/${relativePath}`],
+            { timeoutMs: 10_000 }
+          );
+          if (exitCode === 0) {
+            usedPath = `${containerHome}/${relativePath}`;
+            return stdout;
+          }
+        }
         try {
-          jsonContent = await fs.readFile(p, 'utf8');
-          usedPath = p;
-          break;
-        } catch {}
-      }
-      if (!usedPath) {
-        return reply.status(400).send({ error: 'Credentials file not found', details: candidates });
-      }
+          const content = await fs.readFile(path.join(hostHome, relativePath), 'utf8');
+          usedPath = path.join(hostHome, relativePath);
+          return content;
+        } catch {
+          return null;
+        }
+      };
 
-      // Validate JSON
-      try {
-        JSON.parse(jsonContent);
-      } catch {
-        return reply.status(400).send({ error: 'Invalid JSON in credentials file' });
-      }
+      const token = typeof body.token === 'string' && body.token ? body.token : undefined;
+      const credential: AgentCredential = await plugin.ingest(readHome, token);
 
       // Upsert credential: one credential per agent
       await db.transaction().execute(async (trx) => {
@@ -384,19 +478,76 @@ const agents: FastifyPluginAsync = async function (fastify) {
           .insertInto('agent_credentials')
           .values({
             agent_id: agentId,
-            type: 'claude_cli_json',
-            encrypted_value: encryptCredentials(jsonContent),
+            type: credential.type,
+            encrypted_value: encryptCredentials(credential.value),
           })
           .execute();
       });
 
-      reply.send({ success: true, mode: 'file', path: usedPath });
+      reply.send(token ? { success: true, mode: 'token' } : { success: true, mode: 'file', path: usedPath });
     } catch (error: any) {
+      if (error instanceof AgentPluginError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
       request.server.log.error('Failed to ingest agent credentials:', error);
       reply.status(500).send({ error: 'Failed to ingest agent credentials', details: error?.message });
     }
   });
 
+  // Is the agent's CLI installed in the environment's session containers, and its credential in place?
+  fastify.get('/:agentId/health', async function (request, reply) {
+    const { agentId } = request.params as { agentId: string };
+    const { environmentId } = request.query as { environmentId?: string };
+
+    try {
+      const agent = await db
+        .selectFrom('agents')
+        .select(['id', 'type', 'user_id'])
+        .where('id', '=', agentId)
+        .executeTakeFirst();
+      if (!agent) return reply.status(404).send({ error: 'Agent not found' });
+      if (!environmentId) return reply.status(400).send({ error: 'environmentId is required' });
+
+      const environment = await db
+        .selectFrom('environments')
+        .select(['id', 'user_id', 'container_id'])
+        .where('id', '=', environmentId)
+        .executeTakeFirst();
+      if (!environment) return reply.status(404).send({ error: 'Environment not found' });
+      if (environment.user_id !== agent.user_id) return reply.status(403).send({ error: 'Access denied' });
+
+      // Prefer a container this agent runs in; any live session container of the environment will do
+      const session = await db
+        .selectFrom('sessions')
+        .select(['container_id'])
+        .where('environment_id', '=', environmentId)
+        .where('status', '!=', 'dead')
+        .where('container_id', 'is not', null)
+        .orderBy(eb => eb.case().when('agent_id', '=', agentId).then(0).else(1).end())
+        .orderBy('created_at', 'desc')
+        .executeTakeFirst();
+      const containerId = session?.container_id ?? environment.container_id;
+      if (!containerId) {
+        return reply.status(400).send({ error: 'Environment not ready', details: 'No running container to check the agent in' });
+      }
+
+      const stored = await db
+        .selectFrom('agent_credentials')
+        .select(['type'])
+        .where('agent_id', '=', agentId)
+        .executeTakeFirst();
+
+      const plugin = getAgentPlugin(agent.type);
+      reply.send(await plugin.healthCheck(containerId, `/data/agents/${agentId}/home`, stored?.type ?? null));
+    } catch (error: any) {
+      if (error instanceof AgentPluginError) {
+        return reply.status(error.statusCode).send({ error: error.message });
+      }
+      fastify.log.error('Error checking agent health:', error);
+      reply.status(500).send({ error: 'Failed to check agent health', details: error?.message });
+    }
+  });
+
   // Get agent credentials (for internal use by session creation)
   fastify.get('/:agentId/credentials', async function (request, reply) {
     const { agentId } = request.params as { agentId: string };
@@ -1,8 +1,26 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { Updateable } from 'kysely';
 import { getDatabase } from '../lib/kysely';
+import type { EnvironmentTable } from '../lib/database-types';
+import {
+  ResourceLimits,
+  ResourceLimitsSchema,
+  ResourceProfileName,
+  ResourceProfileSchema,
+} from '../lib/resource-profiles';
 import { destroySandbox, getDocker } from '../services/docker';
 import { userService } from '../services/user';
+import {
+  DeployKeyError,
+  deleteDeployKey,
+  ensureDeployKey,
+  rotateDeployKey,
+  syncEnvironmentContainers,
+} from '../services/deploy-keys';
+import { fetchEnvironmentRepository } from '../services/repository-fetcher';
 import { config } from '../config';
+import type { AgentState } from '../lib/agent-state';
 
 export interface Environment {
   id: string;
@@ -12,10 +30,30 @@ export interface Environment {
   branch: string;
   containerId?: string;
   status: 'running' | 'stopped' | 'starting' | 'error';
+  sandboxImage?: string;
+  resourceProfile?: ResourceProfileName;
+  resourceLimits?: ResourceLimits;
+  useSshClone: boolean;
+  deployKeyFingerprint?: string;   // set once a deploy key was generated
+  lastFetchedAt?: string;          // background fetch of the bare repository
+  lastFetchError?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Docker image reference, e.g. "python:3.12", "ghcr.io/org/image:tag@sha256:..."
+const IMAGE_REFERENCE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._\-\/:@]*$/;
+
+const SandboxSettingsSchema = z.object({
+  sandboxImage: z.string().trim().max(255).regex(IMAGE_REFERENCE_PATTERN, 'Invalid image reference').nullable().optional(),
+  resourceProfile: ResourceProfileSchema.optional(),
+  resourceLimits: ResourceLimitsSchema.nullable().optional(),
+});
+
+const EnvironmentSettingsSchema = SandboxSettingsSchema.extend({
+  useSshClone: z.boolean().optional(),
+});
+
 export interface Session {
   id: string;
   environmentId: string;
@@ -29,6 +67,10 @@ export interface Session {
   agentId?: string;
   sessionType: 'terminal' | 'agent';
   gitBranch?: string;
+  prNumber?: number;         // Pull request opened from gitBranch
+  prUrl?: string;
+  agentState?: AgentState;   // see services/agent-watcher.ts
+  agentStateChangedAt?: string;
 }
 
 export async function environmentRoutes(fastify: FastifyInstance) {
@@ -36,17 +78,31 @@ export async function environmentRoutes(fastify: FastifyInstance) {
 
   // Create new environment
   fastify.post('/environments', async (request, reply) => {
-    const { userId, name, repositoryUrl, branch = 'main' } = request.body as {
+    const { userId, name, repositoryUrl, branch = 'main', useSshClone = false, ...sandboxSettings } = request.body as {
       userId: string;
       name: string;
       repositoryUrl?: string;
       branch?: string;
+      useSshClone?: boolean;
+      sandboxImage?: string | null;
+      resourceProfile?: ResourceProfileName;
+      resourceLimits?: ResourceLimits | null;
     };
 
+    const sandbox = SandboxSettingsSchema.safeParse(sandboxSettings);
+    if (!sandbox.success) {
+      reply.code(400).send({
+        error: 'Invalid sandbox settings',
+        details: sandbox.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+    const { sandboxImage, resourceProfile = 'small', resourceLimits } = sandbox.data;
+
     try {
       // Check if Docker image exists BEFORE creating environment
       const docker = getDocker();
-      const imageName = config.SANDBOX_IMAGE;
+      const imageName = sandboxImage || config.SANDBOX_IMAGE;
       
       try {
         const images = await docker.listImages({
@@ -55,7 +111,8 @@ export async function environmentRoutes(fastify: FastifyInstance) {
           }
         });
         
-        if (images.length === 0) {
+        // Custom images are pulled when the first session container is created
+        if (images.length === 0 && imageName === config.SANDBOX_IMAGE) {
           reply.code(400).send({
             error: 'Docker image not found',
             details: `Docker image '${imageName}' not found. Please build it first with:\ndocker build -f services/orchestrator/docker/sandbox.Dockerfile -t ${imageName} .`
@@ -115,6 +172,10 @@ export async function environmentRoutes(fastify: FastifyInstance) {
           repository_url: repositoryUrl || null,
           branch,
           status: 'ready', // Ready for sessions to be created, no container
+          sandbox_image: sandboxImage || null,
+          resource_profile: resourceProfile,
+          resource_limits: resourceProfile === 'custom' ? resourceLimits || null : null,
+          use_ssh_clone: !!useSshClone,
         })
         .returningAll()
         .executeTakeFirstOrThrow();
@@ -127,6 +188,13 @@ export async function environmentRoutes(fastify: FastifyInstance) {
         branch: environment.branch,
         containerId: undefined, // Environments never have containers
         status: environment.status,
+        sandboxImage: environment.sandbox_image || undefined,
+        resourceProfile: environment.resource_profile,
+        resourceLimits: environment.resource_limits || undefined,
+        useSshClone: environment.use_ssh_clone,
+        deployKeyFingerprint: environment.deploy_key_fingerprint || undefined,
+        lastFetchedAt: environment.last_fetched_at?.toISOString(),
+        lastFetchError: environment.last_fetch_error || undefined,
         createdAt: environment.created_at.toISOString(),
         updatedAt: environment.updated_at.toISOString(),
       };
@@ -179,6 +247,8 @@ export async function environmentRoutes(fastify: FastifyInstance) {
           updatedAt: session.updated_at.toISOString(),
           lastActivity: session.last_activity?.toISOString(),
           gitBranch: session.git_branch,
+          prNumber: session.pr_number ?? undefined,
+          prUrl: session.pr_url ?? undefined,
         });
         return acc;
       }, {} as Record<string, Session[]>);
@@ -191,6 +261,13 @@ export async function environmentRoutes(fastify: FastifyInstance) {
         branch: row.branch,
         containerId: row.container_id || undefined,
         status: row.status,
+        sandboxImage: row.sandbox_image || undefined,
+        resourceProfile: row.resource_profile,
+        resourceLimits: row.resource_limits || undefined,
+        useSshClone: row.use_ssh_clone,
+        deployKeyFingerprint: row.deploy_key_fingerprint || undefined,
+        lastFetchedAt: row.last_fetched_at?.toISOString(),
+        lastFetchError: row.last_fetch_error || undefined,
         createdAt: row.created_at.toISOString(),
         updatedAt: row.updated_at.toISOString(),
         sessions: sessionsByEnvironment[row.id] || [],
@@ -227,6 +304,13 @@ export async function environmentRoutes(fastify: FastifyInstance) {
         branch: result.branch,
         containerId: result.container_id || undefined,
         status: result.status,
+        sandboxImage: result.sandbox_image || undefined,
+        resourceProfile: result.resource_profile,
+        resourceLimits: result.resource_limits || undefined,
+        useSshClone: result.use_ssh_clone,
+        deployKeyFingerprint: result.deploy_key_fingerprint || undefined,
+        lastFetchedAt: result.last_fetched_at?.toISOString(),
+        lastFetchError: result.last_fetch_error || undefined,
         createdAt: result.created_at.toISOString(),
         updatedAt: result.updated_at.toISOString(),
       };
@@ -238,6 +322,218 @@ export async function environmentRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * UPDATE SANDBOX SETTINGS
+   * =======================
+   *
+   * {P: environment ∈ E ∧ owner(environment) = user}
+   * PATCH /environments/:environmentId { sandboxImage?, resourceProfile?, resourceLimits?, useSshClone? }
+   * {Q: environment sandbox settings updated}
+   *
+   * Only containers created after the update pick up the new image and limits;
+   * running session containers keep the configuration they were created with.
+   * useSshClone switches the bare repository's origin on its next use.
+   */
+  fastify.patch('/environments/:environmentId', async (request, reply) => {
+    const { environmentId } = request.params as { environmentId: string };
+
+    const parsed = EnvironmentSettingsSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid sandbox settings',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+    const { sandboxImage, resourceProfile, resourceLimits, useSshClone } = parsed.data;
+
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.code(401).send({ error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      const existing = await db
+        .selectFrom('environments')
+        .select(['id', 'user_id', 'resource_profile'])
+        .where('id', '=', environmentId)
+        .executeTakeFirst();
+
+      if (!existing) {
+        reply.code(404).send({ error: 'Environment not found' });
+        return;
+      }
+
+      if (existing.user_id !== userId) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+
+      const updates: Updateable<EnvironmentTable> = { updated_at: new Date() };
+      if (sandboxImage !== undefined) {
+        updates.sandbox_image = sandboxImage || null;
+      }
+      if (resourceProfile !== undefined) {
+        updates.resource_profile = resourceProfile;
+      }
+      if (useSshClone !== undefined) {
+        updates.use_ssh_clone = useSshClone;
+      }
+      const effectiveProfile = resourceProfile ?? existing.resource_profile;
+      if (effectiveProfile !== 'custom') {
+        updates.resource_limits = null;
+      } else if (resourceLimits !== undefined) {
+        updates.resource_limits = resourceLimits || null;
+      }
+
+      const result = await db
+        .updateTable('environments')
+        .set(updates)
+        .where('id', '=', environmentId)
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      const environment: Environment = {
+        id: result.id,
+        userId: result.user_id,
+        name: result.name,
+        repositoryUrl: result.repository_url || undefined,
+        branch: result.branch,
+        containerId: result.container_id || undefined,
+        status: result.status,
+        sandboxImage: result.sandbox_image || undefined,
+        resourceProfile: result.resource_profile,
+        resourceLimits: result.resource_limits || undefined,
+        useSshClone: result.use_ssh_clone,
+        deployKeyFingerprint: result.deploy_key_fingerprint || undefined,
+        lastFetchedAt: result.last_fetched_at?.toISOString(),
+        lastFetchError: result.last_fetch_error || undefined,
+        createdAt: result.created_at.toISOString(),
+        updatedAt: result.updated_at.toISOString(),
+      };
+
+      reply.send(environment);
+    } catch (error) {
+      console.error('Error updating environment:', error);
+      reply.code(500).send({ error: 'Failed to update environment' });
+    }
+  });
+
+  /**
+   * DEPLOY KEY
+   * ==========
+   *
+   * - GET    /environments/:environmentId/deploy-key          public key, generated on first request
+   * - POST   /environments/:environmentId/deploy-key/rotate   replace the key pair
+   * - DELETE /environments/:environmentId/deploy-key          remove the key pair
+   *
+   * Register the public key as a deploy key on the repository (with write
+   * access to push). The private key never leaves the server except into the
+   * environment's session containers; rotating and removing update running
+   * containers too (see services/deploy-keys.ts).
+   */
+  const verifyEnvironmentOwner = async (request: FastifyRequest, reply: FastifyReply): Promise<string | null> => {
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.code(401).send({ error: 'Unauthorized' });
+      return null;
+    }
+
+    const { environmentId } = request.params as { environmentId: string };
+    const environment = await db
+      .selectFrom('environments')
+      .select(['id', 'user_id'])
+      .where('id', '=', environmentId)
+      .executeTakeFirst();
+
+    if (!environment) {
+      reply.code(404).send({ error: 'Environment not found' });
+      return null;
+    }
+    if (environment.user_id !== userId) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+    return environment.id;
+  };
+
+  const sendDeployKeyError = (reply: FastifyReply, action: string, error: unknown) => {
+    if (error instanceof DeployKeyError) {
+      reply.code(error.statusCode).send({ error: error.message });
+      return;
+    }
+    console.error(`Error trying to ${action}:`, error);
+    reply.code(500).send({ error: `Failed to ${action}`, details: error instanceof Error ? error.message : 'Unknown error' });
+  };
+
+  fastify.get('/environments/:environmentId/deploy-key', async (request, reply) => {
+    try {
+      const environmentId = await verifyEnvironmentOwner(request, reply);
+      if (!environmentId) return;
+
+      reply.send(await ensureDeployKey(environmentId));
+    } catch (error) {
+      sendDeployKeyError(reply, 'get deploy key', error);
+    }
+  });
+
+  fastify.post('/environments/:environmentId/deploy-key/rotate', async (request, reply) => {
+    try {
+      const environmentId = await verifyEnvironmentOwner(request, reply);
+      if (!environmentId) return;
+
+      const deployKey = await rotateDeployKey(environmentId);
+      await syncEnvironmentContainers(environmentId);
+      reply.send(deployKey);
+    } catch (error) {
+      sendDeployKeyError(reply, 'rotate deploy key', error);
+    }
+  });
+
+  fastify.delete('/environments/:environmentId/deploy-key', async (request, reply) => {
+    try {
+      const environmentId = await verifyEnvironmentOwner(request, reply);
+      if (!environmentId) return;
+
+      await deleteDeployKey(environmentId);
+      await syncEnvironmentContainers(environmentId);
+      reply.send({ success: true });
+    } catch (error) {
+      sendDeployKeyError(reply, 'delete deploy key', error);
+    }
+  });
+
+  /**
+   * POST /environments/:environmentId/fetch
+   * {Q: bare repository fetched now ∧ result = { lastFetchedAt, lastFetchError, fetchFailures, nextFetchAt }}
+   *
+   * Same fetch as the background scheduler (services/repository-fetcher.ts),
+   * but clones the bare repository when there is none yet. A failed fetch
+   * still answers 200; lastFetchError says why.
+   */
+  fastify.post('/environments/:environmentId/fetch', async (request, reply) => {
+    try {
+      const environmentId = await verifyEnvironmentOwner(request, reply);
+      if (!environmentId) return;
+
+      const environment = await db
+        .selectFrom('environments')
+        .select('repository_url')
+        .where('id', '=', environmentId)
+        .executeTakeFirstOrThrow();
+      if (!environment.repository_url) {
+        reply.code(400).send({ error: 'Environment has no repository' });
+        return;
+      }
+
+      reply.send(await fetchEnvironmentRepository(environmentId));
+    } catch (error) {
+      console.error('Error fetching repository:', error);
+      reply.code(500).send({ error: 'Failed to fetch repository', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
   // Check environment name availability
   fastify.get('/environments/check-name/:userId/:name', async (request, reply) => {
     const { userId, name } = request.params as { userId: string; name: string };
@@ -0,0 +1,167 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { getDatabase } from '../lib/kysely';
+import { ensureContainerRunning } from '../services/docker';
+import { execInContainer, streamExecInContainer } from '../services/container-exec';
+
+/**
+ * SESSION EXEC - One-off commands in a session's container
+ * ========================================================
+ *
+ * Routes (prefix /api/sessions):
+ * - POST /:sessionId/exec          run to completion → { exitCode, stdout, stderr, timedOut, truncated, durationMs }
+ * - POST /:sessionId/exec/stream   same command, output as Server-Sent Events
+ *
+ * Hoare Triple:
+ * {P: owner(session) = user ∧ session.container_id ≠ null}
+ * POST /:sessionId/exec { command, cwd?, env?, timeoutMs? }
+ * {Q: command ran in the container (started if stopped) with cwd ∈ /workspace
+ *     by default ∧ it was killed after timeoutMs}
+ *
+ * Commands run outside tmux, so they never show up in (or disturb) the
+ * session's terminal. Owner-only: share links never grant exec.
+ */
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_TIMEOUT_MS = 60 * 60_000;
+
+const ExecSchema = z.object({
+  command: z.union([z.string().min(1), z.array(z.string()).min(1)]),
+  cwd: z.string().startsWith('/').optional(),
+  env: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.string()).optional(),
+  timeoutMs: z.number().int().positive().max(MAX_TIMEOUT_MS).optional(),
+});
+
+export const execRoutes: FastifyPluginAsync = async (server) => {
+  const db = getDatabase();
+
+  /**
+   * Validate the body and resolve the session's running container, replying
+   * with the error (and returning null) when the command cannot run.
+   */
+  const prepareExec = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const parsed = ExecSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid exec request',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return null;
+    }
+
+    const session = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['s.container_id', 'e.user_id'])
+      .where('s.id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      reply.code(404).send({ error: 'Session not found' });
+      return null;
+    }
+    if (session.user_id !== request.user?.sub) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+    if (!session.container_id) {
+      reply.code(409).send({
+        error: 'Session has no container',
+        details: 'Open the session terminal once to create its container'
+      });
+      return null;
+    }
+
+    await ensureContainerRunning(session.container_id);
+
+    const { command, cwd, env, timeoutMs } = parsed.data;
+    return {
+      sessionId,
+      containerId: session.container_id,
+      command,
+      options: { cwd: cwd || '/workspace', env, timeoutMs: timeoutMs || DEFAULT_TIMEOUT_MS },
+    };
+  };
+
+  server.post('/:sessionId/exec', async (request, reply) => {
+    try {
+      const prepared = await prepareExec(request, reply);
+      if (!prepared) return;
+
+      const startedAt = Date.now();
+      const result = await execInContainer(prepared.containerId, prepared.command, prepared.options);
+
+      reply.send({ ...result, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      console.error('Error running command in session:', error);
+      reply.code(500).send({
+        error: 'Failed to run command',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * Events: `stdout` / `stderr` (data: JSON string chunk), then one `exit`
+   * ({ exitCode, timedOut, durationMs }) or `error` ({ error }). Closing the
+   * request detaches from the command.
+   */
+  server.post('/:sessionId/exec/stream', async (request, reply) => {
+    let prepared;
+    try {
+      prepared = await prepareExec(request, reply);
+    } catch (error) {
+      console.error('Error preparing streamed command:', error);
+      reply.code(500).send({
+        error: 'Failed to run command',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return;
+    }
+    if (!prepared) return;
+
+    reply.hijack();
+    const res = reply.raw;
+    res.writeHead(200, {
+      ...(reply.getHeaders() as Record<string, string>),  // Keep CORS headers set by hooks
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    const abort = new AbortController();
+    // The response closes before we end it only when the client went away
+    res.on('close', () => {
+      if (!res.writableEnded) abort.abort();
+    });
+
+    const startedAt = Date.now();
+    try {
+      const { exitCode, timedOut } = await streamExecInContainer(
+        prepared.containerId,
+        prepared.command,
+        prepared.options,
+        {
+          onStdout: chunk => sendEvent('stdout', chunk.toString('utf8')),
+          onStderr: chunk => sendEvent('stderr', chunk.toString('utf8')),
+          signal: abort.signal,
+        }
+      );
+      sendEvent('exit', { exitCode, timedOut, durationMs: Date.now() - startedAt });
+    } catch (error) {
+      console.error(`Error streaming command in session ${prepared.sessionId}:`, error);
+      sendEvent('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      res.end();
+    }
+  });
+};
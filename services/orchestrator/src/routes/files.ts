@@ -0,0 +1,258 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import path from 'path';
+import { z } from 'zod';
+import { getDatabase } from '../lib/kysely';
+import { WORKSPACE_ROOT, resolveWorkspacePath, toWorkspaceRelative } from '../lib/workspace-paths';
+import { ensureContainerRunning } from '../services/docker';
+import {
+  MAX_EDITABLE_FILE_BYTES,
+  WorkspaceFileError,
+  archivePath,
+  deletePath,
+  listDirectory,
+  readFile,
+  renamePath,
+  writeFile,
+} from '../services/workspace-files';
+
+/**
+ * WORKSPACE FILES
+ * ===============
+ *
+ * Routes (prefix /api/sessions), paths relative to /workspace:
+ * - GET    /:sessionId/files?path=dir                 list a directory
+ * - GET    /:sessionId/files/content?path=file        read a text file (≤ 2 MiB)
+ * - PUT    /:sessionId/files/content                  { path, content } write a text file (≤ 2 MiB)
+ * - POST   /:sessionId/files/rename                   { from, to }
+ * - DELETE /:sessionId/files?path=p                   delete a file or directory
+ * - PUT    /:sessionId/files/upload?path=file         raw body (application/octet-stream)
+ * - GET    /:sessionId/files/archive?path=p           download as .tar
+ *
+ * Everything runs inside the session container (see services/workspace-files.ts).
+ * Owner-only, like the other session routes.
+ */
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// An editable file sent as JSON: escaping takes at most six characters a byte
+// (\u0000), plus room for the path and the rest of the envelope
+const MAX_WRITE_BODY_BYTES = MAX_EDITABLE_FILE_BYTES * 6 + 64 * 1024;
+
+const WriteFileSchema = z.object({
+  path: z.string().min(1),
+  content: z.string(),
+});
+
+const RenameSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+export const fileRoutes: FastifyPluginAsync = async (server) => {
+  const db = getDatabase();
+
+  // Uploads are sent as the raw file body (scoped to this plugin)
+  server.addContentTypeParser(
+    'application/octet-stream',
+    { parseAs: 'buffer', bodyLimit: MAX_UPLOAD_BYTES },
+    (_request, body, done) => done(null, body)
+  );
+
+  const getContainer = async (request: FastifyRequest, reply: FastifyReply): Promise<string | null> => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const session = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['s.container_id', 'e.user_id'])
+      .where('s.id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      reply.code(404).send({ error: 'Session not found' });
+      return null;
+    }
+    if (session.user_id !== request.user?.sub) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+    if (!session.container_id) {
+      reply.code(409).send({ error: 'Session has no container', details: 'Open the session terminal first' });
+      return null;
+    }
+
+    await ensureContainerRunning(session.container_id);
+    return session.container_id;
+  };
+
+  const resolvePath = (reply: FastifyReply, relativePath: string | undefined) => {
+    const resolved = resolveWorkspacePath(relativePath);
+    if (!resolved) {
+      reply.code(400).send({ error: 'Invalid path', details: `Paths must stay inside ${WORKSPACE_ROOT}` });
+    }
+    return resolved;
+  };
+
+  const sendError = (reply: FastifyReply, action: string, error: unknown) => {
+    if (error instanceof WorkspaceFileError && error.statusCode < 500) {
+      reply.code(error.statusCode).send({ error: error.message });
+      return;
+    }
+    console.error(`Error trying to ${action}:`, error);
+    reply.code(500).send({ error: `Failed to ${action}`, details: error instanceof Error ? error.message : 'Unknown error' });
+  };
+
+  server.get('/:sessionId/files', async (request, reply) => {
+    const { path: relativePath } = request.query as { path?: string };
+
+    try {
+      const directory = resolvePath(reply, relativePath);
+      if (!directory) return;
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      const entries = await listDirectory(containerId, directory);
+      reply.send({ path: toWorkspaceRelative(directory), entries });
+    } catch (error) {
+      sendError(reply, 'list directory', error);
+    }
+  });
+
+  server.get('/:sessionId/files/content', async (request, reply) => {
+    const { path: relativePath } = request.query as { path?: string };
+
+    try {
+      const file = resolvePath(reply, relativePath);
+      if (!file) return;
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      const content = await readFile(containerId, file);
+      reply.send({ path: toWorkspaceRelative(file), ...content });
+    } catch (error) {
+      sendError(reply, 'read file', error);
+    }
+  });
+
+  server.put('/:sessionId/files/content', { bodyLimit: MAX_WRITE_BODY_BYTES }, async (request, reply) => {
+    const parsed = WriteFileSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid file write',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+
+    try {
+      if (Buffer.byteLength(parsed.data.content) > MAX_EDITABLE_FILE_BYTES) {
+        // It could be saved, but never opened in the editor again
+        reply.code(413).send({ error: `File is larger than ${MAX_EDITABLE_FILE_BYTES / 1024 / 1024} MiB` });
+        return;
+      }
+      const file = resolvePath(reply, parsed.data.path);
+      if (!file) return;
+      if (file === WORKSPACE_ROOT) {
+        reply.code(400).send({ error: 'Invalid path', details: 'Path must name a file' });
+        return;
+      }
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      const size = await writeFile(containerId, file, parsed.data.content);
+      reply.send({ path: toWorkspaceRelative(file), size });
+    } catch (error) {
+      sendError(reply, 'write file', error);
+    }
+  });
+
+  server.put('/:sessionId/files/upload', async (request, reply) => {
+    const { path: relativePath } = request.query as { path?: string };
+
+    if (!Buffer.isBuffer(request.body)) {
+      reply.code(415).send({ error: 'Upload the file as application/octet-stream' });
+      return;
+    }
+
+    try {
+      const file = resolvePath(reply, relativePath);
+      if (!file) return;
+      if (file === WORKSPACE_ROOT) {
+        reply.code(400).send({ error: 'Invalid path', details: 'Path must name a file' });
+        return;
+      }
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      const size = await writeFile(containerId, file, request.body);
+      reply.code(201).send({ path: toWorkspaceRelative(file), size });
+    } catch (error) {
+      sendError(reply, 'upload file', error);
+    }
+  });
+
+  server.post('/:sessionId/files/rename', async (request, reply) => {
+    const parsed = RenameSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid rename',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+
+    try {
+      const from = resolvePath(reply, parsed.data.from);
+      if (!from) return;
+      const to = resolvePath(reply, parsed.data.to);
+      if (!to) return;
+      if (from === WORKSPACE_ROOT || to === WORKSPACE_ROOT) {
+        reply.code(400).send({ error: 'Invalid path', details: 'Cannot rename the workspace root' });
+        return;
+      }
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      await renamePath(containerId, from, to);
+      reply.send({ from: toWorkspaceRelative(from), to: toWorkspaceRelative(to) });
+    } catch (error) {
+      sendError(reply, 'rename', error);
+    }
+  });
+
+  server.delete('/:sessionId/files', async (request, reply) => {
+    const { path: relativePath } = request.query as { path?: string };
+
+    try {
+      const target = resolvePath(reply, relativePath);
+      if (!target) return;
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      await deletePath(containerId, target);
+      reply.send({ success: true });
+    } catch (error) {
+      sendError(reply, 'delete', error);
+    }
+  });
+
+  server.get('/:sessionId/files/archive', async (request, reply) => {
+    const { path: relativePath } = request.query as { path?: string };
+
+    try {
+      const target = resolvePath(reply, relativePath);
+      if (!target) return;
+      const containerId = await getContainer(request, reply);
+      if (!containerId) return;
+
+      const archive = await archivePath(containerId, target);
+      const name = path.posix.basename(target).replace(/[^\w.-]/g, '_') || 'workspace';
+      reply
+        .header('Content-Type', 'application/x-tar')
+        .header('Content-Disposition', `attachment; filename="${name}.tar"`)
+        .send(archive);
+    } catch (error) {
+      sendError(reply, 'download archive', error);
+    }
+  });
+};
@@ -0,0 +1,179 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { userService } from '../services/user';
+import { DeviceFlowPendingError, GitProviderError, describeGitProviders, getGitProvider } from '../services/git-providers';
+import {
+  completeDeviceFlow,
+  createConnection,
+  deleteConnection,
+  getConnection,
+  getConnectionSecret,
+  listConnections,
+  startDeviceFlow,
+} from '../services/git-connections';
+
+/**
+ * GIT PROVIDERS AND CONNECTIONS
+ * =============================
+ *
+ * Routes (prefix /api/git/providers):
+ * - GET    /                                     providers and the user's connections
+ * - POST   /connections                          { provider, name, baseUrl, authType,
+ *                                                 username?, clientId?, secret? }
+ * - DELETE /connections/:connectionId            remove (or disconnect GitHub)
+ * - POST   /connections/:connectionId/device      start an OAuth device flow
+ * - POST   /connections/:connectionId/device/poll { deviceCode } finish it
+ * - GET    /connections/:connectionId/repos       ?page&per_page&search repositories
+ *
+ * 'github' is the built-in github.com connection; its device flow stores the
+ * token exactly like /api/auth/github/poll. Secrets are write-only: responses
+ * only say whether a connection is `connected`.
+ */
+
+const CreateConnectionSchema = z.object({
+  provider: z.enum(['gitlab', 'gitea', 'generic']),
+  name: z.string().trim().min(1).max(100),
+  baseUrl: z.string().trim().min(1).max(500),
+  authType: z.enum(['oauth', 'token', 'password', 'ssh_key']),
+  username: z.string().trim().min(1).max(255).optional(),
+  clientId: z.string().trim().min(1).max(255).optional(),
+  secret: z.string().min(1).max(16_384).optional(),
+});
+
+const DevicePollSchema = z.object({
+  deviceCode: z.string().min(1),
+});
+
+const RepositoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(50),
+  search: z.string().trim().max(100).optional(),
+});
+
+type ConnectionRequest = FastifyRequest<{ Params: { connectionId: string } }>;
+
+export const gitProviderRoutes: FastifyPluginAsync = async (server) => {
+  const getUserId = async (request: FastifyRequest, reply: FastifyReply) => {
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.status(401).send({ success: false, error: 'Unauthorized' });
+      return null;
+    }
+    return userService.resolveUserId(userId);
+  };
+
+  const invalidRequest = (reply: FastifyReply, error: z.ZodError) =>
+    reply.status(400).send({
+      success: false,
+      error: `Invalid request: ${error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`,
+    });
+
+  const sendError = (reply: FastifyReply, label: string, error: unknown) => {
+    if (error instanceof GitProviderError && error.statusCode < 500) {
+      return reply.status(error.statusCode).send({ success: false, error: error.message });
+    }
+    console.error(`${label} error:`, error);
+    return reply.status(error instanceof GitProviderError ? error.statusCode : 500).send({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  };
+
+  server.get('/', async (request, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      return reply.send({
+        success: true,
+        data: { providers: describeGitProviders(), connections: await listConnections(userId) },
+      });
+    } catch (error) {
+      return sendError(reply, 'List git providers', error);
+    }
+  });
+
+  server.post('/connections', async (request, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      const parsed = CreateConnectionSchema.safeParse(request.body ?? {});
+      if (!parsed.success) return invalidRequest(reply, parsed.error);
+
+      const connection = await createConnection(userId, parsed.data);
+      return reply.status(201).send({ success: true, data: connection });
+    } catch (error) {
+      return sendError(reply, 'Create git connection', error);
+    }
+  });
+
+  server.delete('/connections/:connectionId', async (request: ConnectionRequest, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      await deleteConnection(userId, request.params.connectionId);
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendError(reply, 'Delete git connection', error);
+    }
+  });
+
+  server.post('/connections/:connectionId/device', async (request: ConnectionRequest, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      const connection = await getConnection(userId, request.params.connectionId);
+      return reply.send({ success: true, data: await startDeviceFlow(connection) });
+    } catch (error) {
+      return sendError(reply, 'Start device flow', error);
+    }
+  });
+
+  server.post('/connections/:connectionId/device/poll', async (request: ConnectionRequest, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      const parsed = DevicePollSchema.safeParse(request.body ?? {});
+      if (!parsed.success) return invalidRequest(reply, parsed.error);
+
+      const connection = await getConnection(userId, request.params.connectionId);
+      return reply.send({ success: true, data: await completeDeviceFlow(connection, parsed.data.deviceCode) });
+    } catch (error) {
+      // V₂: the dashboard keeps polling
+      if (error instanceof DeviceFlowPendingError) {
+        return reply.send({ success: false, pending: true, error: error.code });
+      }
+      return sendError(reply, 'Poll device flow', error);
+    }
+  });
+
+  server.get('/connections/:connectionId/repos', async (request: ConnectionRequest, reply) => {
+    try {
+      const userId = await getUserId(request, reply);
+      if (!userId) return;
+
+      const parsed = RepositoryQuerySchema.safeParse(request.query ?? {});
+      if (!parsed.success) return invalidRequest(reply, parsed.error);
+
+      const connection = await getConnection(userId, request.params.connectionId);
+      const provider = getGitProvider(connection.provider);
+      if (!provider.listRepositories) {
+        return reply.status(400).send({ success: false, error: `${provider.displayName} connections cannot list repositories` });
+      }
+      const token = await getConnectionSecret(connection);
+      if (!token) {
+        return reply.status(400).send({ success: false, error: `${connection.name} authentication required` });
+      }
+
+      const { page, per_page: perPage, search } = parsed.data;
+      const repositories = await provider.listRepositories(connection, token, { page, perPage, search });
+      return reply.send({ success: true, data: repositories });
+    } catch (error) {
+      return sendError(reply, 'List repositories', error);
+    }
+  });
+};
@@ -0,0 +1,127 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import http from 'http';
+import https from 'https';
+import { GIT_PROXY_ROUTE } from '../lib/git-credentials';
+import { GitCredentialError, resolveGitProxyRequest } from '../services/git-credentials';
+
+/**
+ * GIT PROXY - Smart HTTP git for session containers
+ * =================================================
+ *
+ * Routes:
+ * - GET|POST /git/proxy/:protocol/:host/*   → {protocol}://{host}/*
+ *
+ * Session containers rewrite their https remote to this route
+ * (lib/git-credentials.ts). git first comes without credentials and gets a
+ * 401 challenge; its helper then answers with the session token as the
+ * Basic auth password. The request is forwarded with the owner's credential
+ * in place of the token, and the response streamed back unchanged.
+ *
+ * Outside /api on purpose: callers authenticate with the session token, not
+ * a user JWT, so the API preHandler skips this route. Only git's smart HTTP
+ * endpoints of the environment's own repository are served (G₁, K₂).
+ *
+ * Invariants:
+ * X₁: the session token never reaches the upstream, and the owner's
+ *     credential never reaches the container
+ */
+
+// Request headers git needs upstream; everything else stays here (X₁)
+const FORWARDED_REQUEST_HEADERS = [
+  'accept',
+  'accept-encoding',
+  'content-encoding',
+  'content-length',
+  'content-type',
+  'git-protocol',
+  'user-agent',
+];
+
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+function basicPassword(header: string | undefined): string | null {
+  if (!header?.startsWith('Basic ')) return null;
+  const decoded = Buffer.from(header.slice(6).trim(), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  return separator >= 0 ? decoded.slice(separator + 1) : null;
+}
+
+export async function gitProxyRoutes(fastify: FastifyInstance) {
+  // Leave request bodies (packfiles) unparsed so they can be streamed upstream
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', (_request, _payload, done) => done(null));
+
+  const handleProxy = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { protocol, host, '*': rest } = request.params as { protocol: string; host: string; '*': string };
+    if (protocol !== 'https' && protocol !== 'http') {
+      return reply.status(404).send({ success: false, error: 'Not found' });
+    }
+
+    const token = basicPassword(request.headers.authorization);
+    if (!token) {
+      return reply
+        .status(401)
+        .header('www-authenticate', 'Basic realm="craftastic"')
+        .send({ success: false, error: 'Unauthorized' });
+    }
+
+    let upstreamRequest;
+    try {
+      upstreamRequest = await resolveGitProxyRequest(token, { protocol, host }, `/${rest}`);
+    } catch (error) {
+      if (error instanceof GitCredentialError) {
+        return reply.status(error.statusCode).send({ success: false, error: error.message });
+      }
+      console.error('Git proxy error:', error);
+      return reply.status(500).send({ success: false, error: 'Failed to reach the git remote' });
+    }
+
+    const headers: http.OutgoingHttpHeaders = { authorization: upstreamRequest.authorization };
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      if (request.headers[name] !== undefined) headers[name] = request.headers[name];
+    }
+
+    const query = request.url.includes('?') ? request.url.slice(request.url.indexOf('?')) : '';
+    const client = protocol === 'https' ? https : http;
+
+    reply.hijack();
+    const upstream = client.request(`${upstreamRequest.url}${query}`, { method: request.method, headers });
+
+    upstream.on('response', (response) => {
+      // The owner's credential was refused: no challenge, or git would retry the token
+      const status = response.statusCode === 401 ? 403 : response.statusCode || 502;
+      const responseHeaders = { ...response.headers };
+      for (const name of [...HOP_BY_HOP_HEADERS, 'www-authenticate', 'set-cookie']) {
+        delete responseHeaders[name];
+      }
+      reply.raw.writeHead(status, responseHeaders);
+      response.pipe(reply.raw);
+    });
+
+    upstream.on('error', (error) => {
+      if (reply.raw.headersSent) {
+        reply.raw.destroy(error);
+        return;
+      }
+      reply.raw.writeHead(502, { 'content-type': 'application/json' });
+      reply.raw.end(JSON.stringify({ success: false, error: 'Git remote unavailable', details: error.message }));
+    });
+
+    request.raw.pipe(upstream);
+  };
+
+  fastify.route({
+    method: ['GET', 'POST'],
+    url: `${GIT_PROXY_ROUTE}/:protocol/:host/*`,
+    handler: handleProxy,
+  });
+}
@@ -4,7 +4,36 @@ import { getDatabase } from '../lib/kysely';
 import { gitHubAuthService } from '../services/github-auth';
 import { worktreeService } from '../services/worktree';
 import { userService } from '../services/user';
-import { execCommand } from '../lib/exec';
+import { ensureContainerRunning } from '../services/docker';
+import { createWorktreeManager } from '../services/worktree-manager';
+import {
+  GitBranchError,
+  branchInUseResponse,
+  createBranch,
+  deleteBranch,
+  findSessionOnBranch,
+  listBranches,
+  renameBranch,
+  switchWorktreeBranch,
+} from '../services/git-branches';
+import {
+  GitSyncError,
+  GitSyncResult,
+  abortOperation,
+  continueOperation,
+  fetchOrigin,
+  getOperationState,
+  pull,
+  rebaseOntoDefault,
+  skipOperation,
+} from '../services/git-sync';
+import { GitIdentity, runGit } from '../services/worktree-git';
+import { GitDiffError, HunkAction, applyHunks, getWorktreeDiff } from '../services/git-diff';
+import { GitHubApiError } from '../services/github-pulls';
+import { GitProviderError, getGitProvider } from '../services/git-providers';
+import { getConnectionSecret, resolveConnection } from '../services/git-connections';
+import { fetchEnvironmentRepository } from '../services/repository-fetcher';
+import { GitStashError, applyStash, dropStash, listStashes, pushStash, showStash } from '../services/git-stash';
 
 // Request schemas
 const CommitRequestSchema = z.object({
@@ -20,9 +49,46 @@ const PushRequestSchema = z.object({
 });
 
 const CreateBranchSchema = z.object({
-  sessionId: z.string(),
   branchName: z.string().min(1),
-  fromBranch: z.string().default('main'),
+  fromRef: z.string().min(1).optional(), // defaults to the environment's default branch
+});
+
+const RenameBranchSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+const PullSchema = z.object({
+  mode: z.enum(['merge', 'rebase']).default('merge'),
+});
+
+const HunkActionSchema = z.object({
+  file: z.string().min(1),
+  hunks: z.array(z.object({
+    id: z.string().min(1),
+    lines: z.array(z.number().int().nonnegative()).min(1).optional(), // omitted = whole hunk
+  })).min(1),
+});
+
+const CreatePullRequestSchema = z.object({
+  title: z.string().trim().min(1).max(256),
+  body: z.string().max(65536).optional(),
+  draft: z.boolean().default(false),
+});
+
+const StashPushSchema = z.object({
+  message: z.string().trim().min(1).max(200).regex(/^[^\r\n]*$/, 'must be a single line').optional(),
+  includeUntracked: z.boolean().default(false),
+});
+
+const StashRefSchema = z.object({
+  commit: z.string().regex(/^[0-9a-f]{7,64}$/, 'must be a commit id').optional(), // guards against shifted stash@{n}
+});
+
+const SwitchBranchSchema = z.object({
+  branch: z.string().min(1),
+  create: z.boolean().default(false),
+  fromRef: z.string().min(1).optional(), // with create; defaults to the environment's default branch
 });
 
 // Helper function to get session with user verification
@@ -41,6 +107,78 @@ async function getSessionWithUserVerification(sessionId: string, userId: string)
   return session;
 }
 
+// Helper function to get a repository-backed environment with user verification
+async function getEnvironmentWithUserVerification(environmentId: string, userId: string) {
+  const resolvedUserId = await userService.resolveUserId(userId);
+
+  return getDatabase()
+    .selectFrom('environments')
+    .select(['id', 'repository_url', 'default_branch'])
+    .where('id', '=', environmentId)
+    .where('user_id', '=', resolvedUserId)
+    .executeTakeFirst();
+}
+
+// Why the session's remote cannot be pushed to with a stored credential, or null
+async function getRemoteAuthError(session: { environment_id: string; user_id: string }): Promise<string | null> {
+  const environment = await getDatabase()
+    .selectFrom('environments')
+    .select('repository_url')
+    .where('id', '=', session.environment_id)
+    .executeTakeFirst();
+  if (!environment?.repository_url) return null;
+
+  const resolved = await resolveConnection(session.user_id, environment.repository_url);
+  if (!resolved) return 'No git provider connection for this repository';
+  return resolved.connection.connected ? null : `${resolved.connection.name} authentication required`;
+}
+
+// Author/committer for merge and rebase commits made on the user's behalf
+async function getGitIdentity(userId: string): Promise<GitIdentity> {
+  const resolvedUserId = await userService.resolveUserId(userId);
+  const user = await getDatabase()
+    .selectFrom('users')
+    .select(['name', 'email', 'github_username'])
+    .where('id', '=', resolvedUserId)
+    .executeTakeFirst();
+
+  return {
+    name: user?.name || user?.github_username || 'Craftastic',
+    email: user?.email || `${resolvedUserId}@users.craftastic.local`,
+  };
+}
+
+async function recordGitOperation(
+  sessionId: string,
+  operationType: string,
+  status: string,
+  metadata: unknown,
+  errorMessage: string | null = null
+) {
+  await getDatabase()
+    .insertInto('git_operations')
+    .values({ session_id: sessionId, operation_type: operationType, status, metadata, error_message: errorMessage })
+    .execute()
+    .catch(() => {}); // Ignore logging errors
+}
+
+function validationDetails(error: z.ZodError) {
+  return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+}
+
+function sendGitError(reply: FastifyReply, label: string, error: unknown) {
+  const isGitError = error instanceof GitBranchError || error instanceof GitSyncError || error instanceof GitDiffError ||
+    error instanceof GitStashError || error instanceof GitHubApiError || error instanceof GitProviderError;
+  if (isGitError && error.statusCode < 500) {
+    return reply.status(error.statusCode).send({ success: false, error: error.message });
+  }
+  console.error(`${label} error:`, error);
+  return reply.status(isGitError ? error.statusCode : 500).send({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
+
 export default async function gitRoutes(fastify: FastifyInstance) {
   // GitHub Authentication Routes
   
@@ -220,33 +358,45 @@ export default async function gitRoutes(fastify: FastifyInstance) {
   });
 
   // Git Operations Routes
+  //
+  // Session routes run git in the session container's /workspace worktree
+  // (services/worktree-git.ts); the host never touches session worktrees.
+
+  // Owner's session with a running container, or null after replying
+  const getWorktreeSession = async (request: FastifyRequest<{ Params: { sessionId: string } }>, reply: FastifyReply) => {
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.status(401).send({ success: false, error: 'Unauthorized' });
+      return null;
+    }
+
+    const session = await getSessionWithUserVerification(request.params.sessionId, userId);
+    if (!session) {
+      reply.status(404).send({ success: false, error: 'Session not found' });
+      return null;
+    }
+    if (!session.git_branch) {
+      reply.status(400).send({ success: false, error: 'Session has no git worktree' });
+      return null;
+    }
+    if (!session.container_id) {
+      reply.status(409).send({ success: false, error: 'Session has no container' });
+      return null;
+    }
+
+    await ensureContainerRunning(session.container_id);
+    return { ...session, userId, container_id: session.container_id, git_branch: session.git_branch };
+  };
 
   fastify.get('/api/git/status/:sessionId', async (request: FastifyRequest<{
     Params: { sessionId: string };
   }>, reply: FastifyReply) => {
     try {
-      const { sessionId } = request.params;
-      const userId = request.user?.id;
-
-      if (!userId) {
-        return reply.status(401).send({ success: false, error: 'Unauthorized' });
-      }
-
-      // Get session and verify ownership
-      const session = await getSessionWithUserVerification(sessionId, userId);
-
-      if (!session) {
-        return reply.status(404).send({ success: false, error: 'Session not found' });
-      }
-
-      if (!session.worktree_path) {
-        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
-      }
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
 
       // Get git status
-      const { stdout } = await execCommand('git status --porcelain -b', {
-        cwd: session.worktree_path,
-      });
+      const { stdout } = await runGit(session.container_id, ['status', '--porcelain', '-b']);
 
       // Parse git status output
       const lines = stdout.split('\n').filter(line => line.trim());
@@ -295,7 +445,7 @@ export default async function gitRoutes(fastify: FastifyInstance) {
       console.error('Git status error:', error);
       return reply.status(500).send({
         success: false,
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
@@ -305,55 +455,74 @@ export default async function gitRoutes(fastify: FastifyInstance) {
     Querystring: { file?: string; staged?: boolean };
   }>, reply: FastifyReply) => {
     try {
-      const { sessionId } = request.params;
       const { file, staged } = request.query;
-      const userId = request.user?.id;
 
-      if (!userId) {
-        return reply.status(401).send({ success: false, error: 'Unauthorized' });
-      }
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
 
-      // Get session and verify ownership
-      const session = await getSessionWithUserVerification(sessionId, userId);
-
-      if (!session) {
-        return reply.status(404).send({ success: false, error: 'Session not found' });
-      }
-
-      if (!session.worktree_path) {
-        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
-      }
-
-      // Build git diff command
-      let command = 'git diff';
-      if (staged) {
-        command += ' --staged';
-      }
-      if (file) {
-        command += ` -- "${file}"`;
-      }
-
-      const { stdout } = await execCommand(command, {
-        cwd: session.worktree_path,
-      });
+      const isStaged = String(staged) === 'true';
+      const { diff, files } = await getWorktreeDiff(session.container_id, { staged: isStaged, file });
 
       return reply.send({
         success: true,
         data: {
-          diff: stdout,
+          diff,
+          files,
           file: file || null,
-          staged: staged || false,
+          staged: isStaged,
         },
       });
     } catch (error) {
       console.error('Git diff error:', error);
       return reply.status(500).send({
         success: false,
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
 
+  /**
+   * Hunk staging - POST /api/git/{stage,unstage,discard}-hunks/:sessionId
+   * with { file, hunks: [{ id, lines? }] }, ids and line indices taken from
+   * the structured diff above (see services/git-diff.ts). Answers with the
+   * file's remaining unstaged and staged changes.
+   */
+  const hunkActionHandler = (action: HunkAction) => async (request: FastifyRequest<{
+    Params: { sessionId: string };
+    Body: z.infer<typeof HunkActionSchema>;
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const parsed = HunkActionSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const { file, hunks } = parsed.data;
+      await applyHunks(session.container_id, action, file, hunks);
+      await recordGitOperation(sessionId, `${action}_hunks`, 'success', { file, hunks: hunks.length });
+
+      const [unstaged, staged] = await Promise.all([
+        getWorktreeDiff(session.container_id, { file }),
+        getWorktreeDiff(session.container_id, { file, staged: true }),
+      ]);
+      return reply.send({
+        success: true,
+        data: { file, unstaged: unstaged.files[0] ?? null, staged: staged.files[0] ?? null },
+      });
+    } catch (error) {
+      await recordGitOperation(sessionId, `${action}_hunks`, 'error', request.body, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, `Git ${action} hunks`, error);
+    }
+  };
+
+  fastify.post('/api/git/stage-hunks/:sessionId', hunkActionHandler('stage'));
+  fastify.post('/api/git/unstage-hunks/:sessionId', hunkActionHandler('unstage'));
+  fastify.post('/api/git/discard-hunks/:sessionId', hunkActionHandler('discard'));
+
   fastify.post('/api/git/commit/:sessionId', async (request: FastifyRequest<{
     Params: { sessionId: string };
     Body: z.infer<typeof CommitRequestSchema>;
@@ -363,50 +532,30 @@ export default async function gitRoutes(fastify: FastifyInstance) {
       
       // Validate request body with Zod
       const validatedBody = CommitRequestSchema.parse({
+        ...request.body,
         sessionId,
-        ...request.body
       });
       const { message, files } = validatedBody;
-      
-      const userId = request.user?.id;
-
-      if (!userId) {
-        return reply.status(401).send({ success: false, error: 'Unauthorized' });
-      }
-
-      // Get session and verify ownership
-      const session = await getSessionWithUserVerification(sessionId, userId);
 
-      if (!session) {
-        return reply.status(404).send({ success: false, error: 'Session not found' });
-      }
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
 
-      if (!session.worktree_path) {
-        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
-      }
-
-      // Set up git credentials
-      const token = await gitHubAuthService.getUserToken(userId);
-      if (!token) {
-        return reply.status(400).send({ success: false, error: 'GitHub authentication required' });
+      // The git proxy pushes and fetches with the owner's connection
+      const authError = await getRemoteAuthError(session);
+      if (authError) {
+        return reply.status(400).send({ success: false, error: authError });
       }
 
       // Add files if specified, otherwise add all
       if (files && files.length > 0) {
-        for (const file of files) {
-          await execCommand(`git add "${file}"`, {
-            cwd: session.worktree_path,
-          });
-        }
+        await runGit(session.container_id, ['add', '--', ...files]);
       } else {
-        await execCommand('git add .', {
-          cwd: session.worktree_path,
-        });
+        await runGit(session.container_id, ['add', '.']);
       }
 
       // Commit changes
-      await execCommand(`git commit -m "${message}"`, {
-        cwd: session.worktree_path,
+      await runGit(session.container_id, ['commit', '-m', message], {
+        identity: await getGitIdentity(session.userId),
       });
 
       // Log the operation
@@ -426,22 +575,18 @@ export default async function gitRoutes(fastify: FastifyInstance) {
       });
     } catch (error) {
       // Log failed operation
-      await getDatabase()
-        .insertInto('git_operations')
-        .values({
-          session_id: request.params.sessionId,
-          operation_type: 'commit',
-          status: 'error',
-          error_message: error.message,
-          metadata: request.body,
-        })
-        .execute()
-        .catch(() => {}); // Ignore logging errors
+      await recordGitOperation(
+        request.params.sessionId,
+        'commit',
+        'error',
+        request.body,
+        error instanceof Error ? error.message : String(error)
+      );
 
       console.error('Git commit error:', error);
       return reply.status(500).send({
         success: false,
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
@@ -455,44 +600,23 @@ export default async function gitRoutes(fastify: FastifyInstance) {
       
       // Validate request body with Zod
       const validatedBody = PushRequestSchema.parse({
+        ...request.body,
         sessionId,
-        ...request.body
       });
       const { remote, branch } = validatedBody;
-      
-      const userId = request.user?.id;
 
-      if (!userId) {
-        return reply.status(401).send({ success: false, error: 'Unauthorized' });
-      }
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
 
-      // Get session and verify ownership
-      const session = await getDatabase()
-        .selectFrom('sessions')
-        .innerJoin('environments', 'environments.id', 'sessions.environment_id')
-        .select(['sessions.worktree_path', 'sessions.git_branch', 'environments.user_id'])
-        .where('sessions.id', '=', sessionId)
-        .executeTakeFirst();
-
-      if (!session || session.user_id !== userId) {
-        return reply.status(404).send({ success: false, error: 'Session not found' });
-      }
-
-      if (!session.worktree_path) {
-        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
-      }
-
-      // Set up git credentials
-      const token = await gitHubAuthService.getUserToken(userId);
-      if (!token) {
-        return reply.status(400).send({ success: false, error: 'GitHub authentication required' });
+      // The git proxy pushes and fetches with the owner's connection
+      const authError = await getRemoteAuthError(session);
+      if (authError) {
+        return reply.status(400).send({ success: false, error: authError });
       }
 
       // Push changes
       const pushBranch = branch || session.git_branch || 'main';
-      const { stdout, stderr } = await execCommand(`git push origin ${pushBranch}`, {
-        cwd: session.worktree_path,
-      });
+      const { stdout, stderr } = await runGit(session.container_id, ['push', 'origin', pushBranch]);
 
       // Log the operation
       await getDatabase()
@@ -512,22 +636,18 @@ export default async function gitRoutes(fastify: FastifyInstance) {
       });
     } catch (error) {
       // Log failed operation
-      await getDatabase()
-        .insertInto('git_operations')
-        .values({
-          session_id: request.params.sessionId,
-          operation_type: 'push',
-          status: 'error',
-          error_message: error.message,
-          metadata: request.body,
-        })
-        .execute()
-        .catch(() => {}); // Ignore logging errors
+      await recordGitOperation(
+        request.params.sessionId,
+        'push',
+        'error',
+        request.body,
+        error instanceof Error ? error.message : String(error)
+      );
 
       console.error('Git push error:', error);
       return reply.status(500).send({
         success: false,
-        error: error.message,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
@@ -537,56 +657,766 @@ export default async function gitRoutes(fastify: FastifyInstance) {
     Querystring: { limit?: number; offset?: number };
   }>, reply: FastifyReply) => {
     try {
-      const { sessionId } = request.params;
-      const { limit = 10, offset = 0 } = request.query;
-      const userId = request.user?.id;
+      const limit = Math.max(1, Math.trunc(Number(request.query.limit ?? 10)) || 10);
+      const offset = Math.max(0, Math.trunc(Number(request.query.offset ?? 0)) || 0);
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      // Unit/record separators survive any commit message, unlike a JSON template
+      const { stdout } = await runGit(session.container_id, [
+        'log',
+        '--pretty=format:%H%x1f%an%x1f%ae%x1f%ai%x1f%s%x1e',
+        `--skip=${offset}`,
+        '-n',
+        String(limit),
+      ]);
+
+      const commits = stdout.split('\x1e')
+        .map(record => record.replace(/^\n/, ''))
+        .filter(record => record.trim())
+        .map(record => {
+          const [hash, author, email, date, message] = record.split('\x1f');
+          return { hash, author, email, date, message };
+        })
+        .filter(commit => commit.message !== undefined);
+
+      return reply.send({
+        success: true,
+        data: {
+          commits,
+          limit,
+          offset,
+        },
+      });
+    } catch (error) {
+      console.error('Git log error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * BRANCH MANAGEMENT
+   * =================
+   *
+   * Environment routes operate on the shared bare repository:
+   * - GET    /api/git/branches/:environmentId?fetch=true    local + remote branches
+   * - POST   /api/git/branches/:environmentId               { branchName, fromRef? }
+   * - POST   /api/git/branches/:environmentId/rename        { from, to }
+   * - DELETE /api/git/branches/:environmentId?name=&force=  delete a local branch
+   *
+   * Session route switches the /workspace worktree:
+   * - POST   /api/git/switch/:sessionId                     { branch, create?, fromRef? }
+   *
+   * Invariant (B₂ in services/git-branches.ts): at most one live session per
+   * branch. Switching and deleting answer 409 BRANCH_IN_USE exactly like
+   * session creation, and sessions.git_branch follows renames and switches.
+   */
+
+  fastify.get('/api/git/branches/:environmentId', async (request: FastifyRequest<{
+    Params: { environmentId: string };
+    Querystring: { fetch?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { environmentId } = request.params;
+      const userId = request.user?.sub;
 
       if (!userId) {
         return reply.status(401).send({ success: false, error: 'Unauthorized' });
       }
 
-      // Get session and verify ownership
-      const session = await getSessionWithUserVerification(sessionId, userId);
-
-      if (!session) {
-        return reply.status(404).send({ success: false, error: 'Session not found' });
+      const environment = await getEnvironmentWithUserVerification(environmentId, userId);
+      if (!environment) {
+        return reply.status(404).send({ success: false, error: 'Environment not found' });
+      }
+      if (!environment.repository_url) {
+        return reply.status(400).send({ success: false, error: 'Environment has no repository' });
       }
 
-      if (!session.worktree_path) {
-        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
+      const repoPath = await createWorktreeManager(environmentId).ensureRepository();
+      if (request.query.fetch === 'true') {
+        // Recorded like a scheduled fetch, which it also pushes back
+        const status = await fetchEnvironmentRepository(environmentId);
+        if (status.fetchFailures > 0) {
+          return reply.status(502).send({ success: false, error: status.lastFetchError });
+        }
       }
 
-      // Get git log with JSON format
-      const { stdout } = await execCommand(
-        `git log --pretty=format:'{"hash":"%H","author":"%an","email":"%ae","date":"%ai","message":"%s"}' --skip=${offset} -n ${limit}`,
-        { cwd: session.worktree_path }
-      );
+      const branches = await listBranches(repoPath, environment.default_branch);
 
-      const commits = stdout.split('\n')
-        .filter(line => line.trim())
-        .map(line => {
-          try {
-            return JSON.parse(line);
-          } catch {
-            return null;
-          }
-        })
-        .filter(commit => commit !== null);
+      // Which live session holds each local branch
+      const sessions = await getDatabase()
+        .selectFrom('sessions')
+        .select(['id', 'name', 'git_branch'])
+        .where('environment_id', '=', environmentId)
+        .where('status', '!=', 'dead')
+        .where('git_branch', 'is not', null)
+        .execute();
+      const sessionByBranch = new Map(sessions.map(session => [session.git_branch, session]));
 
       return reply.send({
         success: true,
         data: {
-          commits,
-          limit,
-          offset,
+          defaultBranch: environment.default_branch,
+          local: branches
+            .filter(branch => !branch.remote)
+            .map(branch => ({
+              ...branch,
+              sessionId: sessionByBranch.get(branch.name)?.id ?? null,
+              sessionName: sessionByBranch.get(branch.name)?.name ?? null,
+            })),
+          remote: branches.filter(branch => branch.remote),
         },
       });
     } catch (error) {
-      console.error('Git log error:', error);
-      return reply.status(500).send({
-        success: false,
-        error: error.message,
+      return sendGitError(reply, 'List branches', error);
+    }
+  });
+
+  fastify.post('/api/git/branches/:environmentId', async (request: FastifyRequest<{
+    Params: { environmentId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { environmentId } = request.params;
+      const userId = request.user?.sub;
+
+      if (!userId) {
+        return reply.status(401).send({ success: false, error: 'Unauthorized' });
+      }
+
+      const parsed = CreateBranchSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: 'Invalid branch', details: validationDetails(parsed.error) });
+      }
+
+      const environment = await getEnvironmentWithUserVerification(environmentId, userId);
+      if (!environment) {
+        return reply.status(404).send({ success: false, error: 'Environment not found' });
+      }
+      if (!environment.repository_url) {
+        return reply.status(400).send({ success: false, error: 'Environment has no repository' });
+      }
+
+      const repoPath = await createWorktreeManager(environmentId).ensureRepository();
+      const branch = await createBranch(
+        repoPath,
+        parsed.data.branchName,
+        parsed.data.fromRef || environment.default_branch
+      );
+
+      return reply.status(201).send({ success: true, data: branch });
+    } catch (error) {
+      return sendGitError(reply, 'Create branch', error);
+    }
+  });
+
+  fastify.post('/api/git/branches/:environmentId/rename', async (request: FastifyRequest<{
+    Params: { environmentId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { environmentId } = request.params;
+      const userId = request.user?.sub;
+
+      if (!userId) {
+        return reply.status(401).send({ success: false, error: 'Unauthorized' });
+      }
+
+      const parsed = RenameBranchSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: 'Invalid rename', details: validationDetails(parsed.error) });
+      }
+      const { from, to } = parsed.data;
+
+      const environment = await getEnvironmentWithUserVerification(environmentId, userId);
+      if (!environment) {
+        return reply.status(404).send({ success: false, error: 'Environment not found' });
+      }
+      if (!environment.repository_url) {
+        return reply.status(400).send({ success: false, error: 'Environment has no repository' });
+      }
+      if (from === environment.default_branch) {
+        return reply.status(400).send({ success: false, error: 'Cannot rename the default branch' });
+      }
+
+      const holder = await findSessionOnBranch(environmentId, to);
+      if (holder) {
+        return reply.status(409).send({ success: false, ...branchInUseResponse(to, holder) });
+      }
+
+      const repoPath = await createWorktreeManager(environmentId).ensureRepository();
+      await renameBranch(repoPath, from, to);
+
+      // git moved any worktree on `from` to `to` - sessions follow (B₃)
+      await getDatabase()
+        .updateTable('sessions')
+        .set({ git_branch: to, updated_at: new Date() })
+        .where('environment_id', '=', environmentId)
+        .where('git_branch', '=', from)
+        .execute();
+
+      return reply.send({ success: true, data: { from, to } });
+    } catch (error) {
+      return sendGitError(reply, 'Rename branch', error);
+    }
+  });
+
+  fastify.delete('/api/git/branches/:environmentId', async (request: FastifyRequest<{
+    Params: { environmentId: string };
+    Querystring: { name?: string; force?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { environmentId } = request.params;
+      const { name, force } = request.query;
+      const userId = request.user?.sub;
+
+      if (!userId) {
+        return reply.status(401).send({ success: false, error: 'Unauthorized' });
+      }
+      if (!name) {
+        return reply.status(400).send({ success: false, error: 'Branch name is required' });
+      }
+
+      const environment = await getEnvironmentWithUserVerification(environmentId, userId);
+      if (!environment) {
+        return reply.status(404).send({ success: false, error: 'Environment not found' });
+      }
+      if (!environment.repository_url) {
+        return reply.status(400).send({ success: false, error: 'Environment has no repository' });
+      }
+      if (name === environment.default_branch) {
+        return reply.status(400).send({ success: false, error: 'Cannot delete the default branch' });
+      }
+
+      const holder = await findSessionOnBranch(environmentId, name);
+      if (holder) {
+        return reply.status(409).send({ success: false, ...branchInUseResponse(name, holder) });
+      }
+
+      const repoPath = await createWorktreeManager(environmentId).ensureRepository();
+      await deleteBranch(repoPath, name, force === 'true');
+
+      return reply.send({ success: true, message: `Branch ${name} deleted` });
+    } catch (error) {
+      return sendGitError(reply, 'Delete branch', error);
+    }
+  });
+
+  fastify.post('/api/git/switch/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+
+    try {
+      const userId = request.user?.sub;
+
+      if (!userId) {
+        return reply.status(401).send({ success: false, error: 'Unauthorized' });
+      }
+
+      const parsed = SwitchBranchSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: 'Invalid switch', details: validationDetails(parsed.error) });
+      }
+      const { branch, create } = parsed.data;
+
+      const session = await getSessionWithUserVerification(sessionId, userId);
+      if (!session) {
+        return reply.status(404).send({ success: false, error: 'Session not found' });
+      }
+      if (!session.git_branch) {
+        return reply.status(400).send({ success: false, error: 'Session has no git worktree' });
+      }
+      if (!session.container_id) {
+        return reply.status(409).send({ success: false, error: 'Session has no container' });
+      }
+
+      const previousBranch = session.git_branch;
+      if (branch === previousBranch && !create) {
+        return reply.send({ success: true, data: { branch, previousBranch } });
+      }
+
+      const holder = await findSessionOnBranch(session.environment_id, branch, sessionId);
+      if (holder) {
+        return reply.status(409).send({ success: false, ...branchInUseResponse(branch, holder) });
+      }
+
+      let fromRef: string | undefined;
+      if (create) {
+        const environment = await getDatabase()
+          .selectFrom('environments')
+          .select('default_branch')
+          .where('id', '=', session.environment_id)
+          .executeTakeFirstOrThrow();
+        fromRef = parsed.data.fromRef || environment.default_branch;
+      }
+
+      await ensureContainerRunning(session.container_id);
+      await switchWorktreeBranch(session.container_id, branch, fromRef);
+
+      try {
+        await getDatabase()
+          .updateTable('sessions')
+          .set({ git_branch: branch, updated_at: new Date() })
+          .where('id', '=', sessionId)
+          .execute();
+      } catch (updateError: any) {
+        // Lost a race for the branch (partial unique index) - put the worktree back
+        if (updateError?.code !== '23505') throw updateError;
+        await switchWorktreeBranch(session.container_id, previousBranch).catch(() => {});
+        const winner = await findSessionOnBranch(session.environment_id, branch, sessionId);
+        return reply.status(409).send(winner
+          ? { success: false, ...branchInUseResponse(branch, winner) }
+          : { success: false, error: 'BRANCH_IN_USE' });
+      }
+
+      await getDatabase()
+        .insertInto('git_operations')
+        .values({
+          session_id: sessionId,
+          operation_type: 'switch',
+          status: 'success',
+          metadata: { from: previousBranch, to: branch, created: create, fromRef },
+        })
+        .execute();
+
+      return reply.send({ success: true, data: { branch, previousBranch } });
+    } catch (error) {
+      await getDatabase()
+        .insertInto('git_operations')
+        .values({
+          session_id: sessionId,
+          operation_type: 'switch',
+          status: 'error',
+          error_message: error instanceof Error ? error.message : String(error),
+          metadata: request.body,
+        })
+        .execute()
+        .catch(() => {}); // Ignore logging errors
+
+      return sendGitError(reply, 'Switch branch', error);
+    }
+  });
+
+  /**
+   * FETCH, PULL AND REBASE
+   * ======================
+   *
+   * Session routes, run inside the container on the /workspace worktree
+   * (see services/git-sync.ts):
+   * - POST /api/git/fetch/:sessionId         update origin/* branches
+   * - POST /api/git/pull/:sessionId          { mode: 'merge' | 'rebase' } with origin/<branch>
+   * - POST /api/git/rebase/:sessionId        rebase onto the environment's default branch
+   * - GET  /api/git/conflicts/:sessionId     merge/rebase in progress + conflict list
+   * - POST /api/git/continue/:sessionId      stage resolved files and continue
+   * - POST /api/git/skip/:sessionId          skip the commit a rebase stopped on
+   * - POST /api/git/abort/:sessionId         abort the merge or rebase
+   *
+   * A merge or rebase that stops on conflicts is not an error: these answer
+   * 200 with status 'conflicts' and the state to resolve.
+   */
+
+  const sendSyncResult = async (
+    reply: FastifyReply,
+    sessionId: string,
+    operationType: string,
+    result: GitSyncResult,
+    metadata: Record<string, unknown> = {}
+  ) => {
+    await recordGitOperation(
+      sessionId,
+      operationType,
+      result.status === 'conflicts' ? 'conflicts' : 'success',
+      { ...metadata, status: result.status, head: result.head, conflicts: result.state.conflicts.map(c => c.path) }
+    );
+    return reply.send({ success: true, data: result });
+  };
+
+  fastify.post('/api/git/fetch/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      await fetchOrigin(session.container_id);
+      await recordGitOperation(sessionId, 'fetch', 'success', { remote: 'origin' });
+
+      return reply.send({ success: true, message: 'Fetched from origin' });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'fetch', 'error', { remote: 'origin' }, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Git fetch', error);
+    }
+  });
+
+  fastify.post('/api/git/pull/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const parsed = PullSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: 'Invalid pull', details: validationDetails(parsed.error) });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const result = await pull(session.container_id, session.git_branch, parsed.data.mode, await getGitIdentity(session.userId));
+      return sendSyncResult(reply, sessionId, 'pull', result, { mode: parsed.data.mode, branch: session.git_branch });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'pull', 'error', request.body, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Git pull', error);
+    }
+  });
+
+  fastify.post('/api/git/rebase/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const environment = await getDatabase()
+        .selectFrom('environments')
+        .select('default_branch')
+        .where('id', '=', session.environment_id)
+        .executeTakeFirstOrThrow();
+
+      const result = await rebaseOntoDefault(session.container_id, environment.default_branch, await getGitIdentity(session.userId));
+      return sendSyncResult(reply, sessionId, 'rebase', result, { onto: environment.default_branch });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'rebase', 'error', null, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Git rebase', error);
+    }
+  });
+
+  fastify.get('/api/git/conflicts/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      return reply.send({ success: true, data: await getOperationState(session.container_id) });
+    } catch (error) {
+      return sendGitError(reply, 'Git conflicts', error);
+    }
+  });
+
+  const syncActionHandler = (action: 'continue' | 'skip' | 'abort') => async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const result = action === 'abort'
+        ? await abortOperation(session.container_id)
+        : action === 'skip'
+          ? await skipOperation(session.container_id, await getGitIdentity(session.userId))
+          : await continueOperation(session.container_id, await getGitIdentity(session.userId));
+      return sendSyncResult(reply, sessionId, action, result);
+    } catch (error) {
+      await recordGitOperation(sessionId, action, 'error', null, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, `Git ${action}`, error);
+    }
+  };
+
+  fastify.post('/api/git/continue/:sessionId', syncActionHandler('continue'));
+  fastify.post('/api/git/skip/:sessionId', syncActionHandler('skip'));
+  fastify.post('/api/git/abort/:sessionId', syncActionHandler('abort'));
+
+  /**
+   * STASHES
+   * =======
+   *
+   * Session routes on the worktree's stash (see services/git-stash.ts):
+   * - GET    /api/git/stash/:sessionId                  list entries, newest first
+   * - POST   /api/git/stash/:sessionId                  { message?, includeUntracked? } push
+   * - GET    /api/git/stash/:sessionId/:index           entry with its diff
+   * - POST   /api/git/stash/:sessionId/:index/apply     { commit? } apply, keep the entry
+   * - POST   /api/git/stash/:sessionId/:index/pop       { commit? } apply and drop
+   * - DELETE /api/git/stash/:sessionId/:index?commit=   drop
+   *
+   * `commit` is the entry's commit as listed; when stash@{index} no longer
+   * points at it the request is refused with a 409.
+   */
+
+  // stash@{n} index from the URL, or null after replying
+  const parseStashIndex = (index: string, reply: FastifyReply) => {
+    if (!/^\d+$/.test(index)) {
+      reply.status(400).send({ success: false, error: 'Stash index must be a non-negative integer' });
+      return null;
+    }
+    return Number(index);
+  };
+
+  fastify.get('/api/git/stash/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      return reply.send({ success: true, data: await listStashes(session.container_id) });
+    } catch (error) {
+      return sendGitError(reply, 'Git stash list', error);
+    }
+  });
+
+  fastify.post('/api/git/stash/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+    Body: z.infer<typeof StashPushSchema>;
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const parsed = StashPushSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const entry = await pushStash(session.container_id, parsed.data, await getGitIdentity(session.userId));
+      await recordGitOperation(sessionId, 'stash_push', 'success', {
+        commit: entry.commit,
+        message: entry.message,
+        includeUntracked: parsed.data.includeUntracked,
+      });
+
+      return reply.status(201).send({ success: true, data: entry });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'stash_push', 'error', request.body, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Git stash push', error);
+    }
+  });
+
+  fastify.get('/api/git/stash/:sessionId/:index', async (request: FastifyRequest<{
+    Params: { sessionId: string; index: string };
+    Querystring: { commit?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const index = parseStashIndex(request.params.index, reply);
+      if (index === null) return;
+      const parsed = StashRefSchema.safeParse(request.query ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      return reply.send({ success: true, data: await showStash(session.container_id, index, parsed.data.commit) });
+    } catch (error) {
+      return sendGitError(reply, 'Git stash show', error);
+    }
+  });
+
+  const stashApplyHandler = (pop: boolean) => async (request: FastifyRequest<{
+    Params: { sessionId: string; index: string };
+    Body: z.infer<typeof StashRefSchema>;
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    const operationType = pop ? 'stash_pop' : 'stash_apply';
+    try {
+      const index = parseStashIndex(request.params.index, reply);
+      if (index === null) return;
+      const parsed = StashRefSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const result = await applyStash(session.container_id, index, { pop, commit: parsed.data.commit });
+      await recordGitOperation(
+        sessionId,
+        operationType,
+        result.status === 'conflicts' ? 'conflicts' : 'success',
+        { index, dropped: result.dropped, conflicts: result.conflicts.map(c => c.path) }
+      );
+
+      return reply.send({ success: true, data: result });
+    } catch (error) {
+      await recordGitOperation(sessionId, operationType, 'error', { index: request.params.index }, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, `Git stash ${pop ? 'pop' : 'apply'}`, error);
+    }
+  };
+
+  fastify.post('/api/git/stash/:sessionId/:index/apply', stashApplyHandler(false));
+  fastify.post('/api/git/stash/:sessionId/:index/pop', stashApplyHandler(true));
+
+  fastify.delete('/api/git/stash/:sessionId/:index', async (request: FastifyRequest<{
+    Params: { sessionId: string; index: string };
+    Querystring: { commit?: string };
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const index = parseStashIndex(request.params.index, reply);
+      if (index === null) return;
+      const parsed = StashRefSchema.safeParse(request.query ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const session = await getWorktreeSession(request, reply);
+      if (!session) return;
+
+      const entry = await dropStash(session.container_id, index, parsed.data.commit);
+      await recordGitOperation(sessionId, 'stash_drop', 'success', { index, commit: entry.commit, message: entry.message });
+
+      return reply.send({ success: true, data: entry });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'stash_drop', 'error', { index: request.params.index }, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Git stash drop', error);
+    }
+  });
+
+  /**
+   * PULL REQUESTS
+   * =============
+   *
+   * Session routes calling the forge of the environment's remote with the
+   * owner's connection (GitHub, GitLab merge requests or Gitea - see
+   * services/git-providers.ts):
+   * - POST /api/git/pull-request/:sessionId   { title, body?, draft? } open a PR from
+   *                                           the session branch to default_branch
+   * - GET  /api/git/pull-request/:sessionId   the session's PR with review and check
+   *                                           status (data: null when there is none)
+   *
+   * The PR number and URL are stored on the session. When the forge already has
+   * an open PR for the branch, that PR is linked instead (200 rather than 201).
+   * The branch must have been pushed first.
+   */
+
+  // Session, provider, repository path and token for PR routes, or null after replying
+  const getPullRequestContext = async (request: FastifyRequest<{ Params: { sessionId: string } }>, reply: FastifyReply) => {
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.status(401).send({ success: false, error: 'Unauthorized' });
+      return null;
+    }
+
+    const session = await getSessionWithUserVerification(request.params.sessionId, userId);
+    if (!session) {
+      reply.status(404).send({ success: false, error: 'Session not found' });
+      return null;
+    }
+
+    const environment = await getDatabase()
+      .selectFrom('environments')
+      .select(['repository_url', 'default_branch'])
+      .where('id', '=', session.environment_id)
+      .executeTakeFirstOrThrow();
+
+    const resolved = environment.repository_url ? await resolveConnection(session.user_id, environment.repository_url) : null;
+    if (!resolved) {
+      reply.status(400).send({ success: false, error: 'No git provider connection for this repository' });
+      return null;
+    }
+    const { connection, remote } = resolved;
+
+    const provider = getGitProvider(connection.provider);
+    if (!provider.createPullRequest || !provider.getPullRequestStatus) {
+      reply.status(400).send({ success: false, error: `${provider.displayName} connections do not support pull requests` });
+      return null;
+    }
+
+    const token = connection.authType === 'ssh_key' ? null : await getConnectionSecret(connection);
+    if (!token) {
+      reply.status(400).send({ success: false, error: `${connection.name} authentication required` });
+      return null;
+    }
+
+    const forge = {
+      create: provider.createPullRequest.bind(provider, connection, token, remote.path),
+      status: provider.getPullRequestStatus.bind(provider, connection, token, remote.path),
+    };
+    return { session, forge, defaultBranch: environment.default_branch };
+  };
+
+  fastify.post('/api/git/pull-request/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+    Body: z.infer<typeof CreatePullRequestSchema>;
+  }>, reply: FastifyReply) => {
+    const { sessionId } = request.params;
+    try {
+      const parsed = CreatePullRequestSchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.status(400).send({ success: false, error: `Invalid request: ${validationDetails(parsed.error)}` });
+      }
+
+      const context = await getPullRequestContext(request, reply);
+      if (!context) return;
+      const { session, forge, defaultBranch } = context;
+
+      if (!session.git_branch) {
+        return reply.status(400).send({ success: false, error: 'Session has no git branch' });
+      }
+      if (session.git_branch === defaultBranch) {
+        return reply.status(400).send({ success: false, error: `Cannot open a pull request from the default branch '${defaultBranch}'` });
+      }
+
+      // One open PR per session; a closed or merged one may be replaced
+      if (session.pr_number) {
+        const existing = await forge.status(session.pr_number).catch(() => null);
+        if (existing?.state === 'open') {
+          return reply.status(409).send({
+            success: false,
+            error: `Session already has pull request #${existing.number}`,
+          });
+        }
+      }
+
+      const pullRequest = await forge.create({
+        head: session.git_branch,
+        base: defaultBranch,
+        ...parsed.data,
+      });
+
+      await getDatabase()
+        .updateTable('sessions')
+        .set({ pr_number: pullRequest.number, pr_url: pullRequest.url, updated_at: new Date() })
+        .where('id', '=', sessionId)
+        .execute();
+      await recordGitOperation(sessionId, 'pull_request', 'success', {
+        number: pullRequest.number,
+        head: session.git_branch,
+        base: defaultBranch,
+        created: pullRequest.created,
       });
+
+      return reply.status(pullRequest.created ? 201 : 200).send({ success: true, data: pullRequest });
+    } catch (error) {
+      await recordGitOperation(sessionId, 'pull_request', 'error', request.body, error instanceof Error ? error.message : String(error));
+      return sendGitError(reply, 'Create pull request', error);
+    }
+  });
+
+  fastify.get('/api/git/pull-request/:sessionId', async (request: FastifyRequest<{
+    Params: { sessionId: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const context = await getPullRequestContext(request, reply);
+      if (!context) return;
+      const { session, forge } = context;
+
+      if (!session.pr_number) {
+        return reply.send({ success: true, data: null });
+      }
+
+      const status = await forge.status(session.pr_number);
+      return reply.send({ success: true, data: status });
+    } catch (error) {
+      return sendGitError(reply, 'Pull request status', error);
     }
   });
 
@@ -0,0 +1,102 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { McpServersSchema } from '../lib/agent-mcp';
+import {
+  McpConfigError,
+  McpConfigScope,
+  getEffectiveMcpServers,
+  getMcpServers,
+  updateMcpServers,
+} from '../services/agent-mcp';
+
+/**
+ * MCP SERVERS
+ * ===========
+ *
+ * Routes (prefix /api/mcp-servers):
+ * - GET|PUT /user                          the caller's own servers
+ * - GET|PUT /agents/:agentId               servers for one agent
+ * - GET|PUT /environments/:environmentId   servers for one environment
+ * - GET     /effective?agentId=&environmentId=
+ *                                          what that agent gets in that
+ *                                          environment, and where each comes from
+ *
+ * PUT takes { servers } and replaces the level. Responses are { servers }
+ * with environment variables and headers redacted; sending a redacted value
+ * back keeps the stored one. Merging and rendering live in
+ * services/agent-mcp.ts. Owner-only.
+ */
+
+const UpdateMcpServersSchema = z.object({
+  servers: McpServersSchema,
+});
+
+type ScopeOf = (request: FastifyRequest) => McpConfigScope;
+
+export const mcpServerRoutes: FastifyPluginAsync = async (server) => {
+  const invalidBody = (reply: FastifyReply, error: z.ZodError) => {
+    reply.code(400).send({
+      error: 'Invalid request',
+      details: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    });
+  };
+
+  const sendError = (reply: FastifyReply, action: string, error: unknown) => {
+    if (error instanceof McpConfigError) {
+      reply.code(error.statusCode).send({ error: error.message });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error trying to ${action}:`, error);
+    reply.code(500).send({ error: `Failed to ${action}`, details: message });
+  };
+
+  // The same GET and PUT for every level
+  const levelRoutes = (path: string, scopeOf: ScopeOf) => {
+    server.get(path, async (request, reply) => {
+      try {
+        reply.send({ servers: await getMcpServers(request.user.sub, scopeOf(request)) });
+      } catch (error) {
+        sendError(reply, 'get MCP servers', error);
+      }
+    });
+
+    server.put(path, async (request, reply) => {
+      const parsed = UpdateMcpServersSchema.safeParse(request.body || {});
+      if (!parsed.success) {
+        invalidBody(reply, parsed.error);
+        return;
+      }
+
+      try {
+        reply.send({ servers: await updateMcpServers(request.user.sub, scopeOf(request), parsed.data.servers) });
+      } catch (error) {
+        sendError(reply, 'update MCP servers', error);
+      }
+    });
+  };
+
+  levelRoutes('/user', request => ({ level: 'user', id: request.user.sub }));
+  levelRoutes('/agents/:agentId', request => ({
+    level: 'agent',
+    id: (request.params as { agentId: string }).agentId,
+  }));
+  levelRoutes('/environments/:environmentId', request => ({
+    level: 'environment',
+    id: (request.params as { environmentId: string }).environmentId,
+  }));
+
+  server.get('/effective', async (request, reply) => {
+    const { agentId, environmentId } = request.query as { agentId?: string; environmentId?: string };
+    if (!agentId || !environmentId) {
+      reply.code(400).send({ error: 'agentId and environmentId are required' });
+      return;
+    }
+
+    try {
+      reply.send(await getEffectiveMcpServers(request.user.sub, agentId, environmentId));
+    } catch (error) {
+      sendError(reply, 'resolve MCP servers', error);
+    }
+  });
+};
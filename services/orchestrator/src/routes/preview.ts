@@ -0,0 +1,578 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { FastifyJWT } from '@fastify/jwt';
+import crypto from 'crypto';
+import http from 'http';
+import WebSocket from 'ws';
+import { getDatabase } from '../lib/kysely';
+import { config } from '../config';
+import { getDocker } from '../services/docker';
+import { execInContainer } from '../services/container-exec';
+import { DEVCONTAINER_LABELS } from '../services/devcontainer';
+import { groupListeningPorts, parseProcNetTcp } from '../lib/listening-ports';
+
+/**
+ * PREVIEW PROXY - Authenticated access to dev servers in session containers
+ * =========================================================================
+ *
+ * Routes:
+ * - /preview/:sessionId/:port/*        HTTP + WebSocket upgrade → container:port/*
+ * - GET /api/sessions/:sessionId/ports  listening ports detected in the container
+ * - POST /api/sessions/:sessionId/ports/:port/preview
+ *                                       one-time link that opens a preview
+ *
+ * Previews are only served on PREVIEW_BASE_URL, which must be a separate
+ * origin from the dashboard: a previewed app runs arbitrary code, and on the
+ * dashboard's origin it could read the access and refresh tokens from
+ * localStorage. Without PREVIEW_BASE_URL previews are refused.
+ *
+ * Authentication:
+ * 1. The dashboard asks the API for a preview link. It carries a random
+ *    one-time code (?craftastic_preview_code=) bound to user, session and
+ *    port, valid for PREVIEW_CODE_TTL_MS.
+ * 2. The first visit redeems the code for a preview token scoped to this
+ *    session, stored in an HttpOnly cookie whose path is the preview prefix,
+ *    and the client is redirected without the code.
+ * 3. Later requests (assets, XHR, HMR websockets) authenticate only via that
+ *    cookie. The Authorization header belongs to the previewed app and is
+ *    forwarded unchanged.
+ *
+ * Invariants:
+ * P₁: ∀r proxied. owner(session(r)) = user(token(r))
+ * P₂: craftastic credentials (preview code, preview cookie) never reach the upstream
+ * P₃: preview tokens are only valid for /preview/{sid}/* (rejected by the API preHandler)
+ * P₄: ∀r proxied. host(r) = host(PREVIEW_BASE_URL)
+ * P₅: a preview code is redeemed at most once, and never after it expires
+ *
+ * Apps are served with the /preview/{sid}/{port} prefix stripped and receive it
+ * in X-Forwarded-Prefix; apps that emit absolute asset URLs need their base path
+ * configured (e.g. `vite --base /preview/{sid}/{port}/`).
+ */
+
+const PREVIEW_COOKIE = 'craftastic_preview';
+const PREVIEW_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const PREVIEW_CODE_PARAM = 'craftastic_preview_code';
+const PREVIEW_CODE_TTL_MS = 60_000;
+const CONTAINER_ADDRESS_TTL_MS = 10_000;
+
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+interface PreviewParams {
+  sessionId: string;
+  port: string;
+  '*'?: string;              // absent on the bare /preview/:sessionId/:port route
+}
+
+type PreviewRequest = FastifyRequest<{ Params: PreviewParams }>;
+
+interface PreviewTarget {
+  userId: string;
+  containerId: string;
+  host: string;
+}
+
+class PreviewError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+interface PreviewCode {
+  userId: string;
+  sessionId: string;
+  port: number;
+  expiresAt: number;
+}
+
+const containerAddressCache = new Map<string, { host: string; expiresAt: number }>();
+const previewCodes = new Map<string, PreviewCode>();
+
+// PREVIEW_BASE_URL, or null when previews are disabled
+function previewBaseUrl(): URL | null {
+  return config.PREVIEW_BASE_URL ? new URL(config.PREVIEW_BASE_URL) : null;
+}
+
+// P₄
+function assertPreviewOrigin(request: FastifyRequest): void {
+  const base = previewBaseUrl();
+  if (!base) {
+    throw new PreviewError(503, 'Previews are disabled: set PREVIEW_BASE_URL to a separate origin');
+  }
+  if (request.headers.host?.toLowerCase() !== base.host) {
+    throw new PreviewError(404, 'Previews are only served on PREVIEW_BASE_URL');
+  }
+}
+
+function issuePreviewCode(userId: string, sessionId: string, port: number): string {
+  const now = Date.now();
+  for (const [code, entry] of previewCodes) {
+    if (entry.expiresAt <= now) previewCodes.delete(code);
+  }
+
+  const code = crypto.randomBytes(32).toString('base64url');
+  previewCodes.set(code, { userId, sessionId, port, expiresAt: now + PREVIEW_CODE_TTL_MS });
+  return code;
+}
+
+// P₅: the code is spent whether or not it matches
+function redeemPreviewCode(code: string, sessionId: string, port: number): string {
+  const entry = previewCodes.get(code);
+  previewCodes.delete(code);
+  if (!entry || entry.expiresAt <= Date.now() || entry.sessionId !== sessionId || entry.port !== port) {
+    throw new PreviewError(401, 'Preview link is invalid or expired - open it again from the dashboard');
+  }
+  return entry.userId;
+}
+
+function previewPrefix(sessionId: string, port: number): string {
+  return `/preview/${sessionId}/${port}`;
+}
+
+function parsePort(value: string): number | null {
+  const port = Number(value);
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : null;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+function stripPreviewCookie(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const remaining = header
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part && !part.startsWith(`${PREVIEW_COOKIE}=`));
+  return remaining.length > 0 ? remaining.join('; ') : undefined;
+}
+
+/**
+ * Split the raw URL into the upstream path (prefix stripped) and query,
+ * dropping the preview code parameter (P₂).
+ */
+function upstreamPath(rawUrl: string, prefix: string): string {
+  const url = new URL(rawUrl, 'http://preview.local');
+  url.searchParams.delete(PREVIEW_CODE_PARAM);
+  const path = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : url.pathname;
+  return `${path || '/'}${url.search}`;
+}
+
+async function resolveContainerHost(containerId: string): Promise<string> {
+  const cached = containerAddressCache.get(containerId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.host;
+  }
+
+  const info = await getDocker().getContainer(containerId).inspect();
+  if (!info.State.Running) {
+    throw new PreviewError(503, 'Session container is not running');
+  }
+
+  const networks = Object.values(info.NetworkSettings.Networks || {});
+  const host = info.NetworkSettings.IPAddress || networks.find(n => n.IPAddress)?.IPAddress;
+  if (!host) {
+    throw new PreviewError(503, 'Session container has no network address');
+  }
+
+  containerAddressCache.set(containerId, { host, expiresAt: Date.now() + CONTAINER_ADDRESS_TTL_MS });
+  return host;
+}
+
+/**
+ * Verify the preview cookie's token and session ownership (P₁, P₃).
+ */
+async function authorizePreview(server: FastifyInstance, sessionId: string, token: string | undefined): Promise<PreviewTarget> {
+  if (!token) {
+    throw new PreviewError(401, 'Authentication required');
+  }
+
+  let decoded: FastifyJWT['payload'];
+  try {
+    decoded = await server.jwt.verify<FastifyJWT['payload']>(token);
+  } catch {
+    throw new PreviewError(401, 'Invalid authentication token');
+  }
+
+  if (decoded.scope !== 'preview' || decoded.sid !== sessionId) {
+    throw new PreviewError(403, 'Token is not valid for this session');
+  }
+
+  return authorizeSession(sessionId, decoded.sub);
+}
+
+// P₁
+async function authorizeSession(sessionId: string, userId: string): Promise<PreviewTarget> {
+  const session = await getDatabase()
+    .selectFrom('sessions as s')
+    .innerJoin('environments as e', 's.environment_id', 'e.id')
+    .select(['s.container_id', 'e.user_id'])
+    .where('s.id', '=', sessionId)
+    .executeTakeFirst();
+
+  if (!session) {
+    throw new PreviewError(404, 'Session not found');
+  }
+  if (session.user_id !== userId) {
+    throw new PreviewError(403, 'Access denied');
+  }
+  if (!session.container_id) {
+    throw new PreviewError(503, 'Session has no running container');
+  }
+
+  return {
+    userId,
+    containerId: session.container_id,
+    host: await resolveContainerHost(session.container_id),
+  };
+}
+
+function previewCookie(request: FastifyRequest): string | undefined {
+  return parseCookies(request.headers.cookie)[PREVIEW_COOKIE];
+}
+
+function forwardedHeaders(request: FastifyRequest, prefix: string, host: string, port: number): http.OutgoingHttpHeaders {
+  const headers: http.OutgoingHttpHeaders = { ...request.headers };
+  for (const name of HOP_BY_HOP_HEADERS) {
+    delete headers[name];
+  }
+  headers.cookie = stripPreviewCookie(request.headers.cookie);
+  if (!headers.cookie) delete headers.cookie;
+
+  headers.host = `${host}:${port}`;
+  headers['x-forwarded-host'] = request.headers.host;
+  headers['x-forwarded-proto'] = request.protocol;
+  headers['x-forwarded-prefix'] = prefix;
+  headers['x-forwarded-for'] = request.ip;
+  return headers;
+}
+
+/**
+ * Keep redirects inside the preview prefix.
+ */
+function rewriteLocation(location: string, prefix: string, host: string, port: number): string {
+  const upstreamOrigin = `http://${host}:${port}`;
+  if (location.startsWith(upstreamOrigin)) {
+    location = location.slice(upstreamOrigin.length) || '/';
+  }
+  if (location.startsWith('/') && !location.startsWith('//') && !location.startsWith(prefix)) {
+    return `${prefix}${location}`;
+  }
+  return location;
+}
+
+function sendPreviewError(reply: FastifyReply, error: unknown) {
+  if (error instanceof PreviewError) {
+    reply.code(error.statusCode).send({ error: error.message });
+    return;
+  }
+  console.error('[Preview] Proxy error:', error);
+  reply.code(502).send({ error: 'Preview unavailable', details: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+export async function previewRoutes(fastify: FastifyInstance) {
+  const db = getDatabase();
+
+  // Leave request bodies unparsed so they can be streamed to the upstream
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', (_request, _payload, done) => done(null));
+
+  const handleHttp = async (request: PreviewRequest, reply: FastifyReply) => {
+    const { sessionId, port: portParam } = request.params;
+    const code = (request.query as Record<string, string | undefined>)[PREVIEW_CODE_PARAM];
+    const port = parsePort(portParam);
+    if (!port) {
+      reply.code(400).send({ error: 'Invalid port' });
+      return;
+    }
+    const prefix = previewPrefix(sessionId, port);
+
+    let target: PreviewTarget;
+    try {
+      assertPreviewOrigin(request);
+
+      if (code) {
+        // Case 1: redeem the one-time code for a session-scoped preview cookie
+        target = await authorizeSession(sessionId, redeemPreviewCode(code, sessionId, port));
+        const previewToken = request.server.jwt.sign(
+          { sub: target.userId, scope: 'preview', sid: sessionId },
+          { expiresIn: PREVIEW_TOKEN_TTL_SECONDS }
+        );
+        const secure = request.protocol === 'https' ? '; Secure' : '';
+        reply
+          .header('set-cookie', `${PREVIEW_COOKIE}=${encodeURIComponent(previewToken)}; Path=${prefix}/; HttpOnly; SameSite=Lax; Max-Age=${PREVIEW_TOKEN_TTL_SECONDS}${secure}`)
+          .redirect(302, `${prefix}${upstreamPath(request.url, prefix)}`);
+        return;
+      }
+
+      // Case 2: preview cookie
+      target = await authorizePreview(request.server, sessionId, previewCookie(request));
+    } catch (error) {
+      sendPreviewError(reply, error);
+      return;
+    }
+
+    // Bare prefix → trailing slash so relative asset URLs resolve inside the prefix
+    if (!request.params['*'] && !request.url.split('?')[0].endsWith('/')) {
+      const query = request.url.includes('?') ? request.url.slice(request.url.indexOf('?')) : '';
+      reply.redirect(301, `${prefix}/${query}`);
+      return;
+    }
+
+    reply.hijack();
+    const upstream = http.request({
+      host: target.host,
+      port,
+      method: request.method,
+      path: upstreamPath(request.url, prefix),
+      headers: forwardedHeaders(request, prefix, target.host, port),
+    });
+
+    upstream.on('response', (response) => {
+      const headers = { ...response.headers };
+      if (typeof headers.location === 'string') {
+        headers.location = rewriteLocation(headers.location, prefix, target.host, port);
+      }
+      reply.raw.writeHead(response.statusCode || 502, headers);
+      response.pipe(reply.raw);
+    });
+
+    upstream.on('error', (error: NodeJS.ErrnoException) => {
+      if (reply.raw.headersSent) {
+        reply.raw.destroy(error);
+        return;
+      }
+      const refused = error.code === 'ECONNREFUSED';
+      reply.raw.writeHead(502, { 'content-type': 'application/json' });
+      reply.raw.end(JSON.stringify({
+        error: refused ? `Nothing is listening on port ${port}` : 'Preview unavailable',
+        details: error.message,
+      }));
+    });
+
+    request.raw.pipe(upstream);
+  };
+
+  const handleWebSocket = async (connection: any, request: PreviewRequest) => {
+    const { sessionId, port: portParam } = request.params;
+    const port = parsePort(portParam);
+    if (!port) {
+      connection.socket.close(1008, 'Invalid port');
+      return;
+    }
+    const prefix = previewPrefix(sessionId, port);
+
+    let target: PreviewTarget;
+    try {
+      assertPreviewOrigin(request);
+      target = await authorizePreview(request.server, sessionId, previewCookie(request));
+    } catch (error) {
+      connection.socket.close(1008, error instanceof Error ? error.message : 'Access denied');
+      return;
+    }
+
+    const protocols = request.headers['sec-websocket-protocol']
+      ?.split(',')
+      .map(protocol => protocol.trim())
+      .filter(Boolean);
+    const headers = forwardedHeaders(request, prefix, target.host, port);
+    for (const name of ['sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol']) {
+      delete headers[name];
+    }
+
+    const upstream = new WebSocket(
+      `ws://${target.host}:${port}${upstreamPath(request.url, prefix)}`,
+      protocols,
+      { headers: headers as Record<string, string> }
+    );
+    const client = connection.socket as WebSocket;
+    const pending: Array<{ data: WebSocket.RawData; isBinary: boolean }> = [];
+
+    upstream.on('open', () => {
+      for (const message of pending.splice(0)) {
+        upstream.send(message.data, { binary: message.isBinary });
+      }
+    });
+    upstream.on('message', (data, isBinary) => {
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+    upstream.on('close', (code, reason) => {
+      if (client.readyState === WebSocket.OPEN) client.close(code === 1005 ? 1000 : code, reason);
+    });
+    upstream.on('error', (error) => {
+      console.warn(`[Preview] Upstream websocket error for ${prefix}: ${error.message}`);
+      if (client.readyState === WebSocket.OPEN) client.close(1011, 'Upstream connection failed');
+    });
+
+    client.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, { binary: isBinary });
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        pending.push({ data, isBinary });
+      }
+    });
+    client.on('close', () => {
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+        upstream.terminate();
+      }
+    });
+  };
+
+  for (const url of ['/preview/:sessionId/:port', '/preview/:sessionId/:port/*']) {
+    fastify.route<{ Params: PreviewParams }>({
+      method: 'GET',
+      url,
+      handler: handleHttp,
+      wsHandler: handleWebSocket,
+    });
+    fastify.route<{ Params: PreviewParams }>({
+      method: ['HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      url,
+      handler: handleHttp,
+    });
+  }
+
+  /**
+   * LIST LISTENING PORTS
+   * ====================
+   *
+   * {P: session ∈ S ∧ owner(session) = user ∧ running(container(session))}
+   * GET /api/sessions/:sessionId/ports
+   * {Q: ports = listening TCP sockets ∪ devcontainer forwardPorts, with preview URLs}
+   */
+  fastify.get<{ Params: { sessionId: string } }>('/api/sessions/:sessionId/ports', async (request, reply) => {
+    const { sessionId } = request.params;
+
+    try {
+      const session = await db
+        .selectFrom('sessions as s')
+        .innerJoin('environments as e', 's.environment_id', 'e.id')
+        .select(['s.container_id', 'e.user_id'])
+        .where('s.id', '=', sessionId)
+        .executeTakeFirst();
+
+      if (!session) {
+        reply.code(404).send({ error: 'Session not found' });
+        return;
+      }
+      if (session.user_id !== request.user?.sub) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+      if (!session.container_id) {
+        reply.send({ ports: [] });
+        return;
+      }
+
+      const info = await getDocker().getContainer(session.container_id).inspect();
+      if (!info.State.Running) {
+        reply.send({ ports: [] });
+        return;
+      }
+
+      const { stdout } = await execInContainer(
+        session.container_id,
+        ['cat', '/proc/net/tcp', '/proc/net/tcp6'],
+        { timeoutMs: 5000 }
+      );
+      // cat prints both files back to back; each starts with its own header line
+      const [tcp = '', tcp6 = ''] = stdout.split(/\n(?=\s*sl\s)/);
+      const listening = groupListeningPorts([
+        ...parseProcNetTcp(tcp, 'tcp'),
+        ...parseProcNetTcp(tcp6, 'tcp6'),
+      ]);
+
+      const declared = (info.Config.Labels?.[DEVCONTAINER_LABELS.forwardPorts] || '')
+        .split(',')
+        .map(port => parseInt(port, 10))
+        .filter(port => Number.isInteger(port));
+
+      // No URLs without a separate preview origin (P₄)
+      const baseUrl = previewBaseUrl()?.origin;
+      const ports = [...new Set([...listening.map(p => p.port), ...declared])]
+        .sort((a, b) => a - b)
+        .map(port => {
+          const entry = listening.find(p => p.port === port);
+          return {
+            port,
+            listening: !!entry,
+            addresses: entry?.addresses || [],
+            reachable: !!entry && !entry.loopbackOnly,
+            declared: declared.includes(port),
+            url: baseUrl ? `${baseUrl}${previewPrefix(sessionId, port)}/` : undefined,
+          };
+        });
+
+      reply.send({ ports });
+    } catch (error) {
+      console.error('Error listing session ports:', error);
+      reply.code(500).send({ error: 'Failed to list ports', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  /**
+   * CREATE PREVIEW LINK
+   * ===================
+   *
+   * {P: session ∈ S ∧ owner(session) = user ∧ PREVIEW_BASE_URL set}
+   * POST /api/sessions/:sessionId/ports/:port/preview
+   * {Q: url = preview URL with a fresh one-time code (P₅)}
+   */
+  fastify.post<{ Params: { sessionId: string; port: string } }>('/api/sessions/:sessionId/ports/:port/preview', async (request, reply) => {
+    const { sessionId, port: portParam } = request.params;
+    const userId = request.user?.sub;
+    if (!userId) {
+      reply.code(401).send({ error: 'Unauthorized' });
+      return;
+    }
+    const port = parsePort(portParam);
+    if (!port) {
+      reply.code(400).send({ error: 'Invalid port' });
+      return;
+    }
+
+    const base = previewBaseUrl();
+    if (!base) {
+      reply.code(503).send({ error: 'Previews are disabled: set PREVIEW_BASE_URL to a separate origin' });
+      return;
+    }
+
+    try {
+      const session = await db
+        .selectFrom('sessions as s')
+        .innerJoin('environments as e', 's.environment_id', 'e.id')
+        .select(['e.user_id'])
+        .where('s.id', '=', sessionId)
+        .executeTakeFirst();
+
+      if (!session) {
+        reply.code(404).send({ error: 'Session not found' });
+        return;
+      }
+      if (session.user_id !== userId) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+
+      const code = issuePreviewCode(userId, sessionId, port);
+      reply.send({ url: `${base.origin}${previewPrefix(sessionId, port)}/?${PREVIEW_CODE_PARAM}=${code}` });
+    } catch (error) {
+      console.error('Error creating preview link:', error);
+      reply.code(500).send({ error: 'Failed to create preview link', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+}
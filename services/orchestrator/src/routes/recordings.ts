@@ -0,0 +1,163 @@
+import { FastifyPluginAsync } from 'fastify';
+import fs from 'fs';
+import { z } from 'zod';
+import { getDatabase } from '../lib/kysely';
+import { getTerminalSession } from '../services/terminal';
+import {
+  deleteRecording,
+  getRecordingPath,
+  isRecordingActive,
+  listRecordings,
+} from '../services/terminal-recorder';
+
+/**
+ * TERMINAL RECORDINGS
+ * ===================
+ *
+ * Routes (prefix /api/sessions):
+ * - GET    /:sessionId/recordings                 recording flag + recordings, newest first
+ * - PUT    /:sessionId/recording                  { enabled } - also starts/stops the live terminal
+ * - GET    /:sessionId/recordings/:recordingId    download the .cast file
+ * - DELETE /:sessionId/recordings/:recordingId    delete a finished recording
+ *
+ * All routes are owner-only: shared viewers can watch live but not replay.
+ */
+
+const RecordingToggleSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const recordingRoutes: FastifyPluginAsync = async (server) => {
+  const db = getDatabase();
+
+  const getOwnedSession = async (sessionId: string, userId?: string) => {
+    const row = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['s.id', 's.name', 's.recording_enabled', 'e.user_id'])
+      .where('s.id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!row) return { error: 404 as const };
+    if (row.user_id !== userId) return { error: 403 as const };
+    return { session: row };
+  };
+
+  server.get('/:sessionId/recordings', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const owned = await getOwnedSession(sessionId, request.user?.sub);
+      if (owned.error) {
+        reply.code(owned.error).send({ error: owned.error === 404 ? 'Session not found' : 'Access denied' });
+        return;
+      }
+
+      const recordings = await listRecordings(sessionId);
+      reply.send({ enabled: owned.session.recording_enabled, recordings });
+    } catch (error) {
+      console.error('Error listing recordings:', error);
+      reply.code(500).send({ error: 'Failed to list recordings' });
+    }
+  });
+
+  server.put('/:sessionId/recording', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const parsed = RecordingToggleSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid recording settings',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+    const { enabled } = parsed.data;
+
+    try {
+      const owned = await getOwnedSession(sessionId, request.user?.sub);
+      if (owned.error) {
+        reply.code(owned.error).send({ error: owned.error === 404 ? 'Session not found' : 'Access denied' });
+        return;
+      }
+
+      await db
+        .updateTable('sessions')
+        .set({ recording_enabled: enabled, updated_at: new Date() })
+        .where('id', '=', sessionId)
+        .execute();
+
+      // Apply to the running terminal too, not just the next attach
+      const terminal = getTerminalSession(sessionId);
+      if (terminal) {
+        if (enabled) {
+          terminal.startRecording(owned.session.name || undefined);
+        } else {
+          await terminal.stopRecording();
+        }
+      }
+
+      reply.send({ enabled, activeRecordingId: terminal?.recorder?.id ?? null });
+    } catch (error) {
+      console.error('Error updating recording setting:', error);
+      reply.code(500).send({ error: 'Failed to update recording setting' });
+    }
+  });
+
+  server.get('/:sessionId/recordings/:recordingId', async (request, reply) => {
+    const { sessionId, recordingId } = request.params as { sessionId: string; recordingId: string };
+
+    try {
+      const owned = await getOwnedSession(sessionId, request.user?.sub);
+      if (owned.error) {
+        reply.code(owned.error).send({ error: owned.error === 404 ? 'Session not found' : 'Access denied' });
+        return;
+      }
+
+      const filePath = getRecordingPath(sessionId, recordingId);
+      if (!filePath || !fs.existsSync(filePath)) {
+        reply.code(404).send({ error: 'Recording not found' });
+        return;
+      }
+
+      reply
+        .header('Content-Type', 'application/x-asciicast')
+        .header('Content-Disposition', `attachment; filename="${recordingId}.cast"`)
+        .send(fs.createReadStream(filePath));
+    } catch (error) {
+      console.error('Error downloading recording:', error);
+      reply.code(500).send({ error: 'Failed to download recording' });
+    }
+  });
+
+  server.delete('/:sessionId/recordings/:recordingId', async (request, reply) => {
+    const { sessionId, recordingId } = request.params as { sessionId: string; recordingId: string };
+
+    try {
+      const owned = await getOwnedSession(sessionId, request.user?.sub);
+      if (owned.error) {
+        reply.code(owned.error).send({ error: owned.error === 404 ? 'Session not found' : 'Access denied' });
+        return;
+      }
+
+      if (isRecordingActive(sessionId, recordingId)) {
+        reply.code(409).send({
+          error: 'Recording in progress',
+          details: 'Stop recording or disconnect the terminal before deleting this recording'
+        });
+        return;
+      }
+
+      const deleted = await deleteRecording(sessionId, recordingId);
+      if (!deleted) {
+        reply.code(404).send({ error: 'Recording not found' });
+        return;
+      }
+
+      reply.send({ success: true });
+    } catch (error) {
+      console.error('Error deleting recording:', error);
+      reply.code(500).send({ error: 'Failed to delete recording' });
+    }
+  });
+};
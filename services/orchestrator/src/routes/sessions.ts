@@ -1,14 +1,36 @@
 import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
 import { getDatabase } from '../lib/kysely';
 import { Session } from './environments';
 import { worktreeService } from '../services/worktree';
 import { createSandbox } from '../services/docker';
 import { createWorktreeManager } from '../services/worktree-manager';
+import { getTerminalSessions } from '../services/terminal';
+import { createShareLink, deleteShareLink, listShareLinks } from '../services/terminal-sharing';
+import { deleteSessionRecordings } from '../services/terminal-recorder';
+import { revokeGitCredentials } from '../services/git-credentials';
+import { branchInUseResponse, findSessionOnBranch } from '../services/git-branches';
 import os from 'os';
 
+const CreateShareLinkSchema = z.object({
+  access: z.enum(['read-write', 'read-only']),
+  expiresInHours: z.number().int().min(1).max(24 * 30).optional(),
+});
+
 export const sessionRoutes: FastifyPluginAsync = async (server) => {
   const db = getDatabase();
 
+  // Share links can only be managed by the session owner
+  const isSessionOwner = async (sessionId: string, userId?: string) => {
+    const row = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['e.user_id'])
+      .where('s.id', '=', sessionId)
+      .executeTakeFirst();
+    return row ? row.user_id === userId : null;
+  };
+
   // Check session name availability
   server.get('/check-name/:environmentId/:name', async (request, reply) => {
     const { environmentId, name } = request.params as { environmentId: string; name: string };
@@ -146,25 +168,10 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
 
       // Validate unique branch before creation (for repository-based environments)
       if (environmentDetails?.repository_url) {
-        const existingBranchSession = await db
-          .selectFrom('sessions')
-          .select(['id', 'name', 'created_at', 'last_activity'])
-          .where('environment_id', '=', environmentId)
-          .where('git_branch', '=', sessionBranch)
-          .where('status', '!=', 'dead')
-          .executeTakeFirst();
+        const existingBranchSession = await findSessionOnBranch(environmentId, sessionBranch);
         
         if (existingBranchSession) {
-          reply.code(409).send({
-            error: 'BRANCH_IN_USE',
-            message: `A session already exists for branch '${sessionBranch}' in this environment`,
-            existingSession: {
-              id: existingBranchSession.id,
-              name: existingBranchSession.name,
-              createdAt: existingBranchSession.created_at.toISOString(),
-              lastActivity: existingBranchSession.last_activity?.toISOString()
-            }
-          });
+          reply.code(409).send(branchInUseResponse(sessionBranch, existingBranchSession));
           return;
         }
       }
@@ -279,6 +286,10 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         agentId: updatedSessionData.agent_id,
         sessionType: updatedSessionData.session_type,
         gitBranch: updatedSessionData.git_branch,
+        prNumber: updatedSessionData.pr_number ?? undefined,
+        prUrl: updatedSessionData.pr_url ?? undefined,
+        agentState: updatedSessionData.agent_state ?? undefined,
+        agentStateChangedAt: updatedSessionData.agent_state_changed_at?.toISOString(),
       };
 
       reply.send(session);
@@ -313,6 +324,10 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         agentId: row.agent_id,
         sessionType: row.session_type,
         gitBranch: row.git_branch,
+        prNumber: row.pr_number ?? undefined,
+        prUrl: row.pr_url ?? undefined,
+        agentState: row.agent_state ?? undefined,
+        agentStateChangedAt: row.agent_state_changed_at?.toISOString(),
       }));
       
       reply.send({ sessions: sessionList });
@@ -351,6 +366,10 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         agentId: row.agent_id,
         sessionType: row.session_type,
         gitBranch: row.git_branch,
+        prNumber: row.pr_number ?? undefined,
+        prUrl: row.pr_url ?? undefined,
+        agentState: row.agent_state ?? undefined,
+        agentStateChangedAt: row.agent_state_changed_at?.toISOString(),
       };
       
       reply.send(session);
@@ -394,6 +413,10 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         agentId: row.agent_id,
         sessionType: row.session_type,
         gitBranch: row.git_branch,
+        prNumber: row.pr_number ?? undefined,
+        prUrl: row.pr_url ?? undefined,
+        agentState: row.agent_state ?? undefined,
+        agentStateChangedAt: row.agent_state_changed_at?.toISOString(),
       };
       
       reply.send(session);
@@ -538,6 +561,94 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
     }
   });
 
+  // List share links for a session (tokens are never returned after creation)
+  server.get('/:sessionId/share-links', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const owner = await isSessionOwner(sessionId, request.user?.sub);
+      if (owner === null) {
+        reply.code(404).send({ error: 'Session not found' });
+        return;
+      }
+      if (!owner) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+
+      const shareLinks = await listShareLinks(sessionId);
+      reply.send({ shareLinks });
+    } catch (error) {
+      console.error('Error listing share links:', error);
+      reply.code(500).send({ error: 'Failed to list share links' });
+    }
+  });
+
+  // Create a read-write or read-only share link
+  server.post('/:sessionId/share-links', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const parsed = CreateShareLinkSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      reply.code(400).send({
+        error: 'Invalid share link settings',
+        details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      });
+      return;
+    }
+    const { access, expiresInHours } = parsed.data;
+
+    try {
+      const owner = await isSessionOwner(sessionId, request.user?.sub);
+      if (owner === null) {
+        reply.code(404).send({ error: 'Session not found' });
+        return;
+      }
+      if (!owner) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+
+      const { shareLink, token } = await createShareLink(sessionId, request.user!.sub, access, expiresInHours);
+      console.log(`✅ Created ${access} share link ${shareLink.id} for session ${sessionId}`);
+      reply.code(201).send({ ...shareLink, token });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      reply.code(500).send({ error: 'Failed to create share link' });
+    }
+  });
+
+  // Revoke a share link and disconnect the clients it admitted
+  server.delete('/:sessionId/share-links/:linkId', async (request, reply) => {
+    const { sessionId, linkId } = request.params as { sessionId: string; linkId: string };
+
+    try {
+      const owner = await isSessionOwner(sessionId, request.user?.sub);
+      if (owner === null) {
+        reply.code(404).send({ error: 'Session not found' });
+        return;
+      }
+      if (!owner) {
+        reply.code(403).send({ error: 'Access denied' });
+        return;
+      }
+
+      const deleted = await deleteShareLink(sessionId, linkId);
+      if (!deleted) {
+        reply.code(404).send({ error: 'Share link not found' });
+        return;
+      }
+
+      for (const terminal of getTerminalSessions(sessionId)) {
+        terminal.emit('share-link-revoked', linkId);
+      }
+      reply.send({ success: true });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      reply.code(500).send({ error: 'Failed to revoke share link' });
+    }
+  });
+
   // Delete session
   server.delete('/:sessionId', async (request, reply) => {
     const { sessionId } = request.params as { sessionId: string };
@@ -558,6 +669,9 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         return;
       }
 
+      // The container may outlive the cleanup below - cut off its git access first
+      await revokeGitCredentials(sessionId);
+
       // Kill the tmux session if it's running
       if (session.tmux_session_name && session.environment_id) {
         const environment = await db
@@ -583,6 +697,13 @@ export const sessionRoutes: FastifyPluginAsync = async (server) => {
         }
       }
 
+      // Recordings live on disk, not in the database
+      try {
+        await deleteSessionRecordings(sessionId);
+      } catch (error) {
+        console.warn(`⚠️  Failed to delete recordings for session ${sessionId}:`, error instanceof Error ? error.message : error);
+      }
+
       // Delete session from database
       await db
         .deleteFrom('sessions')
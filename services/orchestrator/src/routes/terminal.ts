@@ -1,26 +1,84 @@
 import { FastifyPluginAsync } from 'fastify';
-import { createTerminalSession } from '../services/terminal';
+import type { FastifyJWT } from '@fastify/jwt';
+import crypto from 'crypto';
+import { attachTerminalSession, getTerminalSessions } from '../services/terminal';
+import { resolveShareLink } from '../services/terminal-sharing';
+import type { TerminalAccess } from '../lib/terminal-clients';
+import { OutputBatcher, encodeOutputFrame, TerminalProtocol } from '../lib/terminal-output';
 import { getDatabase } from '../lib/kysely';
 // import { verifySessionExists } from '../services/session-cleanup';
-import { getDocker, ensureContainerRunning } from '../services/docker';
+import { ensureContainerRunning } from '../services/docker';
+import { listWindows } from '../services/tmux-windows';
+import type { AgentState } from '../lib/agent-state';
 import { createWorktreeManager } from '../services/worktree-manager';
+import { execInContainer } from '../services/container-exec';
+import { getAgentPlugin, writeAgentCredentials } from '../services/agent-plugins';
+import { installAgentMcpServers, resolveMcpServers } from '../services/agent-mcp';
+import { decryptCredentials } from '../lib/encryption';
+
+// How long a terminal with no clients is kept so a dropped connection can resume
+const RESUME_GRACE_MS = 30_000;
+
+// A writer's socket with this much unsent output pauses the terminal, and an
+// observer's stops receiving output; both pick up again below the low-water mark
+const BACKPRESSURE_HIGH_BYTES = 1024 * 1024;
+const BACKPRESSURE_LOW_BYTES = 256 * 1024;
 
 export const terminalRoutes: FastifyPluginAsync = async (server) => {
   const db = getDatabase();
 
   console.log('[routes/terminal.ts] Terminal routes registered');
+
+  // Resolve a share token to the session it grants access to
+  server.get('/share/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+
+    try {
+      const link = await resolveShareLink(token);
+      if (!link) {
+        reply.code(404).send({ error: 'Share link not found or expired' });
+        return;
+      }
+
+      reply.send({
+        sessionId: link.sessionId,
+        sessionName: link.sessionName,
+        environmentId: link.environmentId,
+        ownerName: link.ownerName,
+        access: link.access,
+        expiresAt: link.expiresAt,
+      });
+    } catch (error) {
+      console.error('Error resolving share link:', error);
+      reply.code(500).send({ error: 'Failed to resolve share link' });
+    }
+  });
   
   server.get('/ws/:sessionId', { websocket: true }, async (connection, request) => {
     console.log('[routes/terminal.ts] ========== NEW WEBSOCKET CONNECTION ATTEMPT ==========');
     const { sessionId } = request.params as { sessionId: string };
-    const { environmentId, token } = request.query as { environmentId: string; token?: string };
+    const { environmentId, token, share, protocol: requestedProtocol, window: requestedWindow } = request.query as {
+      environmentId?: string;
+      token?: string;
+      share?: string;
+      protocol?: string;
+      window?: string;
+    };
+    // Clients opt in to binary output frames; everything else stays JSON
+    const protocol: TerminalProtocol = requestedProtocol === 'binary' ? 'binary' : 'json';
 
     // Authenticate WebSocket connection
     try {
       if (token) {
         // Verify the JWT token
-        const decoded = await request.server.jwt.verify(token) as any;
-        console.log('[routes/terminal.ts] WebSocket authenticated for user:', decoded.sub || decoded.userId || 'unknown');
+        const decoded = await request.server.jwt.verify<FastifyJWT['user']>(token);
+        // Scoped tokens (e.g. preview cookies) never open a terminal
+        if (decoded.scope) {
+          console.error('[routes/terminal.ts] Scoped token rejected for WebSocket');
+          connection.socket.close(1008, 'Invalid authentication token');
+          return;
+        }
+        console.log('[routes/terminal.ts] WebSocket authenticated for user:', decoded.sub || 'unknown');
         // Store user info for later use if needed
         (request as any).user = decoded;
       } else {
@@ -34,11 +92,6 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
       return;
     }
 
-    if (!environmentId) {
-      connection.socket.close(1008, 'Environment ID required');
-      return;
-    }
-
     try {
       // Get session and environment information
       const sessionWithEnv = await db
@@ -58,8 +111,10 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
           's.agent_id',
           's.git_branch',
           's.container_id',  // Session's container, not environment's
+          's.recording_enabled',
           'e.name as environment_name',
-          'e.repository_url'
+          'e.repository_url',
+          'e.user_id as owner_id'
         ])
         .where('s.id', '=', sessionId)
         .executeTakeFirst();
@@ -79,19 +134,37 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
         name: sessionWithEnv.name
       });
       
-      // Verify the user owns this environment
-      const environment = await db
-        .selectFrom('environments')
-        .select(['user_id'])
-        .where('id', '=', environmentId)
-        .executeTakeFirst();
-        
-      if (!environment || environment.user_id !== (request as any).user.sub) {
-        console.error('[routes/terminal.ts] User does not have access to this environment');
-        connection.socket.close(1008, 'Access denied');
+      if (environmentId && environmentId !== sessionWithEnv.environment_id) {
+        connection.socket.close(1008, 'Session does not belong to this environment');
         return;
       }
 
+      /**
+       * ACCESS CONTROL
+       * ==============
+       * owner(session) = user           → read-write
+       * valid share link for session    → link.access
+       * otherwise                       → rejected
+       *
+       * Read-only clients see the same output stream; their input and resize
+       * messages are dropped below (never forwarded to the exec).
+       */
+      const user = (request as any).user;
+      const isOwner = sessionWithEnv.owner_id === user.sub;
+      let access: TerminalAccess = 'read-write';
+      let shareLinkId: string | null = null;
+
+      if (!isOwner) {
+        const link = share ? await resolveShareLink(share) : null;
+        if (!link || link.sessionId !== sessionId) {
+          console.error('[routes/terminal.ts] User does not have access to this session');
+          connection.socket.close(1008, share ? 'Invalid or expired share link' : 'Access denied');
+          return;
+        }
+        access = link.access;
+        shareLinkId = link.id;
+      }
+
       /**
        * TERMINAL CONNECTION WITH CONTAINER-NATIVE WORKTREE AUTO-RECOVERY
        * ===============================================================
@@ -122,7 +195,7 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
         try {
           // Use session-owned container approach with container-native worktree creation
           if (sessionWithEnv.repository_url && sessionWithEnv.git_branch) {
-            const worktreeManager = createWorktreeManager(environmentId);
+            const worktreeManager = createWorktreeManager(sessionWithEnv.environment_id);
             
             // Create container for this session with bare repo mount + container-native worktree
             containerId = await worktreeManager.ensureSessionContainer(
@@ -154,7 +227,7 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
           // Container is dead - recreate it for this session with container-native worktree
           try {
             if (sessionWithEnv.repository_url && sessionWithEnv.git_branch) {
-              const worktreeManager = createWorktreeManager(environmentId);
+              const worktreeManager = createWorktreeManager(sessionWithEnv.environment_id);
               containerId = await worktreeManager.ensureSessionContainer(
                 sessionId,
                 sessionWithEnv.git_branch,
@@ -198,33 +271,86 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
           return;
         }
 
-        // Determine if credentials exist
         const cred = await db
           .selectFrom('agent_credentials')
-          .select(['type'])
+          .select(['type', 'encrypted_value'])
           .where('agent_id', '=', sessionWithEnv.agent_id)
           .executeTakeFirst();
 
-        // Inject startup commands into tmux window after attach
+        // The plugin decides how the agent is installed, authenticated and launched
         const agentHome = `/data/agents/${sessionWithEnv.agent_id}/home`;
+        const plugin = getAgentPlugin(agent.type);
+        let hasCredential = false;
+        try {
+          await writeAgentCredentials(
+            containerId,
+            plugin,
+            agentHome,
+            cred ? { type: cred.type, value: decryptCredentials(cred.encrypted_value) } : null
+          );
+          hasCredential = !!cred;
+        } catch (error) {
+          // Fall back to the agent's own login
+          console.warn(`[Terminal WebSocket] Could not install ${plugin.displayName} credentials:`, error);
+        }
 
-        agentBootstrap = cred
-          ? `export HOME=${agentHome}; cd ${sessionWithEnv.working_directory || '/workspace'}; claude\n`
-          : `export HOME=${agentHome}; mkdir -p "$HOME" "$HOME/.claude" "$HOME/.config/claude"; claude setup-token\n`;
+        // MCP servers declared for the user, the agent and the environment
+        try {
+          const { servers } = await resolveMcpServers(sessionWithEnv.owner_id, agent.id, sessionWithEnv.environment_id);
+          await installAgentMcpServers(containerId, plugin, agentHome, servers);
+        } catch (error) {
+          // The agent still starts, without them
+          console.warn(`[Terminal WebSocket] Could not install ${plugin.displayName} MCP servers:`, error);
+        }
+
+        agentBootstrap = plugin.bootstrap({
+          home: agentHome,
+          workingDirectory: sessionWithEnv.working_directory || '/workspace',
+          hasCredential,
+        });
+      }
+
+      /**
+       * WINDOW VIEWS: ?window=<id> opens that window in a tmux session grouped
+       * with the session's own (see services/terminal.ts), so the window other
+       * clients are looking at never changes. An unknown window, or a terminal
+       * that is not running yet, falls back to the shared terminal.
+       */
+      let viewWindowId: number | undefined;
+      let windowError: string | null = null;
+      if (requestedWindow !== undefined) {
+        const windowId = Number(requestedWindow);
+        try {
+          const windows = Number.isInteger(windowId) && windowId >= 0
+            ? await listWindows({ containerId, tmuxSessionName: sessionWithEnv.tmux_session_name })
+            : [];
+          if (windows.some(w => w.id === windowId)) {
+            viewWindowId = windowId;
+          } else {
+            windowError = `Window ${requestedWindow} not found`;
+          }
+        } catch (error) {
+          console.warn(`[Terminal WebSocket] Could not list windows for ${sessionId}:`, error instanceof Error ? error.message : error);
+          windowError = `Window ${requestedWindow} not found`;
+        }
       }
 
       // Regular terminal session
       console.log(`[Terminal WebSocket] Creating regular terminal session...`);
       
       let terminal;
+      let created = false;
       try {
-        terminal = await createTerminalSession(
+        ({ terminal, created } = await attachTerminalSession(
           sessionId, 
           containerId, 
           sessionWithEnv.tmux_session_name,
-          sessionWithEnv.working_directory
-        );
-        console.log(`[Terminal WebSocket] Terminal session created successfully`);
+          sessionWithEnv.working_directory,
+          viewWindowId === undefined
+            ? { record: sessionWithEnv.recording_enabled, recordingTitle: sessionWithEnv.name || undefined }
+            : { windowId: viewWindowId }
+        ));
+        console.log(`[Terminal WebSocket] ${created ? 'Terminal session created' : 'Joined shared terminal session'} successfully`);
       } catch (error) {
         console.error(`[Terminal WebSocket] Failed to create terminal session:`, error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error creating terminal session';
@@ -274,87 +400,271 @@ export const terminalRoutes: FastifyPluginAsync = async (server) => {
       }
 
       // If this is an agent session, inject the bootstrap command now that tmux session exists
-      if (isAgentSession && agentBootstrap) {
+      // (only for the client that attached first - later clients join the running agent)
+      if (isAgentSession && agentBootstrap && created && terminal.windowId === null) {
         try {
-          const docker2 = getDocker();
-          const container2 = docker2.getContainer(containerId);
-          const cmd = `/bin/bash -lc "tmux send-keys -t ${sessionWithEnv.tmux_session_name} \"${agentBootstrap.replace(/"/g, '\\"')}\" C-m"`;
-          const exec2 = await container2.exec({
-            Cmd: ['/bin/bash', '-lc', cmd],
-            AttachStdout: false,
-            AttachStderr: false,
-          });
-          await exec2.start({ Detach: true });
+          // Typed literally (-l), then Enter: no shell sits between us and tmux
+          await execInContainer(containerId, ['tmux', 'send-keys', '-t', sessionWithEnv.tmux_session_name, '-l', agentBootstrap], { timeoutMs: 5000 });
+          await execInContainer(containerId, ['tmux', 'send-keys', '-t', sessionWithEnv.tmux_session_name, 'Enter'], { timeoutMs: 5000 });
           console.log('[Terminal WebSocket] Injected agent bootstrap command');
         } catch (e) {
           console.warn('Failed to inject agent bootstrap after attach:', e);
         }
       }
 
-      // Set up terminal event handlers
-      terminal.on('data', (data: string) => {
-        connection.socket.send(JSON.stringify({
-          type: 'output',
-          data,
-        }));
+      const socket = connection.socket;
+      const clientId = crypto.randomUUID();
+      terminal.clients.add({
+        id: clientId,
+        userId: user.sub,
+        name: user.name || user.email || 'Unknown user',
+        access,
+        isOwner,
+        shareLinkId,
+      });
+      console.log(`[Terminal WebSocket] Client ${clientId} joined session ${sessionId} (${access}, ${terminal.clients.size} attached)`);
+
+      const send = (payload: object) => {
+        if (socket.readyState === socket.OPEN) {
+          socket.send(JSON.stringify(payload));
+        }
+      };
+
+      // Apply C₂ (smallest writer viewport) after any size or membership change
+      const applySharedSize = () => {
+        const size = terminal.clients.effectiveSize();
+        if (size) {
+          terminal.resize(size.cols, size.rows);
+        }
+      };
+
+      /**
+       * OUTPUT: {P: data chunks arrive in seq order}
+       * batch → frame (binary or JSON) → socket
+       * {Q: socket.bufferedAmount stays near BACKPRESSURE_HIGH_BYTES at most}
+       *
+       * A writer that falls behind pauses the shared stream, as tmux would.
+       * An observer must not slow down the people typing, so it is skipped
+       * instead: once its socket drains it gets what it missed from the ring
+       * buffer, or a resume-failed and a redraw when that has been evicted.
+       */
+      const canPause = terminal.clients.canWrite(clientId);
+      let outputPaused = false;
+      let lagging = false;
+      let lastSentSeq = terminal.buffer.lastSeq;
+
+      const catchUp = () => {
+        lagging = false;
+        const missed = terminal.buffer.since(lastSentSeq);
+        if (missed) {
+          if (missed.length > 0) {
+            send({ type: 'replay', fromSeq: lastSentSeq, toSeq: terminal.buffer.lastSeq, data: missed.map(chunk => chunk.data).join('') });
+          }
+        } else {
+          send({ type: 'resume-failed', seq: terminal.buffer.lastSeq, bufferId: terminal.bufferId });
+          terminal.redraw();
+        }
+        lastSentSeq = terminal.buffer.lastSeq;
+      };
+
+      const onDrained = () => {
+        if (socket.bufferedAmount >= BACKPRESSURE_LOW_BYTES) {
+          return;
+        }
+        if (outputPaused) {
+          outputPaused = false;
+          terminal.resumeOutput(clientId);
+        }
+        if (lagging) {
+          catchUp();
+        }
+      };
+
+      const batcher = new OutputBatcher((data, seq) => {
+        if (socket.readyState !== socket.OPEN || lagging || seq <= lastSentSeq) {
+          return;
+        }
+
+        const frame = protocol === 'binary'
+          ? encodeOutputFrame(seq, data)
+          : JSON.stringify({ type: 'output', data, seq });
+        socket.send(frame, onDrained);
+        lastSentSeq = seq;
+
+        if (socket.bufferedAmount > BACKPRESSURE_HIGH_BYTES) {
+          if (canPause && !outputPaused) {
+            outputPaused = true;
+            terminal.pauseOutput(clientId);
+          } else if (!canPause) {
+            lagging = true;
+          }
+        }
       });
 
-      terminal.on('error', (error: Error) => {
+      // Set up terminal event handlers (removed again when this client leaves)
+      const onData = (data: string, seq: number) => {
+        batcher.push(data, seq);
+      };
+
+      const onError = (error: Error) => {
         console.error(`[Terminal WebSocket] Terminal error for session ${sessionId}:`, error);
-        connection.socket.send(JSON.stringify({
+        send({
           type: 'error',
           message: error.message,
-        }));
-      });
+        });
+      };
 
-      terminal.on('close', () => {
+      const onClose = () => {
         console.log(`[Terminal WebSocket] Terminal closed for session ${sessionId}`);
-        connection.socket.close(1000, 'Terminal session ended');
-      });
+        batcher.flush();
+        socket.close(1000, 'Terminal session ended');
+      };
+
+      const onPresence = () => {
+        send({ type: 'presence', clientId, clients: terminal.clients.presence() });
+      };
+
+      // Windows were opened, closed, renamed or selected (routes/windows.ts)
+      const onWindows = () => {
+        send({ type: 'windows' });
+      };
+
+      // The agent started or stopped working, or asked a question (services/agent-watcher.ts)
+      const onAgentState = (state: AgentState | null) => {
+        send({ type: 'agent-state', state });
+      };
+
+      const onShareLinkRevoked = (linkId: string) => {
+        if (shareLinkId === linkId) {
+          socket.close(1008, 'Share link revoked');
+        }
+      };
+
+      // Subscribe only now: output sent before 'joined' would break resume
+      terminal.on('data', onData);
+      terminal.on('error', onError);
+      terminal.on('close', onClose);
+      terminal.on('presence', onPresence);
+      terminal.on('share-link-revoked', onShareLinkRevoked);
+      terminal.on('windows', onWindows);
+      terminal.on('agent-state', onAgentState);
+
+      // seq/bufferId let the client resume after a dropped connection (see 'resume')
+      send({ type: 'joined', clientId, access, protocol, seq: terminal.buffer.lastSeq, bufferId: terminal.bufferId });
+      terminal.emit('presence');
+      if (windowError) {
+        send({ type: 'error', message: windowError });
+      }
+
+      // A client joining a running terminal has missed the current screen
+      if (!created) {
+        terminal.redraw();
+      }
       
       // Ask client for an initial resize and also try a conservative default write
-      connection.socket.send(JSON.stringify({ type: 'request-resize' }));
+      send({ type: 'request-resize' });
 
-      connection.socket.on('message', (message: Buffer) => {
+      socket.on('message', (message: Buffer) => {
         try {
           const parsed = JSON.parse(message.toString());
           
           switch (parsed.type) {
             case 'input':
-              terminal.write(parsed.data);
+              // Read-only clients are observers: their keystrokes never reach tmux
+              if (terminal.clients.canWrite(clientId)) {
+                terminal.write(parsed.data);
+              }
               break;
             case 'resize':
-              terminal.resize(parsed.cols, parsed.rows);
+              terminal.clients.setSize(clientId, parsed.cols, parsed.rows);
+              applySharedSize();
+              break;
+            case 'resume': {
+              /**
+               * RESUME: {P: client rendered every chunk with seq ≤ lastSeq of bufferId}
+               * replay = buffer.since(lastSeq)
+               * {Q: client receives exactly the chunks (lastSeq, now] it missed,
+               *     or resume-failed + a full redraw when they were evicted}
+               */
+              // Anything still batched is covered by the replay; send it first so
+              // the client sees it with seq ≤ toSeq and drops it
+              batcher.flush();
+              lastSentSeq = terminal.buffer.lastSeq;
+              const missed = parsed.bufferId === terminal.bufferId && Number.isInteger(parsed.lastSeq)
+                ? terminal.buffer.since(parsed.lastSeq)
+                : null;
+
+              if (missed) {
+                send({
+                  type: 'replay',
+                  fromSeq: parsed.lastSeq,
+                  toSeq: terminal.buffer.lastSeq,
+                  data: missed.map(chunk => chunk.data).join(''),
+                });
+              } else {
+                send({ type: 'resume-failed', seq: terminal.buffer.lastSeq, bufferId: terminal.bufferId });
+                terminal.redraw();
+              }
               break;
+            }
           }
         } catch (error) {
           console.error('WebSocket message error:', error);
         }
       });
 
-      connection.socket.on('close', async () => {
-        console.log(`[Terminal WebSocket] Connection closed for session ${sessionId}`);
-        
-        if (terminal && typeof terminal.destroy === 'function') {
-          terminal.destroy();
+      socket.on('close', async () => {
+        console.log(`[Terminal WebSocket] Connection closed for session ${sessionId} (client ${clientId})`);
+
+        terminal.off('data', onData);
+        terminal.off('error', onError);
+        terminal.off('close', onClose);
+        terminal.off('presence', onPresence);
+        terminal.off('share-link-revoked', onShareLinkRevoked);
+        terminal.off('windows', onWindows);
+        terminal.off('agent-state', onAgentState);
+        terminal.clients.remove(clientId);
+        batcher.dispose();
+        if (outputPaused) {
+          outputPaused = false;
+          terminal.resumeOutput(clientId);
         }
-        
-        // Update session status to inactive after WebSocket closes
-        try {
-          await db
-            .updateTable('sessions')
-            .set({ 
-              status: 'inactive',
-              updated_at: new Date()
-            })
-            .where('id', '=', sessionId)
-            .execute();
-          console.log(`[Terminal WebSocket] Updated session ${sessionId} status to 'inactive'`);
-        } catch (dbError) {
-          console.error(`[Terminal WebSocket] Failed to update session status to inactive:`, dbError);
+
+        // Other clients are still watching - keep the shared terminal alive
+        if (terminal.clients.size > 0) {
+          terminal.emit('presence');
+          applySharedSize();
+          return;
         }
+        
+        // Last client left: keep the terminal (and its output buffer) briefly so a
+        // dropped connection can resume, then mark the session inactive unless
+        // someone is still attached through another window view
+        terminal.destroyWhenIdle(RESUME_GRACE_MS, async () => {
+          if (getTerminalSessions(sessionId).some(other => other.clients.size > 0)) {
+            return;
+          }
+          try {
+            await db
+              .updateTable('sessions')
+              .set({ 
+                status: 'inactive',
+                updated_at: new Date()
+              })
+              .where('id', '=', sessionId)
+              .execute();
+            console.log(`[Terminal WebSocket] Updated session ${sessionId} status to 'inactive'`);
+          } catch (dbError) {
+            console.error(`[Terminal WebSocket] Failed to update session status to inactive:`, dbError);
+          }
+        });
       });
 
+      // The browser may have gone away while the terminal was being attached
+      if (socket.readyState === socket.CLOSED) {
+        socket.emit('close');
+      }
+
     } catch (error) {
       console.error(`[routes/terminal.ts] CRITICAL ERROR - Failed to handle WebSocket for ${sessionId}:`, error);
       if (error instanceof Error) {
@@ -0,0 +1,277 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { getDatabase } from '../lib/kysely';
+import { getTerminalSessions } from '../services/terminal';
+import {
+  TmuxTarget,
+  createWindow,
+  killPane,
+  killWindow,
+  listWindows,
+  renameWindow,
+  selectPane,
+  selectWindow,
+  splitPane,
+} from '../services/tmux-windows';
+
+/**
+ * TMUX WINDOWS AND PANES
+ * ======================
+ *
+ * Routes (prefix /api/sessions), ids are tmux ids without the @ / % prefix:
+ * - GET    /:sessionId/windows                                   windows with their panes
+ * - POST   /:sessionId/windows                                   { name?, cwd? } open a window
+ * - PATCH  /:sessionId/windows/:windowId                         { name } rename
+ * - DELETE /:sessionId/windows/:windowId                         close (not the last one)
+ * - POST   /:sessionId/windows/:windowId/select                  make current
+ * - POST   /:sessionId/windows/:windowId/panes                   { direction, cwd? } split
+ * - DELETE /:sessionId/windows/:windowId/panes/:paneId           close a pane
+ * - POST   /:sessionId/windows/:windowId/panes/:paneId/select    make current
+ *
+ * Every change is announced to attached terminal clients as a 'windows'
+ * event so their tabs refresh. Owner-only, like the other session routes.
+ */
+
+const CreateWindowSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  cwd: z.string().startsWith('/').optional(),
+});
+
+const RenameWindowSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+const SplitPaneSchema = z.object({
+  direction: z.enum(['horizontal', 'vertical']),
+  cwd: z.string().startsWith('/').optional(),
+});
+
+// tmux errors that mean the session's terminal simply is not running
+const TMUX_NOT_RUNNING = /no server running|can't find session|error connecting/i;
+
+export const windowRoutes: FastifyPluginAsync = async (server) => {
+  const db = getDatabase();
+
+  const getTarget = async (request: FastifyRequest, reply: FastifyReply): Promise<TmuxTarget | null> => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const session = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['s.container_id', 's.tmux_session_name', 'e.user_id'])
+      .where('s.id', '=', sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      reply.code(404).send({ error: 'Session not found' });
+      return null;
+    }
+    if (session.user_id !== request.user?.sub) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+    if (!session.container_id) {
+      reply.code(409).send({ error: 'Terminal not running', details: 'Open the session terminal first' });
+      return null;
+    }
+
+    return { containerId: session.container_id, tmuxSessionName: session.tmux_session_name };
+  };
+
+  const parseId = (value: string) => {
+    const id = Number(value);
+    return Number.isInteger(id) && id >= 0 ? id : null;
+  };
+
+  const notifyClients = (sessionId: string) => {
+    for (const terminal of getTerminalSessions(sessionId)) {
+      terminal.emit('windows');
+    }
+  };
+
+  const sendError = (reply: FastifyReply, action: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (TMUX_NOT_RUNNING.test(message)) {
+      reply.code(409).send({ error: 'Terminal not running', details: message });
+      return;
+    }
+    console.error(`Error trying to ${action}:`, error);
+    reply.code(500).send({ error: `Failed to ${action}`, details: message });
+  };
+
+  const invalidBody = (reply: FastifyReply, error: z.ZodError) => {
+    reply.code(400).send({
+      error: 'Invalid request',
+      details: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+    });
+  };
+
+  server.get('/:sessionId/windows', async (request, reply) => {
+    try {
+      const target = await getTarget(request, reply);
+      if (!target) return;
+
+      reply.send({ windows: await listWindows(target) });
+    } catch (error) {
+      sendError(reply, 'list windows', error);
+    }
+  });
+
+  server.post('/:sessionId/windows', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const parsed = CreateWindowSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      invalidBody(reply, parsed.error);
+      return;
+    }
+
+    try {
+      const target = await getTarget(request, reply);
+      if (!target) return;
+
+      const windowId = await createWindow(target, { name: parsed.data.name, cwd: parsed.data.cwd || '/workspace' });
+      const window = (await listWindows(target)).find(w => w.id === windowId);
+      notifyClients(sessionId);
+      reply.code(201).send({ window });
+    } catch (error) {
+      sendError(reply, 'create window', error);
+    }
+  });
+
+  /**
+   * Resolve :windowId (and :paneId when present) against this session's own
+   * windows, so ids belonging to other tmux sessions in the container are 404.
+   */
+  const findWindow = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { windowId: rawWindowId, paneId: rawPaneId } = request.params as { windowId: string; paneId?: string };
+    const target = await getTarget(request, reply);
+    if (!target) return null;
+
+    const windows = await listWindows(target);
+    const window = windows.find(w => w.id === parseId(rawWindowId));
+    if (!window) {
+      reply.code(404).send({ error: 'Window not found' });
+      return null;
+    }
+
+    const pane = rawPaneId === undefined ? undefined : window.panes.find(p => p.id === parseId(rawPaneId));
+    if (rawPaneId !== undefined && !pane) {
+      reply.code(404).send({ error: 'Pane not found' });
+      return null;
+    }
+
+    return { target, windows, window, pane };
+  };
+
+  server.patch('/:sessionId/windows/:windowId', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const parsed = RenameWindowSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      invalidBody(reply, parsed.error);
+      return;
+    }
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found) return;
+
+      await renameWindow(found.target, found.window.id, parsed.data.name);
+      notifyClients(sessionId);
+      reply.send({ window: { ...found.window, name: parsed.data.name } });
+    } catch (error) {
+      sendError(reply, 'rename window', error);
+    }
+  });
+
+  server.delete('/:sessionId/windows/:windowId', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found) return;
+
+      // Closing the last window would end the tmux session (and the terminal)
+      if (found.windows.length === 1) {
+        reply.code(409).send({ error: 'Cannot close the last window', details: 'Delete the session instead' });
+        return;
+      }
+
+      await killWindow(found.target, found.window.id);
+      notifyClients(sessionId);
+      reply.send({ success: true });
+    } catch (error) {
+      sendError(reply, 'close window', error);
+    }
+  });
+
+  server.post('/:sessionId/windows/:windowId/select', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found) return;
+
+      await selectWindow(found.target, found.window.id);
+      notifyClients(sessionId);
+      reply.send({ success: true });
+    } catch (error) {
+      sendError(reply, 'select window', error);
+    }
+  });
+
+  server.post('/:sessionId/windows/:windowId/panes', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+    const parsed = SplitPaneSchema.safeParse(request.body || {});
+    if (!parsed.success) {
+      invalidBody(reply, parsed.error);
+      return;
+    }
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found) return;
+
+      const paneId = await splitPane(found.target, found.window.id, parsed.data.direction, { cwd: parsed.data.cwd });
+      const window = (await listWindows(found.target)).find(w => w.id === found.window.id);
+      notifyClients(sessionId);
+      reply.code(201).send({ pane: window?.panes.find(p => p.id === paneId) ?? { id: paneId } });
+    } catch (error) {
+      sendError(reply, 'split pane', error);
+    }
+  });
+
+  server.delete('/:sessionId/windows/:windowId/panes/:paneId', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found || !found.pane) return;
+
+      if (found.windows.length === 1 && found.window.panes.length === 1) {
+        reply.code(409).send({ error: 'Cannot close the last pane', details: 'Delete the session instead' });
+        return;
+      }
+
+      await killPane(found.target, found.pane.id);
+      notifyClients(sessionId);
+      reply.send({ success: true });
+    } catch (error) {
+      sendError(reply, 'close pane', error);
+    }
+  });
+
+  server.post('/:sessionId/windows/:windowId/panes/:paneId/select', async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    try {
+      const found = await findWindow(request, reply);
+      if (!found || !found.pane) return;
+
+      await selectPane(found.target, found.window.id, found.pane.id);
+      notifyClients(sessionId);
+      reply.send({ success: true });
+    } catch (error) {
+      sendError(reply, 'select pane', error);
+    }
+  });
+};
@@ -0,0 +1,288 @@
+import { getDatabase } from '../lib/kysely';
+import { decryptCredentials, encryptCredentials } from '../lib/encryption.js';
+import {
+  MCP_STATE_FILE,
+  McpServerMap,
+  McpServersSchema,
+  mergeMcpServers,
+  parseRenderedNames,
+  redactMcpServers,
+  renderMcpConfig,
+  restoreMcpSecrets,
+} from '../lib/agent-mcp';
+import { AgentPlugin, writeAgentHomeFile } from './agent-plugins';
+import { execInContainer } from './container-exec';
+
+/**
+ * AGENT MCP - MCP servers declared per user, agent and environment
+ * ================================================================
+ *
+ * Each level is one encrypted row with config_type = 'mcp_servers':
+ * - user:        user_agent_configs        (agent_type = '*')
+ * - agent:       agent_configs
+ * - environment: environment_agent_configs (agent_type = '*')
+ *
+ * Hoare Triple:
+ * {P: session s runs agent a of user u in environment e ∧ a's plugin has an
+ *     MCP config file}
+ * resolveMcpServers(u, a, e), then installAgentMcpServers(...)
+ * {Q: a's config file in HOME lists mergeMcpServers(user, agent, environment)
+ *     ∧ servers it listed from an earlier install, but no longer declared,
+ *     are gone}
+ *
+ * Invariants:
+ * C₁: a level is only read or written by the user who owns it
+ * C₂: definitions are encrypted at rest and redacted in every response (M₁);
+ *     only installAgentMcpServers sees the secrets, and writes them to the
+ *     agent's HOME like its credentials (L₁)
+ * C₃: a level without servers has no row
+ */
+
+export class McpConfigError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export type McpConfigLevel = 'user' | 'agent' | 'environment';
+
+// `id` is the user, agent or environment the level belongs to
+export interface McpConfigScope {
+  level: McpConfigLevel;
+  id: string;
+}
+
+export interface ResolvedMcpServers {
+  servers: McpServerMap;
+  sources: Record<string, McpConfigLevel>;   // the level each server comes from
+}
+
+const MCP_CONFIG_TYPE = 'mcp_servers';
+
+// User and environment definitions apply to every agent type
+const ANY_AGENT_TYPE = '*';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// C₁
+async function assertScopeOwner(userId: string, scope: McpConfigScope): Promise<void> {
+  const db = getDatabase();
+  if (scope.level !== 'user' && !UUID.test(scope.id)) {
+    throw new McpConfigError(404, `${scope.level === 'agent' ? 'Agent' : 'Environment'} not found`);
+  }
+  switch (scope.level) {
+    case 'user':
+      if (scope.id !== userId) throw new McpConfigError(403, 'Access denied');
+      return;
+    case 'agent': {
+      const agent = await db
+        .selectFrom('agents')
+        .select(['user_id'])
+        .where('id', '=', scope.id)
+        .executeTakeFirst();
+      if (!agent || agent.user_id !== userId) throw new McpConfigError(404, 'Agent not found');
+      return;
+    }
+    case 'environment': {
+      const environment = await db
+        .selectFrom('environments')
+        .select(['user_id'])
+        .where('id', '=', scope.id)
+        .executeTakeFirst();
+      if (!environment) throw new McpConfigError(404, 'Environment not found');
+      if (environment.user_id !== userId) throw new McpConfigError(403, 'Access denied');
+      return;
+    }
+  }
+}
+
+async function readLevel(scope: McpConfigScope): Promise<McpServerMap> {
+  const db = getDatabase();
+  let row: { encrypted_value: string } | undefined;
+  switch (scope.level) {
+    case 'user':
+      row = await db
+        .selectFrom('user_agent_configs')
+        .select(['encrypted_value'])
+        .where('user_id', '=', scope.id)
+        .where('agent_type', '=', ANY_AGENT_TYPE)
+        .where('config_type', '=', MCP_CONFIG_TYPE)
+        .executeTakeFirst();
+      break;
+    case 'agent':
+      row = await db
+        .selectFrom('agent_configs')
+        .select(['encrypted_value'])
+        .where('agent_id', '=', scope.id)
+        .where('config_type', '=', MCP_CONFIG_TYPE)
+        .executeTakeFirst();
+      break;
+    case 'environment':
+      row = await db
+        .selectFrom('environment_agent_configs')
+        .select(['encrypted_value'])
+        .where('environment_id', '=', scope.id)
+        .where('agent_type', '=', ANY_AGENT_TYPE)
+        .where('config_type', '=', MCP_CONFIG_TYPE)
+        .executeTakeFirst();
+      break;
+  }
+  return row ? McpServersSchema.parse(decryptCredentials(row.encrypted_value)) : {};
+}
+
+async function writeLevel(scope: McpConfigScope, servers: McpServerMap): Promise<void> {
+  const db = getDatabase();
+  const empty = Object.keys(servers).length === 0; // C₃
+  const encrypted = empty ? '' : encryptCredentials(servers);
+  const now = new Date();
+
+  switch (scope.level) {
+    case 'user': {
+      const row = { user_id: scope.id, agent_type: ANY_AGENT_TYPE, config_type: MCP_CONFIG_TYPE };
+      if (empty) {
+        await db.deleteFrom('user_agent_configs')
+          .where('user_id', '=', row.user_id)
+          .where('agent_type', '=', row.agent_type)
+          .where('config_type', '=', row.config_type)
+          .execute();
+      } else {
+        await db.insertInto('user_agent_configs')
+          .values({ ...row, encrypted_value: encrypted })
+          .onConflict(oc => oc.columns(['user_id', 'agent_type', 'config_type'])
+            .doUpdateSet({ encrypted_value: encrypted, updated_at: now }))
+          .execute();
+      }
+      return;
+    }
+    case 'agent': {
+      if (empty) {
+        await db.deleteFrom('agent_configs')
+          .where('agent_id', '=', scope.id)
+          .where('config_type', '=', MCP_CONFIG_TYPE)
+          .execute();
+      } else {
+        await db.insertInto('agent_configs')
+          .values({ agent_id: scope.id, config_type: MCP_CONFIG_TYPE, encrypted_value: encrypted })
+          .onConflict(oc => oc.columns(['agent_id', 'config_type'])
+            .doUpdateSet({ encrypted_value: encrypted, updated_at: now }))
+          .execute();
+      }
+      return;
+    }
+    case 'environment': {
+      const row = { environment_id: scope.id, agent_type: ANY_AGENT_TYPE, config_type: MCP_CONFIG_TYPE };
+      if (empty) {
+        await db.deleteFrom('environment_agent_configs')
+          .where('environment_id', '=', row.environment_id)
+          .where('agent_type', '=', row.agent_type)
+          .where('config_type', '=', row.config_type)
+          .execute();
+      } else {
+        await db.insertInto('environment_agent_configs')
+          .values({ ...row, encrypted_value: encrypted })
+          .onConflict(oc => oc.columns(['environment_id', 'agent_type', 'config_type'])
+            .doUpdateSet({ encrypted_value: encrypted, updated_at: now }))
+          .execute();
+      }
+      return;
+    }
+  }
+}
+
+// One level's servers, redacted (C₂)
+export async function getMcpServers(userId: string, scope: McpConfigScope): Promise<McpServerMap> {
+  await assertScopeOwner(userId, scope);
+  return redactMcpServers(await readLevel(scope));
+}
+
+// Replace one level's servers. Redacted values keep what is stored (M₂)
+export async function updateMcpServers(
+  userId: string,
+  scope: McpConfigScope,
+  servers: McpServerMap
+): Promise<McpServerMap> {
+  await assertScopeOwner(userId, scope);
+
+  const { servers: restored, missing } = restoreMcpSecrets(servers, await readLevel(scope));
+  if (missing.length > 0) {
+    throw new McpConfigError(400, `No stored value for ${missing.join(', ')}`);
+  }
+
+  await writeLevel(scope, restored);
+  return redactMcpServers(restored);
+}
+
+// The servers an agent gets in an environment, with their secrets
+export async function resolveMcpServers(
+  userId: string,
+  agentId: string,
+  environmentId: string
+): Promise<ResolvedMcpServers> {
+  const levels: McpConfigScope[] = [
+    { level: 'user', id: userId },
+    { level: 'agent', id: agentId },
+    { level: 'environment', id: environmentId },
+  ];
+
+  const sources: Record<string, McpConfigLevel> = {};
+  const maps: McpServerMap[] = [];
+  for (const scope of levels) {
+    const servers = await readLevel(scope);
+    for (const name of Object.keys(servers)) sources[name] = scope.level;
+    maps.push(servers);
+  }
+
+  const servers = mergeMcpServers(...maps);
+  return {
+    servers,
+    sources: Object.fromEntries(Object.keys(servers).map(name => [name, sources[name]])),
+  };
+}
+
+// What GET /effective shows: the merge, redacted
+export async function getEffectiveMcpServers(
+  userId: string,
+  agentId: string,
+  environmentId: string
+): Promise<ResolvedMcpServers> {
+  await assertScopeOwner(userId, { level: 'agent', id: agentId });
+  await assertScopeOwner(userId, { level: 'environment', id: environmentId });
+
+  const { servers, sources } = await resolveMcpServers(userId, agentId, environmentId);
+  return { servers: redactMcpServers(servers), sources };
+}
+
+async function readHomeFile(containerId: string, home: string, relativePath: string): Promise<string | null> {
+  const { stdout, exitCode } = await execInContainer(containerId, ['cat', `${home}/${relativePath}`], { timeoutMs: 15_000 });
+  return exitCode === 0 ? stdout : null;
+}
+
+/**
+ * Render `servers` into the agent's MCP config file in HOME. Servers added by
+ * hand (e.g. `claude mcp add`) are kept; MCP_STATE_FILE remembers which ones
+ * came from here. With nothing declared now or before, the file is untouched.
+ */
+export async function installAgentMcpServers(
+  containerId: string,
+  plugin: AgentPlugin,
+  home: string,
+  servers: McpServerMap
+): Promise<void> {
+  if (!plugin.mcpConfig) return;
+  const { path, format } = plugin.mcpConfig;
+
+  const previousNames = parseRenderedNames(await readHomeFile(containerId, home, MCP_STATE_FILE));
+  if (previousNames.length === 0 && Object.keys(servers).length === 0) return;
+
+  const existing = await readHomeFile(containerId, home, path);
+  let content: string;
+  try {
+    content = renderMcpConfig(format, servers, existing, previousNames);
+  } catch (error: any) {
+    // Never overwrite a file we cannot read back
+    throw new Error(`~/${path} for ${plugin.displayName} is not valid JSON (${error.message})`);
+  }
+
+  await writeAgentHomeFile(containerId, plugin, home, path, content);
+  await writeAgentHomeFile(containerId, plugin, home, MCP_STATE_FILE, `${JSON.stringify(Object.keys(servers))}\n`);
+}
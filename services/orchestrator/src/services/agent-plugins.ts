@@ -0,0 +1,350 @@
+import {
+  AGENT_ENV_FILE,
+  AgentCredential,
+  AgentCredentialMaterial,
+  AgentType,
+  agentLaunchScript,
+  isAgentType,
+  renderEnvFile,
+  shellQuote,
+} from '../lib/agent-plugins';
+import { AgentScreenSignals, COMMON_SCREEN_SIGNALS, mergeScreenSignals } from '../lib/agent-state';
+import type { McpConfigFormat } from '../lib/agent-mcp';
+import { execInContainer } from './container-exec';
+
+/**
+ * AGENT PLUGINS - What Craftastic knows about each coding agent CLI
+ * =================================================================
+ *
+ * Hoare Triple:
+ * {P: agent.type ∈ AGENT_TYPES}
+ * getAgentPlugin(agent.type)
+ * {Q: plugin describing how to install, authenticate, launch and check the agent}
+ *
+ * A plugin answers five questions:
+ * - install check: is the CLI on PATH, and how to install it when it is not
+ *   (part of the launch script, so any sandbox image works)
+ * - credential types: which secrets the agent accepts, and whether each one is
+ *   an environment variable or a file in the agent's HOME
+ * - bootstrap: the command typed into the agent session - the agent itself
+ *   with a credential, its interactive login without one; headless() is the
+ *   same for a one-shot prompt (services/agent-tasks.ts)
+ * - ingest: after an interactive login, which file in HOME holds the result
+ * - health: installed version and whether a credential is in place
+ * - screen signals: what the agent's terminal shows while it works or asks a
+ *   question (services/agent-watcher.ts)
+ * - MCP config: the file in HOME that lists the agent's MCP servers, and how
+ *   it spells them (services/agent-mcp.ts)
+ *
+ * Most agents differ only in data, so plugins are declared with
+ * defineAgentPlugin(); an agent with unusual needs can implement AgentPlugin
+ * directly.
+ *
+ * Invariants:
+ * L₁: credential values only reach the container through files written with
+ *     writeAgentCredentials (mode 0600), never through the launch script
+ * L₂: every agent type in AGENT_TYPES has exactly one plugin
+ */
+
+export class AgentPluginError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface AgentCredentialType {
+  type: string;                 // stored in agent_credentials.type
+  label: string;
+  kind: 'env' | 'file';
+  target: string;               // variable name, or file path relative to HOME
+}
+
+export interface AgentBootstrapContext {
+  home: string;                 // the agent's HOME inside the container
+  workingDirectory: string;
+  hasCredential: boolean;
+}
+
+export interface AgentMcpConfig {
+  path: string;                 // relative to HOME; other keys in the file are kept
+  format: McpConfigFormat;
+}
+
+export interface AgentHealth {
+  installed: boolean;
+  version: string | null;
+  credentialType: string | null;
+  credentialPresent: boolean;   // the credential's file or env file is in HOME
+}
+
+// Reads a file relative to the agent's HOME; null when it does not exist
+export type AgentHomeReader = (relativePath: string) => Promise<string | null>;
+
+export interface AgentPlugin {
+  type: AgentType;
+  displayName: string;
+  binary: string;
+  installCommand: string;
+  credentialTypes: AgentCredentialType[];
+  // Credential type for a token pasted or detected during setup, if any
+  tokenCredentialType: string | null;
+  screenSignals: AgentScreenSignals;
+  mcpConfig: AgentMcpConfig | null;
+
+  bootstrap(context: AgentBootstrapContext): string;
+  // Runs the prompt in promptFile to completion without a terminal
+  headless(context: Omit<AgentBootstrapContext, 'hasCredential'>, promptFile: string): string;
+  materialize(credential: AgentCredential): AgentCredentialMaterial;
+  ingest(readHome: AgentHomeReader, token?: string): Promise<AgentCredential>;
+  healthCheck(containerId: string, home: string, credentialType: string | null): Promise<AgentHealth>;
+}
+
+interface AgentPluginSpec {
+  type: AgentType;
+  displayName: string;
+  binary: string;
+  installCommand: string;
+  credentialTypes: AgentCredentialType[];
+  tokenCredentialType?: string;
+  run: string;                  // with a credential
+  login: string;                // interactive setup without one
+  headless: string;             // non-interactive run; the prompt is appended as the last argument
+  screenSignals?: Partial<AgentScreenSignals>;  // in addition to COMMON_SCREEN_SIGNALS
+  mcpConfig?: AgentMcpConfig;
+}
+
+function defineAgentPlugin(spec: AgentPluginSpec): AgentPlugin {
+  const credentialType = (type: string) => {
+    const found = spec.credentialTypes.find(candidate => candidate.type === type);
+    if (!found) {
+      throw new AgentPluginError(400, `${spec.displayName} does not accept '${type}' credentials`);
+    }
+    return found;
+  };
+
+  return {
+    type: spec.type,
+    displayName: spec.displayName,
+    binary: spec.binary,
+    installCommand: spec.installCommand,
+    credentialTypes: spec.credentialTypes,
+    tokenCredentialType: spec.tokenCredentialType ?? null,
+    screenSignals: mergeScreenSignals(COMMON_SCREEN_SIGNALS, spec.screenSignals),
+    mcpConfig: spec.mcpConfig ?? null,
+
+    bootstrap({ home, workingDirectory, hasCredential }) {
+      return agentLaunchScript({
+        home,
+        workingDirectory,
+        binary: spec.binary,
+        installCommand: spec.installCommand,
+        run: hasCredential ? spec.run : spec.login,
+      });
+    },
+
+    headless({ home, workingDirectory }, promptFile) {
+      return agentLaunchScript({
+        home,
+        workingDirectory,
+        binary: spec.binary,
+        installCommand: spec.installCommand,
+        run: `${spec.headless} "$(cat ${shellQuote(promptFile)})"`,
+      });
+    },
+
+    materialize(credential) {
+      const { kind, target } = credentialType(credential.type);
+      return kind === 'env'
+        ? { env: { [target]: credential.value }, files: [] }
+        : { env: {}, files: [{ path: target, content: credential.value }] };
+    },
+
+    async ingest(readHome, token) {
+      if (token) {
+        if (!spec.tokenCredentialType) {
+          throw new AgentPluginError(400, `${spec.displayName} setup does not produce a token`);
+        }
+        return { type: spec.tokenCredentialType, value: token };
+      }
+
+      const fileTypes = spec.credentialTypes.filter(candidate => candidate.kind === 'file');
+      for (const { type, target } of fileTypes) {
+        const content = await readHome(target);
+        if (content === null) continue;
+        if (target.endsWith('.json')) {
+          try {
+            JSON.parse(content);
+          } catch {
+            throw new AgentPluginError(400, `Invalid JSON in ~/${target}`);
+          }
+        }
+        return { type, value: content };
+      }
+      throw new AgentPluginError(400, `Credentials file not found (looked for ${fileTypes.map(t => `~/${t.target}`).join(', ') || 'none'})`);
+    },
+
+    async healthCheck(containerId, home, storedType) {
+      const check = [
+        `export HOME=${shellQuote(home)}`,
+        `command -v ${shellQuote(spec.binary)} >/dev/null 2>&1 || exit 3`,
+        `${shellQuote(spec.binary)} --version 2>/dev/null | head -n 1`,
+      ].join('; ');
+      const { stdout, exitCode } = await execInContainer(containerId, check, { timeoutMs: 15_000 });
+      const installed = exitCode !== 3;
+
+      let credentialPresent = false;
+      if (storedType) {
+        const { kind, target } = credentialType(storedType);
+        const file = kind === 'env' ? AGENT_ENV_FILE : target;
+        const probe = await execInContainer(containerId, ['test', '-s', `${home}/${file}`], { timeoutMs: 5000 });
+        credentialPresent = probe.exitCode === 0;
+      }
+
+      return {
+        installed,
+        version: installed ? stdout.trim() || null : null,
+        credentialType: storedType,
+        credentialPresent,
+      };
+    },
+  };
+}
+
+const NPM_INSTALL = (pkg: string) => `npm install -g ${pkg}`;
+
+const plugins: Record<AgentType, AgentPlugin> = {
+  'claude-code': defineAgentPlugin({
+    type: 'claude-code',
+    displayName: 'Claude Code',
+    binary: 'claude',
+    installCommand: NPM_INSTALL('@anthropic-ai/claude-code'),
+    credentialTypes: [
+      { type: 'claude_oauth_token', label: 'OAuth token (claude setup-token)', kind: 'env', target: 'CLAUDE_CODE_OAUTH_TOKEN' },
+      { type: 'anthropic_api_key', label: 'Anthropic API key', kind: 'env', target: 'ANTHROPIC_API_KEY' },
+      { type: 'claude_cli_json', label: 'Claude CLI config (~/.claude.json)', kind: 'file', target: '.claude.json' },
+    ],
+    tokenCredentialType: 'claude_oauth_token',
+    run: 'claude',
+    login: 'mkdir -p "$HOME/.claude" "$HOME/.config/claude"; claude setup-token',
+    headless: 'claude -p --permission-mode acceptEdits',
+    screenSignals: {
+      // Permission prompts: "Do you want to make this edit to x?" over a numbered "❯ 1. Yes" menu
+      awaitingInput: [/do you want to (make this edit|create|run|proceed)/i, /❯\s*1\.\s*Yes/],
+    },
+    // User-scope servers; the file also holds Claude's own state
+    mcpConfig: { path: '.claude.json', format: 'claude' },
+  }),
+
+  'gemini-cli': defineAgentPlugin({
+    type: 'gemini-cli',
+    displayName: 'Gemini CLI',
+    binary: 'gemini',
+    installCommand: NPM_INSTALL('@google/gemini-cli'),
+    credentialTypes: [
+      { type: 'gemini_api_key', label: 'Gemini API key', kind: 'env', target: 'GEMINI_API_KEY' },
+      { type: 'gemini_oauth_json', label: 'Google login (~/.gemini/oauth_creds.json)', kind: 'file', target: '.gemini/oauth_creds.json' },
+    ],
+    run: 'gemini',
+    // The first run offers "Login with Google" and caches it in ~/.gemini
+    login: 'mkdir -p "$HOME/.gemini"; gemini',
+    headless: 'gemini --approval-mode auto_edit -p',
+    screenSignals: {
+      awaitingInput: [/allow execution/i, /apply this change\?/i, /waiting for user confirmation/i],
+    },
+    mcpConfig: { path: '.gemini/settings.json', format: 'gemini' },
+  }),
+
+  'qwen-coder': defineAgentPlugin({
+    type: 'qwen-coder',
+    displayName: 'Qwen Coder',
+    binary: 'qwen',
+    installCommand: NPM_INSTALL('@qwen-code/qwen-code'),
+    credentialTypes: [
+      { type: 'openai_api_key', label: 'OpenAI-compatible API key', kind: 'env', target: 'OPENAI_API_KEY' },
+      { type: 'dashscope_api_key', label: 'DashScope API key', kind: 'env', target: 'DASHSCOPE_API_KEY' },
+      { type: 'qwen_oauth_json', label: 'Qwen login (~/.qwen/oauth_creds.json)', kind: 'file', target: '.qwen/oauth_creds.json' },
+    ],
+    run: 'qwen',
+    login: 'mkdir -p "$HOME/.qwen"; qwen',
+    headless: 'qwen --approval-mode auto_edit -p',
+    // Qwen Code is a fork of Gemini CLI and asks the same way
+    screenSignals: {
+      awaitingInput: [/allow execution/i, /apply this change\?/i, /waiting for user confirmation/i],
+    },
+    mcpConfig: { path: '.qwen/settings.json', format: 'gemini' },
+  }),
+
+  'cursor-cli': defineAgentPlugin({
+    type: 'cursor-cli',
+    displayName: 'Cursor CLI',
+    binary: 'cursor-agent',
+    // The installer puts cursor-agent in ~/.local/bin, which the launch script adds to PATH
+    installCommand: 'curl -fsS https://cursor.com/install | bash',
+    credentialTypes: [
+      { type: 'cursor_api_key', label: 'Cursor API key', kind: 'env', target: 'CURSOR_API_KEY' },
+      { type: 'cursor_auth_json', label: 'Cursor login (~/.config/cursor/auth.json)', kind: 'file', target: '.config/cursor/auth.json' },
+    ],
+    run: 'cursor-agent',
+    login: 'cursor-agent login',
+    headless: 'cursor-agent -p',
+    screenSignals: {
+      awaitingInput: [/run (this )?command\?/i, /\(y\)es.*\(n\)o/i],
+    },
+    mcpConfig: { path: '.cursor/mcp.json', format: 'cursor' },
+  }),
+};
+
+export function getAgentPlugin(type: string): AgentPlugin {
+  if (!isAgentType(type)) {
+    throw new AgentPluginError(400, `Unknown agent type '${type}'`);
+  }
+  return plugins[type];
+}
+
+export function describeAgentPlugins() {
+  return Object.values(plugins).map(plugin => ({
+    type: plugin.type,
+    displayName: plugin.displayName,
+    binary: plugin.binary,
+    credentialTypes: plugin.credentialTypes.map(({ type, label, kind }) => ({ type, label, kind })),
+    supportsTokenSetup: plugin.tokenCredentialType !== null,
+    supportsMcp: plugin.mcpConfig !== null,
+  }));
+}
+
+/**
+ * Write the agent's credential into its HOME in a container (L₁): the env
+ * file for variables, the agent's own file otherwise. Without a credential
+ * the env file is removed, so a deleted credential stops working.
+ */
+export async function writeAgentCredentials(
+  containerId: string,
+  plugin: AgentPlugin,
+  home: string,
+  credential: AgentCredential | null
+): Promise<void> {
+  const material = credential ? plugin.materialize(credential) : { env: {}, files: [] };
+  const files = [{ path: AGENT_ENV_FILE, content: renderEnvFile(material.env) }, ...material.files];
+
+  for (const file of files) {
+    await writeAgentHomeFile(containerId, plugin, home, file.path, file.content);
+  }
+}
+
+// Write a file relative to the agent's HOME, readable by its owner only when new
+export async function writeAgentHomeFile(
+  containerId: string,
+  plugin: AgentPlugin,
+  home: string,
+  relativePath: string,
+  content: string
+): Promise<void> {
+  const { exitCode, stderr } = await execInContainer(
+    containerId,
+    ['/bin/bash', '-c', 'umask 077; mkdir -p "$(dirname "$1")"; cat > "$1"', 'write-agent-file', `${home}/${relativePath}`],
+    { stdin: content, timeoutMs: 15_000 }
+  );
+  if (exitCode !== 0) {
+    throw new Error(`Writing ~/${relativePath} for ${plugin.displayName} failed: ${stderr.trim()}`);
+  }
+}
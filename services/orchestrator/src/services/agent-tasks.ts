@@ -0,0 +1,782 @@
+import { sql } from 'kysely';
+import { config } from '../config';
+import { getDatabase } from '../lib/kysely';
+import { decryptCredentials } from '../lib/encryption';
+import { shellQuote } from '../lib/agent-plugins';
+import { WORKSPACE_ROOT } from '../lib/workspace-paths';
+import {
+  AgentTaskStatus,
+  TASK_DIFF_LIMIT,
+  TASK_TRANSCRIPT_LIMIT,
+  agentTaskPaths,
+  agentTaskScript,
+  isFinishedTaskStatus,
+  parseTaskExitCode,
+  pickNextTask,
+  taskRetryDelay,
+  truncateText,
+} from '../lib/agent-tasks';
+import { getAgentPlugin, writeAgentCredentials } from './agent-plugins';
+import { installAgentMcpServers, resolveMcpServers } from './agent-mcp';
+import { execInContainer } from './container-exec';
+import { findSessionOnBranch } from './git-branches';
+import { TmuxTarget, createWindow, killWindow } from './tmux-windows';
+import { execGit } from './worktree-git';
+import { createWorktreeManager } from './worktree-manager';
+
+/**
+ * AGENT TASKS - Headless agent runs with status, transcript and diff
+ * ==================================================================
+ *
+ * Hoare Triple:
+ * {P: task t is queued ∧ t.agent has a stored credential}
+ * runner pass
+ * {Q: t runs `agent -p <prompt>` in its own detached tmux window of its
+ *     session, output copied to a log; when the agent exits,
+ *     t.status = (exit 0 ? succeeded : failed) ∧ t.exit_code, t.transcript
+ *     and t.diff (worktree changes since t.base_commit) are stored}
+ *
+ * The runner is a poll loop (TASK_POLL_MS) that also runs right after a
+ * submission: it checks running tasks for the exit status file their script
+ * writes (lib/agent-tasks.ts T₂), then claims queued tasks while the
+ * concurrency limits allow. A task on a new branch gets a fresh agent
+ * session; its container is provisioned (ensureSessionContainer) only once
+ * the task is claimed, so the limits bound how many containers start at once.
+ * Everything a running task needs lives in the container, so an orchestrator
+ * restart picks running tasks up where they were.
+ *
+ * The queue is the agent_tasks table. A claim runs in a transaction under a
+ * Postgres advisory lock, so orchestrator instances sharing the database never
+ * exceed the limits together. Queue order is priority, then submission time.
+ *
+ * Failures around the agent - provisioning, a lost window or container - are
+ * retried with exponential backoff until max_attempts. A non-zero exit of the
+ * agent itself is final: the agent has already acted on the prompt.
+ *
+ * Invariants:
+ * T₁: see lib/agent-tasks.ts - every status change is a conditional update
+ *     from the expected previous status, so a cancel racing a finish has one
+ *     winner
+ * T₃: see lib/agent-tasks.ts - limits are checked and a task claimed in one
+ *     locked transaction; a claimed task counts as running while it starts
+ * T₄: credentials and MCP server secrets reach the container only as files
+ *     in the agent's HOME (writeAgentCredentials, installAgentMcpServers)
+ */
+
+export class AgentTaskError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface AgentTask {
+  id: string;
+  sessionId: string;
+  agentId: string;
+  prompt: string;
+  status: AgentTaskStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string | null;     // a retry waits until then
+  exitCode: number | null;
+  error: string | null;        // the last attempt's, when it was retried
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface AgentTaskDetails extends AgentTask {
+  transcript: string | null;   // live tail of the log while running
+  diff: string | null;         // set when the task finishes
+}
+
+export type AgentTaskTarget =
+  | { sessionId: string }
+  | { environmentId: string; branch: string; name?: string };
+
+export interface SubmitAgentTaskInput {
+  userId: string;
+  prompt: string;
+  agentId?: string;            // defaults to the session's agent
+  priority?: number;
+  maxAttempts?: number;        // defaults to AGENT_TASK_MAX_ATTEMPTS
+  target: AgentTaskTarget;
+}
+
+const TASK_POLL_MS = 5000;
+
+// A claimed task that has no window by then was lost while starting (e.g. a restart)
+const TASK_START_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Tasks starting in this process; the runner leaves them to startTask
+const starting = new Set<string>();
+
+// Queued tasks looked at per claim; tasks further back wait for the next pass
+const CLAIM_SCAN_LIMIT = 200;
+
+let runnerTimer: NodeJS.Timeout | null = null;
+let pass: Promise<void> | null = null;
+let passRequested = false;
+
+type AgentTaskRow = Awaited<ReturnType<typeof loadTask>>;
+
+function loadTask(taskId: string) {
+  return getDatabase()
+    .selectFrom('agent_tasks')
+    .selectAll()
+    .where('id', '=', taskId)
+    .executeTakeFirstOrThrow();
+}
+
+function toAgentTask(row: AgentTaskRow): AgentTask {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    agentId: row.agent_id,
+    prompt: row.prompt,
+    status: row.status,
+    priority: row.priority,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after?.toISOString() ?? null,
+    exitCode: row.exit_code,
+    error: row.error,
+    createdAt: row.created_at.toISOString(),
+    startedAt: row.started_at?.toISOString() ?? null,
+    finishedAt: row.finished_at?.toISOString() ?? null,
+  };
+}
+
+async function ownedTask(userId: string, taskId: string): Promise<AgentTaskRow> {
+  const row = await getDatabase()
+    .selectFrom('agent_tasks')
+    .selectAll()
+    .where('id', '=', taskId)
+    .executeTakeFirst();
+  if (!row) {
+    throw new AgentTaskError(404, 'Task not found');
+  }
+  if (row.user_id !== userId) {
+    throw new AgentTaskError(403, 'Access denied');
+  }
+  return row;
+}
+
+// T₁: finish a task that is in one of `from`; false when another change won
+async function transition(
+  taskId: string,
+  from: AgentTaskStatus[],
+  values: {
+    status: 'succeeded' | 'failed' | 'cancelled';
+    exit_code?: number | null;
+    transcript?: string | null;
+    diff?: string | null;
+    error?: string | null;
+  }
+): Promise<boolean> {
+  const result = await getDatabase()
+    .updateTable('agent_tasks')
+    .set({ ...values, finished_at: new Date() })
+    .where('id', '=', taskId)
+    .where('status', 'in', from)
+    .executeTakeFirst();
+  return Number(result.numUpdatedRows) > 0;
+}
+
+// A running task failed around the agent: queue it again after a backoff, or
+// fail it once it is out of attempts
+async function failOrRetry(
+  task: AgentTaskRow,
+  message: string,
+  results: { transcript?: string | null; diff?: string | null } = {}
+): Promise<void> {
+  if (task.attempts >= task.max_attempts) {
+    await transition(task.id, ['running'], { status: 'failed', error: message, ...results });
+    return;
+  }
+
+  const delay = taskRetryDelay(task.attempts, config.AGENT_TASK_RETRY_DELAY * 1000);
+  await getDatabase()
+    .updateTable('agent_tasks')
+    .set({ status: 'queued', error: message, tmux_window_id: null, run_after: new Date(Date.now() + delay) })
+    .where('id', '=', task.id)
+    .where('status', '=', 'running')
+    .execute();
+  console.warn(`[Agent Tasks] Task ${task.id} attempt ${task.attempts} failed (${message}); retrying in ${Math.round(delay / 1000)}s`);
+}
+
+// ============================================================================
+// SUBMISSION
+// ============================================================================
+
+// A fresh agent session on `branch`, provisioned when its first task starts
+async function createTaskSession(
+  userId: string,
+  agentId: string,
+  target: { environmentId: string; branch: string; name?: string }
+): Promise<string> {
+  const db = getDatabase();
+  const environment = await db
+    .selectFrom('environments')
+    .select(['id', 'user_id', 'repository_url'])
+    .where('id', '=', target.environmentId)
+    .executeTakeFirst();
+
+  if (!environment) {
+    throw new AgentTaskError(404, 'Environment not found');
+  }
+  if (environment.user_id !== userId) {
+    throw new AgentTaskError(403, 'Access denied');
+  }
+  if (!environment.repository_url) {
+    throw new AgentTaskError(400, 'Tasks on a new branch need an environment with a repository');
+  }
+  if (await findSessionOnBranch(environment.id, target.branch)) {
+    throw new AgentTaskError(409, `A session already exists for branch '${target.branch}' in this environment`);
+  }
+
+  const name = target.name || target.branch;
+  const nameInUse = await db
+    .selectFrom('sessions')
+    .select('id')
+    .where('environment_id', '=', environment.id)
+    .where('name', '=', name)
+    .where('status', '!=', 'dead')
+    .executeTakeFirst();
+  if (nameInUse) {
+    throw new AgentTaskError(409, `A session with name '${name}' already exists in this environment`);
+  }
+
+  const session = await db
+    .insertInto('sessions')
+    .values({
+      environment_id: environment.id,
+      name,
+      // tmux rewrites '.' and ':' in session names; keep the name it will use
+      tmux_session_name: `${name.replace(/[^A-Za-z0-9_-]/g, '-')}-${Date.now()}`,
+      working_directory: WORKSPACE_ROOT,
+      status: 'inactive',
+      session_type: 'agent',
+      agent_id: agentId,
+      git_branch: target.branch,
+      worktree_path: null,
+      is_feature_branch: false,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow();
+
+  return session.id;
+}
+
+export async function submitAgentTask(input: SubmitAgentTaskInput): Promise<AgentTask> {
+  const db = getDatabase();
+  const { userId, target } = input;
+
+  let agentId = input.agentId;
+  let sessionId: string | null = null;
+
+  if ('sessionId' in target) {
+    const session = await db
+      .selectFrom('sessions as s')
+      .innerJoin('environments as e', 's.environment_id', 'e.id')
+      .select(['s.id', 's.status', 's.agent_id', 'e.user_id'])
+      .where('s.id', '=', target.sessionId)
+      .executeTakeFirst();
+
+    if (!session) {
+      throw new AgentTaskError(404, 'Session not found');
+    }
+    if (session.user_id !== userId) {
+      throw new AgentTaskError(403, 'Access denied');
+    }
+    if (session.status === 'dead') {
+      throw new AgentTaskError(409, 'Session is no longer running');
+    }
+    sessionId = session.id;
+    agentId = agentId || session.agent_id || undefined;
+  }
+
+  if (!agentId) {
+    throw new AgentTaskError(400, 'agentId is required for sessions without an agent');
+  }
+
+  const agent = await db
+    .selectFrom('agents')
+    .select(['id', 'user_id'])
+    .where('id', '=', agentId)
+    .executeTakeFirst();
+  if (!agent || agent.user_id !== userId) {
+    throw new AgentTaskError(404, 'Agent not found');
+  }
+
+  if (!sessionId && 'environmentId' in target) {
+    sessionId = await createTaskSession(userId, agent.id, target);
+  }
+
+  const task = await db
+    .insertInto('agent_tasks')
+    .values({
+      user_id: userId,
+      session_id: sessionId!,
+      agent_id: agent.id,
+      prompt: input.prompt,
+      priority: input.priority ?? 0,
+      max_attempts: input.maxAttempts ?? config.AGENT_TASK_MAX_ATTEMPTS,
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+
+  kickAgentTaskRunner();
+  return toAgentTask(task);
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+// The session's container and tmux session, created if needed
+async function provisionTaskSession(
+  sessionId: string
+): Promise<{ containerId: string; target: TmuxTarget; workingDirectory: string; environmentId: string }> {
+  const db = getDatabase();
+  const session = await db
+    .selectFrom('sessions as s')
+    .innerJoin('environments as e', 's.environment_id', 'e.id')
+    .select([
+      's.id',
+      's.name',
+      's.tmux_session_name',
+      's.working_directory',
+      's.git_branch',
+      's.container_id',
+      'e.id as environment_id',
+      'e.name as environment_name',
+      'e.repository_url',
+      'e.branch as environment_branch',
+    ])
+    .where('s.id', '=', sessionId)
+    .executeTakeFirstOrThrow();
+
+  let containerId = session.container_id;
+  if (session.repository_url) {
+    const branch = session.git_branch || session.environment_branch || 'main';
+    containerId = await createWorktreeManager(session.environment_id).ensureSessionContainer(
+      session.id,
+      branch,
+      session.name || 'session',
+      session.environment_name
+    );
+    await db
+      .updateTable('sessions')
+      .set({ container_id: containerId, git_branch: branch, status: 'active', updated_at: new Date() })
+      .where('id', '=', session.id)
+      .execute();
+  }
+  if (!containerId) {
+    throw new Error('Session has no container; open its terminal once first');
+  }
+
+  const workingDirectory = session.working_directory || WORKSPACE_ROOT;
+  const { exitCode, stderr } = await execInContainer(
+    containerId,
+    ['/bin/bash', '-c', 'tmux has-session -t "$1" 2>/dev/null || tmux new-session -d -s "$1" -c "$2"', 'ensure-tmux', session.tmux_session_name, workingDirectory],
+    { timeoutMs: 10_000 }
+  );
+  if (exitCode !== 0) {
+    throw new Error(`Could not start tmux: ${stderr.trim()}`);
+  }
+
+  return {
+    containerId,
+    target: { containerId, tmuxSessionName: session.tmux_session_name },
+    workingDirectory,
+    environmentId: session.environment_id,
+  };
+}
+
+async function writeTaskFile(containerId: string, path: string, content: string): Promise<void> {
+  const { exitCode, stderr } = await execInContainer(
+    containerId,
+    ['/bin/bash', '-c', 'umask 077; mkdir -p "$(dirname "$1")" && cat > "$1"', 'write-task-file', path],
+    { stdin: content, timeoutMs: 15_000 }
+  );
+  if (exitCode !== 0) {
+    throw new Error(`Writing ${path} failed: ${stderr.trim()}`);
+  }
+}
+
+// Start a claimed task: provision its session, then open the task window
+async function startTask(task: AgentTaskRow): Promise<void> {
+  const db = getDatabase();
+  try {
+    const agent = await db
+      .selectFrom('agents')
+      .select(['id', 'type'])
+      .where('id', '=', task.agent_id)
+      .executeTakeFirstOrThrow();
+    const credential = await db
+      .selectFrom('agent_credentials')
+      .select(['type', 'encrypted_value'])
+      .where('agent_id', '=', agent.id)
+      .executeTakeFirst();
+
+    const plugin = getAgentPlugin(agent.type);
+    if (!credential) {
+      // Not worth a retry, and not worth a container
+      await transition(task.id, ['running'], {
+        status: 'failed',
+        error: `${plugin.displayName} has no stored credential; headless tasks cannot log in`,
+      });
+      return;
+    }
+
+    const { containerId, target, workingDirectory, environmentId } = await provisionTaskSession(task.session_id);
+
+    // T₄
+    const home = `/data/agents/${agent.id}/home`;
+    await writeAgentCredentials(containerId, plugin, home, {
+      type: credential.type,
+      value: decryptCredentials(credential.encrypted_value),
+    });
+    const { servers } = await resolveMcpServers(task.user_id, agent.id, environmentId);
+    await installAgentMcpServers(containerId, plugin, home, servers);
+
+    const head = await execGit(containerId, ['rev-parse', 'HEAD'], { timeoutMs: 15_000 });
+    const baseCommit = head.exitCode === 0 ? head.stdout.trim() : null;
+
+    const paths = agentTaskPaths(task.id);
+    // T₂: a retry must not see the exit status of an earlier attempt
+    await execInContainer(containerId, ['rm', '-f', paths.exitCode], { timeoutMs: 10_000 });
+    await writeTaskFile(containerId, paths.prompt, task.prompt);
+    await writeTaskFile(containerId, paths.script, agentTaskScript(paths, plugin.headless({ home, workingDirectory }, paths.prompt)));
+
+    const windowId = await createWindow(target, {
+      name: `task-${task.id.slice(0, 8)}`,
+      cwd: workingDirectory,
+      command: `bash ${shellQuote(paths.script)}`,
+      detached: true,
+    });
+
+    const recorded = await db
+      .updateTable('agent_tasks')
+      .set({ tmux_window_id: windowId, base_commit: baseCommit })
+      .where('id', '=', task.id)
+      .where('status', '=', 'running')
+      .executeTakeFirst();
+    if (Number(recorded.numUpdatedRows) === 0) {
+      // Cancelled while starting
+      await killWindow(target, windowId).catch(() => undefined);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Agent Tasks] Task ${task.id} failed to start: ${message}`);
+    await failOrRetry(task, message);
+  }
+}
+
+async function readTaskFile(containerId: string, path: string): Promise<string | null> {
+  const { stdout, exitCode } = await execInContainer(containerId, ['cat', path], { timeoutMs: 10_000 });
+  return exitCode === 0 ? stdout : null;
+}
+
+async function readTranscript(containerId: string, taskId: string): Promise<string | null> {
+  const { stdout, exitCode } = await execInContainer(
+    containerId,
+    ['tail', '-c', String(TASK_TRANSCRIPT_LIMIT), agentTaskPaths(taskId).log],
+    { timeoutMs: 10_000 }
+  );
+  return exitCode === 0 ? stdout : null;
+}
+
+// Changes since baseCommit - committed, staged, unstaged and untracked - read
+// through a scratch index so the session's own index is left alone
+async function readTaskDiff(containerId: string, taskId: string, baseCommit: string | null): Promise<string | null> {
+  if (!baseCommit) return null;
+  const script = [
+    'export GIT_INDEX_FILE="$1"',
+    'rm -f "$1"',
+    'git read-tree HEAD && git add -A && git -c core.quotePath=false diff --cached --no-color --no-ext-diff -M "$2"',
+    'status=$?',
+    'rm -f "$1"',
+    'exit $status',
+  ].join('; ');
+  const { stdout, stderr, exitCode } = await execInContainer(
+    containerId,
+    ['/bin/bash', '-c', script, 'task-diff', `${agentTaskPaths(taskId).dir}/index`, baseCommit],
+    { cwd: WORKSPACE_ROOT, env: { GIT_TERMINAL_PROMPT: '0' }, timeoutMs: 60_000 }
+  );
+  if (exitCode !== 0) {
+    console.warn(`[Agent Tasks] Could not diff task ${taskId}: ${stderr.trim()}`);
+    return null;
+  }
+  return truncateText(stdout, TASK_DIFF_LIMIT);
+}
+
+async function taskWindowExists(containerId: string, tmuxSessionName: string, windowId: number): Promise<boolean> {
+  const { stdout, exitCode } = await execInContainer(
+    containerId,
+    ['tmux', 'list-windows', '-t', tmuxSessionName, '-F', '#{window_id}'],
+    { timeoutMs: 5000 }
+  );
+  return exitCode === 0 && stdout.split('\n').includes(`@${windowId}`);
+}
+
+async function checkRunningTask(task: AgentTaskRow): Promise<void> {
+  if (task.tmux_window_id === null) {
+    // Still starting (startTask records the window), unless nobody is starting it
+    const startedAt = task.started_at?.getTime() ?? 0;
+    if (!starting.has(task.id) && Date.now() - startedAt > TASK_START_TIMEOUT_MS) {
+      await failOrRetry(task, 'Task did not start');
+    }
+    return;
+  }
+
+  const session = await getDatabase()
+    .selectFrom('sessions')
+    .select(['container_id', 'tmux_session_name'])
+    .where('id', '=', task.session_id)
+    .executeTakeFirst();
+  if (!session?.container_id) {
+    await failOrRetry(task, 'Session container is gone');
+    return;
+  }
+
+  const containerId = session.container_id;
+  const paths = agentTaskPaths(task.id);
+  let exitCode = parseTaskExitCode(await readTaskFile(containerId, paths.exitCode));
+
+  if (exitCode === null) {
+    if (await taskWindowExists(containerId, session.tmux_session_name, task.tmux_window_id)) return;
+    // The script may have finished between the two reads
+    exitCode = parseTaskExitCode(await readTaskFile(containerId, paths.exitCode));
+  }
+
+  const transcript = await readTranscript(containerId, task.id);
+  const diff = await readTaskDiff(containerId, task.id, task.base_commit);
+
+  if (exitCode === null) {
+    await failOrRetry(task, 'Task window closed before the agent finished', { transcript, diff });
+    return;
+  }
+
+  await transition(task.id, ['running'], {
+    status: exitCode === 0 ? 'succeeded' : 'failed',
+    exit_code: exitCode,
+    transcript,
+    diff,
+  });
+}
+
+async function runAgentTaskPass(): Promise<void> {
+  const db = getDatabase();
+
+  const running = await db.selectFrom('agent_tasks').selectAll().where('status', '=', 'running').execute();
+  for (const task of running) {
+    try {
+      await checkRunningTask(task);
+    } catch (error: any) {
+      // A stopped container fails the exec: the task cannot finish there any more
+      await failOrRetry(task, `Lost track of the task: ${error.message}`);
+    }
+  }
+
+  // Claimed tasks start in the background; each one frees the runner to claim the next
+  for (let task = await claimNextTask(); task; task = await claimNextTask()) {
+    const claimed = task;
+    starting.add(claimed.id);
+    startTask(claimed).finally(() => {
+      starting.delete(claimed.id);
+      kickAgentTaskRunner();
+    });
+  }
+}
+
+/**
+ * Claim the next runnable queued task (T₃): highest priority first, then
+ * oldest, skipping users at their limit and sessions with a running task.
+ * @returns the task, now running with one more attempt, or null
+ */
+export async function claimNextTask(now = new Date()): Promise<AgentTaskRow | null> {
+  const limits = { global: config.AGENT_TASK_CONCURRENCY, perUser: config.AGENT_TASK_USER_CONCURRENCY };
+
+  return getDatabase().transaction().execute(async trx => {
+    // Serializes claims across orchestrator instances; released at commit
+    await sql`SELECT pg_advisory_xact_lock(hashtext('craftastic:agent-task-queue'))`.execute(trx);
+
+    const running = await trx
+      .selectFrom('agent_tasks')
+      .select(['user_id', 'session_id'])
+      .where('status', '=', 'running')
+      .execute();
+    if (running.length >= limits.global) return null;
+
+    const candidates = await trx
+      .selectFrom('agent_tasks')
+      .select(['id', 'user_id', 'session_id'])
+      .where('status', '=', 'queued')
+      .where(eb => eb.or([eb('run_after', 'is', null), eb('run_after', '<=', now)]))
+      .orderBy('priority', 'desc')
+      .orderBy('created_at', 'asc')
+      .limit(CLAIM_SCAN_LIMIT)
+      .execute();
+
+    const next = pickNextTask(candidates, running, limits);
+    if (!next) return null;
+
+    const claimed = await trx
+      .updateTable('agent_tasks')
+      .set(eb => ({
+        status: 'running',
+        attempts: eb('attempts', '+', 1),
+        started_at: now,
+        run_after: null,
+      }))
+      .where('id', '=', next.id)
+      .where('status', '=', 'queued')
+      .returningAll()
+      .executeTakeFirst();
+    return claimed ?? null;
+  });
+}
+
+/**
+ * Run a runner pass now, or right after the one in progress. Passes never
+ * overlap; claims keep a task from starting twice even across instances.
+ */
+export function kickAgentTaskRunner(): void {
+  if (pass) {
+    passRequested = true;
+    return;
+  }
+  pass = runAgentTaskPass()
+    .catch(error => console.error('[Agent Tasks] Runner pass failed:', error))
+    .finally(() => {
+      pass = null;
+      if (passRequested) {
+        passRequested = false;
+        kickAgentTaskRunner();
+      }
+    });
+}
+
+export function startAgentTaskRunner(): void {
+  if (runnerTimer) {
+    console.log('[Agent Tasks] Runner already running');
+    return;
+  }
+  console.log(`[Agent Tasks] Starting runner (polling every ${TASK_POLL_MS / 1000}s)`);
+
+  const tick = () => {
+    kickAgentTaskRunner();
+    if (runnerTimer) runnerTimer = setTimeout(tick, TASK_POLL_MS);
+  };
+  runnerTimer = setTimeout(tick, 0);
+}
+
+export function stopAgentTaskRunner(): void {
+  if (runnerTimer) {
+    clearTimeout(runnerTimer);
+    runnerTimer = null;
+    console.log('[Agent Tasks] Stopped runner');
+  }
+}
+
+// ============================================================================
+// QUERIES AND CANCELLATION
+// ============================================================================
+
+export async function listAgentTasks(userId: string, filter: { sessionId?: string } = {}): Promise<AgentTask[]> {
+  let query = getDatabase()
+    .selectFrom('agent_tasks')
+    .selectAll()
+    .where('user_id', '=', userId);
+  if (filter.sessionId) {
+    query = query.where('session_id', '=', filter.sessionId);
+  }
+  const rows = await query.orderBy('created_at', 'desc').limit(100).execute();
+  return rows.map(toAgentTask);
+}
+
+export async function getAgentTask(userId: string, taskId: string): Promise<AgentTaskDetails> {
+  const row = await ownedTask(userId, taskId);
+
+  let transcript = row.transcript;
+  if (row.status === 'running' && row.tmux_window_id !== null) {
+    const session = await getDatabase()
+      .selectFrom('sessions')
+      .select('container_id')
+      .where('id', '=', row.session_id)
+      .executeTakeFirst();
+    if (session?.container_id) {
+      transcript = await readTranscript(session.container_id, row.id).catch(() => null);
+    }
+  }
+
+  return { ...toAgentTask(row), transcript, diff: row.diff };
+}
+
+// Reorder a task that is still waiting
+export async function setAgentTaskPriority(userId: string, taskId: string, priority: number): Promise<AgentTask> {
+  const row = await ownedTask(userId, taskId);
+  const updated = await getDatabase()
+    .updateTable('agent_tasks')
+    .set({ priority })
+    .where('id', '=', row.id)
+    .where('status', '=', 'queued')
+    .returningAll()
+    .executeTakeFirst();
+  if (!updated) {
+    throw new AgentTaskError(409, 'Only queued tasks can be reprioritized');
+  }
+  return toAgentTask(updated);
+}
+
+/**
+ * Cancel a queued or running task. A running task's window is closed, which
+ * hangs up the agent; its output and changes so far are kept.
+ */
+export async function cancelAgentTask(userId: string, taskId: string): Promise<AgentTaskDetails> {
+  const row = await ownedTask(userId, taskId);
+  if (isFinishedTaskStatus(row.status)) {
+    throw new AgentTaskError(409, `Task already ${row.status}`);
+  }
+
+  if (!(await transition(row.id, ['queued', 'running'], { status: 'cancelled' }))) {
+    const current = await loadTask(row.id);
+    throw new AgentTaskError(409, `Task already ${current.status}`);
+  }
+
+  if (row.status === 'running') {
+    const session = await getDatabase()
+      .selectFrom('sessions')
+      .select(['container_id', 'tmux_session_name'])
+      .where('id', '=', row.session_id)
+      .executeTakeFirst();
+    // The window id is re-read: the task may have been starting when it was loaded
+    const { tmux_window_id: windowId, base_commit: baseCommit } = await loadTask(row.id);
+
+    if (session?.container_id && windowId !== null) {
+      const containerId = session.container_id;
+      try {
+        await killWindow({ containerId, tmuxSessionName: session.tmux_session_name }, windowId);
+      } catch {
+        // Already closed
+      }
+      try {
+        await getDatabase()
+          .updateTable('agent_tasks')
+          .set({
+            transcript: await readTranscript(containerId, row.id),
+            diff: await readTaskDiff(containerId, row.id, baseCommit),
+          })
+          .where('id', '=', row.id)
+          .execute();
+      } catch (error: any) {
+        console.warn(`[Agent Tasks] Could not collect output of cancelled task ${row.id}: ${error.message}`);
+      }
+    }
+  }
+
+  return getAgentTask(userId, row.id);
+}
@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { LookupFunction } from 'net';
+import { config } from '../config';
+import { getDatabase } from '../lib/kysely';
+import { AgentState, classifyAgentScreen, needsAttention, screenTail } from '../lib/agent-state';
+import { ipLiteralHost, isPublicAddress } from '../lib/public-address';
+import { getAgentPlugin } from './agent-plugins';
+import { execInContainer } from './container-exec';
+import { getTerminalSessions } from './terminal';
+
+/**
+ * AGENT WATCHER - Notices when an agent stops working or asks a question
+ * ======================================================================
+ *
+ * Hoare Triple:
+ * {P: s is an active agent session with a container}
+ * watcher pass
+ * {Q: s.agent_state = classifyAgentScreen(capture-pane of s's first window)
+ *     ∧ (state changed ⟹ attached terminal clients get an 'agent-state'
+ *        event ∧ agent_state_changed_at = now)
+ *     ∧ (needsAttention(previous, state) ⟹ the owner's webhook, if any, is
+ *        POSTed once)}
+ *
+ * The agent is the program typed into the session's first window (see
+ * routes/terminal.ts), so that window's active pane is the one read. How long
+ * the screen has been unchanged is kept in memory. After a restart, a screen
+ * seen for the first time counts as freshly changed only if the stored state
+ * is 'working'. Agents that were idle stay idle, so restarts do not repeat
+ * notifications.
+ *
+ * Invariants:
+ * W₁: at most one pass at a time; sessions are read one after another
+ * W₂: a webhook failure is logged and never affects the stored state
+ * W₃: a session whose tmux session is gone has agent_state = null
+ * W₄: webhooks only reach public addresses (lib/public-address.ts). The
+ *     address connected to is the one checked, and redirects are not followed
+ */
+
+export class AgentWebhookError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface AgentWebhookPayload {
+  event: 'agent.awaiting_input' | 'agent.idle';
+  text: string;              // one line for chat webhooks (Slack, Mattermost, ...)
+  session: { id: string; name: string | null; environmentId: string; environmentName: string };
+  agent: { id: string; type: string };
+  state: AgentState;
+  previousState: AgentState | null;
+  screen: string;            // bottom of the agent's screen
+  at: string;
+}
+
+interface ScreenObservation {
+  fingerprint: string;
+  changedAt: number;
+}
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const observations = new Map<string, ScreenObservation>();
+let watcherTimer: NodeJS.Timeout | null = null;
+
+type WatchedSession = Awaited<ReturnType<typeof listWatchedSessions>>[number];
+
+function listWatchedSessions() {
+  return getDatabase()
+    .selectFrom('sessions as s')
+    .innerJoin('environments as e', 's.environment_id', 'e.id')
+    .innerJoin('agents as a', 's.agent_id', 'a.id')
+    .innerJoin('users as u', 'e.user_id', 'u.id')
+    .select([
+      's.id',
+      's.name',
+      's.container_id',
+      's.tmux_session_name',
+      's.agent_state',
+      'e.id as environment_id',
+      'e.name as environment_name',
+      'a.id as agent_id',
+      'a.type as agent_type',
+      'u.agent_webhook_url',
+    ])
+    .where('s.session_type', '=', 'agent')
+    .where('s.status', '=', 'active')
+    .where('s.container_id', 'is not', null)
+    .execute();
+}
+
+async function captureAgentScreen(containerId: string, tmuxSessionName: string): Promise<string | null> {
+  const { stdout, exitCode } = await execInContainer(
+    containerId,
+    ['tmux', 'capture-pane', '-p', '-t', `=${tmuxSessionName}:^`],
+    { timeoutMs: 5000 }
+  );
+  return exitCode === 0 ? stdout : null;
+}
+
+// dns.lookup that fails for names with any non-public address (W₄)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(new AgentWebhookError(400, `${hostname} does not resolve to a public address`), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// The webhook URL, once its host is known to be public (W₄)
+export async function assertWebhookTarget(url: string): Promise<URL> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new AgentWebhookError(400, 'Invalid webhook URL');
+  }
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    throw new AgentWebhookError(400, 'Webhook URL must use http or https');
+  }
+
+  const literal = ipLiteralHost(target);
+  if (literal !== null) {
+    if (!isPublicAddress(literal)) {
+      throw new AgentWebhookError(400, `${literal} is not a public address`);
+    }
+    return target;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    publicLookup(target.hostname, { all: true }, (error) => {
+      if (error instanceof AgentWebhookError) reject(error);
+      else if (error) reject(new AgentWebhookError(400, `Cannot resolve ${target.hostname}`));
+      else resolve();
+    });
+  });
+  return target;
+}
+
+export async function sendAgentWebhook(url: string, payload: AgentWebhookPayload): Promise<void> {
+  const target = await assertWebhookTarget(url);
+  const body = JSON.stringify(payload);
+  const client = target.protocol === 'https:' ? https : http;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        'User-Agent': 'Craftastic',
+        'X-Craftastic-Event': payload.event,
+      },
+      // Checked again when connecting, in case the name now points elsewhere
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      const status = response.statusCode ?? 0;
+      // A redirect counts as a failure: its target was never checked
+      if (status >= 200 && status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`${status} ${response.statusMessage ?? ''}`.trim()));
+      }
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function notifyAttention(session: WatchedSession, state: AgentState, screen: string): Promise<void> {
+  if (!session.agent_webhook_url) return;
+
+  const name = session.name || session.id.slice(0, 8);
+  const payload: AgentWebhookPayload = {
+    event: state === 'awaiting_input' ? 'agent.awaiting_input' : 'agent.idle',
+    text: state === 'awaiting_input'
+      ? `${getAgentPlugin(session.agent_type).displayName} in ${session.environment_name}/${name} is waiting for input`
+      : `${getAgentPlugin(session.agent_type).displayName} in ${session.environment_name}/${name} has finished working`,
+    session: { id: session.id, name: session.name, environmentId: session.environment_id, environmentName: session.environment_name },
+    agent: { id: session.agent_id, type: session.agent_type },
+    state,
+    previousState: session.agent_state,
+    screen: screenTail(screen),
+    at: new Date().toISOString(),
+  };
+
+  // W₂
+  try {
+    await sendAgentWebhook(session.agent_webhook_url, payload);
+  } catch (error: any) {
+    console.warn(`[Agent Watcher] Webhook for session ${session.id} failed: ${error.message}`);
+  }
+}
+
+async function recordState(session: WatchedSession, state: AgentState | null): Promise<void> {
+  if (state === session.agent_state) return;
+
+  await getDatabase()
+    .updateTable('sessions')
+    .set({ agent_state: state, agent_state_changed_at: new Date() })
+    .where('id', '=', session.id)
+    .execute();
+  for (const terminal of getTerminalSessions(session.id)) {
+    terminal.emit('agent-state', state);
+  }
+}
+
+async function watchSession(session: WatchedSession, now: number): Promise<void> {
+  const screen = await captureAgentScreen(session.container_id!, session.tmux_session_name);
+  if (screen === null) {
+    // W₃
+    observations.delete(session.id);
+    await recordState(session, null);
+    return;
+  }
+
+  const fingerprint = createHash('sha1').update(screen).digest('hex');
+  const previous = observations.get(session.id);
+  const changedAt = previous || session.agent_state === 'working' ? now : 0;
+  const observation = previous?.fingerprint === fingerprint ? previous : { fingerprint, changedAt };
+  observations.set(session.id, observation);
+
+  const state = classifyAgentScreen(
+    screen,
+    now - observation.changedAt,
+    getAgentPlugin(session.agent_type).screenSignals,
+    config.AGENT_IDLE_AFTER * 1000
+  );
+
+  await recordState(session, state);
+  if (needsAttention(session.agent_state, state)) {
+    await notifyAttention(session, state, screen);
+  }
+}
+
+// One watcher pass over every active agent session
+export async function watchAgentSessions(now = Date.now()): Promise<void> {
+  const sessions = await listWatchedSessions();
+
+  // Forget sessions that ended
+  const watched = new Set(sessions.map(session => session.id));
+  for (const id of observations.keys()) {
+    if (!watched.has(id)) observations.delete(id);
+  }
+
+  for (const session of sessions) {
+    if (!watcherTimer) break; // stopped meanwhile
+    try {
+      await watchSession(session, now);
+    } catch (error: any) {
+      console.warn(`[Agent Watcher] Could not check session ${session.id}: ${error.message}`);
+    }
+  }
+}
+
+export function startAgentWatcher(): void {
+  if (watcherTimer) {
+    console.log('[Agent Watcher] Already running');
+    return;
+  }
+  if (config.AGENT_WATCH_INTERVAL <= 0) {
+    console.log('[Agent Watcher] Disabled (AGENT_WATCH_INTERVAL=0)');
+    return;
+  }
+
+  const interval = config.AGENT_WATCH_INTERVAL * 1000;
+  console.log(`[Agent Watcher] Watching agent sessions every ${config.AGENT_WATCH_INTERVAL}s`);
+
+  // W₁: setTimeout rather than setInterval, so a slow pass never overlaps the next
+  const tick = () => {
+    watchAgentSessions()
+      .catch(error => console.error('[Agent Watcher] Pass failed:', error))
+      .finally(() => {
+        if (watcherTimer) watcherTimer = setTimeout(tick, interval);
+      });
+  };
+  watcherTimer = setTimeout(tick, interval);
+}
+
+export function stopAgentWatcher(): void {
+  if (watcherTimer) {
+    clearTimeout(watcherTimer);
+    watcherTimer = null;
+    console.log('[Agent Watcher] Stopped');
+  }
+}
@@ -0,0 +1,167 @@
+import { PassThrough } from 'stream';
+import { getDocker } from './docker';
+import { OutputTail } from '../lib/output-buffer';
+
+/**
+ * CONTAINER EXEC - Non-interactive commands inside session containers
+ * ===================================================================
+ *
+ * Hoare Triple:
+ * {P: containerId ∈ Containers ∧ running(containerId)}
+ * execInContainer(containerId, command, options)
+ * {Q: result.exitCode = exit status of command ∧
+ *     result.stdout/stderr = the last maxOutputBytes of each demultiplexed
+ *     stream ∧ result.truncated ⟺ either stream was longer}
+ *
+ * Commands given as a string run through `/bin/bash -c`; arrays are exec'd
+ * directly. streamExecInContainer delivers output as it arrives (used for SSE);
+ * execInContainer collects it. A timeout kills the command's process group by running it under
+ * `timeout`, so a hung command never leaks an exec into the container.
+ * `timedOut` means our own timer fired before the command's output ended; the
+ * exit code alone cannot tell a timeout from a command that exits 124 or is
+ * killed by someone else. A command still attached TIMEOUT_GRACE_MS after its
+ * timer fired is detached.
+ */
+
+export interface ContainerExecOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  user?: string;
+  timeoutMs?: number;
+  stdin?: string | Buffer;
+  maxOutputBytes?: number;  // per stream, execInContainer only; defaults to DEFAULT_MAX_OUTPUT_BYTES
+}
+
+export interface ContainerExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 8 * 1024 * 1024;
+
+// How long after its timer a command may take to die before we detach
+const TIMEOUT_GRACE_MS = 5_000;
+
+// `timeout` counts whole seconds; our timer uses the same limit
+function timeoutSeconds(timeoutMs: number): number {
+  return Math.max(1, Math.ceil(timeoutMs / 1000));
+}
+
+function buildCmd(command: string | string[], timeoutMs?: number): string[] {
+  const cmd = typeof command === 'string' ? ['/bin/bash', '-c', command] : command;
+  if (!timeoutMs) {
+    return cmd;
+  }
+  return ['timeout', '-s', 'KILL', String(timeoutSeconds(timeoutMs)), ...cmd];
+}
+
+export interface ContainerExecHandlers {
+  onStdout?: (chunk: Buffer) => void;
+  onStderr?: (chunk: Buffer) => void;
+  signal?: AbortSignal;     // Detach early, e.g. when an SSE client disconnects
+}
+
+/**
+ * Run a command and hand its output to the handlers as it arrives. Aborting
+ * closes the exec's stream: the command then dies of SIGPIPE on its next write,
+ * or at its timeout.
+ */
+export async function streamExecInContainer(
+  containerId: string,
+  command: string | string[],
+  options: ContainerExecOptions = {},
+  handlers: ContainerExecHandlers = {}
+): Promise<Omit<ContainerExecResult, 'stdout' | 'stderr' | 'truncated'>> {
+  const docker = getDocker();
+  const container = docker.getContainer(containerId);
+  const hasStdin = options.stdin !== undefined;
+
+  const exec = await container.exec({
+    Cmd: buildCmd(command, options.timeoutMs),
+    AttachStdin: hasStdin,
+    AttachStdout: true,
+    AttachStderr: true,
+    Tty: false,
+    WorkingDir: options.cwd,
+    User: options.user,
+    Env: options.env ? Object.entries(options.env).map(([key, value]) => `${key}=${value}`) : undefined,
+  });
+
+  const stream = await exec.start({ hijack: true, stdin: hasStdin });
+
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  stdout.on('data', (chunk: Buffer) => handlers.onStdout?.(chunk));
+  stderr.on('data', (chunk: Buffer) => handlers.onStderr?.(chunk));
+  docker.modem.demuxStream(stream, stdout, stderr);
+
+  if (hasStdin) {
+    stream.end(options.stdin);
+  }
+
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  let graceTimer: NodeJS.Timeout | undefined;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        stream.destroy();
+        resolve();
+      };
+      if (handlers.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      handlers.signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (options.timeoutMs) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          // `timeout` in the container should end it now; never wait forever
+          graceTimer = setTimeout(onAbort, TIMEOUT_GRACE_MS);
+        }, timeoutSeconds(options.timeoutMs) * 1000);
+      }
+
+      stream.on('end', () => resolve());
+      stream.on('close', () => resolve());
+      stream.on('error', reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    clearTimeout(graceTimer);
+  }
+
+  const { ExitCode } = await exec.inspect();
+
+  return {
+    exitCode: ExitCode ?? -1,
+    timedOut,
+  };
+}
+
+export async function execInContainer(
+  containerId: string,
+  command: string | string[],
+  options: ContainerExecOptions = {}
+): Promise<ContainerExecResult> {
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  const stdout = new OutputTail(maxOutputBytes);
+  const stderr = new OutputTail(maxOutputBytes);
+
+  const { exitCode, timedOut } = await streamExecInContainer(containerId, command, options, {
+    onStdout: chunk => stdout.push(chunk),
+    onStderr: chunk => stderr.push(chunk),
+  });
+
+  return {
+    stdout: stdout.toString(),
+    stderr: stderr.toString(),
+    exitCode,
+    timedOut,
+    truncated: stdout.truncated || stderr.truncated,
+  };
+}
@@ -0,0 +1,196 @@
+import { getDatabase } from '../lib/kysely';
+import { decryptCredentials, encryptCredentials } from '../lib/encryption';
+import { parseRepositoryUrl } from '../lib/git-providers';
+import { generateDeployKeyPair, toSshRemoteUrl } from '../lib/ssh-keys';
+import { execInContainer } from './container-exec';
+import { GitHostAuth, hostGitAuth, sshKeyGitAuth } from './git-connections';
+
+/**
+ * DEPLOY KEYS - One SSH key pair per environment
+ * ==============================================
+ *
+ * Hoare Triple:
+ * {P: environment e exists}
+ * ensureDeployKey(e)
+ * {Q: e has exactly one ed25519 key pair ∧ result = its public half}
+ *
+ * The user registers the public key as a deploy key on the repository. The
+ * private key is stored encrypted (lib/encryption.ts) and used for every SSH
+ * remote of the environment:
+ * - on the host, for the bare clone and fetches (environmentGitAuth)
+ * - in session containers, written to DEPLOY_KEY_PATH under the container
+ *   user's home and wired up as git's core.sshCommand (syncContainerDeployKey)
+ *
+ * With use_ssh_clone an https repository_url is cloned over SSH instead
+ * (git@host:path.git), so a deploy key alone is enough to work on it.
+ *
+ * Invariants:
+ * D₁: the private key is never returned by the API
+ * D₂: rotating replaces the pair; the old public key stops working once
+ *     removed from the forge, running containers get the new key
+ * D₃: an SSH remote with a deploy key uses it in preference to the owner's
+ *     git provider connections; https remotes are unaffected
+ */
+
+export interface DeployKey {
+  publicKey: string;
+  fingerprint: string;
+  createdAt: string;
+}
+
+// Relative to the container user's $HOME
+export const DEPLOY_KEY_PATH = '.craftastic/deploy_key';
+
+export class DeployKeyError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+async function loadEnvironment(environmentId: string) {
+  const environment = await getDatabase()
+    .selectFrom('environments')
+    .select([
+      'id',
+      'name',
+      'user_id',
+      'repository_url',
+      'use_ssh_clone',
+      'deploy_key_public',
+      'deploy_key_fingerprint',
+      'encrypted_deploy_key',
+      'deploy_key_created_at',
+    ])
+    .where('id', '=', environmentId)
+    .executeTakeFirst();
+  if (!environment) {
+    throw new DeployKeyError(404, 'Environment not found');
+  }
+  return environment;
+}
+
+export async function getDeployKey(environmentId: string): Promise<DeployKey | null> {
+  const environment = await loadEnvironment(environmentId);
+  if (!environment.deploy_key_public || !environment.deploy_key_fingerprint || !environment.deploy_key_created_at) {
+    return null;
+  }
+  return {
+    publicKey: environment.deploy_key_public,
+    fingerprint: environment.deploy_key_fingerprint,
+    createdAt: environment.deploy_key_created_at.toISOString(),
+  };
+}
+
+// Generates and stores a new pair, replacing any existing one (D₂)
+export async function rotateDeployKey(environmentId: string): Promise<DeployKey> {
+  const environment = await loadEnvironment(environmentId);
+  const pair = generateDeployKeyPair(`craftastic-${environment.name.replace(/\s+/g, '-')}-${environment.id.slice(0, 8)}`);
+  const createdAt = new Date();
+
+  await getDatabase()
+    .updateTable('environments')
+    .set({
+      deploy_key_public: pair.publicKey,
+      deploy_key_fingerprint: pair.fingerprint,
+      encrypted_deploy_key: encryptCredentials({ privateKey: pair.privateKey }),
+      deploy_key_created_at: createdAt,
+      updated_at: createdAt,
+    })
+    .where('id', '=', environmentId)
+    .execute();
+
+  return { publicKey: pair.publicKey, fingerprint: pair.fingerprint, createdAt: createdAt.toISOString() };
+}
+
+export async function ensureDeployKey(environmentId: string): Promise<DeployKey> {
+  return (await getDeployKey(environmentId)) ?? rotateDeployKey(environmentId);
+}
+
+export async function deleteDeployKey(environmentId: string): Promise<void> {
+  await loadEnvironment(environmentId);
+  await getDatabase()
+    .updateTable('environments')
+    .set({
+      deploy_key_public: null,
+      deploy_key_fingerprint: null,
+      encrypted_deploy_key: null,
+      deploy_key_created_at: null,
+      updated_at: new Date(),
+    })
+    .where('id', '=', environmentId)
+    .execute();
+}
+
+async function getDeployPrivateKey(environmentId: string): Promise<string | null> {
+  const { encrypted_deploy_key } = await loadEnvironment(environmentId);
+  return encrypted_deploy_key ? (decryptCredentials(encrypted_deploy_key) as { privateKey: string }).privateKey : null;
+}
+
+/**
+ * URL the bare repository's origin should point at: repository_url, or its
+ * SSH form when the environment clones over SSH.
+ */
+export function environmentRemoteUrl(environment: { repository_url: string | null; use_ssh_clone: boolean }): string | null {
+  if (!environment.repository_url) return null;
+  return environment.use_ssh_clone ? toSshRemoteUrl(environment.repository_url) ?? environment.repository_url : environment.repository_url;
+}
+
+/**
+ * Environment for host-side git against the environment's remote (D₃): the
+ * deploy key for SSH remotes when there is one, the owner's connection
+ * otherwise.
+ */
+export async function environmentGitAuth(environmentId: string): Promise<GitHostAuth> {
+  const environment = await loadEnvironment(environmentId);
+  const remoteUrl = environmentRemoteUrl(environment);
+  if (!remoteUrl) {
+    return { env: { GIT_TERMINAL_PROMPT: '0' }, cleanup: async () => {} };
+  }
+
+  if (parseRepositoryUrl(remoteUrl)?.protocol === 'ssh') {
+    const privateKey = await getDeployPrivateKey(environmentId);
+    if (privateKey) return sshKeyGitAuth(privateKey);
+  }
+  return hostGitAuth(environment.user_id, remoteUrl);
+}
+
+/**
+ * Install (or remove) the environment's deploy key in a running container.
+ * git in the container then uses it for SSH remotes through core.sshCommand;
+ * other ssh keys of the container user still work as fallback.
+ */
+export async function syncContainerDeployKey(containerId: string, environmentId: string): Promise<void> {
+  const privateKey = await getDeployPrivateKey(environmentId);
+  const keyPath = `$HOME/${DEPLOY_KEY_PATH}`;
+
+  const script = privateKey
+    ? `set -e; umask 077; mkdir -p "$(dirname "${keyPath}")"; cat > "${keyPath}"; ` +
+      `git config --global core.sshCommand "ssh -i ${keyPath} -o StrictHostKeyChecking=accept-new"`
+    : `rm -f "${keyPath}"; ` +
+      `case "$(git config --global core.sshCommand)" in *${DEPLOY_KEY_PATH}*) git config --global --unset core.sshCommand;; esac; true`;
+
+  const { exitCode, stderr } = await execInContainer(containerId, script, {
+    stdin: privateKey ?? undefined,
+    timeoutMs: 15_000,
+  });
+  if (exitCode !== 0) {
+    throw new Error(`Updating the deploy key failed (${exitCode}): ${stderr.trim()}`);
+  }
+}
+
+// Best effort: push the current key into every live session container of the environment
+export async function syncEnvironmentContainers(environmentId: string): Promise<void> {
+  const sessions = await getDatabase()
+    .selectFrom('sessions')
+    .select(['id', 'container_id'])
+    .where('environment_id', '=', environmentId)
+    .where('status', '!=', 'dead')
+    .where('container_id', 'is not', null)
+    .execute();
+
+  await Promise.all(sessions.map(session =>
+    syncContainerDeployKey(session.container_id!, environmentId).catch(error =>
+      console.warn(`⚠️  Could not update deploy key in container of session ${session.id}: ${error.message}`)
+    )
+  ));
+}
@@ -0,0 +1,350 @@
+/**
+ * DEVCONTAINER SUPPORT - Environment bootstrapping from devcontainer.json
+ * ======================================================================
+ *
+ * Reads `.devcontainer/devcontainer.json` (or `.devcontainer.json`) straight
+ * from the environment's bare repository and translates the subset of the
+ * spec we honour into sandbox options:
+ *
+ * - image             → container image
+ * - build             → image built from `git archive` of the build context
+ * - containerEnv      → container Env
+ * - forwardPorts      → `craftastic.forward-ports` label (used by previews)
+ * - postCreateCommand → run once in /workspace after the container is created
+ * - postStartCommand  → run in /workspace every time the container starts
+ *
+ * Images referenced by a devcontainer must still provide bash, git and tmux,
+ * because sessions run inside tmux and worktrees are managed with git.
+ *
+ * Invariants:
+ * DC₁: built image tag = f(environment, tree hash of build context)
+ *      (rebuilds only happen when the build context changes)
+ * DC₂: host environment variables never leak into containers
+ *      (`${localEnv:*}` substitutions resolve to the empty string)
+ * DC₃: host git is invoked with an argument vector, never a shell string,
+ *      and refs that look like options are refused
+ */
+
+import { execFile, spawn } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import { getDocker } from './docker';
+
+export type LifecycleCommand = string | string[] | Record<string, string | string[]>;
+
+export interface DevcontainerConfig {
+  name?: string;
+  image?: string;
+  build?: {
+    dockerfile?: string;
+    context?: string;
+    args?: Record<string, string>;
+    target?: string;
+  };
+  // Legacy top-level build properties
+  dockerFile?: string;
+  context?: string;
+  containerEnv?: Record<string, string>;
+  forwardPorts?: Array<number | string>;
+  postCreateCommand?: LifecycleCommand;
+  postStartCommand?: LifecycleCommand;
+}
+
+export interface LoadedDevcontainer {
+  config: DevcontainerConfig;
+  ref: string;         // Ref the config was read from
+  configDir: string;   // Directory containing devcontainer.json, relative to repo root
+}
+
+const CONFIG_LOCATIONS = [
+  '.devcontainer/devcontainer.json',
+  '.devcontainer.json',
+];
+
+const execFileAsync = promisify(execFile);
+
+// DC₃: `git -C bareRepoPath ...args`; rejects on a non-zero exit
+async function git(bareRepoPath: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['-C', bareRepoPath, ...args], {
+    timeout: 30_000,
+    maxBuffer: 16 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+export const DEVCONTAINER_LABELS = {
+  enabled: 'craftastic.devcontainer',
+  forwardPorts: 'craftastic.forward-ports',
+  postStartCommand: 'craftastic.post-start-command',
+};
+
+/**
+ * Parse JSON with comments and trailing commas (the devcontainer.json dialect).
+ */
+export function parseJsonc(text: string): any {
+  let result = '';
+  let inString = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inString = false;
+      }
+      i++;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+      i++;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+      i += 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  // Drop trailing commas before closing brackets (strings were preserved above,
+  // so re-scan while skipping string contents)
+  let cleaned = '';
+  inString = false;
+  for (let j = 0; j < result.length; j++) {
+    const char = result[j];
+    if (inString) {
+      cleaned += char;
+      if (char === '\\') {
+        cleaned += result[++j] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const rest = result.slice(j + 1).match(/^\s*([}\]])/);
+      if (rest) continue;
+    }
+    cleaned += char;
+  }
+
+  return JSON.parse(cleaned);
+}
+
+/**
+ * Normalise a lifecycle command into a list of shell command strings.
+ * - string           → run through the shell as-is
+ * - string[]         → exec-style argv, quoted for the shell
+ * - object of either → each value, in declaration order
+ */
+export function normalizeLifecycleCommand(command: LifecycleCommand | undefined): string[] {
+  if (!command) return [];
+  if (typeof command === 'string') {
+    return command.trim() ? [command] : [];
+  }
+  if (Array.isArray(command)) {
+    return command.length > 0 ? [command.map(shellQuote).join(' ')] : [];
+  }
+  return Object.values(command).flatMap(value => normalizeLifecycleCommand(value));
+}
+
+/**
+ * Normalise forwardPorts entries ("host:port" strings are reduced to the port).
+ */
+export function normalizeForwardPorts(ports: Array<number | string> | undefined): number[] {
+  if (!ports) return [];
+  const result = new Set<number>();
+  for (const entry of ports) {
+    const port = typeof entry === 'number' ? entry : parseInt(String(entry).split(':').pop() || '', 10);
+    if (Number.isInteger(port) && port > 0 && port < 65536) {
+      result.add(port);
+    }
+  }
+  return [...result];
+}
+
+/**
+ * Resolve containerEnv into Docker `KEY=value` entries.
+ * `${containerEnv:*}` cannot be expanded before the container exists, so such
+ * entries are skipped; `${localEnv:*}` resolves to '' (DC₂).
+ */
+export function resolveContainerEnv(containerEnv: Record<string, string> | undefined, workspaceFolder = '/workspace'): string[] {
+  if (!containerEnv) return [];
+  const entries: string[] = [];
+  for (const [key, rawValue] of Object.entries(containerEnv)) {
+    const value = String(rawValue);
+    if (value.includes('${containerEnv:')) {
+      console.warn(`⚠️  [Devcontainer] Skipping containerEnv ${key}: \${containerEnv:...} is not supported`);
+      continue;
+    }
+    const resolved = value
+      .replace(/\$\{containerWorkspaceFolder\}/g, workspaceFolder)
+      .replace(/\$\{containerWorkspaceFolderBasename\}/g, path.posix.basename(workspaceFolder))
+      .replace(/\$\{localEnv:[^}]*\}/g, '');
+    entries.push(`${key}=${resolved}`);
+  }
+  return entries;
+}
+
+/**
+ * Container labels recording devcontainer settings that outlive creation.
+ */
+export function devcontainerLabels(config: DevcontainerConfig): Record<string, string> {
+  const labels: Record<string, string> = { [DEVCONTAINER_LABELS.enabled]: 'true' };
+  const ports = normalizeForwardPorts(config.forwardPorts);
+  if (ports.length > 0) {
+    labels[DEVCONTAINER_LABELS.forwardPorts] = ports.join(',');
+  }
+  const postStart = normalizeLifecycleCommand(config.postStartCommand);
+  if (postStart.length > 0) {
+    labels[DEVCONTAINER_LABELS.postStartCommand] = JSON.stringify(postStart);
+  }
+  return labels;
+}
+
+/**
+ * READ DEVCONTAINER CONFIG
+ * ========================
+ *
+ * {P: bareRepoPath is a bare git repository}
+ * readDevcontainerConfig(bareRepoPath, refs)
+ * {Q: result = null ∨ result.config parsed from the first ref that exists}
+ *
+ * Candidate refs are tried in order (session branch, default branch, HEAD);
+ * refs that don't exist yet - e.g. a brand new feature branch - are skipped.
+ */
+export async function readDevcontainerConfig(bareRepoPath: string, refs: string[]): Promise<LoadedDevcontainer | null> {
+  for (const ref of refs) {
+    if (ref.startsWith('-')) {
+      continue;
+    }
+    try {
+      await git(bareRepoPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    } catch {
+      continue;
+    }
+
+    for (const location of CONFIG_LOCATIONS) {
+      let contents: string;
+      try {
+        contents = await git(bareRepoPath, ['show', `${ref}:${location}`]);
+      } catch {
+        continue;
+      }
+
+      try {
+        const config = parseJsonc(contents) as DevcontainerConfig;
+        console.log(`✅ [Devcontainer] Loaded ${location} from ${ref}`);
+        return { config, ref, configDir: path.posix.dirname(location) };
+      } catch (error: any) {
+        throw new Error(`Invalid ${location} on ${ref}: ${error.message}`);
+      }
+    }
+
+    // The ref exists but has no devcontainer file - don't look at older refs
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * RESOLVE DEVCONTAINER IMAGE
+ * ==========================
+ *
+ * Case Analysis:
+ * 1. config.image set → use it as-is (pulled on demand by createSandbox)
+ * 2. config.build set → build from `git archive <ref>:<context>`, cached by tree hash (DC₁)
+ * 3. neither → undefined (caller falls back to the default sandbox image)
+ */
+export async function resolveDevcontainerImage(
+  environmentId: string,
+  bareRepoPath: string,
+  devcontainer: LoadedDevcontainer
+): Promise<string | undefined> {
+  const { config, ref, configDir } = devcontainer;
+
+  // Case 1: Prebuilt image
+  if (config.image) {
+    return config.image;
+  }
+
+  // Case 2: Build from Dockerfile
+  const dockerfile = config.build?.dockerfile || config.dockerFile;
+  if (!dockerfile) {
+    return undefined;
+  }
+
+  const contextPath = path.posix.normalize(path.posix.join(configDir, config.build?.context || config.context || '.'));
+  const dockerfilePath = path.posix.normalize(path.posix.join(configDir, dockerfile));
+  if (contextPath.startsWith('..') || dockerfilePath.startsWith('..')) {
+    throw new Error('devcontainer build context and Dockerfile must be inside the repository');
+  }
+
+  const relativeDockerfile = path.posix.relative(contextPath, dockerfilePath);
+  if (relativeDockerfile.startsWith('..')) {
+    throw new Error(`Dockerfile ${dockerfilePath} is outside the build context ${contextPath}`);
+  }
+
+  const treeish = contextPath === '.' ? `${ref}^{tree}` : `${ref}:${contextPath}`;
+  if (treeish.startsWith('-')) {
+    throw new Error(`Invalid devcontainer ref: ${ref}`);
+  }
+  const treeHash = await git(bareRepoPath, ['rev-parse', '--verify', treeish]);
+  const tag = `craftastic-devcontainer-${environmentId.substring(0, 8)}:${treeHash.trim().substring(0, 12)}`;
+
+  const docker = getDocker();
+  try {
+    await docker.getImage(tag).inspect();
+    console.log(`✅ [Devcontainer] Reusing built image ${tag}`);
+    return tag;
+  } catch {
+    // Not built yet
+  }
+
+  console.log(`[Devcontainer] Building ${tag} from ${dockerfilePath} (context: ${contextPath})`);
+  const archive = spawn('git', ['-C', bareRepoPath, 'archive', '--format=tar', treeish]);
+  let archiveError = '';
+  archive.stderr.on('data', (chunk: Buffer) => { archiveError += chunk.toString(); });
+
+  const buildStream = await docker.buildImage(archive.stdout as any, {
+    t: tag,
+    dockerfile: relativeDockerfile,
+    buildargs: config.build?.args,
+    target: config.build?.target,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    docker.modem.followProgress(
+      buildStream,
+      (err: Error | null, output: any[]) => {
+        const failed = output?.find(event => event.error);
+        if (err || failed) {
+          reject(new Error(`devcontainer image build failed: ${err?.message || failed.error}${archiveError ? ` (${archiveError.trim()})` : ''}`));
+        } else {
+          resolve();
+        }
+      }
+    );
+  });
+
+  console.log(`✅ [Devcontainer] Built image ${tag}`);
+  return tag;
+}
+
+function shellQuote(arg: string): string {
+  return /^[a-zA-Z0-9_\-./=:@]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
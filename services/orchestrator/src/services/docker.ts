@@ -1,5 +1,6 @@
 import Docker from 'dockerode';
 import { config } from '../config';
+import type { ResolvedResourceLimits } from '../lib/resource-profiles';
 
 const docker = new Docker({
   socketPath: config.DOCKER_HOST || '/var/run/docker.sock',
@@ -18,24 +19,52 @@ export interface SandboxOptions {
     hostPath: string;
     containerPath: string;
   }>;
+  image?: string;                     // Defaults to config.SANDBOX_IMAGE
+  resources?: ResolvedResourceLimits; // Defaults to the global SANDBOX_* limits
+  env?: string[];                     // Extra KEY=value entries (e.g. devcontainer containerEnv)
+  labels?: Record<string, string>;    // Extra labels (e.g. devcontainer settings)
+}
+
+/**
+ * Pull an image from its registry, resolving once the pull has fully completed.
+ */
+async function pullImage(image: string): Promise<void> {
+  console.log(`[Docker] Pulling image ${image}...`);
+  const stream = await docker.pull(image);
+  await new Promise<void>((resolve, reject) => {
+    docker.modem.followProgress(stream, (err: Error | null) => (err ? reject(err) : resolve()));
+  });
+  console.log(`[Docker] ✅ Pulled image ${image}`);
 }
 
 export async function createSandbox(options: SandboxOptions) {
-  const { sessionId, userId, environmentName, sessionName, worktreeMounts = [], bareRepoMounts = [] } = options;
+  const { sessionId, userId, environmentName, sessionName, worktreeMounts = [], bareRepoMounts = [], resources, env = [], labels = {} } = options;
+  const image = options.image || config.SANDBOX_IMAGE;
   
   // Check if the Docker image exists
   try {
     const images = await docker.listImages({
       filters: {
-        reference: [config.SANDBOX_IMAGE]
+        reference: [image]
       }
     });
     
     if (images.length === 0) {
-      throw new Error(
-        `Docker image '${config.SANDBOX_IMAGE}' not found. Please build it first with:\n` +
-        `docker build -f services/orchestrator/docker/sandbox.Dockerfile -t ${config.SANDBOX_IMAGE} .`
-      );
+      if (image === config.SANDBOX_IMAGE) {
+        throw new Error(
+          `Docker image '${image}' not found. Please build it first with:\n` +
+          `docker build -f services/orchestrator/docker/sandbox.Dockerfile -t ${image} .`
+        );
+      }
+      // Per-environment images are pulled on first use
+      try {
+        await pullImage(image);
+      } catch (pullError) {
+        throw new Error(
+          `Docker image '${image}' not found and could not be pulled: ` +
+          `${pullError instanceof Error ? pullError.message : 'Unknown error'}`
+        );
+      }
     }
   } catch (error) {
     if (error instanceof Error && error.message.includes('not found')) {
@@ -65,8 +94,21 @@ export async function createSandbox(options: SandboxOptions) {
     ...bareRepoMounts.map(mount => `${mount.hostPath}:${mount.containerPath}:rw`)
   ];
   
+  // Resource limits: per-environment profile when given, global defaults otherwise
+  const limits = resources
+    ? {
+        Memory: resources.memoryBytes,
+        CpuQuota: resources.cpuQuota,
+        PidsLimit: resources.pidsLimit,
+        StorageOpt: resources.diskSize ? { size: resources.diskSize } : undefined,
+      }
+    : {
+        Memory: parseInt(config.SANDBOX_MEMORY_LIMIT) * 1024 * 1024,
+        CpuQuota: parseFloat(config.SANDBOX_CPU_LIMIT) * 100000,
+      };
+  
   const container = await docker.createContainer({
-    Image: config.SANDBOX_IMAGE,
+    Image: image,
     name: containerName,
     Cmd: ['/bin/sh'],
     Tty: true,
@@ -76,14 +118,16 @@ export async function createSandbox(options: SandboxOptions) {
     OpenStdin: true,
     StdinOnce: false,
     HostConfig: {
-      Memory: parseInt(config.SANDBOX_MEMORY_LIMIT) * 1024 * 1024,
-      CpuQuota: parseFloat(config.SANDBOX_CPU_LIMIT) * 100000,
+      ...limits,
       CapDrop: ['ALL'],
       CapAdd: ['CHOWN', 'SETUID', 'SETGID'],
       SecurityOpt: ['no-new-privileges'],
       Binds: binds.length > 0 ? binds : undefined,
+      // Lets container git reach the orchestrator's git proxy on the host
+      ExtraHosts: ['host.docker.internal:host-gateway'],
     },
     Labels: {
+      ...labels,
       'craftastic.session': sessionId,
       'craftastic.user': userId,
       'craftastic.environment': environmentName || '',
@@ -98,6 +142,7 @@ export async function createSandbox(options: SandboxOptions) {
       `SESSION_NAME=${sessionName || 'session'}`,
       `WORKTREE_PATH=${worktreeMounts[0]?.containerPath || '/workspace'}`,
       `BARE_REPO_PATH=${bareRepoMounts[0]?.containerPath || '/data/repos'}`,
+      ...env,
     ],
   });
 
@@ -133,7 +178,11 @@ export async function listSandboxes(userId?: string) {
   return containers;
 }
 
-export async function ensureContainerRunning(containerId: string): Promise<void> {
+/**
+ * Start the container if it is stopped.
+ * Returns true when the container had to be (re)started.
+ */
+export async function ensureContainerRunning(containerId: string): Promise<boolean> {
   const container = docker.getContainer(containerId);
   
   try {
@@ -144,7 +193,9 @@ export async function ensureContainerRunning(containerId: string): Promise<void>
       // Wait a moment for container to be ready
       await new Promise(resolve => setTimeout(resolve, 1000));
       console.log(`[Docker] Container ${containerId} started successfully`);
+      return true;
     }
+    return false;
   } catch (error) {
     console.error(`[Docker] Failed to ensure container ${containerId} is running:`, error);
     throw new Error(`Container not available: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,253 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getDatabase } from '../lib/kysely';
+import { BRANCH_REF_FORMAT, GitBranch, isValidBranchName, parseAheadBehind, parseBranchRefs } from '../lib/git-refs';
+import { execGit } from './worktree-git';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * GIT BRANCHES - Branch management on an environment's bare repository
+ * ====================================================================
+ *
+ * Hoare Triple:
+ * {P: bare_repo_exists(repoPath) ∧ names are user input}
+ * op(repoPath, ...)
+ * {Q: op applied to refs/heads ∨ GitBranchError(status, message)}
+ *
+ * Branch refs live in the bare repository shared by every session of the
+ * environment (host path from WorktreeManager.ensureRepository, mounted at
+ * /data/repos/{env_id} in containers), so listing, creating, renaming and
+ * deleting run on the host. Switching a session's branch runs inside its
+ * container, because it changes the /workspace worktree.
+ *
+ * Invariants:
+ * B₁: git is always invoked with an argument vector, never a shell string
+ * B₂: at most one live session per (environment, git_branch) - checked
+ *     against the database before git runs, and enforced by git itself,
+ *     which refuses to check out a branch held by another worktree
+ * B₃: renaming a branch moves worktrees that have it checked out, so callers
+ *     must move sessions.git_branch with it
+ */
+
+export class GitBranchError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+const REMOTE = 'origin';
+
+async function git(repoPath: string, args: string[], timeoutMs = 30_000, env?: Record<string, string>) {
+  try {
+    const { stdout, stderr } = await execFileAsync('git', ['-C', repoPath, ...args], {
+      timeout: timeoutMs,
+      env: env ? { ...process.env, ...env } : undefined,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return { stdout, stderr, exitCode: 0 };
+  } catch (error: any) {
+    return {
+      stdout: String(error?.stdout ?? ''),
+      stderr: String(error?.stderr || error?.message || ''),
+      exitCode: typeof error?.code === 'number' ? error.code : 1,
+    };
+  }
+}
+
+function failure(action: string, result: { stderr: string; exitCode: number }): GitBranchError {
+  return new GitBranchError(500, `${action} failed: ${result.stderr.trim() || `exit ${result.exitCode}`}`);
+}
+
+function assertBranchName(name: string) {
+  if (!isValidBranchName(name)) {
+    throw new GitBranchError(400, `Invalid branch name '${name}'`);
+  }
+}
+
+async function branchExists(repoPath: string, name: string): Promise<boolean> {
+  const result = await git(repoPath, ['show-ref', '--verify', '--quiet', `refs/heads/${name}`]);
+  return result.exitCode === 0;
+}
+
+async function resolveCommit(repoPath: string, ref: string): Promise<string> {
+  if (!ref || ref.startsWith('-')) {
+    throw new GitBranchError(400, `Invalid ref '${ref}'`);
+  }
+  const result = await git(repoPath, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  if (result.exitCode !== 0) {
+    throw new GitBranchError(404, `Ref '${ref}' not found`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Updates refs/remotes/origin/* from the remote (network access).
+ * Local branches are never touched.
+ */
+// env: remote credentials from git-connections.ts hostGitAuth()
+export async function fetchRemoteBranches(repoPath: string, env?: Record<string, string>): Promise<void> {
+  const result = await git(
+    repoPath,
+    ['fetch', '--prune', REMOTE, `+refs/heads/*:refs/remotes/${REMOTE}/*`],
+    120_000,
+    env
+  );
+  if (result.exitCode !== 0) {
+    throw new GitBranchError(502, `Fetching from ${REMOTE} failed: ${result.stderr.trim()}`);
+  }
+}
+
+export async function listBranches(repoPath: string, defaultBranch: string): Promise<GitBranch[]> {
+  const result = await git(repoPath, ['for-each-ref', `--format=${BRANCH_REF_FORMAT}`, 'refs/heads', 'refs/remotes']);
+  if (result.exitCode !== 0) {
+    throw failure('Listing branches', result);
+  }
+
+  const branches = parseBranchRefs(result.stdout);
+  if (branches.length === 0 || !(await branchExists(repoPath, defaultBranch))) {
+    return branches;
+  }
+
+  // One rev-list per branch, in a single process (output line i belongs to branch i)
+  const refs = branches.map(branch => (branch.remote ? `refs/remotes/${branch.name}` : `refs/heads/${branch.name}`));
+  try {
+    const { stdout } = await execFileAsync(
+      'sh',
+      [
+        '-c',
+        'repo=$1; base=$2; shift 2; for ref in "$@"; do ' +
+          'git -C "$repo" rev-list --left-right --count "$base...$ref" 2>/dev/null || echo; done',
+        'sh',
+        repoPath,
+        `refs/heads/${defaultBranch}`,
+        ...refs,
+      ],
+      { timeout: 60_000, maxBuffer: 16 * 1024 * 1024 }
+    );
+    stdout.split('\n').forEach((line, index) => {
+      const counts = parseAheadBehind(line);
+      if (counts && branches[index]) {
+        branches[index].ahead = counts.ahead;
+        branches[index].behind = counts.behind;
+      }
+    });
+  } catch (error) {
+    console.warn(`⚠️  Could not compute ahead/behind for ${repoPath}:`, error instanceof Error ? error.message : error);
+  }
+
+  return branches;
+}
+
+export async function createBranch(repoPath: string, name: string, fromRef: string): Promise<{ name: string; commit: string }> {
+  assertBranchName(name);
+  const commit = await resolveCommit(repoPath, fromRef);
+  if (await branchExists(repoPath, name)) {
+    throw new GitBranchError(409, `Branch '${name}' already exists`);
+  }
+
+  const result = await git(repoPath, ['branch', '--no-track', name, commit]);
+  if (result.exitCode !== 0) {
+    throw failure('Creating branch', result);
+  }
+  return { name, commit };
+}
+
+export async function renameBranch(repoPath: string, from: string, to: string): Promise<void> {
+  assertBranchName(to);
+  if (!(await branchExists(repoPath, from))) {
+    throw new GitBranchError(404, `Branch '${from}' not found`);
+  }
+  if (await branchExists(repoPath, to)) {
+    throw new GitBranchError(409, `Branch '${to}' already exists`);
+  }
+
+  const result = await git(repoPath, ['branch', '-m', from, to]);
+  if (result.exitCode !== 0) {
+    throw failure('Renaming branch', result);
+  }
+}
+
+export async function deleteBranch(repoPath: string, name: string, force: boolean): Promise<void> {
+  assertBranchName(name);
+  if (!(await branchExists(repoPath, name))) {
+    throw new GitBranchError(404, `Branch '${name}' not found`);
+  }
+
+  const result = await git(repoPath, ['branch', force ? '-D' : '-d', name]);
+  if (result.exitCode === 0) return;
+
+  if (result.stderr.includes('not fully merged')) {
+    throw new GitBranchError(409, `Branch '${name}' is not fully merged - delete with force to discard its commits`);
+  }
+  if (result.stderr.includes('checked out at') || result.stderr.includes('used by worktree')) {
+    throw new GitBranchError(409, `Branch '${name}' is checked out in a worktree`);
+  }
+  throw failure('Deleting branch', result);
+}
+
+/**
+ * Switches the session worktree at /workspace to `branch`, creating it from
+ * `startPoint` first when given. Uncommitted changes are carried over unless
+ * they conflict, in which case git refuses and nothing changes.
+ */
+export async function switchWorktreeBranch(containerId: string, branch: string, startPoint?: string): Promise<void> {
+  assertBranchName(branch);
+  if (startPoint !== undefined && (!startPoint || startPoint.startsWith('-'))) {
+    throw new GitBranchError(400, `Invalid ref '${startPoint}'`);
+  }
+
+  const args = startPoint ? ['switch', '-c', branch, startPoint] : ['switch', branch];
+  const result = await execGit(containerId, args, { timeoutMs: 60_000 });
+  if (result.exitCode === 0) return;
+
+  const stderr = result.stderr;
+  if (stderr.includes('already checked out') || stderr.includes('already used by worktree')) {
+    throw new GitBranchError(409, `Branch '${branch}' is checked out by another worktree`);
+  }
+  if (stderr.includes('would be overwritten')) {
+    throw new GitBranchError(409, 'Local changes would be overwritten - commit or stash them first');
+  }
+  if (stderr.includes('already exists')) {
+    throw new GitBranchError(409, `Branch '${branch}' already exists`);
+  }
+  if (stderr.includes('invalid reference') || stderr.includes('not a commit')) {
+    throw new GitBranchError(404, `Branch or ref not found: ${stderr.trim()}`);
+  }
+  throw failure('Switching branch', result);
+}
+
+/**
+ * The live session holding `branch` in an environment (B₂), if any.
+ */
+export async function findSessionOnBranch(environmentId: string, branch: string, excludeSessionId?: string) {
+  let query = getDatabase()
+    .selectFrom('sessions')
+    .select(['id', 'name', 'created_at', 'last_activity'])
+    .where('environment_id', '=', environmentId)
+    .where('git_branch', '=', branch)
+    .where('status', '!=', 'dead');
+
+  if (excludeSessionId) {
+    query = query.where('id', '!=', excludeSessionId);
+  }
+
+  return query.executeTakeFirst();
+}
+
+// 409 body shared by session creation, branch switching and deletion
+export function branchInUseResponse(
+  branch: string,
+  session: NonNullable<Awaited<ReturnType<typeof findSessionOnBranch>>>
+) {
+  return {
+    error: 'BRANCH_IN_USE',
+    message: `A session already exists for branch '${branch}' in this environment`,
+    existingSession: {
+      id: session.id,
+      name: session.name,
+      createdAt: session.created_at.toISOString(),
+      lastActivity: session.last_activity?.toISOString()
+    }
+  };
+}
@@ -0,0 +1,419 @@
+import { promises as fs } from 'fs';
+import { Selectable } from 'kysely';
+import os from 'os';
+import path from 'path';
+import { getDatabase } from '../lib/kysely';
+import { decryptCredentials, encryptCredentials } from '../lib/encryption';
+import { hostCredentialEnv, remoteCredentialTarget, sshKeyEnv } from '../lib/git-credentials';
+import { GitAuthType, GitProviderKind, RemoteRepository, gitCredentialUsername, parseRepositoryUrl } from '../lib/git-providers';
+import type { GitProviderConnectionTable } from '../lib/database-types';
+import { gitHubAuthService } from './github-auth';
+import {
+  DeviceAuthorization,
+  GitProviderConnection,
+  GitProviderError,
+  ProviderToken,
+  getGitProvider,
+} from './git-providers';
+
+/**
+ * GIT CONNECTIONS - Which account to use for which remote
+ * =======================================================
+ *
+ * Hoare Triple:
+ * {P: userId owns the environment whose remote is url}
+ * resolveConnection(userId, url)
+ * {Q: result = the user's connection whose host = host(url) ∨ null}
+ *
+ * github.com is the built-in connection 'github', backed by the users.github_*
+ * columns and github-auth.ts. Every other forge is a git_provider_connections
+ * row: GitLab and Gitea instances (OAuth device flow or access token) and
+ * plain git servers (username/password or an SSH private key). Secrets are
+ * encrypted with lib/encryption.ts.
+ *
+ * Consumers:
+ * - the container git proxy (git-credentials.ts) adds
+ *   repositoryCredential() of the environment's remote
+ * - host-side clones and fetches (worktree-manager.ts, git-branches.ts) run
+ *   with hostGitAuth() in their environment
+ * - pull request routes resolve the provider and token of the remote
+ *
+ * Invariants:
+ * C₁: a secret is only used for the host of its own connection
+ * C₂: secrets never leave this module except as git credentials or API
+ *     tokens; connection listings carry `connected` only
+ * C₃: OAuth tokens expiring within REFRESH_MARGIN_MS are refreshed first
+ */
+
+export const GITHUB_CONNECTION_ID = 'github';
+const GITHUB_HOST = 'github.com';
+const REFRESH_MARGIN_MS = 60_000;
+
+interface StoredCredentials {
+  secret: string;
+  refreshToken: string | null;
+}
+
+export interface CreateConnectionInput {
+  provider: Exclude<GitProviderKind, 'github'>;
+  name: string;
+  baseUrl: string;
+  authType: GitAuthType;
+  username?: string;
+  clientId?: string;
+  secret?: string;
+}
+
+export interface GitHostAuth {
+  env: Record<string, string>;
+  cleanup: () => Promise<void>;
+}
+
+function toConnection(row: Selectable<GitProviderConnectionTable>): GitProviderConnection {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    provider: row.provider,
+    name: row.name,
+    host: row.host,
+    baseUrl: row.base_url,
+    authType: row.auth_type,
+    username: row.username,
+    clientId: row.client_id,
+    connected: !!row.encrypted_credentials,
+  };
+}
+
+async function githubConnection(userId: string): Promise<GitProviderConnection> {
+  const user = await getDatabase()
+    .selectFrom('users')
+    .select(['github_username', 'github_access_token'])
+    .where('id', '=', userId)
+    .executeTakeFirst();
+
+  return {
+    id: GITHUB_CONNECTION_ID,
+    userId,
+    provider: 'github',
+    name: 'GitHub',
+    host: GITHUB_HOST,
+    baseUrl: 'https://github.com',
+    authType: 'oauth',
+    username: user?.github_username ?? null,
+    clientId: null,
+    connected: !!user?.github_access_token,
+  };
+}
+
+export async function listConnections(userId: string): Promise<GitProviderConnection[]> {
+  const rows = await getDatabase()
+    .selectFrom('git_provider_connections')
+    .selectAll()
+    .where('user_id', '=', userId)
+    .orderBy('created_at', 'asc')
+    .execute();
+
+  return [await githubConnection(userId), ...rows.map(toConnection)];
+}
+
+export async function getConnection(userId: string, connectionId: string): Promise<GitProviderConnection> {
+  if (connectionId === GITHUB_CONNECTION_ID) {
+    return githubConnection(userId);
+  }
+  const row = /^[0-9a-f-]{36}$/i.test(connectionId)
+    ? await getDatabase()
+      .selectFrom('git_provider_connections')
+      .selectAll()
+      .where('id', '=', connectionId)
+      .where('user_id', '=', userId)
+      .executeTakeFirst()
+    : undefined;
+  if (!row) {
+    throw new GitProviderError(404, 'Git provider connection not found');
+  }
+  return toConnection(row);
+}
+
+/**
+ * Normalized web root and host of a connection. Generic SSH servers may be
+ * given as ssh://host[:port] or a bare host name.
+ */
+function connectionEndpoint(input: CreateConnectionInput): { baseUrl: string; host: string } {
+  const value = input.baseUrl.trim().replace(/\/+$/, '');
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new GitProviderError(400, `'${input.baseUrl}' is not a valid URL`);
+  }
+
+  const allowed = input.provider === 'generic' ? ['https:', 'http:', 'ssh:'] : ['https:', 'http:'];
+  if (!allowed.includes(url.protocol) || !url.host || url.username || url.password || url.search || url.hash) {
+    throw new GitProviderError(400, `'${input.baseUrl}' is not a valid ${input.provider === 'generic' ? 'server' : 'instance'} URL`);
+  }
+  return { baseUrl: `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`, host: url.host.toLowerCase() };
+}
+
+export async function createConnection(userId: string, input: CreateConnectionInput): Promise<GitProviderConnection> {
+  const provider = getGitProvider(input.provider);
+  if (!provider.authTypes.includes(input.authType)) {
+    throw new GitProviderError(400, `${provider.displayName} does not support ${input.authType} authentication`);
+  }
+  if (input.authType !== 'oauth' && !input.secret) {
+    throw new GitProviderError(400, `A ${input.authType === 'ssh_key' ? 'private key' : input.authType} is required`);
+  }
+  if (input.authType === 'oauth' && !input.clientId) {
+    throw new GitProviderError(400, 'An OAuth application id is required for the device flow');
+  }
+
+  const { baseUrl, host } = connectionEndpoint(input);
+  if (host === GITHUB_HOST) {
+    throw new GitProviderError(409, 'github.com uses the built-in GitHub connection');
+  }
+
+  const draft: GitProviderConnection = {
+    id: '',
+    userId,
+    provider: input.provider,
+    name: input.name,
+    host,
+    baseUrl,
+    authType: input.authType,
+    username: input.username ?? null,
+    clientId: input.clientId ?? null,
+    connected: !!input.secret,
+  };
+
+  // Verify tokens up front and learn the account name
+  if (input.authType === 'token' && provider.getUser) {
+    const user = await provider.getUser(draft, input.secret!);
+    draft.username = user.username;
+  }
+
+  const values: Omit<GitProviderConnectionTable, 'id' | 'created_at' | 'updated_at'> = {
+    user_id: userId,
+    provider: input.provider,
+    name: input.name,
+    host,
+    base_url: baseUrl,
+    auth_type: input.authType,
+    username: draft.username,
+    client_id: draft.clientId,
+    encrypted_credentials: input.secret
+      ? encryptCredentials({ secret: input.secret, refreshToken: null } satisfies StoredCredentials)
+      : null,
+    token_expires_at: null,
+  };
+
+  try {
+    const row = await getDatabase()
+      .insertInto('git_provider_connections')
+      .values(values)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+    return toConnection(row);
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new GitProviderError(409, `A connection for ${host} already exists`);
+    }
+    throw error;
+  }
+}
+
+export async function deleteConnection(userId: string, connectionId: string): Promise<void> {
+  if (connectionId === GITHUB_CONNECTION_ID) {
+    await gitHubAuthService.revokeUserToken(userId);
+    return;
+  }
+  const connection = await getConnection(userId, connectionId);
+  await getDatabase()
+    .deleteFrom('git_provider_connections')
+    .where('id', '=', connection.id)
+    .execute();
+}
+
+export async function startDeviceFlow(connection: GitProviderConnection): Promise<DeviceAuthorization> {
+  const provider = getGitProvider(connection.provider);
+  if (!provider.startDeviceFlow || connection.authType !== 'oauth') {
+    throw new GitProviderError(400, `${connection.name} does not use the device flow`);
+  }
+  return provider.startDeviceFlow(connection);
+}
+
+async function saveToken(connection: GitProviderConnection, token: ProviderToken): Promise<void> {
+  await getDatabase()
+    .updateTable('git_provider_connections')
+    .set({
+      encrypted_credentials: encryptCredentials({
+        secret: token.accessToken,
+        refreshToken: token.refreshToken,
+      } satisfies StoredCredentials),
+      token_expires_at: token.expiresIn ? new Date(Date.now() + token.expiresIn * 1000) : null,
+      updated_at: new Date(),
+    })
+    .where('id', '=', connection.id)
+    .execute();
+}
+
+/**
+ * One poll of a device flow; DeviceFlowPendingError while the user has not
+ * authorized yet. On success the token is stored on the connection.
+ */
+export async function completeDeviceFlow(connection: GitProviderConnection, deviceCode: string): Promise<GitProviderConnection> {
+  const provider = getGitProvider(connection.provider);
+  if (!provider.pollDeviceFlow || connection.authType !== 'oauth') {
+    throw new GitProviderError(400, `${connection.name} does not use the device flow`);
+  }
+  const token = await provider.pollDeviceFlow(connection, deviceCode);
+
+  if (connection.id === GITHUB_CONNECTION_ID) {
+    await gitHubAuthService.saveUserToken(connection.userId, {
+      access_token: token.accessToken,
+      token_type: 'bearer',
+      scope: '',
+      refresh_token: token.refreshToken ?? undefined,
+      expires_in: token.expiresIn ?? undefined,
+    });
+    return githubConnection(connection.userId);
+  }
+
+  const username = provider.getUser ? (await provider.getUser(connection, token.accessToken)).username : connection.username;
+  await saveToken(connection, token);
+  await getDatabase()
+    .updateTable('git_provider_connections')
+    .set({ username })
+    .where('id', '=', connection.id)
+    .execute();
+  return { ...connection, username, connected: true };
+}
+
+/**
+ * Decrypted secret of a connection (token, password or private key), or null
+ * when none is stored. C₃: OAuth tokens close to expiry are refreshed first.
+ */
+export async function getConnectionSecret(connection: GitProviderConnection): Promise<string | null> {
+  if (connection.id === GITHUB_CONNECTION_ID) {
+    return gitHubAuthService.getUserToken(connection.userId);
+  }
+
+  const row = await getDatabase()
+    .selectFrom('git_provider_connections')
+    .select(['encrypted_credentials', 'token_expires_at'])
+    .where('id', '=', connection.id)
+    .executeTakeFirst();
+  if (!row?.encrypted_credentials) {
+    return null;
+  }
+
+  const stored = decryptCredentials(row.encrypted_credentials) as StoredCredentials;
+  const expiring = row.token_expires_at && row.token_expires_at.getTime() - Date.now() < REFRESH_MARGIN_MS;
+  if (!expiring) {
+    return stored.secret;
+  }
+
+  const provider = getGitProvider(connection.provider);
+  if (!stored.refreshToken || !provider.refreshToken) {
+    return null;
+  }
+  try {
+    const token = await provider.refreshToken(connection, stored.refreshToken);
+    await saveToken(connection, { ...token, refreshToken: token.refreshToken ?? stored.refreshToken });
+    return token.accessToken;
+  } catch (error) {
+    console.warn(`⚠️  Failed to refresh ${connection.provider} token for ${connection.host}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Connection whose host serves `repositoryUrl` (C₁), with the parsed remote.
+ * Null when the URL is unparseable or the user has no such connection.
+ */
+export async function resolveConnection(
+  userId: string,
+  repositoryUrl: string
+): Promise<{ connection: GitProviderConnection; remote: RemoteRepository } | null> {
+  const remote = parseRepositoryUrl(repositoryUrl);
+  if (!remote) {
+    return null;
+  }
+  if (remote.host === GITHUB_HOST) {
+    return { connection: await githubConnection(userId), remote };
+  }
+
+  // ssh remotes rarely carry the web port, so fall back to the bare host name
+  const candidates = await getDatabase()
+    .selectFrom('git_provider_connections')
+    .selectAll()
+    .where('user_id', '=', userId)
+    .where('host', 'in', [remote.host, remote.host.replace(/:\d+$/, '')])
+    .execute();
+  const row = candidates.find(candidate => candidate.host === remote.host)
+    ?? (remote.protocol === 'ssh' ? candidates.find(candidate => candidate.auth_type === 'ssh_key') : undefined);
+  return row ? { connection: toConnection(row), remote } : null;
+}
+
+/**
+ * Username/password git should send for an https `repositoryUrl`, or null
+ * when no connection with a usable secret covers it.
+ */
+export async function repositoryCredential(
+  userId: string,
+  repositoryUrl: string
+): Promise<{ connection: GitProviderConnection; username: string; password: string } | null> {
+  const resolved = await resolveConnection(userId, repositoryUrl);
+  if (!resolved || resolved.remote.protocol === 'ssh' || resolved.connection.authType === 'ssh_key') {
+    return null;
+  }
+  const { connection } = resolved;
+  const password = await getConnectionSecret(connection);
+  if (!password) {
+    return null;
+  }
+  return {
+    connection,
+    username: gitCredentialUsername(connection.provider, connection.authType, connection.username),
+    password,
+  };
+}
+
+// Host-side git over SSH with `privateKey`, written to a private temporary file
+export async function sshKeyGitAuth(privateKey: string): Promise<GitHostAuth> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'craftastic-ssh-'));
+  const keyPath = path.join(dir, 'id');
+  await fs.writeFile(keyPath, privateKey.endsWith('\n') ? privateKey : `${privateKey}\n`, { mode: 0o600 });
+  return {
+    env: sshKeyEnv(keyPath),
+    cleanup: () => fs.rm(dir, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Environment for host-side git (bare clone, fetch) against `repositoryUrl`.
+ * SSH keys are written to a private temporary file that cleanup() removes;
+ * without a matching connection git runs as before, unauthenticated.
+ */
+export async function hostGitAuth(userId: string, repositoryUrl: string): Promise<GitHostAuth> {
+  const none: GitHostAuth = { env: { GIT_TERMINAL_PROMPT: '0' }, cleanup: async () => {} };
+
+  const resolved = await resolveConnection(userId, repositoryUrl);
+  if (!resolved) {
+    return none;
+  }
+
+  if (resolved.remote.protocol === 'ssh') {
+    if (resolved.connection.authType !== 'ssh_key') return none;
+    const key = await getConnectionSecret(resolved.connection);
+    return key ? sshKeyGitAuth(key) : none;
+  }
+
+  const credential = await repositoryCredential(userId, repositoryUrl);
+  const target = remoteCredentialTarget(repositoryUrl);
+  if (!credential || !target) {
+    return none;
+  }
+  return {
+    env: hostCredentialEnv(target, credential.username, credential.password),
+    cleanup: async () => {},
+  };
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { getDatabase } from '../lib/kysely';
+import { gitProxyEnv, gitProxyUpstreamPath, remoteCredentialTarget } from '../lib/git-credentials';
+import { repositoryCredential } from './git-connections';
+
+/**
+ * GIT CREDENTIALS - Session-scoped git proxy access for containers
+ * ================================================================
+ *
+ * Hoare Triple:
+ * {P: token = the session token of s's current container ∧ status(s) ≠ 'dead' ∧
+ *     request targets a smart HTTP endpoint of the remote of environment(s)}
+ * resolveGitProxyRequest(token, target, path)
+ * {Q: result = upstream URL + the owner's credential as an Authorization
+ *     header ∨ GitCredentialError(status, message)}
+ *
+ * Containers never hold the owner's tokens, not even in git's memory. Each
+ * session container gets a session token and the proxy wiring from
+ * lib/git-credentials.ts; its git talks to routes/git-proxy.ts, which adds
+ * the owner's credential and forwards to the real remote. Which credential
+ * is used is decided by the owner's git provider connections
+ * (git-connections.ts): GitHub for github.com, otherwise the GitLab, Gitea or
+ * generic connection of the host.
+ *
+ * The session token is `{sessionId}.{nonce}.{HMAC(sessionId.nonce)}`, keyed
+ * by JWT_SECRET. The nonce lives in sessions.git_credential_nonce and is
+ * replaced for every new container, so a token dies with its container, on
+ * revokeGitCredentials() and with the session row.
+ *
+ * Invariants:
+ * G₁: the proxy only forwards to the environment's own https remote, with
+ *     the connection of that host - a token never reaches another host (K₂)
+ * G₂: a token is valid only while its nonce is the session's current nonce
+ * G₃: every git operation (info/refs request) is recorded in session_credentials
+ */
+
+export class GitCredentialError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface GitProxyRequest {
+  url: string;              // upstream URL without the query
+  authorization: string;    // Authorization header for the upstream
+}
+
+function tokenSignature(sessionId: string, nonce: string): string {
+  return crypto.createHmac('sha256', config.JWT_SECRET).update(`git-credential:${sessionId}.${nonce}`).digest('base64url');
+}
+
+export function sessionCredentialToken(sessionId: string, nonce: string): string {
+  return `${sessionId}.${nonce}.${tokenSignature(sessionId, nonce)}`;
+}
+
+// Session id and nonce the token was issued for, or null when it is forged
+export function verifyCredentialToken(token: string): { sessionId: string; nonce: string } | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[0] || !parts[1]) return null;
+
+  const [sessionId, nonce, signature] = parts;
+  const given = Buffer.from(signature);
+  const expected = Buffer.from(tokenSignature(sessionId, nonce));
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? { sessionId, nonce } : null;
+}
+
+/**
+ * Container Env entries for a new session container, invalidating the token
+ * of any earlier container (G₂). Containers reach the orchestrator at
+ * CONTAINER_API_URL (default host.docker.internal:PORT). Remotes that are
+ * not https (SSH, local paths) need no proxy.
+ */
+export async function issueContainerCredentialEnv(sessionId: string, repositoryUrl: string | null): Promise<string[]> {
+  const target = repositoryUrl ? remoteCredentialTarget(repositoryUrl) : null;
+  const nonce = crypto.randomBytes(16).toString('base64url');
+
+  await getDatabase()
+    .updateTable('sessions')
+    .set({ git_credential_nonce: target ? nonce : null })
+    .where('id', '=', sessionId)
+    .execute();
+
+  if (!target) {
+    return [];
+  }
+  const apiUrl = config.CONTAINER_API_URL || `http://host.docker.internal:${config.PORT}`;
+  return gitProxyEnv(apiUrl, sessionCredentialToken(sessionId, nonce), target);
+}
+
+// G₂: the session's token stops working immediately
+export async function revokeGitCredentials(sessionId: string): Promise<void> {
+  await getDatabase()
+    .updateTable('sessions')
+    .set({ git_credential_nonce: null })
+    .where('id', '=', sessionId)
+    .execute();
+}
+
+export async function resolveGitProxyRequest(
+  token: string,
+  target: { protocol: string; host: string },
+  requestPath: string
+): Promise<GitProxyRequest> {
+  const verified = verifyCredentialToken(token);
+  if (!verified) {
+    throw new GitCredentialError(401, 'Invalid session token');
+  }
+
+  const db = getDatabase();
+  const session = await db
+    .selectFrom('sessions as s')
+    .innerJoin('environments as e', 's.environment_id', 'e.id')
+    .select(['s.status', 's.git_credential_nonce', 'e.repository_url', 'e.user_id'])
+    .where('s.id', '=', verified.sessionId)
+    .executeTakeFirst();
+
+  // G₂
+  if (!session || session.status === 'dead' || session.git_credential_nonce !== verified.nonce) {
+    throw new GitCredentialError(401, 'Session token is no longer valid');
+  }
+
+  // G₁: only this environment's own remote, and only its git endpoints
+  const remote = session.repository_url ? remoteCredentialTarget(session.repository_url) : null;
+  if (!remote || target.protocol !== remote.protocol || target.host.toLowerCase() !== remote.host.toLowerCase()) {
+    throw new GitCredentialError(403, 'Not the remote of this environment');
+  }
+  const path = gitProxyUpstreamPath(new URL(session.repository_url!).pathname, requestPath);
+  if (!path) {
+    throw new GitCredentialError(404, 'Not a git endpoint of this repository');
+  }
+
+  const credential = await repositoryCredential(session.user_id, session.repository_url!);
+  if (!credential) {
+    throw new GitCredentialError(404, `No authenticated git connection for ${remote.host}`);
+  }
+
+  // G₃: every fetch or push starts with info/refs
+  if (path.endsWith('/info/refs')) {
+    await db
+      .insertInto('session_credentials')
+      .values({ session_id: verified.sessionId, credential_type: 'git', credential_name: credential.connection.provider })
+      .execute();
+  }
+
+  return {
+    url: `${remote.protocol}://${remote.host}${path}`,
+    authorization: `Basic ${Buffer.from(`${credential.username}:${credential.password}`).toString('base64')}`,
+  };
+}
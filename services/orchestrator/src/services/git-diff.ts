@@ -0,0 +1,105 @@
+import { DiffFile, HunkSelection, buildHunkPatch, parseUnifiedDiff } from '../lib/git-diff';
+import { execGit, runGit } from './worktree-git';
+
+/**
+ * GIT DIFF - Structured diffs and hunk staging in a session worktree
+ * ==================================================================
+ *
+ * Hoare Triple:
+ * {P: running(containerId) ∧ ∀h ∈ request. h.id ∈ hunks(current diff of file)}
+ * applyHunks(containerId, action, file, selections)
+ * {Q: exactly the selected changes moved (stage: worktree → index,
+ *     unstage: index → HEAD, discard: worktree → index) ∨
+ *     GitDiffError(status, message) with index and worktree unchanged}
+ *
+ * Hunks are addressed by content id (lib/git-diff.ts D₁), so a client acting
+ * on a stale diff gets a 409 instead of staging lines it never saw.
+ * `git apply` is all-or-nothing, which gives the "unchanged" half of Q.
+ *
+ * | action  | diff read          | applied with                   |
+ * |---------|--------------------|--------------------------------|
+ * | stage   | git diff           | git apply --cached             |
+ * | unstage | git diff --cached  | git apply --cached --reverse   |
+ * | discard | git diff           | git apply --reverse            |
+ *
+ * Untracked files are not part of `git diff`; stage them as whole files.
+ */
+
+export class GitDiffError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export type HunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface HunkRequest {
+  id: string;
+  lines?: number[];          // Indices into hunk.lines; omitted = whole hunk
+}
+
+function diffArgs(staged: boolean, file?: string): string[] {
+  return [
+    '-c', 'core.quotePath=false',
+    'diff', '--no-color', '--no-ext-diff', '-M', '--src-prefix=a/', '--dst-prefix=b/',
+    ...(staged ? ['--cached'] : []),
+    ...(file ? ['--', file] : []),
+  ];
+}
+
+export async function getWorktreeDiff(
+  containerId: string,
+  options: { staged?: boolean; file?: string } = {}
+): Promise<{ diff: string; files: DiffFile[] }> {
+  const { stdout } = await runGit(containerId, diffArgs(!!options.staged, options.file));
+  return { diff: stdout, files: parseUnifiedDiff(stdout) };
+}
+
+function resolveSelections(file: DiffFile, requests: HunkRequest[]): HunkSelection[] {
+  return requests.map(request => {
+    const hunk = file.hunks.find(candidate => candidate.id === request.id);
+    if (!hunk) {
+      throw new GitDiffError(409, `Hunk ${request.id} is no longer in the diff of ${file.path} - refresh and try again`);
+    }
+    if (!request.lines) {
+      return { hunk, lines: null };
+    }
+    if (file.status === 'added' || file.status === 'deleted') {
+      throw new GitDiffError(400, `Lines of ${file.status} files cannot be selected - use the whole hunk`);
+    }
+    for (const index of request.lines) {
+      if (hunk.lines[index]?.type !== 'add' && hunk.lines[index]?.type !== 'del') {
+        throw new GitDiffError(400, `Line ${index} of hunk ${request.id} is not an added or removed line`);
+      }
+    }
+    return { hunk, lines: new Set(request.lines) };
+  });
+}
+
+export async function applyHunks(containerId: string, action: HunkAction, path: string, requests: HunkRequest[]): Promise<void> {
+  const { files } = await getWorktreeDiff(containerId, { staged: action === 'unstage', file: path });
+  const file = files.find(candidate => candidate.path === path || candidate.oldPath === path);
+  if (!file) {
+    throw new GitDiffError(409, `${path} has no ${action === 'unstage' ? 'staged' : 'unstaged'} changes`);
+  }
+  if (file.binary) {
+    throw new GitDiffError(400, `${path} is binary - stage or discard it as a whole file`);
+  }
+
+  const reverse = action !== 'stage';
+  const patch = buildHunkPatch(file, resolveSelections(file, requests), reverse);
+  if (!patch) {
+    throw new GitDiffError(400, 'The selection contains no changes');
+  }
+
+  const args = [
+    'apply', '--recount', '--whitespace=nowarn',
+    ...(action === 'discard' ? [] : ['--cached']),
+    ...(reverse ? ['--reverse'] : []),
+    '-',
+  ];
+  const result = await execGit(containerId, args, { stdin: patch, timeoutMs: 30_000 });
+  if (result.exitCode !== 0) {
+    throw new GitDiffError(409, `Patch does not apply: ${result.stderr.trim() || `exit ${result.exitCode}`}`);
+  }
+}
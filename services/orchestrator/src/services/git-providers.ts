@@ -0,0 +1,560 @@
+import { config } from '../config';
+import {
+  GitAuthType,
+  GitHubRepositoryPayload,
+  GitLabApprovalsPayload,
+  GitLabProjectPayload,
+  GitProviderKind,
+  GiteaRepositoryPayload,
+  GiteaReviewPayload,
+  GiteaStatusPayload,
+  ProviderRepository,
+  fromGitHubRepository,
+  fromGitLabProject,
+  fromGiteaRepository,
+  summarizeGitLabApprovals,
+  summarizeGitLabPipeline,
+  summarizeGiteaReviews,
+  summarizeGiteaStatuses,
+} from '../lib/git-providers';
+import { gitHubAuthService } from './github-auth';
+import {
+  CreatePullRequestInput,
+  PullRequestRef,
+  PullRequestStatus,
+  createPullRequest as createGitHubPullRequest,
+  getPullRequestStatus as getGitHubPullRequestStatus,
+} from './github-pulls';
+
+/**
+ * GIT PROVIDERS - One interface over GitHub, GitLab, Gitea and plain git
+ * ======================================================================
+ *
+ * Hoare Triple:
+ * {P: connection.provider = provider.kind ∧ token grants access on connection.host}
+ * provider.op(connection, token, ...)
+ * {Q: result in the provider-neutral shapes (ProviderRepository,
+ *     PullRequestRef, PullRequestStatus) ∨ GitProviderError(status, message)}
+ *
+ * A provider describes how to authenticate against a forge and what its API
+ * offers. Everything beyond `kind`, `displayName` and `authTypes` is
+ * optional: the generic provider only supplies git credentials, Gitea has no
+ * device flow. Callers check for a method before offering the feature.
+ *
+ * | provider | auth                      | repositories | pull requests |
+ * |----------|---------------------------|--------------|---------------|
+ * | github   | device flow (github-auth) | ✓            | ✓             |
+ * | gitlab   | device flow*, token       | ✓            | ✓ (MRs)       |
+ * | gitea    | token                     | ✓            | ✓             |
+ * | generic  | password, SSH key         | -            | -             |
+ *
+ * *GitLab's device flow needs an OAuth application id on the connection.
+ *
+ * Connections (where a provider lives, and the stored secret) are managed in
+ * services/git-connections.ts.
+ *
+ * Invariants:
+ * V₁: forge 401/403 surface as 403, never 401 (as A₁ in github-pulls.ts)
+ * V₂: an unfinished device flow is a DeviceFlowPendingError, not a failure
+ */
+
+export class GitProviderError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export class DeviceFlowPendingError extends Error {
+  constructor(public code: 'authorization_pending' | 'slow_down') {
+    super(code);
+  }
+}
+
+export interface GitProviderConnection {
+  id: string;                // 'github' for the built-in github.com account
+  userId: string;
+  provider: GitProviderKind;
+  name: string;
+  host: string;              // lowercase host[:port], matched against remotes
+  baseUrl: string;           // web root, e.g. https://gitlab.example.com
+  authType: GitAuthType;
+  username: string | null;
+  clientId: string | null;   // OAuth application id for device flows
+  connected: boolean;        // a secret is stored
+}
+
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number;
+  interval: number;
+}
+
+export interface ProviderToken {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresIn: number | null;  // seconds
+}
+
+export interface ProviderUser {
+  username: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface ListRepositoriesOptions {
+  page: number;
+  perPage: number;
+  search?: string;
+}
+
+export interface GitProvider {
+  kind: GitProviderKind;
+  displayName: string;
+  authTypes: GitAuthType[];
+  startDeviceFlow?(connection: GitProviderConnection): Promise<DeviceAuthorization>;
+  pollDeviceFlow?(connection: GitProviderConnection, deviceCode: string): Promise<ProviderToken>;
+  refreshToken?(connection: GitProviderConnection, refreshToken: string): Promise<ProviderToken>;
+  getUser?(connection: GitProviderConnection, token: string): Promise<ProviderUser>;
+  listRepositories?(connection: GitProviderConnection, token: string, options: ListRepositoriesOptions): Promise<ProviderRepository[]>;
+  createPullRequest?(
+    connection: GitProviderConnection,
+    token: string,
+    repositoryPath: string,
+    input: CreatePullRequestInput
+  ): Promise<PullRequestRef & { created: boolean }>;
+  getPullRequestStatus?(
+    connection: GitProviderConnection,
+    token: string,
+    repositoryPath: string,
+    number: number
+  ): Promise<PullRequestStatus>;
+}
+
+// Error bodies: GitHub and Gitea send { message }, GitLab { message } (at
+// times an object) or an OAuth-style { error, error_description }
+interface ProviderErrorPayload {
+  message?: unknown;
+  error?: string;
+  error_description?: string;
+}
+
+interface OAuthTokenPayload {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+async function providerRequest<T>(
+  label: string,
+  url: string,
+  init: { method?: string; headers: Record<string, string>; body?: unknown }
+): Promise<T> {
+  const method = init.method ?? 'GET';
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...init.headers,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error) {
+    throw new GitProviderError(502, `${label} API unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (response.ok) {
+    return body as T;
+  }
+
+  const payload = body as ProviderErrorPayload | null;
+  const message = typeof payload?.message === 'string' ? payload.message : payload?.message ? JSON.stringify(payload.message) : null;
+  const detail = [message, payload?.error_description ?? payload?.error].filter(Boolean).join(': ');
+  const status = response.status === 401 || response.status === 403 ? 403
+    : [404, 409, 422].includes(response.status) ? response.status
+      : 502;
+  throw new GitProviderError(status, `${label} API ${method} ${new URL(url).pathname} failed (${response.status})${detail ? `: ${detail}` : ''}`);
+}
+
+// RFC 8628 token endpoint; pending states come back as 400 with an error code
+async function oauthTokenRequest(label: string, url: string, params: Record<string, string>): Promise<ProviderToken> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString(),
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error) {
+    throw new GitProviderError(502, `${label} OAuth unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const payload = await response.json().catch(() => null) as OAuthTokenPayload | null;
+  if (payload?.access_token) {
+    return {
+      accessToken: payload.access_token,
+      refreshToken: payload.refresh_token ?? null,
+      expiresIn: typeof payload.expires_in === 'number' ? payload.expires_in : null,
+    };
+  }
+  if (payload?.error === 'authorization_pending' || payload?.error === 'slow_down') {
+    throw new DeviceFlowPendingError(payload.error);
+  }
+  throw new GitProviderError(
+    payload?.error === 'access_denied' || payload?.error === 'expired_token' ? 400 : 502,
+    `${label} OAuth failed: ${payload?.error_description || payload?.error || response.statusText}`
+  );
+}
+
+function splitOwnerRepo(path: string): { owner: string; repo: string } {
+  const [owner, repo, ...rest] = path.split('/');
+  if (!owner || !repo || rest.length > 0) {
+    throw new GitProviderError(400, `'${path}' is not an owner/repository path`);
+  }
+  return { owner, repo };
+}
+
+function matchesSearch(repository: ProviderRepository, search?: string): boolean {
+  if (!search) return true;
+  const query = search.toLowerCase();
+  return repository.fullName.toLowerCase().includes(query) || !!repository.description?.toLowerCase().includes(query);
+}
+
+// GitHub: auth and storage stay in github-auth.ts, PRs in github-pulls.ts
+const githubProvider: GitProvider = {
+  kind: 'github',
+  displayName: 'GitHub',
+  authTypes: ['oauth'],
+
+  async startDeviceFlow() {
+    const flow = await gitHubAuthService.initiateDeviceFlow();
+    return {
+      deviceCode: flow.device_code,
+      userCode: flow.user_code,
+      verificationUri: flow.verification_uri,
+      expiresIn: flow.expires_in,
+      interval: flow.interval,
+    };
+  },
+
+  async pollDeviceFlow(_connection, deviceCode) {
+    try {
+      const token = await gitHubAuthService.pollForToken(deviceCode);
+      return { accessToken: token.access_token, refreshToken: token.refresh_token ?? null, expiresIn: token.expires_in ?? null };
+    } catch (error) {
+      const code = error instanceof Error ? error.message : '';
+      if (code === 'authorization_pending' || code === 'slow_down') throw new DeviceFlowPendingError(code);
+      throw new GitProviderError(400, `GitHub authorization failed: ${code}`);
+    }
+  },
+
+  async getUser(_connection, token) {
+    const user = await gitHubAuthService.getGitHubUser(token);
+    return { username: user.login, name: user.name, email: user.email };
+  },
+
+  async listRepositories(_connection, token, { page, perPage, search }) {
+    const query = new URLSearchParams({ page: String(page), per_page: String(perPage), sort: 'updated', direction: 'desc' });
+    const repos = await providerRequest<GitHubRepositoryPayload[]>('GitHub', `${config.GITHUB_API_URL.replace(/\/+$/, '')}/user/repos?${query}`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: 'application/vnd.github+json' },
+    });
+    return repos.map(fromGitHubRepository).filter(repository => matchesSearch(repository, search));
+  },
+
+  async createPullRequest(_connection, token, repositoryPath, input) {
+    return createGitHubPullRequest(token, splitOwnerRepo(repositoryPath), input);
+  },
+
+  async getPullRequestStatus(_connection, token, repositoryPath, number) {
+    return getGitHubPullRequestStatus(token, splitOwnerRepo(repositoryPath), number);
+  },
+};
+
+const GITLAB_SCOPES = 'api read_repository write_repository';
+
+// The fields we read of GitLab's API objects
+interface GitLabDeviceFlowPayload {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+interface GitLabUserPayload {
+  username: string;
+  name?: string | null;
+  email?: string | null;
+  public_email?: string | null;
+}
+
+interface GitLabMergeRequestPayload {
+  iid: number;
+  web_url: string;
+  title: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  draft?: boolean;
+  work_in_progress?: boolean;   // before GitLab 13.2
+  source_branch: string;
+  target_branch: string;
+  detailed_merge_status?: string;
+  merge_status?: string;
+  head_pipeline?: { status: string; web_url?: string | null } | null;
+  updated_at: string;
+}
+
+function gitlab<T>(connection: GitProviderConnection, token: string, path: string, init: { method?: string; body?: unknown } = {}) {
+  return providerRequest<T>('GitLab', `${connection.baseUrl}/api/v4${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}` },
+  });
+}
+
+function gitlabProjectPath(repositoryPath: string): string {
+  return `/projects/${encodeURIComponent(repositoryPath)}`;
+}
+
+const gitlabProvider: GitProvider = {
+  kind: 'gitlab',
+  displayName: 'GitLab',
+  authTypes: ['oauth', 'token'],
+
+  async startDeviceFlow(connection) {
+    if (!connection.clientId) {
+      throw new GitProviderError(400, 'This GitLab connection has no OAuth application id - use a personal access token instead');
+    }
+    const flow = await providerRequest<GitLabDeviceFlowPayload>('GitLab', `${connection.baseUrl}/oauth/authorize_device`, {
+      method: 'POST',
+      headers: {},
+      body: { client_id: connection.clientId, scope: GITLAB_SCOPES },
+    });
+    return {
+      deviceCode: flow.device_code,
+      userCode: flow.user_code,
+      verificationUri: flow.verification_uri_complete || flow.verification_uri,
+      expiresIn: flow.expires_in,
+      interval: flow.interval ?? 5,
+    };
+  },
+
+  async pollDeviceFlow(connection, deviceCode) {
+    return oauthTokenRequest('GitLab', `${connection.baseUrl}/oauth/token`, {
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      device_code: deviceCode,
+      client_id: connection.clientId ?? '',
+    });
+  },
+
+  async refreshToken(connection, refreshToken) {
+    return oauthTokenRequest('GitLab', `${connection.baseUrl}/oauth/token`, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: connection.clientId ?? '',
+    });
+  },
+
+  async getUser(connection, token) {
+    const user = await gitlab<GitLabUserPayload>(connection, token, '/user');
+    return { username: user.username, name: user.name ?? null, email: user.email || user.public_email || null };
+  },
+
+  async listRepositories(connection, token, { page, perPage, search }) {
+    const query = new URLSearchParams({
+      membership: 'true',
+      order_by: 'last_activity_at',
+      page: String(page),
+      per_page: String(perPage),
+      ...(search ? { search } : {}),
+    });
+    const projects = await gitlab<GitLabProjectPayload[]>(connection, token, `/projects?${query}`);
+    return projects.map(fromGitLabProject);
+  },
+
+  async createPullRequest(connection, token, repositoryPath, input) {
+    const project = gitlabProjectPath(repositoryPath);
+    try {
+      const mergeRequest = await gitlab<GitLabMergeRequestPayload>(connection, token, `${project}/merge_requests`, {
+        method: 'POST',
+        body: {
+          source_branch: input.head,
+          target_branch: input.base,
+          title: input.draft ? `Draft: ${input.title}` : input.title,
+          description: input.body ?? '',
+        },
+      });
+      return { number: mergeRequest.iid, url: mergeRequest.web_url, created: true };
+    } catch (error) {
+      if (!(error instanceof GitProviderError && error.statusCode === 409)) throw error;
+      const query = new URLSearchParams({ state: 'opened', source_branch: input.head, target_branch: input.base });
+      const [existing] = await gitlab<GitLabMergeRequestPayload[]>(connection, token, `${project}/merge_requests?${query}`);
+      if (!existing) throw error;
+      return { number: existing.iid, url: existing.web_url, created: false };
+    }
+  },
+
+  async getPullRequestStatus(connection, token, repositoryPath, number) {
+    const base = `${gitlabProjectPath(repositoryPath)}/merge_requests/${number}`;
+    const [mergeRequest, approvals] = await Promise.all([
+      gitlab<GitLabMergeRequestPayload>(connection, token, base),
+      // Approval rules are a paid feature on some instances
+      gitlab<GitLabApprovalsPayload>(connection, token, `${base}/approvals`).catch((): GitLabApprovalsPayload => ({})),
+    ]);
+    const mergeStatus = mergeRequest.detailed_merge_status ?? mergeRequest.merge_status ?? '';
+
+    return {
+      number: mergeRequest.iid,
+      url: mergeRequest.web_url,
+      title: mergeRequest.title,
+      state: mergeRequest.state === 'merged' ? 'merged' : mergeRequest.state === 'opened' ? 'open' : 'closed',
+      draft: !!(mergeRequest.draft ?? mergeRequest.work_in_progress),
+      head: mergeRequest.source_branch,
+      base: mergeRequest.target_branch,
+      mergeable: ['can_be_merged', 'mergeable'].includes(mergeStatus) ? true
+        : ['cannot_be_merged', 'conflict', 'broken_status'].includes(mergeStatus) ? false
+          : null,
+      reviews: summarizeGitLabApprovals(approvals),
+      checks: summarizeGitLabPipeline(mergeRequest.head_pipeline ?? null),
+      updatedAt: mergeRequest.updated_at,
+    };
+  },
+};
+
+function gitea<T>(connection: GitProviderConnection, token: string, path: string, init: { method?: string; body?: unknown } = {}) {
+  return providerRequest<T>('Gitea', `${connection.baseUrl}/api/v1${path}`, {
+    ...init,
+    headers: { Authorization: `token ${token}` },
+  });
+}
+
+// The fields we read of Gitea's API objects
+interface GiteaUserPayload {
+  login: string;
+  full_name?: string;
+  email?: string;
+}
+
+interface GiteaPullPayload {
+  number: number;
+  html_url: string;
+  title: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  mergeable?: boolean | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  updated_at: string;
+}
+
+interface GiteaCombinedStatusPayload {
+  statuses?: GiteaStatusPayload[] | null;
+}
+
+function giteaRepoPath(repositoryPath: string): string {
+  const { owner, repo } = splitOwnerRepo(repositoryPath);
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+const giteaProvider: GitProvider = {
+  kind: 'gitea',
+  displayName: 'Gitea',
+  authTypes: ['token'],
+
+  async getUser(connection, token) {
+    const user = await gitea<GiteaUserPayload>(connection, token, '/user');
+    return { username: user.login, name: user.full_name || null, email: user.email || null };
+  },
+
+  async listRepositories(connection, token, { page, perPage, search }) {
+    const query = new URLSearchParams({ page: String(page), limit: String(perPage) });
+    const repos = await gitea<GiteaRepositoryPayload[]>(connection, token, `/user/repos?${query}`);
+    return repos.map(fromGiteaRepository).filter(repository => matchesSearch(repository, search));
+  },
+
+  async createPullRequest(connection, token, repositoryPath, input) {
+    const base = giteaRepoPath(repositoryPath);
+    try {
+      const pull = await gitea<GiteaPullPayload>(connection, token, `${base}/pulls`, {
+        method: 'POST',
+        body: {
+          head: input.head,
+          base: input.base,
+          title: input.draft ? `WIP: ${input.title}` : input.title,
+          body: input.body ?? '',
+        },
+      });
+      return { number: pull.number, url: pull.html_url, created: true };
+    } catch (error) {
+      if (!(error instanceof GitProviderError && error.statusCode === 409)) throw error;
+      const existing = await gitea<GiteaPullPayload>(
+        connection,
+        token,
+        `${base}/pulls/${encodeURIComponent(input.base)}/${encodeURIComponent(input.head)}`
+      ).catch(() => null);
+      if (!existing || existing.state !== 'open') throw error;
+      return { number: existing.number, url: existing.html_url, created: false };
+    }
+  },
+
+  async getPullRequestStatus(connection, token, repositoryPath, number) {
+    const base = giteaRepoPath(repositoryPath);
+    const pull = await gitea<GiteaPullPayload>(connection, token, `${base}/pulls/${number}`);
+    const [reviews, combined] = await Promise.all([
+      gitea<GiteaReviewPayload[]>(connection, token, `${base}/pulls/${number}/reviews`),
+      gitea<GiteaCombinedStatusPayload | null>(connection, token, `${base}/commits/${pull.head.sha}/status`),
+    ]);
+
+    return {
+      number: pull.number,
+      url: pull.html_url,
+      title: pull.title,
+      state: pull.merged ? 'merged' : pull.state === 'open' ? 'open' : 'closed',
+      draft: /^(WIP|\[WIP\]|Draft):?\s/i.test(pull.title),
+      head: pull.head.ref,
+      base: pull.base.ref,
+      mergeable: typeof pull.mergeable === 'boolean' ? pull.mergeable : null,
+      reviews: summarizeGiteaReviews(reviews),
+      checks: summarizeGiteaStatuses(combined?.statuses ?? []),
+      updatedAt: pull.updated_at,
+    };
+  },
+};
+
+// Any git server: credentials for clone, fetch and push, nothing else
+const genericProvider: GitProvider = {
+  kind: 'generic',
+  displayName: 'Git (HTTPS/SSH)',
+  authTypes: ['password', 'ssh_key'],
+};
+
+const PROVIDERS: Record<GitProviderKind, GitProvider> = {
+  github: githubProvider,
+  gitlab: gitlabProvider,
+  gitea: giteaProvider,
+  generic: genericProvider,
+};
+
+export function getGitProvider(kind: GitProviderKind): GitProvider {
+  return PROVIDERS[kind];
+}
+
+// What the dashboard may offer per provider
+export function describeGitProviders() {
+  return Object.values(PROVIDERS).map(provider => ({
+    kind: provider.kind,
+    displayName: provider.displayName,
+    authTypes: provider.authTypes,
+    deviceFlow: !!provider.startDeviceFlow,
+    repositories: !!provider.listRepositories,
+    pullRequests: !!provider.createPullRequest,
+  }));
+}
@@ -0,0 +1,150 @@
+import { DiffFile, parseUnifiedDiff } from '../lib/git-diff';
+import { GitConflict, parseUnmergedEntries } from '../lib/git-conflicts';
+import { GitStashEntry, STASH_LIST_FORMAT, parseStashList } from '../lib/git-stash';
+import { GitIdentity, execGit } from './worktree-git';
+
+/**
+ * GIT STASH - Stash management in a session worktree
+ * ==================================================
+ *
+ * Hoare Triple:
+ * {P: running(containerId) ∧ stash@{index} exists ∧ (commit given ⟹ it is stash@{index})}
+ * applyStash(containerId, index, { pop, commit })
+ * {Q: status = 'applied' ⟹ changes restored ∧ (pop ⟹ entry dropped) ∨
+ *     status = 'conflicts' ⟹ conflicts ≠ ∅ ∧ entry kept ∨
+ *     GitStashError(status, message) with the worktree unchanged}
+ *
+ * Entries are addressed by stash@{n}, which shifts whenever a stash is pushed
+ * or dropped. Callers may pass the commit they listed; an entry that no
+ * longer matches it is refused with a 409 rather than acting on another one.
+ *
+ * Invariants:
+ * T₄: a push that finds nothing to stash fails with 409 and creates no entry
+ * T₅: a pop that stops on conflicts keeps the entry (git does the same)
+ */
+
+export class GitStashError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface StashApplyResult {
+  status: 'applied' | 'conflicts';
+  dropped: boolean;
+  conflicts: GitConflict[];
+  output: string;
+}
+
+function outputTail(result: { stdout: string; stderr: string }): string {
+  return (result.stderr.trim() || result.stdout.trim()).split('\n').slice(-5).join('\n');
+}
+
+function failure(action: string, result: { stdout: string; stderr: string; exitCode: number }): GitStashError {
+  const output = outputTail(result);
+  if (/would be overwritten|already exists, no checkout|needs merge|could not restore untracked/.test(output)) {
+    return new GitStashError(409, `${action} refused - commit or stash your changes first: ${output}`);
+  }
+  return new GitStashError(500, `${action} failed: ${output || `exit ${result.exitCode}`}`);
+}
+
+export async function listStashes(containerId: string): Promise<GitStashEntry[]> {
+  const result = await execGit(containerId, ['stash', 'list', `--format=${STASH_LIST_FORMAT}`]);
+  if (result.exitCode !== 0) {
+    throw failure('Listing stashes', result);
+  }
+  return parseStashList(result.stdout);
+}
+
+async function resolveStash(containerId: string, index: number, commit?: string): Promise<GitStashEntry> {
+  const entry = (await listStashes(containerId)).find(candidate => candidate.index === index);
+  if (!entry) {
+    throw new GitStashError(404, `stash@{${index}} does not exist`);
+  }
+  if (commit && !entry.commit.startsWith(commit)) {
+    throw new GitStashError(409, `stash@{${index}} has changed - refresh and try again`);
+  }
+  return entry;
+}
+
+export async function pushStash(
+  containerId: string,
+  options: { message?: string; includeUntracked?: boolean },
+  identity: GitIdentity
+): Promise<GitStashEntry> {
+  const before = (await listStashes(containerId))[0]?.commit ?? null;
+
+  const args = [
+    'stash', 'push',
+    ...(options.includeUntracked ? ['--include-untracked'] : []),
+    ...(options.message ? ['-m', options.message] : []),
+  ];
+  const result = await execGit(containerId, args, { identity });
+  if (result.exitCode !== 0) {
+    throw failure('Stash', result);
+  }
+
+  // T₄: git exits 0 without an entry when the worktree is clean
+  const [created] = await listStashes(containerId);
+  if (!created || created.commit === before) {
+    throw new GitStashError(409, 'No local changes to stash');
+  }
+  return created;
+}
+
+// Tracked changes plus, for --include-untracked stashes, the untracked files
+export async function showStash(
+  containerId: string,
+  index: number,
+  commit?: string
+): Promise<{ entry: GitStashEntry; diff: string; files: DiffFile[] }> {
+  const entry = await resolveStash(containerId, index, commit);
+  const diffOptions = ['-c', 'core.quotePath=false'];
+  const formatOptions = ['--no-color', '--no-ext-diff', '-M', '--src-prefix=a/', '--dst-prefix=b/'];
+
+  const tracked = await execGit(containerId, [...diffOptions, 'stash', 'show', '-p', ...formatOptions, entry.commit]);
+  if (tracked.exitCode !== 0) {
+    throw failure('Showing the stash', tracked);
+  }
+
+  let diff = tracked.stdout;
+  if (entry.includesUntracked) {
+    const untracked = await execGit(containerId, [...diffOptions, 'show', '--format=', ...formatOptions, `${entry.commit}^3`]);
+    if (untracked.exitCode !== 0) {
+      throw failure('Showing untracked stash files', untracked);
+    }
+    diff += untracked.stdout;
+  }
+
+  return { entry, diff, files: parseUnifiedDiff(diff) };
+}
+
+export async function applyStash(
+  containerId: string,
+  index: number,
+  options: { pop?: boolean; commit?: string } = {}
+): Promise<StashApplyResult> {
+  const entry = await resolveStash(containerId, index, options.commit);
+  const result = await execGit(containerId, ['stash', options.pop ? 'pop' : 'apply', entry.ref]);
+
+  if (result.exitCode !== 0) {
+    const unmerged = await execGit(containerId, ['ls-files', '-u', '-z']);
+    const conflicts = unmerged.exitCode === 0 ? parseUnmergedEntries(unmerged.stdout) : [];
+    if (conflicts.length === 0) {
+      throw failure(options.pop ? 'Stash pop' : 'Stash apply', result);
+    }
+    // T₅
+    return { status: 'conflicts', dropped: false, conflicts, output: outputTail(result) };
+  }
+
+  return { status: 'applied', dropped: !!options.pop, conflicts: [], output: outputTail(result) };
+}
+
+export async function dropStash(containerId: string, index: number, commit?: string): Promise<GitStashEntry> {
+  const entry = await resolveStash(containerId, index, commit);
+  const result = await execGit(containerId, ['stash', 'drop', entry.ref]);
+  if (result.exitCode !== 0) {
+    throw failure('Stash drop', result);
+  }
+  return entry;
+}
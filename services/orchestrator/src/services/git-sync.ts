@@ -0,0 +1,209 @@
+import { GitOperationState, OPERATION_STATE_SCRIPT, parseOperationState } from '../lib/git-conflicts';
+import { WORKSPACE_ROOT } from '../lib/workspace-paths';
+import { execInContainer } from './container-exec';
+import { GitIdentity, execGit } from './worktree-git';
+
+/**
+ * GIT SYNC - Fetch, pull and rebase in a session worktree
+ * =======================================================
+ *
+ * Hoare Triple:
+ * {P: running(containerId) ∧ worktree_exists_at_/workspace(containerId)}
+ * pull / rebaseOntoDefault / continueOperation / skipOperation
+ * {Q: status = 'conflicts' ⟹ state.operation ≠ null (stopped, resumable) ∧
+ *     status ∈ {'completed', 'up-to-date'} ⟹ state.operation = null ∨
+ *     GitSyncError(status, message) with the worktree unchanged}
+ *
+ * Remote branches are fetched into refs/remotes/origin/* of the shared bare
+ * repository (local branches there have no upstream config), so "pull" means
+ * fetch + merge or rebase of origin/<session branch>.
+ *
+ * Everything runs inside the container through services/worktree-git.ts.
+ * Merge commits and replayed rebase commits use the session owner's identity.
+ *
+ * Invariants:
+ * S₁: a new pull or rebase is refused while a merge or rebase is in progress
+ * S₂: continue only stages conflicted files that no longer contain conflict
+ *     markers; any left unresolved refuse the continue with a 409
+ */
+
+export class GitSyncError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export type PullMode = 'merge' | 'rebase';
+
+export interface GitSyncResult {
+  status: 'completed' | 'up-to-date' | 'conflicts';
+  head: string;
+  state: GitOperationState;
+  output: string;            // Last lines git printed, e.g. why a rebase stopped
+}
+
+const REMOTE = 'origin';
+
+function outputTail(result: { stdout: string; stderr: string }): string {
+  return (result.stderr.trim() || result.stdout.trim()).split('\n').slice(-5).join('\n');
+}
+
+function failure(action: string, result: { stderr: string; stdout: string; exitCode: number }): GitSyncError {
+  const output = outputTail(result);
+  if (/would be overwritten|unstaged changes|uncommitted changes|Please commit or stash/.test(output)) {
+    return new GitSyncError(409, `${action} refused - commit or stash your changes first: ${output}`);
+  }
+  return new GitSyncError(500, `${action} failed: ${output || `exit ${result.exitCode}`}`);
+}
+
+async function revParse(containerId: string, ref: string): Promise<string | null> {
+  const result = await execGit(containerId, ['rev-parse', '-q', '--verify', `${ref}^{commit}`]);
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+export async function getOperationState(containerId: string): Promise<GitOperationState> {
+  const state = await execInContainer(containerId, ['sh', '-c', OPERATION_STATE_SCRIPT], {
+    cwd: WORKSPACE_ROOT,
+    timeoutMs: 30_000,
+  });
+  if (state.exitCode !== 0) {
+    throw failure('Reading repository state', state);
+  }
+
+  const unmerged = await execGit(containerId, ['ls-files', '-u', '-z']);
+  return parseOperationState(state.stdout, unmerged.exitCode === 0 ? unmerged.stdout : '');
+}
+
+async function assertIdle(containerId: string) {
+  const state = await getOperationState(containerId);
+  if (state.operation) {
+    throw new GitSyncError(409, `A ${state.operation} is in progress - continue or abort it first`);
+  }
+}
+
+export async function fetchOrigin(containerId: string): Promise<void> {
+  const result = await execGit(containerId, ['fetch', '--prune', REMOTE, `+refs/heads/*:refs/remotes/${REMOTE}/*`]);
+  if (result.exitCode !== 0) {
+    throw new GitSyncError(502, `Fetching from ${REMOTE} failed: ${result.stderr.trim()}`);
+  }
+}
+
+/**
+ * Classifies how a merge/rebase/continue/skip ended. A stopped operation is
+ * a result, not an error: the caller gets the conflicts to resolve.
+ */
+async function settle(
+  containerId: string,
+  action: string,
+  before: string | null,
+  result: { stdout: string; stderr: string; exitCode: number }
+): Promise<GitSyncResult> {
+  const state = await getOperationState(containerId);
+  const head = (await revParse(containerId, 'HEAD')) ?? '';
+
+  if (state.operation) {
+    return { status: 'conflicts', head, state, output: outputTail(result) };
+  }
+  if (result.exitCode !== 0) {
+    throw failure(action, result);
+  }
+  return { status: head === before ? 'up-to-date' : 'completed', head, state, output: outputTail(result) };
+}
+
+async function integrate(containerId: string, mode: PullMode, upstream: string, identity: GitIdentity): Promise<GitSyncResult> {
+  const before = await revParse(containerId, 'HEAD');
+  const args = mode === 'merge' ? ['merge', '--no-edit', upstream] : ['rebase', upstream];
+  const result = await execGit(containerId, args, { identity });
+  return settle(containerId, mode === 'merge' ? 'Merge' : 'Rebase', before, result);
+}
+
+export async function pull(containerId: string, branch: string, mode: PullMode, identity: GitIdentity): Promise<GitSyncResult> {
+  await assertIdle(containerId);
+  await fetchOrigin(containerId);
+
+  const upstream = `refs/remotes/${REMOTE}/${branch}`;
+  if (!(await revParse(containerId, upstream))) {
+    throw new GitSyncError(404, `Branch '${branch}' does not exist on ${REMOTE}`);
+  }
+  return integrate(containerId, mode, upstream, identity);
+}
+
+// Onto origin/<default> when the remote has it, else the local default branch
+export async function rebaseOntoDefault(containerId: string, defaultBranch: string, identity: GitIdentity): Promise<GitSyncResult> {
+  await assertIdle(containerId);
+  await fetchOrigin(containerId);
+
+  const candidates = [`refs/remotes/${REMOTE}/${defaultBranch}`, `refs/heads/${defaultBranch}`];
+  for (const onto of candidates) {
+    if (await revParse(containerId, onto)) {
+      return integrate(containerId, 'rebase', onto, identity);
+    }
+  }
+  throw new GitSyncError(404, `Default branch '${defaultBranch}' not found`);
+}
+
+export async function continueOperation(containerId: string, identity: GitIdentity): Promise<GitSyncResult> {
+  const state = await getOperationState(containerId);
+  if (!state.operation) {
+    throw new GitSyncError(409, 'No merge or rebase in progress');
+  }
+
+  // Stage resolved files (S₂); print the ones that still have markers
+  if (state.conflicts.length > 0) {
+    const staged = await execInContainer(
+      containerId,
+      [
+        'sh',
+        '-c',
+        'for p in "$@"; do ' +
+          'if [ -f "$p" ] && grep -qE "^(<{7}|>{7})( |$)" -- "$p"; then echo "$p"; else git add -A -- "$p" || exit 1; fi; ' +
+          'done',
+        'sh',
+        ...state.conflicts.map(conflict => conflict.path),
+      ],
+      { cwd: WORKSPACE_ROOT, timeoutMs: 60_000 }
+    );
+    if (staged.exitCode !== 0) {
+      throw failure('Staging resolved files', staged);
+    }
+    const unresolved = staged.stdout.split('\n').filter(Boolean);
+    if (unresolved.length > 0) {
+      throw new GitSyncError(409, `Unresolved conflicts in: ${unresolved.join(', ')}`);
+    }
+  }
+
+  const before = await revParse(containerId, 'HEAD');
+  const args = state.operation === 'merge' ? ['commit', '--no-edit'] : ['rebase', '--continue'];
+  const result = await execGit(containerId, args, { identity });
+  return settle(containerId, state.operation === 'merge' ? 'Merge' : 'Rebase', before, result);
+}
+
+// Drops the commit a rebase stopped on and carries on with the next one
+export async function skipOperation(containerId: string, identity: GitIdentity): Promise<GitSyncResult> {
+  const state = await getOperationState(containerId);
+  if (state.operation !== 'rebase') {
+    throw new GitSyncError(409, 'Only a rebase can skip a commit');
+  }
+
+  const before = await revParse(containerId, 'HEAD');
+  const result = await execGit(containerId, ['rebase', '--skip'], { identity });
+  return settle(containerId, 'Rebase', before, result);
+}
+
+export async function abortOperation(containerId: string): Promise<GitSyncResult> {
+  const state = await getOperationState(containerId);
+  if (!state.operation) {
+    throw new GitSyncError(409, 'No merge or rebase in progress');
+  }
+
+  const result = await execGit(containerId, [state.operation, '--abort']);
+  if (result.exitCode !== 0) {
+    throw failure(`Aborting the ${state.operation}`, result);
+  }
+  return {
+    status: 'completed',
+    head: (await revParse(containerId, 'HEAD')) ?? '',
+    state: await getOperationState(containerId),
+    output: outputTail(result),
+  };
+}
@@ -0,0 +1,165 @@
+import { config } from '../config';
+import {
+  GitHubCheckRun,
+  GitHubCommitStatus,
+  GitHubRepository,
+  GitHubReview,
+  PullRequestChecksSummary,
+  PullRequestReviewSummary,
+  summarizeChecks,
+  summarizeReviews,
+} from '../lib/github-pulls';
+
+/**
+ * GITHUB PULL REQUESTS - Create and inspect PRs with the user's token
+ * ===================================================================
+ *
+ * Hoare Triple:
+ * {P: token grants repo access ∧ head branch pushed to the repository}
+ * createPullRequest(token, repo, {head, base, ...})
+ * {Q: result = the open PR from head to base (new, or the one that already
+ *     existed) ∨ GitHubApiError(status, message)}
+ *
+ * Requests go to config.GITHUB_API_URL (https://api.github.com by default),
+ * so tests and GitHub Enterprise installs can point it elsewhere.
+ *
+ * Invariants:
+ * A₁: GitHub's 401/403 surface as 403, never 401 - a 401 from our API means
+ *     the craftastic session expired, not the GitHub token
+ * A₂: other GitHub failures keep 404/422 and become 502 otherwise
+ */
+
+export class GitHubApiError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+export interface PullRequestRef {
+  number: number;
+  url: string;
+}
+
+export interface PullRequestStatus extends PullRequestRef {
+  title: string;
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  head: string;
+  base: string;
+  mergeable: boolean | null;   // null while GitHub is still computing it
+  reviews: PullRequestReviewSummary;
+  checks: PullRequestChecksSummary;
+  updatedAt: string;
+}
+
+export interface CreatePullRequestInput {
+  head: string;
+  base: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+}
+
+interface GitHubPull {
+  number: number;
+  html_url: string;
+  title: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  merged_at?: string | null;
+  draft?: boolean;
+  mergeable?: boolean | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+  requested_reviewers?: Array<{ login: string }>;
+  updated_at: string;
+}
+
+async function github<T>(token: string, method: string, path: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.GITHUB_API_URL.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (error) {
+    throw new GitHubApiError(502, `GitHub API unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const payload: any = await response.json().catch(() => null);
+  if (response.ok) {
+    return payload as T;
+  }
+
+  // 422 details live in errors[].message; other failures only have message
+  const detail = [payload?.message, ...(payload?.errors ?? []).map((e: any) => e?.message)].filter(Boolean).join(': ');
+  const message = `GitHub API ${method} ${path} failed (${response.status})${detail ? `: ${detail}` : ''}`;
+  const status = response.status === 401 || response.status === 403 ? 403
+    : response.status === 404 || response.status === 422 ? response.status
+      : 502;
+  throw new GitHubApiError(status, message);
+}
+
+function repoPath(repo: GitHubRepository): string {
+  return `/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.repo)}`;
+}
+
+/**
+ * Opens a PR, or returns the open PR GitHub already has for head → base.
+ */
+export async function createPullRequest(
+  token: string,
+  repo: GitHubRepository,
+  input: CreatePullRequestInput
+): Promise<PullRequestRef & { created: boolean }> {
+  try {
+    const pull = await github<GitHubPull>(token, 'POST', `${repoPath(repo)}/pulls`, {
+      head: input.head,
+      base: input.base,
+      title: input.title,
+      body: input.body ?? '',
+      draft: input.draft ?? false,
+    });
+    return { number: pull.number, url: pull.html_url, created: true };
+  } catch (error) {
+    if (!(error instanceof GitHubApiError && error.statusCode === 422 && /already exists/i.test(error.message))) {
+      throw error;
+    }
+    const query = new URLSearchParams({ head: `${repo.owner}:${input.head}`, base: input.base, state: 'open' });
+    const [existing] = await github<GitHubPull[]>(token, 'GET', `${repoPath(repo)}/pulls?${query}`);
+    if (!existing) throw error;
+    return { number: existing.number, url: existing.html_url, created: false };
+  }
+}
+
+export async function getPullRequestStatus(token: string, repo: GitHubRepository, number: number): Promise<PullRequestStatus> {
+  const base = repoPath(repo);
+  const pull = await github<GitHubPull>(token, 'GET', `${base}/pulls/${number}`);
+
+  const [reviews, checkRuns, combined] = await Promise.all([
+    github<GitHubReview[]>(token, 'GET', `${base}/pulls/${number}/reviews?per_page=100`),
+    github<{ check_runs: GitHubCheckRun[] }>(token, 'GET', `${base}/commits/${pull.head.sha}/check-runs?per_page=100`),
+    github<{ statuses: GitHubCommitStatus[] }>(token, 'GET', `${base}/commits/${pull.head.sha}/status`),
+  ]);
+
+  return {
+    number: pull.number,
+    url: pull.html_url,
+    title: pull.title,
+    state: pull.merged || pull.merged_at ? 'merged' : pull.state,
+    draft: pull.draft ?? false,
+    head: pull.head.ref,
+    base: pull.base.ref,
+    mergeable: pull.mergeable ?? null,
+    reviews: summarizeReviews(reviews, pull.requested_reviewers),
+    checks: summarizeChecks(checkRuns.check_runs, combined.statuses),
+    updatedAt: pull.updated_at,
+  };
+}
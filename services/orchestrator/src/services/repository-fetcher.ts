@@ -0,0 +1,192 @@
+import { config } from '../config';
+import { getDatabase } from '../lib/kysely';
+import { FetchScheduleOptions, nextFetchDelay } from '../lib/fetch-schedule';
+import { environmentGitAuth } from './deploy-keys';
+import { fetchRemoteBranches } from './git-branches';
+import { createWorktreeManager } from './worktree-manager';
+
+/**
+ * REPOSITORY FETCHER - Keeps bare repositories current with their remotes
+ * =======================================================================
+ *
+ * Hoare Triple:
+ * {P: environment e has a repository_url}
+ * fetchEnvironmentRepository(e)
+ * {Q: (refs/remotes/origin/* of e's bare repository match the remote ∧
+ *      last_fetched_at = now ∧ last_fetch_error = null ∧ fetch_failures = 0
+ *      ∨ last_fetch_error = reason ∧ fetch_failures' = fetch_failures + 1)
+ *     ∧ next_fetch_at = now + nextFetchDelay(fetch_failures')}
+ *
+ * The scheduler wakes up every SCHEDULER_TICK_MS and fetches the environments
+ * whose next_fetch_at is due, one at a time: fetches are network and disk
+ * bound, and running them in sequence keeps the host responsive. Backoff and
+ * jitter come from lib/fetch-schedule.ts.
+ *
+ * Invariants:
+ * R₁: at most one fetch per environment at a time; a manual fetch during a
+ *     scheduled one shares its result
+ * R₂: the scheduler never clones - environments without a bare repository
+ *     wait until a session or branch listing creates it
+ * R₃: only refs/remotes/origin/* change; local branches are never touched
+ */
+
+export interface RepositoryFetchStatus {
+  lastFetchedAt: string | null;
+  lastFetchError: string | null;
+  fetchFailures: number;
+  nextFetchAt: string | null;
+}
+
+const SCHEDULER_TICK_MS = 30_000;
+const JITTER = 0.2;
+
+const inFlight = new Map<string, Promise<RepositoryFetchStatus>>();
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export function fetchScheduleOptions(): FetchScheduleOptions {
+  return {
+    intervalMs: config.REPO_FETCH_INTERVAL * 1000,
+    maxBackoffMs: config.REPO_FETCH_MAX_BACKOFF * 1000,
+    jitter: JITTER,
+  };
+}
+
+async function readStatus(environmentId: string): Promise<RepositoryFetchStatus> {
+  const environment = await getDatabase()
+    .selectFrom('environments')
+    .select(['last_fetched_at', 'last_fetch_error', 'fetch_failures', 'next_fetch_at'])
+    .where('id', '=', environmentId)
+    .executeTakeFirstOrThrow();
+  return {
+    lastFetchedAt: environment.last_fetched_at?.toISOString() ?? null,
+    lastFetchError: environment.last_fetch_error,
+    fetchFailures: environment.fetch_failures,
+    nextFetchAt: environment.next_fetch_at?.toISOString() ?? null,
+  };
+}
+
+async function fetchOnce(environmentId: string, clone: boolean): Promise<RepositoryFetchStatus> {
+  const db = getDatabase();
+  const environment = await db
+    .selectFrom('environments')
+    .select(['fetch_failures'])
+    .where('id', '=', environmentId)
+    .executeTakeFirstOrThrow();
+
+  const manager = createWorktreeManager(environmentId);
+  const now = new Date();
+
+  // R₂: look again after a regular interval
+  if (!clone && !(await manager.hasRepository())) {
+    await db
+      .updateTable('environments')
+      .set({ next_fetch_at: new Date(now.getTime() + nextFetchDelay(0, fetchScheduleOptions())) })
+      .where('id', '=', environmentId)
+      .execute();
+    return readStatus(environmentId);
+  }
+
+  try {
+    const repoPath = await manager.ensureRepository();
+    const auth = await environmentGitAuth(environmentId);
+    try {
+      await fetchRemoteBranches(repoPath, auth.env);
+    } finally {
+      await auth.cleanup();
+    }
+
+    await db
+      .updateTable('environments')
+      .set({
+        last_fetched_at: now,
+        last_fetch_error: null,
+        fetch_failures: 0,
+        next_fetch_at: new Date(now.getTime() + nextFetchDelay(0, fetchScheduleOptions())),
+      })
+      .where('id', '=', environmentId)
+      .execute();
+  } catch (error) {
+    const failures = environment.fetch_failures + 1;
+    await db
+      .updateTable('environments')
+      .set({
+        last_fetch_error: error instanceof Error ? error.message : String(error),
+        fetch_failures: failures,
+        next_fetch_at: new Date(now.getTime() + nextFetchDelay(failures, fetchScheduleOptions())),
+      })
+      .where('id', '=', environmentId)
+      .execute();
+  }
+
+  return readStatus(environmentId);
+}
+
+/**
+ * Fetch an environment's bare repository now and record the outcome. A failed
+ * fetch is not an error here: it is recorded and returned in lastFetchError.
+ * clone: create the bare repository first when it does not exist (manual
+ * fetches); the scheduler passes false (R₂).
+ */
+export function fetchEnvironmentRepository(environmentId: string, { clone = true } = {}): Promise<RepositoryFetchStatus> {
+  // R₁
+  const running = inFlight.get(environmentId);
+  if (running) return running;
+
+  const fetch = fetchOnce(environmentId, clone).finally(() => inFlight.delete(environmentId));
+  inFlight.set(environmentId, fetch);
+  return fetch;
+}
+
+// One scheduler pass: every due environment, in order of due time
+export async function runDueFetches(now = new Date()): Promise<number> {
+  const due = await getDatabase()
+    .selectFrom('environments')
+    .select('id')
+    .where('repository_url', 'is not', null)
+    .where(eb => eb.or([eb('next_fetch_at', 'is', null), eb('next_fetch_at', '<=', now)]))
+    .orderBy('next_fetch_at', 'asc')
+    .execute();
+
+  let fetched = 0;
+  for (const { id } of due) {
+    if (!schedulerTimer) break; // stopped meanwhile
+    try {
+      await fetchEnvironmentRepository(id, { clone: false });
+      fetched++;
+    } catch (error: any) {
+      console.warn(`[Repository Fetch] Could not fetch environment ${id}: ${error.message}`);
+    }
+  }
+  return fetched;
+}
+
+export function startRepositoryFetcher(): void {
+  if (schedulerTimer) {
+    console.log('[Repository Fetch] Scheduler already running');
+    return;
+  }
+  if (config.REPO_FETCH_INTERVAL <= 0) {
+    console.log('[Repository Fetch] Scheduler disabled (REPO_FETCH_INTERVAL=0)');
+    return;
+  }
+
+  console.log(`[Repository Fetch] Starting scheduler (every ${config.REPO_FETCH_INTERVAL}s per repository)`);
+
+  // setTimeout rather than setInterval: a slow pass never overlaps the next
+  const tick = () => {
+    runDueFetches()
+      .catch(error => console.error('[Repository Fetch] Scheduler pass failed:', error))
+      .finally(() => {
+        if (schedulerTimer) schedulerTimer = setTimeout(tick, SCHEDULER_TICK_MS);
+      });
+  };
+  schedulerTimer = setTimeout(tick, SCHEDULER_TICK_MS);
+}
+
+export function stopRepositoryFetcher(): void {
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+    schedulerTimer = null;
+    console.log('[Repository Fetch] Stopped scheduler');
+  }
+}
@@ -1,6 +1,7 @@
 import { getDatabase } from '../lib/kysely';
 import { getDocker } from './docker';
 import type { Container } from 'dockerode';
+import { isTmuxWindowView } from '../lib/tmux-format';
 
 /**
  * Clean up sessions for containers that have been restarted or are no longer running
@@ -205,8 +206,16 @@ export async function verifySessionExists(sessionId: string): Promise<boolean> {
   }
 }
 
+// Kill session $1 and its window views, which would otherwise keep its windows alive
+const KILL_SESSION_SCRIPT = `
+  tmux list-sessions -F '#{session_name}' 2>/dev/null | while read -r name; do
+    case "$name" in "$1"_w*) tmux kill-session -t "=$name" ;; esac
+  done
+  tmux kill-session -t "$1"
+`;
+
 /**
- * Kill a specific tmux session in a container
+ * Kill a specific tmux session (and its window views) in a container
  */
 export async function killTmuxSession(containerId: string, tmuxSessionName: string): Promise<void> {
   try {
@@ -223,7 +232,7 @@ export async function killTmuxSession(containerId: string, tmuxSessionName: stri
     console.log(`[Session Cleanup] Killing tmux session ${tmuxSessionName} in container ${containerId}`);
     
     const exec = await container.exec({
-      Cmd: ['tmux', 'kill-session', '-t', tmuxSessionName],
+      Cmd: ['/bin/bash', '-c', KILL_SESSION_SCRIPT, 'bash', tmuxSessionName],
       AttachStdout: true,
       AttachStderr: true,
     });
@@ -334,7 +343,10 @@ export async function cleanupOrphanedTmuxSessions(containerId: string): Promise<
     const knownSessions = new Set(dbSessions.map(s => s.tmux_session_name).filter(Boolean));
     
     // Find orphaned sessions
-    const orphanedSessions = tmuxSessions.filter(session => !knownSessions.has(session));
+    const knownNames = [...knownSessions];
+    const orphanedSessions = tmuxSessions.filter(session =>
+      !knownSessions.has(session) && !knownNames.some(name => isTmuxWindowView(session, name))
+    );
     
     if (orphanedSessions.length > 0) {
       console.log(`[Session Cleanup] Found ${orphanedSessions.length} orphaned tmux sessions in container ${containerId}: ${orphanedSessions.join(', ')}`);
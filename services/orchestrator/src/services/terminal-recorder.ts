@@ -0,0 +1,256 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import {
+  TRUNCATED_MARKER,
+  endsTruncated,
+  formatEvent,
+  formatHeader,
+  formatMarker,
+  formatResize,
+  lastEventTime,
+  parseHeader,
+} from '../lib/asciicast';
+
+/**
+ * TERMINAL RECORDER - asciicast v2 files per session
+ * ==================================================
+ *
+ * Storage: {CRAFTASTIC_DATA_DIR}/recordings/{sessionId}/{recordingId}.cast
+ *
+ * Hoare Triple:
+ * {P: terminal emits 'data' and 'resize' events}
+ * recorder = startRecorder(terminal) ... recorder.stop()
+ * {Q: file = header(size at start) ++ [t, "o", data] for every data event
+ *                                   ++ [t, "r", "COLSxROWS"] for every resize}
+ *
+ * Recording is opt-in per session (sessions.recording_enabled). A new file is
+ * started each time the shared terminal is created, so one recording covers one
+ * continuous attach.
+ *
+ * Invariants:
+ * RC₁: size(file) ≤ maxBytes + one marker line. A recording that reaches the
+ *      limit ends with TRUNCATED_MARKER and stops listening
+ * RC₂: at most one write stream buffer of events is held in memory; events
+ *      that arrive while the disk is behind are dropped and counted in a
+ *      marker once the stream drains
+ */
+
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const TAIL_BYTES = 4096;
+
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  startedAt: string;
+  duration: number | null;   // seconds, from the last event
+  size: number;              // bytes
+  width: number | null;
+  height: number | null;
+  active: boolean;
+  truncated: boolean;        // cut off at the size limit (RC₁)
+}
+
+export interface TerminalRecorder {
+  id: string;
+  filePath: string;
+  truncated: () => boolean;
+  stop: () => Promise<void>;
+}
+
+// Recorders currently writing, by session - used to flag `active` in listings
+const activeRecorders = new Map<string, TerminalRecorder>();
+
+function getRecordingsRoot(): string {
+  const dataDir = process.env.CRAFTASTIC_DATA_DIR || path.join(os.homedir(), '.craftastic');
+  return path.join(dataDir, 'recordings');
+}
+
+export function getSessionRecordingsDir(sessionId: string): string {
+  return path.join(getRecordingsRoot(), sessionId);
+}
+
+/**
+ * Resolve a recording file, rejecting ids that could escape the session directory.
+ */
+export function getRecordingPath(sessionId: string, recordingId: string): string | null {
+  if (!RECORDING_ID_PATTERN.test(recordingId) || !RECORDING_ID_PATTERN.test(sessionId)) {
+    return null;
+  }
+  return path.join(getSessionRecordingsDir(sessionId), `${recordingId}.cast`);
+}
+
+export function startRecorder(
+  sessionId: string,
+  terminal: EventEmitter,
+  size: { cols: number; rows: number },
+  title?: string,
+  maxBytes = config.RECORDING_MAX_SIZE * 1024 * 1024
+): TerminalRecorder {
+  const startedAt = new Date();
+  const id = startedAt.toISOString().replace(/[:.]/g, '-');
+  const filePath = getRecordingPath(sessionId, id)!;
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const file = fs.createWriteStream(filePath, { flags: 'a' });
+
+  file.on('error', (error) => {
+    console.error(`❌ Recording ${id} for session ${sessionId} failed:`, error);
+  });
+
+  const elapsed = () => (Date.now() - startedAt.getTime()) / 1000;
+
+  let bytesWritten = 0;
+  let truncated = false;
+  let congested = false;
+  let dropped = 0;
+
+  const write = (line: string) => {
+    bytesWritten += Buffer.byteLength(line);
+    if (!file.write(line)) {
+      congested = true;
+    }
+  };
+
+  // RC₁, RC₂
+  const append = (line: string) => {
+    if (truncated) return;
+    if (bytesWritten + Buffer.byteLength(line) > maxBytes) {
+      truncated = true;
+      detach();
+      write(formatMarker(elapsed(), TRUNCATED_MARKER));
+      console.warn(`⚠️  Recording ${id} for session ${sessionId} reached ${maxBytes} bytes and was truncated`);
+      return;
+    }
+    if (congested) {
+      dropped++;
+      return;
+    }
+    write(line);
+  };
+
+  file.on('drain', () => {
+    congested = false;
+    if (dropped > 0 && !truncated) {
+      const count = dropped;
+      dropped = 0;
+      append(formatMarker(elapsed(), `craftastic: ${count} events dropped while the disk was busy`));
+    }
+  });
+
+  write(formatHeader({
+    version: 2,
+    width: size.cols,
+    height: size.rows,
+    timestamp: Math.floor(startedAt.getTime() / 1000),
+    title,
+    env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+  }));
+
+  const onData = (data: string) => {
+    append(formatEvent(elapsed(), 'o', data));
+  };
+  const onResize = (cols: number, rows: number) => {
+    append(formatResize(elapsed(), cols, rows));
+  };
+  const detach = () => {
+    terminal.off('data', onData);
+    terminal.off('resize', onResize);
+  };
+
+  terminal.on('data', onData);
+  terminal.on('resize', onResize);
+
+  const recorder: TerminalRecorder = {
+    id,
+    filePath,
+    truncated: () => truncated,
+    stop: () => {
+      detach();
+      if (activeRecorders.get(sessionId) === recorder) {
+        activeRecorders.delete(sessionId);
+      }
+      return new Promise<void>((resolve) => file.end(() => resolve()));
+    },
+  };
+
+  activeRecorders.set(sessionId, recorder);
+  console.log(`✅ Recording session ${sessionId} to ${filePath}`);
+  return recorder;
+}
+
+async function readRecordingInfo(sessionId: string, fileName: string): Promise<RecordingInfo | null> {
+  const id = fileName.replace(/\.cast$/, '');
+  const filePath = path.join(getSessionRecordingsDir(sessionId), fileName);
+
+  try {
+    const stat = await fs.promises.stat(filePath);
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const head = Buffer.alloc(Math.min(TAIL_BYTES, stat.size));
+      await handle.read(head, 0, head.length, 0);
+      const header = parseHeader(head.toString('utf8').split('\n')[0]);
+
+      const tailStart = Math.max(0, stat.size - TAIL_BYTES);
+      const tail = Buffer.alloc(stat.size - tailStart);
+      await handle.read(tail, 0, tail.length, tailStart);
+
+      return {
+        id,
+        sessionId,
+        startedAt: header ? new Date(header.timestamp * 1000).toISOString() : stat.birthtime.toISOString(),
+        duration: lastEventTime(tail.toString('utf8')),
+        size: stat.size,
+        width: header?.width ?? null,
+        height: header?.height ?? null,
+        active: activeRecorders.get(sessionId)?.id === id,
+        truncated: endsTruncated(tail.toString('utf8')),
+      };
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    console.warn(`⚠️  Could not read recording ${filePath}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function listRecordings(sessionId: string): Promise<RecordingInfo[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(getSessionRecordingsDir(sessionId));
+  } catch {
+    return [];
+  }
+
+  const infos = await Promise.all(
+    files.filter(file => file.endsWith('.cast')).map(file => readRecordingInfo(sessionId, file))
+  );
+
+  return infos
+    .filter((info): info is RecordingInfo => info !== null)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export function isRecordingActive(sessionId: string, recordingId: string): boolean {
+  return activeRecorders.get(sessionId)?.id === recordingId;
+}
+
+export async function deleteRecording(sessionId: string, recordingId: string): Promise<boolean> {
+  const filePath = getRecordingPath(sessionId, recordingId);
+  if (!filePath) return false;
+
+  try {
+    await fs.promises.unlink(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function deleteSessionRecordings(sessionId: string): Promise<void> {
+  if (!RECORDING_ID_PATTERN.test(sessionId)) return;
+  await fs.promises.rm(getSessionRecordingsDir(sessionId), { recursive: true, force: true });
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { getDatabase } from '../lib/kysely';
+import type { TerminalAccess } from '../lib/terminal-clients';
+
+/**
+ * TERMINAL SHARE LINKS
+ * ====================
+ *
+ * A share link is a random bearer token bound to one session and one access
+ * level. Only its SHA-256 hash is stored, so the token is shown once at
+ * creation; listing returns metadata only.
+ *
+ * Hoare Triple:
+ * {P: token issued by createShareLink(s, a) ∧ not revoked ∧ not expired}
+ * resolveShareLink(token)
+ * {Q: result.sessionId = s ∧ result.access = a}
+ *
+ * Share links never bypass authentication: the holder must still be a signed-in
+ * user, which is what lets the presence list show who is watching.
+ */
+
+export interface ShareLink {
+  id: string;
+  sessionId: string;
+  access: TerminalAccess;
+  createdBy: string;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface ResolvedShareLink extends ShareLink {
+  sessionName: string | null;
+  environmentId: string;
+  ownerId: string;
+  ownerName: string;
+}
+
+const SHARE_TOKEN_BYTES = 24;
+
+export function hashShareToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toShareLink(row: {
+  id: string;
+  session_id: string;
+  access: TerminalAccess;
+  created_by: string;
+  expires_at: Date | null;
+  created_at: Date;
+}): ShareLink {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    access: row.access,
+    createdBy: row.created_by,
+    expiresAt: row.expires_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+export async function createShareLink(
+  sessionId: string,
+  createdBy: string,
+  access: TerminalAccess,
+  expiresInHours?: number
+): Promise<{ shareLink: ShareLink; token: string }> {
+  const db = getDatabase();
+  const token = crypto.randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+
+  const row = await db
+    .insertInto('session_share_links')
+    .values({
+      session_id: sessionId,
+      created_by: createdBy,
+      token_hash: hashShareToken(token),
+      access,
+      expires_at: expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000) : null,
+    })
+    .returning(['id', 'session_id', 'access', 'created_by', 'expires_at', 'created_at'])
+    .executeTakeFirstOrThrow();
+
+  return { shareLink: toShareLink(row), token };
+}
+
+export async function listShareLinks(sessionId: string): Promise<ShareLink[]> {
+  const db = getDatabase();
+  const rows = await db
+    .selectFrom('session_share_links')
+    .select(['id', 'session_id', 'access', 'created_by', 'expires_at', 'created_at'])
+    .where('session_id', '=', sessionId)
+    .orderBy('created_at', 'desc')
+    .execute();
+
+  return rows.map(toShareLink);
+}
+
+export async function deleteShareLink(sessionId: string, linkId: string): Promise<boolean> {
+  const db = getDatabase();
+  const result = await db
+    .deleteFrom('session_share_links')
+    .where('id', '=', linkId)
+    .where('session_id', '=', sessionId)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows) > 0;
+}
+
+/**
+ * Look up a share token. Returns null for unknown, revoked or expired links.
+ */
+export async function resolveShareLink(token: string): Promise<ResolvedShareLink | null> {
+  const db = getDatabase();
+  const row = await db
+    .selectFrom('session_share_links as l')
+    .innerJoin('sessions as s', 'l.session_id', 's.id')
+    .innerJoin('environments as e', 's.environment_id', 'e.id')
+    .innerJoin('users as u', 'e.user_id', 'u.id')
+    .select([
+      'l.id',
+      'l.session_id',
+      'l.access',
+      'l.created_by',
+      'l.expires_at',
+      'l.created_at',
+      's.name as session_name',
+      's.environment_id',
+      'e.user_id as owner_id',
+      'u.name as owner_name',
+    ])
+    .where('l.token_hash', '=', hashShareToken(token))
+    .executeTakeFirst();
+
+  if (!row || (row.expires_at && row.expires_at.getTime() <= Date.now())) {
+    return null;
+  }
+
+  return {
+    ...toShareLink(row),
+    sessionName: row.session_name,
+    environmentId: row.environment_id,
+    ownerId: row.owner_id,
+    ownerName: row.owner_name,
+  };
+}
@@ -1,4 +1,10 @@
 import { getDocker } from './docker';
+import { execInContainer } from './container-exec';
+import { TerminalClientRegistry } from '../lib/terminal-clients';
+import { OutputRingBuffer } from '../lib/output-buffer';
+import { isTmuxWindowView, tmuxWindowViewName } from '../lib/tmux-format';
+import crypto from 'crypto';
+import { startRecorder, TerminalRecorder } from './terminal-recorder';
 import { EventEmitter } from 'events';
 import { Writable } from 'stream';
 
@@ -12,21 +18,92 @@ function cleanTerminalOutput(data: string): string {
     .trim();
 }
 
+/**
+ * A TerminalSession is one `tmux attach` exec shared by every browser client of
+ * a session (see attachTerminalSession). `clients` tracks who is attached;
+ * callers destroy the session when the last client leaves.
+ *
+ * Events: 'data' (data, seq), 'error', 'close', 'resize' (cols, rows),
+ * 'presence' (client joined/left), 'share-link-revoked' (linkId) so clients
+ * admitted by that link can be dropped.
+ *
+ * Output is also kept in `buffer` (sequence-numbered, bounded) so a client that
+ * reconnects can resume from its last seq. `bufferId` changes whenever a new
+ * terminal is created, telling clients their old seq numbers no longer apply.
+ * When the last client leaves, callers use destroyWhenIdle() so the terminal
+ * (and its buffer) survives a brief disconnect.
+ *
+ * Backpressure: a writer whose socket falls behind calls pauseOutput(id), which
+ * stops reading the Docker stream until every holder has called resumeOutput().
+ * The terminal is shared, so one slow writer slows output for everyone (as
+ * tmux itself does) rather than buffering without bound. Read-only clients
+ * cannot pause it; they skip output and catch up from `buffer` instead.
+ *
+ * Recording (opt-in, see terminal-recorder.ts) subscribes to 'data' and 'resize'.
+ *
+ * Window views: a client that asks for one window (windowId ≠ null) attaches
+ * through a tmux session grouped with the session's own (see
+ * tmuxWindowViewName). The group shares windows but not the current window, so
+ * opening a window in a view never switches it for anyone else. Clients asking
+ * for the same window share that view's terminal, which tmux destroys once its
+ * last client detaches. getTerminalSessions() returns the shared terminal and
+ * all its views, for events every client of the session should see.
+ */
 export interface TerminalSession extends EventEmitter {
   id: string;
   containerId: string;
+  tmuxSessionName: string;
+  windowId: number | null;
+  clients: TerminalClientRegistry;
+  buffer: OutputRingBuffer;
+  bufferId: string;
+  cols: number;
+  rows: number;
+  recorder: TerminalRecorder | null;
   resize: (cols: number, rows: number) => void;
   write: (data: string) => void;
+  redraw: () => Promise<void>;
+  startRecording: (title?: string) => TerminalRecorder;
+  stopRecording: () => Promise<void>;
+  pauseOutput: (holderId: string) => void;
+  resumeOutput: (holderId: string) => void;
+  destroyWhenIdle: (graceMs: number, onDestroyed?: () => void) => void;
+  cancelIdleDestroy: () => void;
   destroy: () => void;
 }
 
 const sessions = new Map<string, TerminalSession>();
+const pendingSessions = new Map<string, Promise<TerminalSession>>();
+
+export interface TerminalSessionOptions {
+  record?: boolean;         // Start an asciicast recording before any output flows
+  recordingTitle?: string;
+  windowId?: number;        // Open this window in a view of its own (never recorded)
+}
+
+// The shared terminal is keyed by session, each window view by session and window
+function terminalKey(sessionId: string, windowId: number | null): string {
+  return windowId === null ? sessionId : `${sessionId}@${windowId}`;
+}
+
+// Attach through a session grouped with $1 named $2 and show window @$3 there.
+// The view goes away with its last client (destroy-unattached)
+const WINDOW_VIEW_SCRIPT = `
+  if ! tmux has-session -t "=$1" 2>/dev/null; then
+    echo "[Terminal] ERROR: tmux session $1 is not running"
+    exit 1
+  fi
+  echo "[Terminal] Opening window @$3 of $1 in view $2"
+  tmux kill-session -t "=$2" 2>/dev/null
+  exec tmux new-session -t "=$1" -s "$2" \\; set-option -t "=$2" destroy-unattached on \\; select-window -t "=$2:@$3"
+`;
 
 export async function createTerminalSession(
   sessionId: string,
   containerId: string,
   tmuxSessionName?: string,
-  workingDirectory?: string
+  workingDirectory?: string,
+  options: TerminalSessionOptions = {}
 ): Promise<TerminalSession> {
   console.log('[terminal.ts] createTerminalSession called:', {
     sessionId,
@@ -63,6 +140,9 @@ export async function createTerminalSession(
     throw new Error(`No tmux session name provided for session ${sessionId}`);
   }
   const actualTmuxName = tmuxSessionName;
+  const windowId = options.windowId ?? null;
+  const clientTmuxName = windowId === null ? actualTmuxName : tmuxWindowViewName(actualTmuxName, windowId);
+  const key = terminalKey(sessionId, windowId);
   
   // Before creating/attaching, clean up any other sessions with the same name prefix
   const sessionPrefix = actualTmuxName.split('-')[0]; // Get the name without timestamp
@@ -91,7 +171,7 @@ export async function createTerminalSession(
     
     const existingSessions = sessionsList.split('\n').filter(s => s.trim());
     const orphanedSessions = existingSessions.filter(s => 
-      s.startsWith(sessionPrefix + '-') && s !== actualTmuxName
+      s.startsWith(sessionPrefix + '-') && s !== actualTmuxName && !isTmuxWindowView(s, actualTmuxName)
     );
     
     if (orphanedSessions.length > 0) {
@@ -133,8 +213,8 @@ export async function createTerminalSession(
         cd "${workingDirectory}" || exit 1
         if tmux has-session -t ${actualTmuxName} 2>/dev/null; then
           echo "[Terminal] Attaching to existing tmux session: ${actualTmuxName}"
-          # Use -x to create a new window size and force detach of other clients
-          if ! tmux attach-session -d -x -t ${actualTmuxName}; then
+          # No -d: other tmux clients (shared viewers, task runners) stay attached
+          if ! tmux attach-session -t ${actualTmuxName}; then
             echo "[Terminal] ERROR: Failed to attach to tmux session ${actualTmuxName}"
             # Try to list sessions to debug
             echo "[Terminal] Current tmux sessions:"
@@ -148,7 +228,7 @@ export async function createTerminalSession(
             exit 1
           fi
           # Immediately attach after creation
-          if ! tmux attach-session -d -x -t ${actualTmuxName}; then
+          if ! tmux attach-session -t ${actualTmuxName}; then
             echo "[Terminal] ERROR: Failed to attach to newly created tmux session ${actualTmuxName}"
             exit 1
           fi
@@ -164,8 +244,8 @@ export async function createTerminalSession(
     tmuxCommand = `
       if tmux has-session -t ${actualTmuxName} 2>/dev/null; then
         echo "[Terminal] Attaching to existing tmux session: ${actualTmuxName}"
-        # Use -x to create a new window size and force detach of other clients
-        if ! tmux attach-session -d -x -t ${actualTmuxName}; then
+        # No -d: other tmux clients (shared viewers, task runners) stay attached
+        if ! tmux attach-session -t ${actualTmuxName}; then
           echo "[Terminal] ERROR: Failed to attach to tmux session ${actualTmuxName}"
           # Try to list sessions to debug
           echo "[Terminal] Current tmux sessions:"
@@ -179,7 +259,7 @@ export async function createTerminalSession(
           exit 1
         fi
         # Immediately attach after creation
-        if ! tmux attach-session -d -x -t ${actualTmuxName}; then
+        if ! tmux attach-session -t ${actualTmuxName}; then
           echo "[Terminal] ERROR: Failed to attach to newly created tmux session ${actualTmuxName}"
           exit 1
         fi
@@ -201,7 +281,9 @@ export async function createTerminalSession(
   const DEBUG_MODE = false;
   const commandToRun = DEBUG_MODE ? testCommand : tmuxCommand;
   
-  const tmuxCmd = ['/bin/bash', '-c', commandToRun];
+  const tmuxCmd = windowId === null
+    ? ['/bin/bash', '-c', commandToRun]
+    : ['/bin/bash', '-c', WINDOW_VIEW_SCRIPT, 'bash', actualTmuxName, clientTmuxName, String(windowId)];
   // console.log(`[Terminal] Docker exec command array:`, tmuxCmd);
   
   if (DEBUG_MODE) {
@@ -301,13 +383,34 @@ export async function createTerminalSession(
   const session = new EventEmitter() as TerminalSession;
   session.id = sessionId;
   session.containerId = containerId;
+  session.tmuxSessionName = actualTmuxName;
+  session.windowId = windowId;
+  session.clients = new TerminalClientRegistry();
+  session.buffer = new OutputRingBuffer();
+  session.bufferId = crypto.randomUUID();
+  session.cols = 0; // Unknown until the first client reports its size
+  session.rows = 0;
+  session.recorder = null;
+  // Every attached WebSocket subscribes to data/close/presence
+  session.setMaxListeners(0);
+
+  // A recreated container may already have replaced this entry
+  const forgetSession = () => {
+    if (sessions.get(key) === session) {
+      sessions.delete(key);
+    }
+  };
 
   session.resize = async (cols: number, rows: number) => {
     try {
       if (!cols || !rows) return;
       console.log(`Resizing terminal to ${cols}x${rows}`);
+      if (cols === session.cols && rows === session.rows) return;
       try {
         await exec.resize({ h: rows, w: cols });
+        session.cols = cols;
+        session.rows = rows;
+        session.emit('resize', cols, rows);
       } catch (e) {
         // Exec may have closed; ignore silently to prevent 404 spam
         console.warn('Resize ignored (exec not found or closed)');
@@ -322,9 +425,73 @@ export async function createTerminalSession(
     stream.write(data);
   };
 
+  session.startRecording = (title?: string) => {
+    if (!session.recorder) {
+      session.recorder = startRecorder(sessionId, session, { cols: session.cols || 80, rows: session.rows || 24 }, title);
+    }
+    return session.recorder;
+  };
+
+  session.stopRecording = async () => {
+    const recorder = session.recorder;
+    session.recorder = null;
+    await recorder?.stop();
+  };
+
+  // Repaint the whole screen for a client that joined mid-session
+  session.redraw = async () => {
+    try {
+      await execInContainer(containerId, ['tmux', 'refresh-client', '-t', clientTmuxName], { timeoutMs: 5000 });
+    } catch (error) {
+      console.warn(`[terminal.ts] Redraw failed for session ${sessionId}:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  const outputHolds = new Set<string>();
+
+  session.pauseOutput = (holderId: string) => {
+    // An observer must never freeze the stream for the people typing
+    if (!session.clients.canWrite(holderId)) {
+      return;
+    }
+    if (outputHolds.size === 0) {
+      stream.pause();
+    }
+    outputHolds.add(holderId);
+  };
+
+  session.resumeOutput = (holderId: string) => {
+    if (outputHolds.delete(holderId) && outputHolds.size === 0) {
+      stream.resume();
+    }
+  };
+
+  let idleTimer: NodeJS.Timeout | null = null;
+
+  session.destroyWhenIdle = (graceMs: number, onDestroyed?: () => void) => {
+    session.cancelIdleDestroy();
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (session.clients.size === 0) {
+        console.log(`[terminal.ts] No clients reattached to ${sessionId} within ${graceMs}ms, destroying terminal`);
+        session.destroy();
+        onDestroyed?.();
+      }
+    }, graceMs);
+  };
+
+  session.cancelIdleDestroy = () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  };
+
   session.destroy = () => {
+    session.cancelIdleDestroy();
+    session.stopRecording();
     stream.end();
-    sessions.delete(sessionId);
+    forgetSession();
   };
 
   // Track if we've successfully connected
@@ -353,7 +520,7 @@ export async function createTerminalSession(
         
       }
       
-      session.emit('data', data);
+      session.emit('data', data, session.buffer.append(data));
       callback();
     }
   });
@@ -377,11 +544,15 @@ export async function createTerminalSession(
         session.emit('error', new Error(`Terminal error: ${data}`));
       }
       
-      session.emit('data', data);
+      session.emit('data', data, session.buffer.append(data));
       callback();
     }
   });
   
+  if (options.record) {
+    session.startRecording(options.recordingTitle);
+  }
+
   console.log(`[terminal.ts] Setting up stream demultiplexing for session ${sessionId}`);
   // Demultiplex the Docker stream
   try {
@@ -400,11 +571,12 @@ export async function createTerminalSession(
   stream.on('end', () => {
     console.log(`[Terminal] Stream ended for session ${sessionId}`);
     session.emit('close');
-    sessions.delete(sessionId);
+    session.stopRecording();
+    forgetSession();
   });
 
-  sessions.set(sessionId, session);
-  console.log(`[terminal.ts] Terminal session ${sessionId} stored in sessions map`);
+  sessions.set(key, session);
+  console.log(`[terminal.ts] Terminal session ${key} stored in sessions map`);
   
   // Set a timeout to check if we successfully connected
   const connectionTimeout = setTimeout(() => {
@@ -433,9 +605,50 @@ export function getTerminalSession(sessionId: string) {
   return sessions.get(sessionId);
 }
 
+// The shared terminal and every window view of a session
+export function getTerminalSessions(sessionId: string): TerminalSession[] {
+  return [...sessions.values()].filter(session => session.id === sessionId);
+}
+
 export function destroyTerminalSession(sessionId: string) {
-  const session = sessions.get(sessionId);
-  if (session) {
+  for (const session of getTerminalSessions(sessionId)) {
     session.destroy();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Join the shared terminal for a session (or, with options.windowId, that
+ * window's view), creating it if no client is attached.
+ *
+ * Concurrent first connections share one pending creation, so a session never
+ * ends up with two tmux clients racing each other.
+ *
+ * @returns the terminal and whether this call created it
+ */
+export async function attachTerminalSession(
+  sessionId: string,
+  containerId: string,
+  tmuxSessionName?: string,
+  workingDirectory?: string,
+  options: TerminalSessionOptions = {}
+): Promise<{ terminal: TerminalSession; created: boolean }> {
+  const key = terminalKey(sessionId, options.windowId ?? null);
+  const existing = sessions.get(key);
+  if (existing && existing.containerId === containerId) {
+    existing.cancelIdleDestroy();
+    return { terminal: existing, created: false };
+  }
+
+  const pending = pendingSessions.get(key);
+  if (pending) {
+    return { terminal: await pending, created: false };
+  }
+
+  const creation = createTerminalSession(sessionId, containerId, tmuxSessionName, workingDirectory, options);
+  pendingSessions.set(key, creation);
+  try {
+    return { terminal: await creation, created: true };
+  } finally {
+    pendingSessions.delete(key);
+  }
+}
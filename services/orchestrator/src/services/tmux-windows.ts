@@ -0,0 +1,115 @@
+import { execInContainer } from './container-exec';
+import {
+  TMUX_PANE_FORMAT,
+  TMUX_WINDOW_FORMAT,
+  TmuxWindow,
+  parseTmuxId,
+  parseTmuxWindows,
+} from '../lib/tmux-format';
+
+/**
+ * TMUX WINDOWS - Windows and panes of a session's tmux session
+ * ============================================================
+ *
+ * Browser clients of a session share one tmux client (see terminal.ts), so
+ * selecting a window or pane changes what each of them sees, exactly as it
+ * would for two terminals attached to the same tmux session. Clients that
+ * opened a window view keep their own current window.
+ *
+ * Hoare Triple:
+ * {P: has-session(target.tmuxSessionName) in target.containerId}
+ * op(target, ...)
+ * {Q: tmux state changed as requested ∨ Error(stderr of the tmux command)}
+ *
+ * Window and pane ids are global to the tmux server, which may also hold other
+ * sessions' windows; callers check membership with listWindows() first.
+ */
+
+export interface TmuxTarget {
+  containerId: string;
+  tmuxSessionName: string;
+}
+
+export type SplitDirection = 'horizontal' | 'vertical';
+
+async function tmux(target: TmuxTarget, args: string[]): Promise<string> {
+  const { stdout, stderr, exitCode } = await execInContainer(target.containerId, ['tmux', ...args], { timeoutMs: 5000 });
+  if (exitCode !== 0) {
+    throw new Error(stderr.trim() || `tmux ${args[0]} exited with ${exitCode}`);
+  }
+  return stdout;
+}
+
+export async function listWindows(target: TmuxTarget): Promise<TmuxWindow[]> {
+  const [windows, panes] = await Promise.all([
+    tmux(target, ['list-windows', '-t', target.tmuxSessionName, '-F', TMUX_WINDOW_FORMAT]),
+    tmux(target, ['list-panes', '-s', '-t', target.tmuxSessionName, '-F', TMUX_PANE_FORMAT]),
+  ]);
+  return parseTmuxWindows(windows, panes);
+}
+
+/**
+ * Open a window at the end of the session and make it current (unless
+ * detached). Without a command the window runs a shell; with one, the window
+ * closes when the command exits.
+ * @returns the new window's id
+ */
+export async function createWindow(
+  target: TmuxTarget,
+  options: { name?: string; cwd?: string; command?: string; detached?: boolean } = {}
+): Promise<number> {
+  const args = ['new-window', '-t', `${target.tmuxSessionName}:`, '-P', '-F', '#{window_id}'];
+  if (options.detached) args.push('-d');
+  if (options.name) args.push('-n', options.name);
+  if (options.cwd) args.push('-c', options.cwd);
+  if (options.command) args.push(options.command);
+
+  const id = parseTmuxId((await tmux(target, args)).trim(), '@');
+  if (id === null) {
+    throw new Error('tmux did not report the new window id');
+  }
+  return id;
+}
+
+export async function renameWindow(target: TmuxTarget, windowId: number, name: string): Promise<void> {
+  await tmux(target, ['rename-window', '-t', `@${windowId}`, name]);
+}
+
+export async function killWindow(target: TmuxTarget, windowId: number): Promise<void> {
+  await tmux(target, ['kill-window', '-t', `@${windowId}`]);
+}
+
+export async function selectWindow(target: TmuxTarget, windowId: number): Promise<void> {
+  await tmux(target, ['select-window', '-t', `@${windowId}`]);
+}
+
+/**
+ * Split the window's active pane. 'horizontal' puts the new pane to the right,
+ * 'vertical' below (tmux's -h / -v).
+ * @returns the new pane's id
+ */
+export async function splitPane(
+  target: TmuxTarget,
+  windowId: number,
+  direction: SplitDirection,
+  options: { cwd?: string } = {}
+): Promise<number> {
+  const args = ['split-window', '-t', `@${windowId}`, direction === 'horizontal' ? '-h' : '-v', '-P', '-F', '#{pane_id}'];
+  if (options.cwd) args.push('-c', options.cwd);
+
+  const id = parseTmuxId((await tmux(target, args)).trim(), '%');
+  if (id === null) {
+    throw new Error('tmux did not report the new pane id');
+  }
+  return id;
+}
+
+export async function killPane(target: TmuxTarget, paneId: number): Promise<void> {
+  await tmux(target, ['kill-pane', '-t', `%${paneId}`]);
+}
+
+// Selecting a pane in another window also makes that window current
+export async function selectPane(target: TmuxTarget, windowId: number, paneId: number): Promise<void> {
+  await tmux(target, ['select-window', '-t', `@${windowId}`]);
+  await tmux(target, ['select-pane', '-t', `%${paneId}`]);
+}
@@ -0,0 +1,157 @@
+import { execInContainer } from './container-exec';
+import { getDocker } from './docker';
+import {
+  STAT_LISTING_FORMAT,
+  WORKSPACE_ROOT,
+  WorkspaceEntry,
+  parseStatListing,
+} from '../lib/workspace-paths';
+
+/**
+ * WORKSPACE FILES - File operations inside a session container
+ * ============================================================
+ *
+ * Hoare Triple:
+ * {P: running(containerId) ∧ every path = resolveWorkspacePath(...) ≠ null}
+ * op(containerId, path, ...)
+ * {Q: op applied inside the container ∨ WorkspaceFileError(status, message)}
+ *
+ * Everything runs in the container (as its default user) so file ownership
+ * and permissions match what the terminal sees. Paths are passed as
+ * positional arguments to `sh -c`, never interpolated into the script. Only
+ * POSIX sh, stat and base64 are used, so busybox images work too.
+ */
+
+export class WorkspaceFileError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// Larger files are refused by readFile - download them as an archive instead
+export const MAX_EDITABLE_FILE_BYTES = 2 * 1024 * 1024;
+
+// Exit codes our scripts use to report a missing or wrong-kind path
+const EXIT_NOT_FOUND = 3;
+const EXIT_TOO_LARGE = 4;
+const EXIT_EXISTS = 5;
+
+async function run(containerId: string, script: string, args: string[], stdin?: string | Buffer) {
+  return execInContainer(containerId, ['sh', '-c', script, 'sh', ...args], { timeoutMs: 30_000, stdin });
+}
+
+function failure(action: string, result: { stderr: string; exitCode: number }): WorkspaceFileError {
+  return new WorkspaceFileError(500, `${action} failed: ${result.stderr.trim() || `exit ${result.exitCode}`}`);
+}
+
+export async function listDirectory(containerId: string, directory: string): Promise<WorkspaceEntry[]> {
+  // Globs that match nothing stay literal and are reported on (discarded) stderr
+  const result = await run(
+    containerId,
+    `[ -d "$1" ] || exit ${EXIT_NOT_FOUND}; cd "$1" && stat -c "$2" -- * .[!.]* ..?* 2>/dev/null; exit 0`,
+    [directory, STAT_LISTING_FORMAT]
+  );
+  if (result.exitCode === EXIT_NOT_FOUND) {
+    throw new WorkspaceFileError(404, 'Directory not found');
+  }
+  if (result.exitCode !== 0) {
+    throw failure('Listing directory', result);
+  }
+  return parseStatListing(result.stdout, directory);
+}
+
+export interface WorkspaceFileContent {
+  size: number;
+  binary: boolean;
+  content: string | null;    // null for binary files
+}
+
+export async function readFile(containerId: string, file: string): Promise<WorkspaceFileContent> {
+  const result = await run(
+    containerId,
+    `[ -f "$1" ] || exit ${EXIT_NOT_FOUND}; size=$(stat -c %s "$1"); echo "$size"; ` +
+      `[ "$size" -le "$2" ] || exit ${EXIT_TOO_LARGE}; base64 "$1"`,
+    [file, String(MAX_EDITABLE_FILE_BYTES)]
+  );
+  if (result.exitCode === EXIT_NOT_FOUND) {
+    throw new WorkspaceFileError(404, 'File not found');
+  }
+  if (result.exitCode === EXIT_TOO_LARGE) {
+    throw new WorkspaceFileError(413, `File is larger than ${MAX_EDITABLE_FILE_BYTES / 1024 / 1024} MiB`);
+  }
+  if (result.exitCode !== 0) {
+    throw failure('Reading file', result);
+  }
+
+  const [sizeLine, ...encoded] = result.stdout.split('\n');
+  const bytes = Buffer.from(encoded.join(''), 'base64');
+  // Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+  const binary = bytes.subarray(0, 8000).includes(0);
+
+  return {
+    size: Number(sizeLine),
+    binary,
+    content: binary ? null : bytes.toString('utf8'),
+  };
+}
+
+// Creates missing parent directories
+export async function writeFile(containerId: string, file: string, content: string | Buffer): Promise<number> {
+  const result = await run(containerId, `mkdir -p "$(dirname "$1")" && cat > "$1"`, [file], content);
+  if (result.exitCode !== 0) {
+    throw failure('Writing file', result);
+  }
+  return Buffer.byteLength(content);
+}
+
+export async function renamePath(containerId: string, from: string, to: string): Promise<void> {
+  const result = await run(
+    containerId,
+    `[ -e "$1" ] || [ -L "$1" ] || exit ${EXIT_NOT_FOUND}; ` +
+      `{ [ -e "$2" ] || [ -L "$2" ]; } && exit ${EXIT_EXISTS}; ` +
+      `mkdir -p "$(dirname "$2")" && mv "$1" "$2"`,
+    [from, to]
+  );
+  if (result.exitCode === EXIT_NOT_FOUND) {
+    throw new WorkspaceFileError(404, 'Path not found');
+  }
+  if (result.exitCode === EXIT_EXISTS) {
+    throw new WorkspaceFileError(409, 'Destination already exists');
+  }
+  if (result.exitCode !== 0) {
+    throw failure('Renaming', result);
+  }
+}
+
+export async function deletePath(containerId: string, target: string): Promise<void> {
+  if (target === WORKSPACE_ROOT) {
+    throw new WorkspaceFileError(400, 'Cannot delete the workspace root');
+  }
+
+  const result = await run(
+    containerId,
+    `[ -e "$1" ] || [ -L "$1" ] || exit ${EXIT_NOT_FOUND}; rm -rf -- "$1"`,
+    [target]
+  );
+  if (result.exitCode === EXIT_NOT_FOUND) {
+    throw new WorkspaceFileError(404, 'Path not found');
+  }
+  if (result.exitCode !== 0) {
+    throw failure('Deleting', result);
+  }
+}
+
+/**
+ * Tar stream of a file or directory, straight from the Docker archive API
+ * (no tar needed in the image).
+ */
+export async function archivePath(containerId: string, target: string): Promise<NodeJS.ReadableStream> {
+  try {
+    return await getDocker().getContainer(containerId).getArchive({ path: target });
+  } catch (error: any) {
+    if (error?.statusCode === 404) {
+      throw new WorkspaceFileError(404, 'Path not found');
+    }
+    throw error;
+  }
+}
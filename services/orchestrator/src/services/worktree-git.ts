@@ -0,0 +1,70 @@
+import { WORKSPACE_ROOT } from '../lib/workspace-paths';
+import { ContainerExecResult, execInContainer } from './container-exec';
+
+/**
+ * WORKTREE GIT - git in a session's container worktree
+ * ====================================================
+ *
+ * Hoare Triple:
+ * {P: running(containerId) ∧ worktree_exists_at_/workspace(containerId)}
+ * execGit(containerId, args, options)
+ * {Q: result = exit status and output of `git args` run in /workspace}
+ *
+ * Sessions own their worktree inside the container (see WorktreeManager), so
+ * every session-level git operation goes through here instead of the host.
+ * Arguments are passed as a vector, never through a shell string. git runs
+ * with GIT_EDITOR=true and GIT_TERMINAL_PROMPT=0 so it never waits for a
+ * human. With an identity, commits use the session owner's name and email
+ * unless the container has its own user.name/user.email configured.
+ */
+
+export interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+export interface WorktreeGitOptions {
+  identity?: GitIdentity;
+  timeoutMs?: number;
+  stdin?: string;            // e.g. a patch for `git apply -`
+}
+
+// Identity only fills in what the container's git config lacks
+const IDENTITY_PREAMBLE =
+  'git config user.name >/dev/null 2>&1 || export GIT_AUTHOR_NAME="$CRAFTASTIC_GIT_NAME" GIT_COMMITTER_NAME="$CRAFTASTIC_GIT_NAME"; ' +
+  'git config user.email >/dev/null 2>&1 || export GIT_AUTHOR_EMAIL="$CRAFTASTIC_GIT_EMAIL" GIT_COMMITTER_EMAIL="$CRAFTASTIC_GIT_EMAIL"; ';
+
+export async function execGit(
+  containerId: string,
+  args: string[],
+  options: WorktreeGitOptions = {}
+): Promise<ContainerExecResult> {
+  const env: Record<string, string> = { GIT_EDITOR: 'true', GIT_TERMINAL_PROMPT: '0' };
+  if (options.identity) {
+    env.CRAFTASTIC_GIT_NAME = options.identity.name;
+    env.CRAFTASTIC_GIT_EMAIL = options.identity.email;
+  }
+
+  return execInContainer(
+    containerId,
+    ['sh', '-c', `${options.identity ? IDENTITY_PREAMBLE : ''}exec git "$@"`, 'sh', ...args],
+    { cwd: WORKSPACE_ROOT, env, timeoutMs: options.timeoutMs ?? 120_000, stdin: options.stdin }
+  );
+}
+
+/**
+ * execGit that throws on a non-zero exit, for callers that only want the
+ * output (the message carries git's stderr).
+ */
+export async function runGit(
+  containerId: string,
+  args: string[],
+  options: WorktreeGitOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  const result = await execGit(containerId, args, options);
+  if (result.exitCode !== 0) {
+    const reason = result.timedOut ? 'timed out' : result.stderr.trim() || result.stdout.trim() || `exit ${result.exitCode}`;
+    throw new Error(`git ${args[0]} failed: ${reason}`);
+  }
+  return { stdout: result.stdout, stderr: result.stderr };
+}
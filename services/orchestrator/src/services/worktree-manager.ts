@@ -41,14 +41,27 @@
  * - container_worktree: C → W
  */
 
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { createSandbox, destroySandbox, ensureContainerRunning, getDocker } from './docker';
+import { execInContainer } from './container-exec';
+import { config } from '../config';
+import { resolveResourceLimits } from '../lib/resource-profiles';
+import {
+  DEVCONTAINER_LABELS,
+  devcontainerLabels,
+  normalizeLifecycleCommand,
+  readDevcontainerConfig,
+  resolveContainerEnv,
+  resolveDevcontainerImage,
+} from './devcontainer';
+import { issueContainerCredentialEnv } from './git-credentials';
+import { environmentGitAuth, environmentRemoteUrl, syncContainerDeployKey } from './deploy-keys';
 import { getDatabase } from '../lib/kysely';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 interface GitWorktree {
   path: string;
@@ -121,6 +134,7 @@ export class WorktreeManager {
    * 
    * Case Analysis:
    * 1. Session has container + running → Verify worktree, return
+   *    (stopped containers are restarted and re-run devcontainer postStartCommand)
    * 2. Session has container + dead → Remove, create new
    * 3. No container + name exists + alive → REUSE existing container
    * 4. No container + name exists + dead → Remove dead, create new
@@ -131,6 +145,15 @@ export class WorktreeManager {
    * - I1: Container names are deterministic based on environment/session
    * - I2: At most one running container per name pattern
    * - I3: All containers have bare repo mounted at /data/repos/{env_id}
+   * - I4: New containers use the environment's sandbox image and resource profile
+   *       (existing containers keep the limits they were created with)
+   * - I5: Without an explicit sandbox image, a devcontainer.json on the session
+   *       branch (or default branch) supplies image/build, env and lifecycle commands
+   * - I6: New containers reach the remote through the git proxy with a token
+   *       for this container only (services/git-credentials.ts); the owner's
+   *       token never enters the container
+   * - I7: Containers hold the environment's deploy key, if any, as git's
+   *       core.sshCommand identity (services/deploy-keys.ts)
    * 
    * Error Cases:
    * - E9: Container name collision → Reuse or cleanup based on state
@@ -164,10 +187,15 @@ export class WorktreeManager {
     // Case 1-2: Check if session already has a container
     if (session.container_id) {
       try {
-        await ensureContainerRunning(session.container_id);
+        const restarted = await ensureContainerRunning(session.container_id);
         
         // Container is running - ensure worktree exists inside it
         await this.ensureWorktree(branch, session.container_id);
+        await this.installDeployKey(session.container_id);
+        
+        if (restarted) {
+          await this.runPostStartFromLabels(session.container_id);
+        }
         
         console.log(`✅ Container ${session.container_id} is running with worktree for session ${sessionId}`);
         return session.container_id;
@@ -206,6 +234,7 @@ export class WorktreeManager {
         
         // Ensure worktree exists in the shared container
         await this.ensureWorktree(branch, existing.id);
+        await this.installDeployKey(existing.id);
         return existing.id;
       } else {
         // Case 4: Container exists but is dead - remove it
@@ -221,6 +250,34 @@ export class WorktreeManager {
     // First ensure bare repository exists on host
     const hostRepoPath = await this.ensureBareRepository();
 
+    // Per-environment image and resource profile (I4)
+    let image = environment.sandbox_image || undefined;
+    const resources = resolveResourceLimits(environment.resource_profile, environment.resource_limits);
+
+    // Devcontainer configuration (I5) - a broken devcontainer falls back to defaults
+    let env: string[] = [];
+    let labels: Record<string, string> = {};
+    let postCreateCommands: string[] = [];
+    let postStartCommands: string[] = [];
+    try {
+      const refs = [...new Set([branch, environment.default_branch, 'HEAD'].filter(Boolean))];
+      const devcontainer = await readDevcontainerConfig(hostRepoPath, refs);
+      if (devcontainer) {
+        if (!image) {
+          image = await resolveDevcontainerImage(this.environmentId, hostRepoPath, devcontainer);
+        }
+        env = resolveContainerEnv(devcontainer.config.containerEnv);
+        labels = devcontainerLabels(devcontainer.config);
+        postCreateCommands = normalizeLifecycleCommand(devcontainer.config.postCreateCommand);
+        postStartCommands = normalizeLifecycleCommand(devcontainer.config.postStartCommand);
+      }
+    } catch (devcontainerError: any) {
+      console.warn(`⚠️  Ignoring devcontainer configuration: ${devcontainerError.message}`);
+    }
+
+    // git in the container reaches its remote through our git proxy (I6)
+    env = [...env, ...await issueContainerCredentialEnv(sessionId, environment.repository_url)];
+
     // Create new container with bare repo mounted (worktree will be created inside)
     let container;
     try {
@@ -232,7 +289,11 @@ export class WorktreeManager {
         bareRepoMounts: [{
           hostPath: hostRepoPath,
           containerPath: `/data/repos/${this.environmentId}`
-        }]
+        }],
+        image,
+        resources,
+        env,
+        labels
       });
     } catch (createError: any) {
       // Case 6: Handle unexpected creation conflicts (E12)
@@ -249,7 +310,11 @@ export class WorktreeManager {
           bareRepoMounts: [{
             hostPath: hostRepoPath,
             containerPath: `/data/repos/${this.environmentId}`
-          }]
+          }],
+          image,
+          resources,
+          env,
+          labels
         });
         console.log(`✅ Created container with unique suffix: ${container.id}`);
       } else {
@@ -257,9 +322,16 @@ export class WorktreeManager {
       }
     }
 
+    // Deploy key first: the worktree and lifecycle commands may talk to the remote
+    await this.installDeployKey(container.id);
+
     // Create worktree inside the container
     await this.ensureWorktree(branch, container.id);
 
+    // Devcontainer lifecycle: postCreate once, then postStart for this first start
+    await this.runLifecycleCommands(container.id, 'postCreateCommand', postCreateCommands);
+    await this.runLifecycleCommands(container.id, 'postStartCommand', postStartCommands);
+
     // Update SESSION (not environment) with container ID
     await db
       .updateTable('sessions')
@@ -287,6 +359,60 @@ export class WorktreeManager {
     return this.ensureSessionContainer(sessionId, branch, sessionName, environmentName);
   }
 
+  /**
+   * RUN LIFECYCLE COMMANDS - Devcontainer hooks
+   * ===========================================
+   * 
+   * Runs devcontainer lifecycle commands in /workspace, in order.
+   * A failing command is logged and stops the remaining commands of that
+   * phase, but never fails the session - the terminal stays usable so the
+   * user can fix the setup by hand. Each command is killed after
+   * DEVCONTAINER_COMMAND_TIMEOUT seconds so a hung install cannot hold the
+   * session in 'starting' forever.
+   */
+  private async runLifecycleCommands(containerId: string, phase: string, commands: string[]): Promise<void> {
+    const timeoutMs = config.DEVCONTAINER_COMMAND_TIMEOUT * 1000;
+    for (const command of commands) {
+      console.log(`[Devcontainer] Running ${phase}: ${command}`);
+      try {
+        const { stderr, exitCode, timedOut } = await execInContainer(containerId, command, { cwd: '/workspace', timeoutMs });
+
+        if (timedOut) {
+          console.warn(`⚠️  [Devcontainer] ${phase} timed out after ${config.DEVCONTAINER_COMMAND_TIMEOUT}s: ${command}`);
+          return;
+        }
+        if (exitCode !== 0) {
+          console.warn(`⚠️  [Devcontainer] ${phase} exited with ${exitCode}: ${stderr.trim().split('\n').slice(-5).join('; ')}`);
+          return;
+        }
+      } catch (error: any) {
+        console.warn(`⚠️  [Devcontainer] ${phase} failed: ${error.message}`);
+        return;
+      }
+    }
+
+    if (commands.length > 0) {
+      console.log(`✅ [Devcontainer] ${phase} completed`);
+    }
+  }
+
+  /**
+   * Re-run postStartCommand after a stopped container was started again.
+   * The commands are read from the container's own labels so they match
+   * the configuration the container was created with.
+   */
+  private async runPostStartFromLabels(containerId: string): Promise<void> {
+    try {
+      const info = await getDocker().getContainer(containerId).inspect();
+      const encoded = info.Config.Labels?.[DEVCONTAINER_LABELS.postStartCommand];
+      if (encoded) {
+        await this.runLifecycleCommands(containerId, 'postStartCommand', JSON.parse(encoded));
+      }
+    } catch (error: any) {
+      console.warn(`⚠️  [Devcontainer] Could not run postStartCommand: ${error.message}`);
+    }
+  }
+
   /**
    * CHECK IF CONTAINER HAS WORKTREE - Container validation
    * ======================================================
@@ -297,13 +423,13 @@ export class WorktreeManager {
   private async containerHasWorktree(containerId: string, worktreePath: string, branch: string): Promise<boolean> {
     try {
       // Check if /workspace exists and is a git worktree
-      const { stdout } = await this.execInContainer(containerId, `test -f "${worktreePath}/.git" && echo "exists"`);
+      const { stdout } = await execInContainer(containerId, ['sh', '-c', 'test -f "$1/.git" && echo exists', 'sh', worktreePath]);
       if (!stdout.includes('exists')) {
         return false;
       }
       
       // Check if worktree is for the correct branch
-      const { stdout: branchOutput } = await this.execInContainer(containerId, `cd "${worktreePath}" && git branch --show-current`);
+      const { stdout: branchOutput } = await execInContainer(containerId, ['git', '-C', worktreePath, 'branch', '--show-current']);
       const currentBranch = branchOutput.trim();
       
       return currentBranch === branch;
@@ -337,13 +463,13 @@ export class WorktreeManager {
       
       // Clean existing worktree directory and git worktree registry
       console.log(`[Worktree] Preparing worktree directory at ${worktreePath}`);
-      await this.execInContainer(containerId, `rm -rf "${worktreePath}" && mkdir -p "${worktreePath}"`);
+      await execInContainer(containerId, `rm -rf "${worktreePath}" && mkdir -p "${worktreePath}"`);
       
       // CRITICAL FIX: Clean up any stale worktree registrations for this path
       // This prevents "already registered worktree" errors when containers restart
       try {
-        await this.execInContainer(containerId, `git -C "${repoPath}" worktree remove --force "${worktreePath}" 2>/dev/null || true`);
-        await this.execInContainer(containerId, `git -C "${repoPath}" worktree prune`);
+        await execInContainer(containerId, ['git', '-C', repoPath, 'worktree', 'remove', '--force', worktreePath]);
+        await execInContainer(containerId, ['git', '-C', repoPath, 'worktree', 'prune']);
         console.log(`[Worktree] Cleaned up any stale worktree registrations for ${worktreePath}`);
       } catch (cleanupError) {
         console.log(`[Worktree] Worktree cleanup completed (no stale entries found)`);
@@ -353,7 +479,7 @@ export class WorktreeManager {
       // CRITICAL FIX: Use 'git branch' not 'git branch -r' for bare repos
       // Bare repos don't have remote branches, only local branches that track remotes
       console.log(`[Worktree] Checking available branches in ${repoPath}`);
-      const { stdout: branchList, stderr: branchError } = await this.execInContainer(containerId, `git -C "${repoPath}" branch`);
+      const { stdout: branchList, stderr: branchError } = await execInContainer(containerId, ['git', '-C', repoPath, 'branch']);
       
       if (branchError && !branchError.includes('warning')) {
         throw new Error(`Failed to list branches: ${branchError}`);
@@ -367,8 +493,8 @@ export class WorktreeManager {
       if (branches.length === 0) {
         console.log(`[Worktree] No branches found, attempting to fetch from origin...`);
         try {
-          await this.execInContainer(containerId, `git -C "${repoPath}" fetch origin '+refs/heads/*:refs/heads/*'`);
-          const { stdout: newBranchList } = await this.execInContainer(containerId, `git -C "${repoPath}" branch`);
+          await execInContainer(containerId, ['git', '-C', repoPath, 'fetch', 'origin', '+refs/heads/*:refs/heads/*']);
+          const { stdout: newBranchList } = await execInContainer(containerId, ['git', '-C', repoPath, 'branch']);
           branches = newBranchList.split('\n')
             .map(b => b.trim().replace(/^\*\s*/, '')) // Remove current branch indicator
             .filter(b => b && !b.includes('HEAD'));
@@ -382,23 +508,28 @@ export class WorktreeManager {
         }
       }
       
-      // Determine worktree creation command
-      let createCommand: string;
+      // Determine worktree creation command - an argument vector, so no branch
+      // name is ever read by a shell
+      let createCommand: string[];
       if (branches.includes(branch)) {
         // Branch exists, check it out
-        createCommand = `git -C "${repoPath}" worktree add "${worktreePath}" "${branch}"`;
+        createCommand = ['git', '-C', repoPath, 'worktree', 'add', worktreePath, branch];
         console.log(`[Worktree] Creating worktree for existing branch: ${branch}`);
+      } else if ((await execInContainer(containerId, ['git', '-C', repoPath, 'show-ref', '--verify', '--quiet', `refs/remotes/origin/${branch}`])).exitCode === 0) {
+        // Only on the remote (seen by the background fetch) - start from its tip
+        createCommand = ['git', '-C', repoPath, 'worktree', 'add', '-b', branch, worktreePath, `origin/${branch}`];
+        console.log(`[Worktree] Creating branch ${branch} from origin/${branch}`);
       } else {
         // Branch doesn't exist, create it from default branch
         const defaultBranch = branches.includes('main') ? 'main' : 
                              branches.includes('master') ? 'master' : 
                              branches[0];
-        createCommand = `git -C "${repoPath}" worktree add -b "${branch}" "${worktreePath}" "${defaultBranch}"`;
+        createCommand = ['git', '-C', repoPath, 'worktree', 'add', '-b', branch, worktreePath, defaultBranch];
         console.log(`[Worktree] Creating new branch ${branch} from ${defaultBranch}`);
       }
       
       // Execute worktree creation with comprehensive error handling
-      const { stdout, stderr } = await this.execInContainer(containerId, createCommand);
+      const { stdout, stderr } = await execInContainer(containerId, createCommand);
       
       // Check for errors (git worktree may report issues via stderr even on success)
       if (stderr) {
@@ -433,7 +564,7 @@ export class WorktreeManager {
       }
       
       // Final verification: Check git status works
-      const { stderr: statusError } = await this.execInContainer(containerId, `git -C "${worktreePath}" status --porcelain`);
+      const { stderr: statusError } = await execInContainer(containerId, ['git', '-C', worktreePath, 'status', '--porcelain']);
       if (statusError) {
         throw new Error(`Worktree created but git status failed: ${statusError}`);
       }
@@ -455,13 +586,13 @@ export class WorktreeManager {
    * Handles Case 4: Bare repo not mounted → error with clear message
    */
   private async verifyBareRepoMounted(containerId: string, repoPath: string): Promise<void> {
-    const { stdout, stderr } = await this.execInContainer(containerId, `test -d "${repoPath}" && echo "exists"`);
+    const { stdout, stderr } = await execInContainer(containerId, `test -d "${repoPath}" && echo "exists"`);
     if (!stdout.includes('exists')) {
       throw new Error(`Bare repository not mounted at ${repoPath}. Check container mount configuration.`);
     }
     
     // Verify it's actually a git repository
-    const { stderr: gitError } = await this.execInContainer(containerId, `git -C "${repoPath}" rev-parse --git-dir`);
+    const { stderr: gitError } = await execInContainer(containerId, `git -C "${repoPath}" rev-parse --git-dir`);
     if (gitError) {
       throw new Error(`Directory ${repoPath} exists but is not a valid git repository: ${gitError}`);
     }
@@ -476,7 +607,7 @@ export class WorktreeManager {
    */
   private async verifyMountIsWritable(containerId: string, repoPath: string): Promise<void> {
     const testFile = `${repoPath}/.write-test-${Date.now()}`;
-    const { stderr } = await this.execInContainer(containerId, `touch "${testFile}" && rm "${testFile}"`);
+    const { stderr } = await execInContainer(containerId, `touch "${testFile}" && rm "${testFile}"`);
     
     if (stderr) {
       if (stderr.includes('Read-only file system')) {
@@ -505,7 +636,7 @@ export class WorktreeManager {
    */
   private async verifyWorktreeExists(containerId: string, worktreePath: string): Promise<boolean> {
     try {
-      const { stdout, stderr } = await this.execInContainer(containerId, 
+      const { stdout, stderr } = await execInContainer(containerId, 
         `test -f "${worktreePath}/.git" && git -C "${worktreePath}" rev-parse --is-inside-work-tree`);
       
       if (stderr) {
@@ -518,63 +649,6 @@ export class WorktreeManager {
     }
   }
 
-  /**
-   * EXECUTE COMMAND IN CONTAINER - Container operation helper
-   * ========================================================
-   * 
-   * Executes a command inside a container and returns stdout/stderr.
-   * Used for all container-native git operations.
-   */
-  private async execInContainer(containerId: string, command: string): Promise<{ stdout: string; stderr: string }> {
-    const { getDocker } = await import('./docker');
-    const docker = getDocker();
-    const container = docker.getContainer(containerId);
-    
-    const exec = await container.exec({
-      Cmd: ['/bin/bash', '-c', command],
-      AttachStdout: true,
-      AttachStderr: true,
-      Tty: false,
-    });
-
-    const stream = await exec.start({ Detach: false });
-    
-    return new Promise((resolve, reject) => {
-      let stdout = '';
-      let stderr = '';
-      
-      // Handle Docker's multiplexed stream format
-      stream.on('data', (chunk: Buffer) => {
-        let offset = 0;
-        
-        while (offset < chunk.length) {
-          if (chunk.length - offset < 8) {
-            stdout += chunk.slice(offset).toString('utf8');
-            break;
-          }
-          
-          const streamType = chunk[offset];
-          const size = chunk.readUInt32BE(offset + 4);
-          offset += 8;
-          
-          const payloadEnd = Math.min(offset + size, chunk.length);
-          const payload = chunk.slice(offset, payloadEnd).toString('utf8');
-          
-          if (streamType === 1) {
-            stdout += payload;
-          } else if (streamType === 2) {
-            stderr += payload;
-          }
-          
-          offset = payloadEnd;
-        }
-      });
-      
-      stream.on('end', () => resolve({ stdout, stderr }));
-      stream.on('error', reject);
-    });
-  }
-
   /**
    * FIND WORKTREE FOR BRANCH - Query operation
    * =========================================
@@ -590,7 +664,7 @@ export class WorktreeManager {
     const repoPath = path.join(this.dataDir, 'repos', this.environmentId);
     
     try {
-      const { stdout } = await execAsync(`git -C "${repoPath}" worktree list --porcelain`);
+      const { stdout } = await execFileAsync('git', ['-C', repoPath, 'worktree', 'list', '--porcelain']);
       const worktrees = this.parseWorktreeList(stdout);
       
       return worktrees.find(w => w.branch === branch && !w.bare) || null;
@@ -620,12 +694,12 @@ export class WorktreeManager {
     
     try {
       // Create worktree
-      await execAsync(`git -C "${repoPath}" worktree add "${worktreePath}" "${branch}"`);
+      await execFileAsync('git', ['-C', repoPath, 'worktree', 'add', worktreePath, branch]);
       return worktreePath;
     } catch (error) {
       // If branch doesn't exist, create it from default branch
       try {
-        await execAsync(`git -C "${repoPath}" worktree add -b "${branch}" "${worktreePath}"`);
+        await execFileAsync('git', ['-C', repoPath, 'worktree', 'add', '-b', branch, worktreePath]);
         return worktreePath;
       } catch (createError) {
         throw new Error(`Failed to create worktree for branch ${branch}: ${createError}`);
@@ -648,7 +722,7 @@ export class WorktreeManager {
     const repoPath = path.join(this.dataDir, 'repos', this.environmentId);
     
     try {
-      await execAsync(`git -C "${repoPath}" worktree remove --force "${worktreePath}"`);
+      await execFileAsync('git', ['-C', repoPath, 'worktree', 'remove', '--force', worktreePath]);
     } catch (error) {
       // Worktree might not exist in git - try to remove directory
       try {
@@ -679,12 +753,54 @@ export class WorktreeManager {
    * Invariants:
    * - I1: Repository path is always under dataDir/repos/
    * - I2: Returned repository is always a valid bare git repository
+   * - I3: Clone and fetch authenticate with the environment's deploy key for
+   *       SSH remotes, else the owner's git provider connection for the
+   *       remote's host (deploy-keys.ts, git-connections.ts)
+   * - I4: origin follows use_ssh_clone - the SSH form of repository_url when set
+   * - I5: host git gets repository_url as an argument, never through a shell
    * 
    * Error Cases:
    * - E8: Empty bare repo → Fetch all remote branches automatically
    * - E10: Invalid repository URL → Clear error with URL validation
    * - E11: Network failure → Graceful degradation with warning
    */
+  // Host-side git against the environment's remote: deploy key or owner's connection (I3)
+  private async withRemoteAuth<T>(run: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+    const auth = await environmentGitAuth(this.environmentId);
+    try {
+      return await run({ ...process.env, ...auth.env });
+    } finally {
+      await auth.cleanup();
+    }
+  }
+
+  // The environment's deploy key in a session container (I7); never fails the session
+  private async installDeployKey(containerId: string): Promise<void> {
+    try {
+      await syncContainerDeployKey(containerId, this.environmentId);
+    } catch (error: any) {
+      console.warn(`⚠️  Could not install deploy key in ${containerId}: ${error.message}`);
+    }
+  }
+
+  private async syncOriginUrl(repoPath: string): Promise<void> {
+    try {
+      const environment = await getDatabase()
+        .selectFrom('environments')
+        .select(['repository_url', 'use_ssh_clone'])
+        .where('id', '=', this.environmentId)
+        .executeTakeFirst();
+      const remoteUrl = environment ? environmentRemoteUrl(environment) : null;
+      const { stdout } = await execFileAsync('git', ['-C', repoPath, 'remote', 'get-url', 'origin']);
+      if (remoteUrl && stdout.trim() !== remoteUrl) {
+        await execFileAsync('git', ['-C', repoPath, 'remote', 'set-url', '--', 'origin', remoteUrl]);
+        console.log(`✅ Pointed origin of ${repoPath} at ${remoteUrl}`);
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ Could not update origin URL: ${error.message}`);
+    }
+  }
+
   private async ensureBareRepository(): Promise<string> {
     const db = getDatabase();
     const repoPath = path.join(this.dataDir, 'repos', this.environmentId);
@@ -692,13 +808,18 @@ export class WorktreeManager {
     // Case 1: Check if repository already exists
     try {
       await fs.access(path.join(repoPath, 'config'));
+
+      // I4: use_ssh_clone may have changed since the clone
+      await this.syncOriginUrl(repoPath);
       
       // Case 2: Verify repository has branches (E8 fix)
       try {
-        const { stdout } = await execAsync(`git -C "${repoPath}" branch -r`);
+        const { stdout } = await execFileAsync('git', ['-C', repoPath, 'branch', '-r']);
         if (!stdout || stdout.trim() === '') {
           console.log(`[Repo] Bare repository exists but has no branches, fetching...`);
-          await execAsync(`git -C "${repoPath}" fetch origin '+refs/heads/*:refs/heads/*'`);
+          await this.withRemoteAuth(env =>
+            execFileAsync('git', ['-C', repoPath, 'fetch', 'origin', '+refs/heads/*:refs/heads/*'], { env })
+          );
           console.log(`✅ Fetched branches for existing bare repository`);
         }
       } catch (fetchError: any) {
@@ -718,7 +839,8 @@ export class WorktreeManager {
       .where('id', '=', this.environmentId)
       .executeTakeFirst();
 
-    if (!environment?.repository_url) {
+    const remoteUrl = environment ? environmentRemoteUrl(environment) : null;
+    if (!remoteUrl) {
       throw new Error(`Environment ${this.environmentId} has no repository URL`);
     }
 
@@ -726,19 +848,20 @@ export class WorktreeManager {
     await fs.mkdir(path.dirname(repoPath), { recursive: true });
     
     try {
-      // Clone bare repository
-      await execAsync(`git clone --bare "${environment.repository_url}" "${repoPath}"`);
-      console.log(`✅ Created bare repository at ${repoPath}`);
-      
-      // Case E8: Ensure all remote branches are fetched as local branches
-      try {
-        await execAsync(`git -C "${repoPath}" fetch origin '+refs/heads/*:refs/heads/*'`);
-        console.log(`✅ Fetched all remote branches to bare repository`);
-      } catch (fetchError: any) {
-        console.warn(`⚠️ Could not fetch branches after clone: ${fetchError.message}`);
-        // Continue - repository may work with default branches from clone
-      }
-      
+      await this.withRemoteAuth(async env => {
+        // Clone bare repository
+        await execFileAsync('git', ['clone', '--bare', '--', remoteUrl, repoPath], { env });
+        console.log(`✅ Created bare repository at ${repoPath}`);
+
+        // Case E8: Ensure all remote branches are fetched as local branches
+        try {
+          await execFileAsync('git', ['-C', repoPath, 'fetch', 'origin', '+refs/heads/*:refs/heads/*'], { env });
+          console.log(`✅ Fetched all remote branches to bare repository`);
+        } catch (fetchError: any) {
+          console.warn(`⚠️ Could not fetch branches after clone: ${fetchError.message}`);
+          // Continue - repository may work with default branches from clone
+        }
+      });
     } catch (cloneError: any) {
       // Case 4: Clone failed - clean up and throw descriptive error
       try {
@@ -746,12 +869,37 @@ export class WorktreeManager {
       } catch (cleanupError) {
         // Ignore cleanup errors
       }
-      throw new Error(`Failed to clone repository "${environment.repository_url}": ${cloneError.message}`);
+      throw new Error(`Failed to clone repository "${remoteUrl}": ${cloneError.message}`);
     }
     
     return repoPath;
   }
 
+  /**
+   * ENSURE REPOSITORY - Host path of the environment's bare repository
+   * =================================================================
+   *
+   * {P: environment has a repository_url}
+   * ensureRepository()
+   * {Q: returns a host path p ∧ bare_repo_exists(p)}
+   *
+   * Branch operations run against this path; containers see the same
+   * repository at /data/repos/{env_id}.
+   */
+  async ensureRepository(): Promise<string> {
+    return this.ensureBareRepository();
+  }
+
+  // Whether the bare repository was cloned already; never clones
+  async hasRepository(): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.dataDir, 'repos', this.environmentId, 'config'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * PARSE WORKTREE LIST - Utility function
    * =====================================
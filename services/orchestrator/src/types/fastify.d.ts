@@ -2,17 +2,27 @@ import '@fastify/jwt'
 
 declare module '@fastify/jwt' {
   interface FastifyJWT {
-    payload: {
-      sub: string; // user ID  
-      email: string;
-      name: string;
-      emailVerified: boolean;
-    }
+    payload:
+      | {
+          sub: string; // user ID  
+          email: string;
+          name: string;
+          emailVerified: boolean;
+          scope?: undefined;
+          sid?: undefined;
+        }
+      | {
+          sub: string;       // user ID
+          scope: 'preview';  // Restricted tokens (e.g. preview cookies) are rejected by the API
+          sid: string;       // Session a scoped token is bound to
+        }
     user: {
       sub: string; // user ID
       email: string;
       name: string;
       emailVerified: boolean;
+      scope?: 'preview';
+      sid?: string;
     }
   }
-}
\ No newline at end of file
+}